@@ -36,6 +36,130 @@ export const JWT_CONFIG = {
   expiresIn: '7d',
 };
 
+// Cart calculation cache settings
+export const CART_CALCULATION_CACHE_CONFIG = {
+  ttl: 5 * 60 * 1000, // 5 minutes
+  maxEntries: 1000,
+  keyPrefix: 'cart-calculation:',
+};
+
+// Stock allocation across stock locations
+export const INVENTORY_ALLOCATION_CONFIG = {
+  strategy: 'nearest' as 'nearest' | 'priority', // nearest to the shipping address or location priority order
+  allowSplit: true, // allow a line to be allocated from several locations
+};
+
+// Low stock alert delivery, alerts go to the email recipients and the webhook
+export const LOW_STOCK_ALERT_CONFIG = {
+  delivery: (process.env.LOW_STOCK_ALERT_DELIVERY || 'immediate') as 'immediate' | 'digest', // one alert per product or a daily digest
+  recipients: (process.env.LOW_STOCK_ALERT_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim())
+    .filter(Boolean),
+  webhookUrl: process.env.LOW_STOCK_ALERT_WEBHOOK_URL || '',
+};
+
+// Reorder suggestions from the inventory decrease velocity
+export const REORDER_SUGGESTION_CONFIG = {
+  velocityWindowDays: 30, // history used to measure the daily sales velocity
+  leadTimeDays: 7, // days until a purchase order arrives
+  safetyStockDays: 7, // extra cover held against demand spikes
+  targetCoverDays: 30, // days of cover a reorder should buy after it arrives
+};
+
+// Automated payments through the registered payment gateways
+export const PAYMENT_GATEWAY_CONFIG = {
+  captureMethod: (process.env.PAYMENT_CAPTURE_METHOD || 'automatic') as 'automatic' | 'manual', // capture right after authorization or on admin request
+  webhookSecrets: {
+    sandbox: process.env.PAYMENT_WEBHOOK_SECRET_SANDBOX || '',
+  } as Record<string, string>, // HMAC secret of the webhook events of each gateway code
+};
+
+// Refund approval
+export const REFUND_CONFIG = {
+  approverRoles: ['admin'], // users-permissions role types allowed to approve refunds, API tokens always are
+};
+
+// Order lifecycle, the transitions themselves are defined in the order state machine
+export const ORDER_STATE_MACHINE_CONFIG = {
+  expectedDurations: {
+    pending: 1,
+    confirmed: 24,
+    processing: 48,
+    shipping: 120,
+  } as Record<string, number>, // hours an order is expected to stay in a status, recorded on its order-status rows
+  notifyCustomer: true, // email the customer on the transitions with a notification hook
+};
+
+// Return policy of delivered orders
+export const RETURN_POLICY_CONFIG = {
+  windowDays: Number(process.env.RETURN_WINDOW_DAYS) || 30, // days after delivery a return can be requested
+};
+
+// Checkout completion, cart lines are repriced and checked against stock before the order is placed
+export const CHECKOUT_REVALIDATION_CONFIG = {
+  priceTolerancePercent: Number(process.env.CHECKOUT_PRICE_TOLERANCE_PERCENT) || 0, // price drift accepted without asking the customer again
+};
+
+// Abandoned checkout recovery, inactive checkouts are marked abandoned and their customers reminded by email
+export const CHECKOUT_RECOVERY_CONFIG = {
+  inactivityMinutes: Number(process.env.CHECKOUT_ABANDON_AFTER_MINUTES) || 60, // minutes without checkout activity before a checkout is abandoned
+  reminderDelayHours: [1, 24, 72], // hours after abandonment each reminder is sent
+  campaign: 'abandoned-checkout', // campaign recovered orders are attributed to
+  restoreUrl: process.env.CHECKOUT_RESTORE_URL || 'http://localhost:3000/checkout/restore', // storefront page the restore link opens
+  restoreTokenSecret: process.env.CHECKOUT_RESTORE_SECRET || '', // HMAC secret of the restore links, no reminders are sent without it
+  restoreTokenTtlDays: 7, // days a restore link stays valid
+  restoredSessionTtlHours: 24, // hours the guest session issued by a restore link stays valid
+  attributionWindowDays: 7, // days after a restore an order is attributed to the campaign
+  batchSize: 100, // checkouts processed per job run
+};
+
+// Transactional notifications, see src/api/notification
+export const NOTIFICATION_CONFIG = {
+  defaultLocale: 'en', // locale used when the user has no language preference or it has no template text
+  adapters: {
+    email: process.env.NOTIFICATION_EMAIL_ADAPTER || 'email',
+    sms: process.env.NOTIFICATION_SMS_ADAPTER || '',
+    push: process.env.NOTIFICATION_PUSH_ADAPTER || '',
+    webhook: process.env.NOTIFICATION_WEBHOOK_ADAPTER || 'webhook',
+  } as Record<string, string>, // adapter each channel sends through, a channel without one is off. console and file only deliver outside production
+  outboxDir: process.env.NOTIFICATION_OUTBOX_DIR || '.tmp/notifications', // where the file adapter writes
+  webhookUrl: process.env.NOTIFICATION_WEBHOOK_URL || '', // webhook channel target, the channel is off without it
+  webhookSecret: process.env.NOTIFICATION_WEBHOOK_SECRET || '', // HMAC secret of the webhook signature header
+};
+
+// Order editing after placement by support and admin users
+export const ORDER_EDIT_CONFIG = {
+  editableStatuses: ['pending', 'confirmed'], // orders being prepared or shipped can no longer be edited
+};
+
+// Order cancellation, unpaid orders are cancelled once their payment expires
+export const ORDER_CANCELLATION_CONFIG = {
+  paymentTimeoutMinutes: Number(process.env.ORDER_PAYMENT_TIMEOUT_MINUTES) || 30, // stock reservations of the order expire at the same deadline
+  notifyCustomer: true, // email the customer when the order is cancelled
+};
+
+// Scheduled background jobs, schedules are cron expressions
+export const SCHEDULED_JOB_CONFIG = {
+  lockTtl: 30 * 60 * 1000, // 30 minutes, a crashed instance's lock expires after this
+  jobs: {
+    'expire-stock-reservations': { schedule: '*/5 * * * *', enabled: true },
+    'cleanup-expired-carts': { schedule: '0 * * * *', enabled: true },
+    'retry-payment-confirmations': { schedule: '*/15 * * * *', enabled: true },
+    'cancel-unpaid-orders': { schedule: '*/5 * * * *', enabled: true },
+    'cleanup-checkout-activity': { schedule: '0 2 * * *', enabled: true },
+    'detect-abandoned-checkouts': { schedule: '*/10 * * * *', enabled: true },
+    'send-checkout-recovery-reminders': { schedule: '*/15 * * * *', enabled: true },
+    'cleanup-order-history': { schedule: '0 3 * * 0', enabled: true },
+    'cleanup-order-tracking': { schedule: '30 3 * * 0', enabled: true },
+    'poll-carrier-tracking': { schedule: '*/15 * * * *', enabled: true },
+    'anonymize-user-activity': { schedule: '0 4 * * *', enabled: true },
+    'send-daily-notification-digests': { schedule: '0 8 * * *', enabled: true },
+    'send-weekly-notification-digests': { schedule: '0 8 * * 1', enabled: true },
+    'low-stock-digest': { schedule: '0 7 * * *', enabled: LOW_STOCK_ALERT_CONFIG.delivery === 'digest' },
+  } as Record<string, { schedule: string; enabled: boolean }>,
+};
+
 // Content types for different permission levels
 export const CONTENT_TYPES = {
   public: [
@@ -112,6 +236,30 @@ export const PUBLIC_CUSTOM_PERMISSIONS = [
     properties: {},
     conditions: [],
   },
+  {
+    action: 'api::cart.cart.applyDiscountCode',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::cart.cart.removeDiscountCode',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::cart.cart.setCurrency',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::currency.currency.getActive',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
   {
     action: 'api::address.address.findByType',
     subject: null,
@@ -238,12 +386,54 @@ export const PUBLIC_CUSTOM_PERMISSIONS = [
     properties: {},
     conditions: [],
   },
+  {
+    action: 'api::checkout.checkout.getShippingMethods',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.getSession',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.updateSession',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.completeStep',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.previousStep',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.restoreCheckout',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
   {
     action: 'api::payment.payment.createPayment',
     subject: null,
     properties: {},
     conditions: [],
   },
+  {
+    action: 'api::payment.payment.authorizePayment',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
   {
     action: 'api::payment-method.payment-method.getActive',
     subject: null,
@@ -268,6 +458,18 @@ export const PUBLIC_CUSTOM_PERMISSIONS = [
     properties: {},
     conditions: [],
   },
+  {
+    action: 'api::return-request.return-request.request',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::return-request.return-request.mine',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
   {
     action: 'api::order.order.find',
     subject: null,
@@ -560,6 +762,30 @@ export const AUTHENTICATED_CUSTOM_PERMISSIONS = [
     properties: {},
     conditions: [],
   },
+  {
+    action: 'api::cart.cart.applyDiscountCode',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::cart.cart.removeDiscountCode',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::cart.cart.setCurrency',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::currency.currency.getActive',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
   {
     action: 'api::checkout.checkout.create',
     subject: null,
@@ -584,12 +810,54 @@ export const AUTHENTICATED_CUSTOM_PERMISSIONS = [
     properties: {},
     conditions: [],
   },
+  {
+    action: 'api::checkout.checkout.getShippingMethods',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.getSession',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.updateSession',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.completeStep',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.previousStep',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::checkout.checkout.restoreCheckout',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
   {
     action: 'api::payment.payment.createPayment',
     subject: null,
     properties: {},
     conditions: [],
   },
+  {
+    action: 'api::payment.payment.authorizePayment',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
   {
     action: 'api::payment-comment.payment-comment.getCommentsByPayment',
     subject: null,
@@ -615,6 +883,18 @@ export const AUTHENTICATED_CUSTOM_PERMISSIONS = [
     properties: {},
     conditions: [],
   },
+  {
+    action: 'api::return-request.return-request.request',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
+  {
+    action: 'api::return-request.return-request.mine',
+    subject: null,
+    properties: {},
+    conditions: [],
+  },
   {
     action: 'api::order.order.find',
     subject: null,
@@ -5,7 +5,12 @@ export default [
   'strapi::cors',
   'strapi::poweredBy',
   'strapi::query',
-  'strapi::body',
+  {
+    name: 'strapi::body',
+    config: {
+      includeUnparsed: true, // raw body, used to verify payment webhook signatures
+    },
+  },
   'strapi::session',
   'strapi::favicon',
   'strapi::public',
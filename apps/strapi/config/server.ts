@@ -4,6 +4,9 @@ export default ({ env }) => ({
   app: {
     keys: env.array('APP_KEYS'),
   },
+  cron: {
+    enabled: env.bool('CRON_ENABLED', true),
+  },
   watchIgnoreFiles: [
     './tests/**', // Ignores all files within a 'tests' directory at the project root
     '**/__tests__/**', // Ignores all '__tests__' directories anywhere in the project
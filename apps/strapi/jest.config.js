@@ -3,8 +3,8 @@ export default {
   testMatch: ['**/*.test.ts', '**/*.test.js', '**/*.spec.ts', '**/*.spec.js'],
   testPathIgnorePatterns: [
     '/node_modules/',
-    '.tmp',
-    '.cache',
+    '/\\.tmp/',
+    '/\\.cache/',
     '/dist/',
     '/build/',
     '/.strapi/',
@@ -8,6 +8,8 @@
  * - Remove items from cart
  * - Clear cart
  * - Calculate cart totals
+ * - Apply and remove discount codes
+ * - Change the cart currency
  */
 
 import { factories } from '@strapi/strapi'
@@ -255,6 +257,7 @@ export default factories.createCoreController('api::cart.cart', ({ strapi }) =>
       }
 
       // Recalculate cart totals
+      await cartCalculationService.clearCalculationCache(cart.documentId);
       const updatedCart = await strapi.documents('api::cart.cart').findOne({
         documentId: cart.documentId,
         populate: {
@@ -278,7 +281,8 @@ export default factories.createCoreController('api::cart.cart', ({ strapi }) =>
           subtotal: calculation.subtotal,
           tax: calculation.tax,
           shipping: calculation.shipping,
-          total: calculation.total
+          total: calculation.total,
+          discountAmount: calculation.discount
         }
       });
 
@@ -376,6 +380,7 @@ export default factories.createCoreController('api::cart.cart', ({ strapi }) =>
       });
 
       // Recalculate cart totals
+      await cartCalculationService.clearCalculationCache(cartItem.cart.documentId);
       const cart = await strapi.documents('api::cart.cart').findOne({
         documentId: cartItem.cart.documentId,
         populate: {
@@ -401,7 +406,8 @@ export default factories.createCoreController('api::cart.cart', ({ strapi }) =>
           subtotal: calculation.subtotal,
           tax: calculation.tax,
           shipping: calculation.shipping,
-          total: calculation.total
+          total: calculation.total,
+          discountAmount: calculation.discount
         }
       });
 
@@ -461,6 +467,7 @@ export default factories.createCoreController('api::cart.cart', ({ strapi }) =>
       });
 
       // Recalculate cart totals
+      await cartCalculationService.clearCalculationCache(cartItem.cart.documentId);
       const cart = await strapi.documents('api::cart.cart').findOne({
         documentId: cartItem.cart.documentId,
         populate: {
@@ -486,7 +493,8 @@ export default factories.createCoreController('api::cart.cart', ({ strapi }) =>
           subtotal: calculation.subtotal,
           tax: calculation.tax,
           shipping: calculation.shipping,
-          total: calculation.total
+          total: calculation.total,
+          discountAmount: calculation.discount
         }
       });
 
@@ -541,6 +549,7 @@ export default factories.createCoreController('api::cart.cart', ({ strapi }) =>
       }
 
       // Reset cart totals
+      await cartCalculationService.clearCalculationCache(cart.documentId);
       await strapi.documents('api::cart.cart').update({
         documentId: cart.documentId,
         data: {
@@ -616,6 +625,128 @@ export default factories.createCoreController('api::cart.cart', ({ strapi }) =>
     }
   },
 
+  /**
+   * Apply discount code to cart
+   */
+  async applyDiscountCode(ctx) {
+    try {
+      const { user } = ctx.state;
+      const { sessionId } = ctx.query;
+      const { code } = ctx.request.body;
+      const cartPersistenceService = strapi.service('api::cart.cart-persistence');
+      const cartCalculationService = strapi.service('api::cart.cart-calculation');
+      const promotionService = strapi.service('api::promotion.promotion');
+
+      if (!code || typeof code !== 'string') {
+        return ctx.badRequest('Discount code is required');
+      }
+
+      let cart = null;
+      if (user) {
+        cart = await cartPersistenceService.getCartByUserId(user.id);
+      } else if (sessionId) {
+        cart = await cartPersistenceService.getCartBySessionId(sessionId);
+      }
+
+      if (!cart) {
+        return ctx.notFound('Cart not found');
+      }
+
+      const items = cart.items || [];
+      const evaluation = await promotionService.evaluateCode({
+        code,
+        items,
+        subtotal: cartCalculationService.calculateSubtotal(items),
+        shipping: cart.shipping || 0,
+        customer: {
+          userId: user?.id,
+          sessionId: user ? null : sessionId
+        }
+      });
+
+      if (!evaluation.isValid) {
+        return ctx.badRequest('Discount code cannot be applied', { errors: evaluation.errors });
+      }
+
+      const calculation = await cartCalculationService.calculateCartTotals(cart, {
+        discountCode: evaluation.code
+      });
+
+      await strapi.documents('api::cart.cart').update({
+        documentId: cart.documentId,
+        data: {
+          subtotal: calculation.subtotal,
+          tax: calculation.tax,
+          shipping: calculation.shipping,
+          total: calculation.total,
+          discountCode: evaluation.code,
+          discountAmount: calculation.discount
+        }
+      });
+
+      return {
+        data: {
+          discountCode: evaluation.code,
+          freeShipping: evaluation.freeShipping,
+          calculation
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error applying discount code:', error);
+      ctx.throw(500, 'Failed to apply discount code');
+    }
+  },
+
+  /**
+   * Remove discount code from cart
+   */
+  async removeDiscountCode(ctx) {
+    try {
+      const { user } = ctx.state;
+      const { sessionId } = ctx.query;
+      const cartPersistenceService = strapi.service('api::cart.cart-persistence');
+      const cartCalculationService = strapi.service('api::cart.cart-calculation');
+
+      let cart = null;
+      if (user) {
+        cart = await cartPersistenceService.getCartByUserId(user.id);
+      } else if (sessionId) {
+        cart = await cartPersistenceService.getCartBySessionId(sessionId);
+      }
+
+      if (!cart) {
+        return ctx.notFound('Cart not found');
+      }
+
+      const calculation = await cartCalculationService.calculateCartTotals({
+        ...cart,
+        discountCode: null
+      });
+
+      await strapi.documents('api::cart.cart').update({
+        documentId: cart.documentId,
+        data: {
+          subtotal: calculation.subtotal,
+          tax: calculation.tax,
+          shipping: calculation.shipping,
+          total: calculation.total,
+          discountCode: null,
+          discountAmount: 0
+        }
+      });
+
+      return {
+        data: {
+          message: 'Discount code removed',
+          calculation
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error removing discount code:', error);
+      ctx.throw(500, 'Failed to remove discount code');
+    }
+  },
+
   /**
    * Migrate guest cart to user cart
    */
@@ -655,5 +786,63 @@ export default factories.createCoreController('api::cart.cart', ({ strapi }) =>
       strapi.log.error('Error migrating guest cart:', error);
       ctx.throw(500, 'Failed to migrate guest cart');
     }
+  },
+
+  /**
+   * Change the currency the cart is priced in
+   */
+  async setCurrency(ctx) {
+    try {
+      const { user } = ctx.state;
+      const { sessionId } = ctx.query;
+      const { currency } = ctx.request.body;
+      const cartPersistenceService = strapi.service('api::cart.cart-persistence');
+      const cartCalculationService = strapi.service('api::cart.cart-calculation');
+      const currencyService = strapi.service('api::currency.currency');
+
+      if (!currency || typeof currency !== 'string') {
+        return ctx.badRequest('Currency is required');
+      }
+
+      if (!(await currencyService.isSupported(currency))) {
+        return ctx.badRequest(`Currency ${currency} is not supported`);
+      }
+
+      let cart = null;
+      if (user) {
+        cart = await cartPersistenceService.getCartByUserId(user.id);
+      } else if (sessionId) {
+        cart = await cartPersistenceService.getCartBySessionId(sessionId);
+      }
+
+      if (!cart) {
+        return ctx.notFound('Cart not found');
+      }
+
+      const updatedCart = { ...cart, currency: currency.toUpperCase() };
+      const calculation = await cartCalculationService.calculateCartTotals(updatedCart);
+
+      await strapi.documents('api::cart.cart').update({
+        documentId: cart.documentId,
+        data: {
+          currency: calculation.currency,
+          subtotal: calculation.subtotal,
+          tax: calculation.tax,
+          shipping: calculation.shipping,
+          total: calculation.total,
+          discountAmount: calculation.discount
+        }
+      });
+
+      return {
+        data: {
+          ...updatedCart,
+          calculation
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error setting cart currency:', error);
+      ctx.throw(500, 'Failed to set cart currency');
+    }
   }
 }));
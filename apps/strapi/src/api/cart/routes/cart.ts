@@ -48,6 +48,37 @@ export default {
         policies: ['global::is-public']
       }
     },
+
+    // Apply discount code to cart
+    {
+      method: 'POST',
+      path: '/carts/discount',
+      handler: 'cart.applyDiscountCode',
+      config: {
+        policies: ['global::is-public']
+      }
+    },
+
+    // Remove discount code from cart
+    {
+      method: 'DELETE',
+      path: '/carts/discount',
+      handler: 'cart.removeDiscountCode',
+      config: {
+        policies: ['global::is-public']
+      }
+    },
+
+    // Change cart currency
+    {
+      method: 'POST',
+      path: '/carts/currency',
+      handler: 'cart.setCurrency',
+      config: {
+        policies: ['global::is-public']
+      }
+    },
+
     // Remove cart only for admin
     {
       method: 'DELETE',
@@ -0,0 +1,234 @@
+/**
+ * Cart Calculation Cache tests
+ *
+ * Tests for the LRU and Redis-compatible adapters, fingerprinting
+ * and cache invalidation
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createCalculationCache, {
+  createMemoryCacheAdapter,
+  createRedisCacheAdapter,
+} from './calculation-cache';
+
+const mockDocumentMethods = {
+  findMany: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  db: {
+    lifecycles: {
+      subscribe: jest.fn(),
+    },
+  },
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const cart = {
+  documentId: 'cart-1',
+  currency: 'USD',
+  items: [
+    { documentId: 'item-1', quantity: 2, price: 1000, total: 2000 },
+    { documentId: 'item-2', quantity: 1, price: 500, total: 500 },
+  ],
+};
+
+const calculation = {
+  subtotal: 2500,
+  tax: 0,
+  shipping: 0,
+  discount: 0,
+  total: 2500,
+  currency: 'USD',
+  calculationTimestamp: new Date('2025-01-01T00:00:00Z'),
+};
+
+describe('Cart Calculation Cache', () => {
+  let cache: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDocumentMethods.findMany.mockReset();
+
+    cache = createCalculationCache({ strapi: mockStrapi });
+    // Bind methods for proper `this` context
+    Object.keys(cache).forEach(key => {
+      cache[key] = cache[key].bind(cache);
+    });
+  });
+
+  describe('createMemoryCacheAdapter', () => {
+    it('should evict the least recently used entry', async () => {
+      const adapter = createMemoryCacheAdapter(2);
+
+      await adapter.set('a', '1', 1000);
+      await adapter.set('b', '2', 1000);
+      await adapter.get('a');
+      await adapter.set('c', '3', 1000);
+
+      expect(await adapter.get('a')).toBe('1');
+      expect(await adapter.get('b')).toBeNull();
+      expect(await adapter.get('c')).toBe('3');
+    });
+
+    it('should expire entries after their ttl', async () => {
+      const adapter = createMemoryCacheAdapter();
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+      await adapter.set('a', '1', 500);
+      now.mockReturnValue(1600);
+
+      expect(await adapter.get('a')).toBeNull();
+      now.mockRestore();
+    });
+  });
+
+  describe('createRedisCacheAdapter', () => {
+    it('should store entries with a millisecond expiry', async () => {
+      const client = {
+        get: jest.fn(async (_key: string) => 'value'),
+        set: jest.fn(async (_key: string, _value: string, _mode: 'PX', _ttl: number) => 'OK'),
+        del: jest.fn(async (_key: string) => 1),
+      };
+      const adapter = createRedisCacheAdapter(client);
+
+      await adapter.set('key', 'value', 1000);
+      await adapter.delete('key');
+
+      expect(await adapter.get('key')).toBe('value');
+      expect(client.set).toHaveBeenCalledWith('key', 'value', 'PX', 1000);
+      expect(client.del).toHaveBeenCalledWith('key');
+    });
+  });
+
+  describe('createFingerprint', () => {
+    it('should not depend on item order', () => {
+      const reversed = { ...cart, items: [...cart.items].reverse() };
+
+      expect(cache.createFingerprint(reversed)).toBe(cache.createFingerprint(cart));
+    });
+
+    it('should change with quantities, address, method, discount code and exchange rate', () => {
+      const fingerprint = cache.createFingerprint(cart);
+      const updatedCart = {
+        ...cart,
+        items: [{ ...cart.items[0], quantity: 3 }, cart.items[1]],
+      };
+
+      expect(cache.createFingerprint(updatedCart)).not.toBe(fingerprint);
+      expect(cache.createFingerprint(cart, { shippingAddress: 'address-1' })).not.toBe(fingerprint);
+      expect(cache.createFingerprint(cart, { shippingMethod: 'express' })).not.toBe(fingerprint);
+      expect(cache.createFingerprint(cart, { discountCode: 'SAVE10' })).not.toBe(fingerprint);
+      expect(cache.createFingerprint(cart, { exchangeRate: 0.92 })).not.toBe(cache.createFingerprint(cart, { exchangeRate: 0.95 }));
+    });
+  });
+
+  describe('get/set/invalidate', () => {
+    it('should return cached calculations for the same fingerprint only', async () => {
+      const fingerprint = cache.createFingerprint(cart);
+
+      await cache.set('cart-1', fingerprint, calculation);
+
+      const cached = await cache.get('cart-1', fingerprint);
+      expect(cached).toEqual(calculation);
+      expect(cached.calculationTimestamp).toBeInstanceOf(Date);
+      expect(await cache.get('cart-1', 'other-fingerprint')).toBeNull();
+    });
+
+    it('should drop the cached calculation of a cart', async () => {
+      const fingerprint = cache.createFingerprint(cart);
+      await cache.set('cart-1', fingerprint, calculation);
+
+      await cache.invalidate('cart-1');
+
+      expect(await cache.get('cart-1', fingerprint)).toBeNull();
+    });
+
+    it('should use a plugged in adapter', async () => {
+      const adapter = {
+        get: jest.fn(async (_key: string) => null),
+        set: jest.fn(async (_key: string, _value: string, _ttl: number) => {}),
+        delete: jest.fn(async (_key: string) => {}),
+      };
+      cache.setAdapter(adapter);
+
+      await cache.set('cart-1', 'fingerprint', calculation);
+
+      expect(adapter.set).toHaveBeenCalledWith(
+        'cart-calculation:cart-1',
+        expect.any(String),
+        5 * 60 * 1000
+      );
+    });
+  });
+
+  describe('invalidateByProduct', () => {
+    it('should invalidate every cart containing a variant', async () => {
+      const fingerprint = cache.createFingerprint(cart);
+      await cache.set('cart-1', fingerprint, calculation);
+      await cache.set('cart-2', fingerprint, calculation);
+      mockDocumentMethods.findMany.mockResolvedValue([
+        { cart: { documentId: 'cart-1' } },
+        { cart: { documentId: 'cart-1' } },
+      ]);
+
+      await cache.invalidateByProduct({ variantId: 'variant-7' });
+
+      expect(mockDocumentMethods.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        filters: { deletedAt: { $null: true }, variant: { documentId: 'variant-7' } },
+      }));
+      expect(await cache.get('cart-1', fingerprint)).toBeNull();
+      expect(await cache.get('cart-2', fingerprint)).toEqual(calculation);
+    });
+
+    it('should match listings by documentId', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([]);
+
+      await cache.invalidateByProduct({ productListingId: 'listing-1' });
+
+      expect(mockDocumentMethods.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        filters: { deletedAt: { $null: true }, productListing: { documentId: 'listing-1' } },
+      }));
+    });
+  });
+
+  describe('invalidateAll', () => {
+    it('should drop the cached calculations of every cart', async () => {
+      const fingerprint = cache.createFingerprint(cart);
+      await cache.set('cart-1', fingerprint, calculation);
+      await cache.set('cart-2', fingerprint, calculation);
+
+      await cache.invalidateAll();
+
+      expect(await cache.get('cart-1', fingerprint)).toBeNull();
+      expect(await cache.get('cart-2', fingerprint)).toBeNull();
+
+      await cache.set('cart-1', fingerprint, calculation);
+      expect(await cache.get('cart-1', fingerprint)).toEqual(calculation);
+    });
+
+    it('should invalidate on promotion, tax and shipping changes', async () => {
+      const fingerprint = cache.createFingerprint(cart);
+      await cache.set('cart-1', fingerprint, calculation);
+
+      cache.subscribeToPricingChanges();
+
+      const subscriber = mockStrapi.db.lifecycles.subscribe.mock.calls[0][0];
+      expect(subscriber.models).toEqual(expect.arrayContaining([
+        'api::promotion.promotion',
+        'api::tax.tax-rate',
+        'api::shipping.shipping-method',
+      ]));
+
+      await subscriber.afterUpdate({});
+
+      expect(await cache.get('cart-1', fingerprint)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Cart Calculation Cache Service
+ *
+ * Caches cart calculations keyed by cart documentId. Every entry stores the
+ * fingerprint of the inputs it was calculated from (items, address, shipping
+ * method, discount code, currency) and is only returned for the same
+ * fingerprint. Entries also store the pricing version they were calculated
+ * under: a change to promotions, tax or shipping rates moves the version on
+ * and every entry goes stale at once. Storage is pluggable: an in-memory LRU
+ * is used by default and a Redis-compatible client can be plugged in with
+ * setAdapter.
+ */
+
+import { createHash } from 'crypto';
+import { CART_CALCULATION_CACHE_CONFIG } from '../../../../config/constant';
+
+export interface CalculationCacheAdapter {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Subset of the ioredis client API used by the Redis adapter
+ */
+export interface RedisCompatibleClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<any>;
+  del(key: string): Promise<any>;
+}
+
+interface FingerprintOptions {
+  shippingAddress?: any;
+  shippingMethod?: string;
+  discountCode?: string | null;
+  exchangeRate?: number; // rate of the cart currency, converted amounts go stale when it changes
+}
+
+/**
+ * In-memory LRU adapter, relies on Map insertion order for recency
+ */
+export const createMemoryCacheAdapter = (
+  maxEntries: number = CART_CALCULATION_CACHE_CONFIG.maxEntries
+): CalculationCacheAdapter => {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) {
+        return null;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+};
+
+/**
+ * Adapter storing entries in Redis (or any client exposing get/set PX/del)
+ */
+export const createRedisCacheAdapter = (client: RedisCompatibleClient): CalculationCacheAdapter => ({
+  async get(key) {
+    return client.get(key);
+  },
+
+  async set(key, value, ttlMs) {
+    await client.set(key, value, 'PX', ttlMs);
+  },
+
+  async delete(key) {
+    await client.del(key);
+  },
+});
+
+const getCacheKey = (cartId: string): string => `${CART_CALCULATION_CACHE_CONFIG.keyPrefix}${cartId}`;
+
+// Kept in the cache storage so every instance sharing a Redis cache sees the same version
+const getVersionKey = (): string => `${CART_CALCULATION_CACHE_CONFIG.keyPrefix}pricing-version`;
+
+// Content types outside the cart that change calculated totals
+export const PRICING_CONTENT_TYPES = [
+  'api::promotion.promotion',
+  'api::tax.tax-rate',
+  'api::tax.tax-class',
+  'api::tax.tax-setting',
+  'api::shipping.shipping-method',
+  'api::shipping.shipping-zone',
+];
+
+const getAddressFingerprint = (address: any): any => {
+  if (!address || typeof address === 'string') {
+    return address || null;
+  }
+  return [address.documentId, address.country, address.state, address.postalCode];
+};
+
+export default ({ strapi }: { strapi: any }) => {
+  let adapter: CalculationCacheAdapter = createMemoryCacheAdapter();
+
+  return {
+    /**
+     * Replace the cache storage (e.g. with createRedisCacheAdapter)
+     */
+    setAdapter(cacheAdapter: CalculationCacheAdapter) {
+      adapter = cacheAdapter;
+    },
+
+    /**
+     * Build the fingerprint of the inputs a calculation depends on
+     */
+    createFingerprint(cart: any, options: FingerprintOptions = {}): string {
+      const items = (cart.items || [])
+        .map((item: any) => [
+          item.documentId,
+          item.variant?.documentId || null,
+          item.quantity,
+          item.price,
+          item.total,
+        ])
+        .sort((a: any[], b: any[]) => String(a[0]).localeCompare(String(b[0])));
+
+      const payload = JSON.stringify({
+        items,
+        currency: cart.currency,
+        exchangeRate: options.exchangeRate ?? null,
+        shippingAddress: getAddressFingerprint(options.shippingAddress || cart.shippingAddress),
+        shippingMethod: options.shippingMethod || cart.shippingMethod || null,
+        discountCode: options.discountCode || cart.discountCode || null,
+      });
+
+      return createHash('sha1').update(payload).digest('hex');
+    },
+
+    /**
+     * Get the current pricing version, '0' until pricing first changes
+     */
+    async getVersion(): Promise<string> {
+      return (await adapter.get(getVersionKey())) || '0';
+    },
+
+    /**
+     * Get the cached calculation of a cart for a fingerprint
+     */
+    async get(cartId: string, fingerprint: string): Promise<any | null> {
+      try {
+        const value = await adapter.get(getCacheKey(cartId));
+        if (!value) {
+          return null;
+        }
+
+        const entry = JSON.parse(value);
+        if (entry.fingerprint !== fingerprint || entry.version !== await this.getVersion()) {
+          return null;
+        }
+
+        return {
+          ...entry.calculation,
+          calculationTimestamp: new Date(entry.calculation.calculationTimestamp),
+        };
+      } catch (error) {
+        strapi.log.error('Error reading cart calculation cache:', error);
+        return null;
+      }
+    },
+
+    /**
+     * Cache the calculation of a cart
+     */
+    async set(cartId: string, fingerprint: string, calculation: any): Promise<void> {
+      try {
+        const version = await this.getVersion();
+        await adapter.set(
+          getCacheKey(cartId),
+          JSON.stringify({ fingerprint, version, calculation }),
+          CART_CALCULATION_CACHE_CONFIG.ttl
+        );
+      } catch (error) {
+        strapi.log.error('Error writing cart calculation cache:', error);
+      }
+    },
+
+    /**
+     * Drop the cached calculation of a cart
+     */
+    async invalidate(cartId: string): Promise<void> {
+      try {
+        await adapter.delete(getCacheKey(cartId));
+      } catch (error) {
+        strapi.log.error('Error invalidating cart calculation cache:', error);
+      }
+    },
+
+    /**
+     * Drop the cached calculations of every cart by moving the pricing version on
+     *
+     * The version lives as long as the entries, once it expires every entry
+     * calculated under it has expired too.
+     */
+    async invalidateAll(): Promise<void> {
+      try {
+        const version = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        await adapter.set(getVersionKey(), version, CART_CALCULATION_CACHE_CONFIG.ttl);
+      } catch (error) {
+        strapi.log.error('Error invalidating cart calculation cache:', error);
+      }
+    },
+
+    /**
+     * Drop every cached calculation when promotions, tax or shipping rates change, called on bootstrap
+     */
+    subscribeToPricingChanges(): void {
+      const invalidateAll = () => this.invalidateAll();
+      strapi.db.lifecycles.subscribe({
+        models: PRICING_CONTENT_TYPES,
+        afterCreate: invalidateAll,
+        afterUpdate: invalidateAll,
+        afterDelete: invalidateAll,
+      });
+    },
+
+    /**
+     * Drop the cached calculations of every cart containing a listing or variant
+     *
+     * Listings and variants are matched by documentId: a listing has a draft
+     * and a published row, and publishing it creates new rows.
+     */
+    async invalidateByProduct(params: { productListingId?: string; variantId?: string }): Promise<void> {
+      const filters: any = { deletedAt: { $null: true } };
+      if (params.variantId) {
+        filters.variant = { documentId: params.variantId };
+      } else if (params.productListingId) {
+        filters.productListing = { documentId: params.productListingId };
+      } else {
+        return;
+      }
+
+      try {
+        const cartItems = await strapi.documents('api::cart.cart-item').findMany({
+          filters,
+          populate: { cart: { fields: ['documentId'] } },
+        });
+
+        const cartIds = new Set<string>(
+          cartItems.map((item: any) => item.cart?.documentId).filter(Boolean)
+        );
+        for (const cartId of cartIds) {
+          await this.invalidate(cartId);
+        }
+      } catch (error) {
+        strapi.log.error('Error invalidating cart calculation cache by product:', error);
+      }
+    },
+  };
+};
@@ -3,18 +3,25 @@
  * 
  * Handles cart total calculations including subtotal, tax, shipping,
  * discounts, and currency conversion with caching for performance.
+ * Cached calculations are keyed by cart and a fingerprint of the inputs,
+ * see calculation-cache.ts.
  */
 
 import { factories } from '@strapi/strapi';
+import type { TaxCalculationResult } from '../../tax/services/tax';
+import { CurrencyQuote, convertAmount } from '../../currency/services/currency';
 
-interface CartCalculation {
+export interface CartCalculation {
   subtotal: number; // in cents
   tax: number; // in cents
   shipping: number; // in cents
   discount: number; // in cents
   total: number; // in cents
   currency: string;
+  baseCurrency: string;
+  exchangeRate: number;
   taxRate: number;
+  pricesIncludeTax: boolean;
   shippingMethod?: string;
   discountCode?: string;
   itemCount: number;
@@ -22,7 +29,7 @@ interface CartCalculation {
 }
 
 interface TaxCalculationParams {
-  subtotal: number;
+  items: any[];
   shippingAddress?: any;
   currency: string;
 }
@@ -38,6 +45,12 @@ interface DiscountCalculationParams {
   subtotal: number;
   discountCode?: string;
   currency: string;
+  items?: any[];
+  shipping?: number;
+  customer?: {
+    userId?: string | number | null;
+    sessionId?: string | null;
+  };
 }
 
 interface CartCalculationService {
@@ -47,12 +60,13 @@ interface CartCalculationService {
     discountCode?: string;
   }): Promise<CartCalculation>;
   calculateSubtotal(items: any[]): number;
-  calculateTax(params: TaxCalculationParams): Promise<number>;
+  getCurrencyQuote(currency: string): Promise<CurrencyQuote>;
+  calculateTax(params: TaxCalculationParams): Promise<TaxCalculationResult>;
   calculateShipping(params: ShippingCalculationParams): Promise<number>;
   calculateDiscount(params: DiscountCalculationParams): Promise<number>;
   validateCalculation(calculation: CartCalculation): boolean;
-  getCachedCalculation(cartId: string): Promise<CartCalculation | null>;
-  cacheCalculation(cartId: string, calculation: CartCalculation): Promise<void>;
+  getCachedCalculation(cartId: string, fingerprint: string): Promise<CartCalculation | null>;
+  cacheCalculation(cartId: string, fingerprint: string, calculation: CartCalculation): Promise<void>;
   clearCalculationCache(cartId: string): Promise<void>;
 }
 
@@ -66,13 +80,15 @@ export default ({ strapi }: { strapi: any }): CartCalculationService => ({
     discountCode?: string;
   } = {}) {
     try {
-      // Check cache first
-      const cached = await this.getCachedCalculation(cart.documentId);
+      // Check cache first, the exchange rate is part of the fingerprint so rate updates miss the cache
+      const currencyQuote = await this.getCurrencyQuote(cart.currency);
+      const fingerprint = strapi.service('api::cart.calculation-cache').createFingerprint(cart, {
+        ...options,
+        exchangeRate: currencyQuote.exchangeRate
+      });
+      const cached = await this.getCachedCalculation(cart.documentId, fingerprint);
       if (cached) {
-        const cacheAge = Date.now() - cached.calculationTimestamp.getTime();
-        if (cacheAge < 5 * 60 * 1000) { // 5 minutes cache
-          return cached;
-        }
+        return cached;
       }
 
       const items = cart.items || [];
@@ -80,40 +96,58 @@ export default ({ strapi }: { strapi: any }): CartCalculationService => ({
       const itemCount = items.reduce((sum: number, item: any) => sum + item.quantity, 0);
 
       // Calculate tax
-      const tax = await this.calculateTax({
-        subtotal,
-        shippingAddress: options.shippingAddress,
+      const taxCalculation = await this.calculateTax({
+        items,
+        shippingAddress: options.shippingAddress || cart.shippingAddress,
         currency: cart.currency
       });
+      const { tax, pricesIncludeTax } = taxCalculation;
 
-      // Calculate shipping
+      // Calculate shipping (fall back to the address and method saved on the cart)
+      const shippingMethod = options.shippingMethod || cart.shippingMethod;
       const shipping = await this.calculateShipping({
         items,
-        shippingAddress: options.shippingAddress,
-        shippingMethod: options.shippingMethod,
+        shippingAddress: options.shippingAddress || cart.shippingAddress,
+        shippingMethod,
         currency: cart.currency
       });
 
-      // Calculate discount
+      // Calculate discount (fall back to the code applied to the cart)
+      const discountCode = options.discountCode || cart.discountCode;
       const discount = await this.calculateDiscount({
         subtotal,
-        discountCode: options.discountCode,
-        currency: cart.currency
+        discountCode,
+        currency: cart.currency,
+        items,
+        shipping,
+        customer: {
+          userId: cart.user?.id,
+          sessionId: cart.sessionId
+        }
       });
 
-      // Calculate total
-      const total = Math.max(0, subtotal + tax + shipping - discount);
+      // Convert to the cart currency, prices, tax and shipping tables are in the base currency
+      const converted = {
+        subtotal: convertAmount(subtotal, currencyQuote),
+        tax: convertAmount(tax, currencyQuote),
+        shipping: convertAmount(shipping, currencyQuote),
+        discount: convertAmount(discount, currencyQuote)
+      };
+
+      // Calculate total (tax is already part of the subtotal for tax-inclusive prices)
+      const total = Math.max(0, converted.subtotal + (pricesIncludeTax ? 0 : converted.tax) +
+        converted.shipping - converted.discount);
 
       const calculation: CartCalculation = {
-        subtotal,
-        tax,
-        shipping,
-        discount,
+        ...converted,
         total,
-        currency: cart.currency,
-        taxRate: subtotal > 0 ? (tax / subtotal) * 100 : 0,
-        shippingMethod: options.shippingMethod,
-        discountCode: options.discountCode,
+        currency: currencyQuote.currency,
+        baseCurrency: currencyQuote.baseCurrency,
+        exchangeRate: currencyQuote.exchangeRate,
+        taxRate: subtotal > 0 ? (tax / (pricesIncludeTax ? subtotal - tax : subtotal)) * 100 : 0,
+        pricesIncludeTax,
+        shippingMethod,
+        discountCode: discount > 0 ? discountCode : undefined,
         itemCount,
         calculationTimestamp: new Date()
       };
@@ -124,7 +158,7 @@ export default ({ strapi }: { strapi: any }): CartCalculationService => ({
       }
 
       // Cache the calculation
-      await this.cacheCalculation(cart.documentId, calculation);
+      await this.cacheCalculation(cart.documentId, fingerprint, calculation);
 
       return calculation;
     } catch (error) {
@@ -149,89 +183,59 @@ export default ({ strapi }: { strapi: any }): CartCalculationService => ({
   },
 
   /**
-   * Calculate tax based on subtotal and shipping address
+   * Get the conversion to the cart currency, falls back to the base
+   * currency when the cart currency is no longer supported
    */
-  async calculateTax(params: TaxCalculationParams): Promise<number> {
+  async getCurrencyQuote(currency: string): Promise<CurrencyQuote> {
+    const currencyService = strapi.service('api::currency.currency');
     try {
-      const { subtotal, shippingAddress, currency } = params;
-
-      // Default tax rate (can be enhanced with tax service integration)
-      let taxRate = 0.08; // 8% default tax rate
-
-      // Apply different tax rates based on shipping address
-      if (shippingAddress) {
-        // This would integrate with a tax calculation service
-        // For now, using simplified logic
-        switch (shippingAddress.country) {
-          case 'US':
-            taxRate = 0.08; // 8% for US
-            break;
-          case 'CA':
-            taxRate = 0.13; // 13% for Canada
-            break;
-          case 'UK':
-            taxRate = 0.20; // 20% VAT for UK
-            break;
-          default:
-            taxRate = 0.08; // Default 8%
-        }
-      }
+      return await currencyService.getQuote(currency);
+    } catch (error) {
+      strapi.log.warn(`Cart currency ${currency} is not supported, using the base currency`);
+      return currencyService.getQuote(null);
+    }
+  },
+
+  /**
+   * Calculate tax based on items, their tax classes and the shipping address
+   */
+  async calculateTax(params: TaxCalculationParams): Promise<TaxCalculationResult> {
+    try {
+      const { items, shippingAddress } = params;
 
-      return Math.round(subtotal * taxRate);
+      return await strapi.service('api::tax.tax').calculateTax({
+        items,
+        shippingAddress
+      });
     } catch (error) {
       strapi.log.error('Error calculating tax:', error);
-      return 0;
+      return { tax: 0, pricesIncludeTax: false, lines: [], location: {} };
     }
   },
 
   /**
-   * Calculate shipping cost based on items and address
+   * Calculate shipping cost from the destination zone rate tables
    */
   async calculateShipping(params: ShippingCalculationParams): Promise<number> {
     try {
-      const { items, shippingAddress, shippingMethod, currency } = params;
+      const { items, shippingAddress, shippingMethod } = params;
 
       if (!items || items.length === 0) {
         return 0;
       }
 
-      // Calculate total weight
-      const totalWeight = items.reduce((sum: number, item: any) => {
-        const weight = item.variant?.weight || item.product?.weight || 0.5; // Default 0.5kg
-        return sum + (weight * item.quantity);
-      }, 0);
-
-      // Calculate total value
-      const totalValue = this.calculateSubtotal(items);
-
-      // Free shipping threshold
-      const freeShippingThreshold = 5000; // $50.00 in cents
-
-      if (totalValue >= freeShippingThreshold) {
-        return 0; // Free shipping
-      }
+      const quote = await strapi.service('api::shipping.shipping').quoteShipping({
+        items,
+        shippingAddress,
+        shippingMethod
+      });
 
-      // Base shipping rates (can be enhanced with shipping service integration)
-      let baseShipping = 500; // $5.00 base shipping
-
-      if (shippingMethod) {
-        switch (shippingMethod) {
-          case 'express':
-            baseShipping = 1500; // $15.00 express shipping
-            break;
-          case 'overnight':
-            baseShipping = 2500; // $25.00 overnight shipping
-            break;
-          case 'standard':
-          default:
-            baseShipping = 500; // $5.00 standard shipping
-        }
+      if (!quote) {
+        strapi.log.debug(`No shipping method ${shippingMethod || ''} available for cart items`);
+        return 0;
       }
 
-      // Add weight-based surcharge
-      const weightSurcharge = Math.max(0, (totalWeight - 2) * 200); // $2.00 per kg over 2kg
-
-      return Math.round(baseShipping + weightSurcharge);
+      return quote.price;
     } catch (error) {
       strapi.log.error('Error calculating shipping:', error);
       return 0;
@@ -243,39 +247,27 @@ export default ({ strapi }: { strapi: any }): CartCalculationService => ({
    */
   async calculateDiscount(params: DiscountCalculationParams): Promise<number> {
     try {
-      const { subtotal, discountCode, currency } = params;
+      const { subtotal, discountCode, items = [], shipping = 0, customer } = params;
 
       if (!discountCode) {
         return 0;
       }
 
-      // This would integrate with a discount/coupon service
-      // For now, using simplified logic
-      let discountAmount = 0;
-
-      // switch (discountCode.toUpperCase()) {
-      //   case 'WELCOME10':
-      //     discountAmount = Math.round(subtotal * 0.10); // 10% off
-      //     break;
-      //   case 'SAVE20':
-      //     discountAmount = Math.round(subtotal * 0.20); // 20% off
-      //     break;
-      //   case 'FREESHIP':
-      //     // This would be handled in shipping calculation
-      //     discountAmount = 0;
-      //     break;
-      //   default:
-      //     // Check if it's a fixed amount discount
-      //     if (discountCode.startsWith('SAVE')) {
-      //       const amount = parseInt(discountCode.substring(4));
-      //       if (!isNaN(amount)) {
-      //         discountAmount = amount * 100; // Convert to cents
-      //       }
-      //     }
-      // }
-
-      // Ensure discount doesn't exceed subtotal
-      return Math.min(discountAmount, subtotal);
+      const evaluation = await strapi.service('api::promotion.promotion').evaluateCode({
+        code: discountCode,
+        items,
+        subtotal,
+        shipping,
+        customer
+      });
+
+      if (!evaluation.isValid) {
+        strapi.log.debug(`Discount code ${discountCode} not applied: ${evaluation.errors.join(', ')}`);
+        return 0;
+      }
+
+      // Ensure discount doesn't exceed what is being paid for
+      return Math.min(evaluation.discount, subtotal + shipping);
     } catch (error) {
       strapi.log.error('Error calculating discount:', error);
       return 0;
@@ -295,7 +287,8 @@ export default ({ strapi }: { strapi: any }): CartCalculationService => ({
       }
 
       // Check that total makes sense
-      const expectedTotal = calculation.subtotal + calculation.tax + 
+      const expectedTotal = calculation.subtotal +
+                           (calculation.pricesIncludeTax ? 0 : calculation.tax) +
                            calculation.shipping - calculation.discount;
       
       if (Math.abs(calculation.total - expectedTotal) > 1) { // Allow 1 cent rounding difference
@@ -317,11 +310,12 @@ export default ({ strapi }: { strapi: any }): CartCalculationService => ({
   /**
    * Get cached calculation
    */
-  async getCachedCalculation(cartId: string): Promise<CartCalculation | null> {
+  async getCachedCalculation(cartId: string, fingerprint: string): Promise<CartCalculation | null> {
     try {
-      // This would integrate with Redis or similar cache
-      // For now, returning null (no cache)
-      return null;
+      if (!cartId) {
+        return null;
+      }
+      return await strapi.service('api::cart.calculation-cache').get(cartId, fingerprint);
     } catch (error) {
       strapi.log.error('Error getting cached calculation:', error);
       return null;
@@ -331,10 +325,12 @@ export default ({ strapi }: { strapi: any }): CartCalculationService => ({
   /**
    * Cache calculation result
    */
-  async cacheCalculation(cartId: string, calculation: CartCalculation): Promise<void> {
+  async cacheCalculation(cartId: string, fingerprint: string, calculation: CartCalculation): Promise<void> {
     try {
-      // This would integrate with Redis or similar cache
-      // For now, doing nothing (no cache)
+      if (!cartId) {
+        return;
+      }
+      await strapi.service('api::cart.calculation-cache').set(cartId, fingerprint, calculation);
       strapi.log.debug(`Cached calculation for cart: ${cartId}`);
     } catch (error) {
       strapi.log.error('Error caching calculation:', error);
@@ -346,8 +342,7 @@ export default ({ strapi }: { strapi: any }): CartCalculationService => ({
    */
   async clearCalculationCache(cartId: string): Promise<void> {
     try {
-      // This would integrate with Redis or similar cache
-      // For now, doing nothing (no cache)
+      await strapi.service('api::cart.calculation-cache').invalidate(cartId);
       strapi.log.debug(`Cleared calculation cache for cart: ${cartId}`);
     } catch (error) {
       strapi.log.error('Error clearing calculation cache:', error);
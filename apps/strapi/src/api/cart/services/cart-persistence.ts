@@ -10,6 +10,7 @@ import { factories } from '@strapi/strapi';
 interface CartPersistenceService {
   createGuestCart(sessionId: string): Promise<any>;
   createUserCart(userId: number): Promise<any>;
+  getDefaultCurrency(userId?: number): Promise<string>;
   getCartBySessionId(sessionId: string): Promise<any>;
   getCartByUserId(userId: number): Promise<any>;
   migrateGuestToUserCart(sessionId: string, userId: number): Promise<any>;
@@ -26,6 +27,7 @@ export default ({ strapi }: { strapi: any }): CartPersistenceService => ({
     try {
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + 30); // 30 days expiration
+      const currency = await this.getDefaultCurrency();
 
       const cart = await strapi.documents('api::cart.cart').create({
         data: {
@@ -35,7 +37,7 @@ export default ({ strapi }: { strapi: any }): CartPersistenceService => ({
           tax: 0,
           shipping: 0,
           total: 0,
-          currency: 'USD',
+          currency,
           expiresAt,
           status: 'active'
         }
@@ -56,6 +58,7 @@ export default ({ strapi }: { strapi: any }): CartPersistenceService => ({
     try {
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + 30); // 30 days expiration
+      const currency = await this.getDefaultCurrency(userId);
 
       const cart = await strapi.documents('api::cart.cart').create({
         data: {
@@ -65,7 +68,7 @@ export default ({ strapi }: { strapi: any }): CartPersistenceService => ({
           tax: 0,
           shipping: 0,
           total: 0,
-          currency: 'USD',
+          currency,
           expiresAt,
           status: 'active'
         }
@@ -79,6 +82,32 @@ export default ({ strapi }: { strapi: any }): CartPersistenceService => ({
     }
   },
 
+  /**
+   * Get the currency new carts are priced in: the user's preferred
+   * currency when it is supported, the base currency otherwise
+   */
+  async getDefaultCurrency(userId?: number) {
+    const currencyService = strapi.service('api::currency.currency');
+
+    if (userId) {
+      try {
+        const preference = await strapi.documents('api::user-preference.user-preference').findFirst({
+          filters: { user: { id: userId } },
+          fields: ['currency']
+        });
+
+        if (preference?.currency && await currencyService.isSupported(preference.currency)) {
+          return preference.currency.toUpperCase();
+        }
+      } catch (error) {
+        strapi.log.warn('Error reading preferred currency:', error);
+      }
+    }
+
+    const baseCurrency = await currencyService.getBaseCurrency();
+    return baseCurrency.code;
+  },
+
   /**
    * Get cart by session ID (for guest users)
    */
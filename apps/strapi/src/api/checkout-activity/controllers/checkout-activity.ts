@@ -59,6 +59,29 @@ interface SessionSummaryResponse {
   }
 }
 
+/**
+ * Read the from/to query of a funnel report, the last 30 days by default
+ */
+const parseFunnelPeriod = (query: { from?: string; to?: string }) => {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from ? new Date(query.from) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+  return { from, to };
+};
+
+const MAX_FUNNEL_ERROR_LIMIT = 100;
+
+// Number of top validation errors in a funnel report, null unless a whole number from 1 to the maximum
+const parseFunnelErrorLimit = (value: string | undefined, defaultLimit: number): number | null => {
+  if (value === undefined || value === '') {
+    return defaultLimit;
+  }
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+  const limit = Number(value);
+  return limit >= 1 && limit <= MAX_FUNNEL_ERROR_LIMIT ? limit : null;
+};
+
 export default ({ strapi }: { strapi: any }) => ({
   /**
    * Create a new checkout activity event
@@ -415,6 +438,68 @@ export default ({ strapi }: { strapi: any }) => ({
     }
   },
 
+  /**
+   * Get the checkout funnel report of a date range (admin only)
+   */
+  async getFunnelReport(ctx: any) {
+    try {
+      const { from, to } = parseFunnelPeriod(ctx.query);
+      const errorLimit = parseFunnelErrorLimit(ctx.query.errorLimit, 10);
+      if (errorLimit === null) {
+        return ctx.badRequest(`errorLimit must be a whole number from 1 to ${MAX_FUNNEL_ERROR_LIMIT}`);
+      }
+
+      const report = await strapi
+        .service('api::checkout-activity.checkout-activity-analytics')
+        .getFunnelReport(from, to, errorLimit);
+
+      return {
+        meta : {
+          message: 'Funnel report retrieved successfully',
+        },
+        data: report
+      };
+    } catch (error) {
+      if (error.message.includes('Invalid date range')) {
+        return ctx.badRequest(error.message);
+      }
+      strapi.log.error('Error getting funnel report:', error);
+      return ctx.internalServerError('Failed to get funnel report');
+    }
+  },
+
+  /**
+   * Export a section of the checkout funnel report as CSV (admin only)
+   */
+  async exportFunnelReport(ctx: any) {
+    try {
+      const { from, to } = parseFunnelPeriod(ctx.query);
+      const { section = 'steps' }: { section?: string } = ctx.query;
+      if (!['steps', 'validation-errors', 'segments'].includes(section)) {
+        return ctx.badRequest('section must be steps, validation-errors or segments');
+      }
+      const errorLimit = parseFunnelErrorLimit(ctx.query.errorLimit, 50);
+      if (errorLimit === null) {
+        return ctx.badRequest(`errorLimit must be a whole number from 1 to ${MAX_FUNNEL_ERROR_LIMIT}`);
+      }
+
+      const analyticsService = strapi.service('api::checkout-activity.checkout-activity-analytics');
+      const report = await analyticsService.getFunnelReport(from, to, errorLimit);
+      const csvData = analyticsService.convertFunnelToCSV(report, section);
+
+      ctx.set('Content-Type', 'text/csv');
+      ctx.set('Content-Disposition', `attachment; filename="checkout-funnel-${section}.csv"`);
+
+      return csvData;
+    } catch (error) {
+      if (error.message.includes('Invalid date range')) {
+        return ctx.badRequest(error.message);
+      }
+      strapi.log.error('Error exporting funnel report:', error);
+      return ctx.internalServerError('Failed to export funnel report');
+    }
+  },
+
   /**
    * Clean up old activities (admin only)
    */
@@ -14,6 +14,23 @@ export default {
         policies: ['global::is-authenticated'],
       }
     },
+    // Funnel reports, before the documentId route so they are not read as a documentId
+    {
+      method: 'GET',
+      path: '/checkout-activities/funnel',
+      handler: 'checkout-activity.getFunnelReport',
+      config: {
+        policies: ['global::is-admin'],
+      }
+    },
+    {
+      method: 'GET',
+      path: '/checkout-activities/funnel/export',
+      handler: 'checkout-activity.exportFunnelReport',
+      config: {
+        policies: ['global::is-admin'],
+      }
+    },
     {
       method: 'GET',
       path: '/checkout-activities/:documentId',
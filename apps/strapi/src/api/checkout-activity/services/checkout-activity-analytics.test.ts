@@ -0,0 +1,172 @@
+/**
+ * Checkout activity analytics service tests
+ *
+ * Tests the funnel report built from checkout activities: step conversion,
+ * median time per step, validation errors, segment drop-off and CSV export
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createAnalyticsService from './checkout-activity-analytics';
+
+const mockActivityMethods = {
+  findMany: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockActivityMethods),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const from = new Date('2026-01-01T00:00:00Z');
+const to = new Date('2026-01-31T23:59:59Z');
+
+let clock = new Date('2026-01-10T10:00:00Z').getTime();
+
+const activity = (checkoutId: string, activityType: string, overrides: any = {}) => ({
+  checkout: { documentId: checkoutId },
+  activityType,
+  timestamp: new Date(clock += 1000).toISOString(),
+  ...overrides,
+});
+
+// checkout-1 completes on desktop, checkout-2 drops off at shipping on mobile after
+// a validation error, checkout-3 drops off at the cart
+const activities = () => [
+  activity('checkout-1', 'step_enter', { stepName: 'cart', deviceType: 'desktop', browser: 'Firefox', utmSource: 'newsletter' }),
+  activity('checkout-1', 'step_exit', { stepName: 'cart', stepDuration: 30000 }),
+  activity('checkout-1', 'step_enter', { stepName: 'shipping' }),
+  activity('checkout-1', 'step_exit', { stepName: 'shipping', stepDuration: 60000 }),
+  activity('checkout-1', 'checkout_complete'),
+  activity('checkout-2', 'step_enter', { stepName: 'cart', deviceType: 'mobile', browser: 'Safari' }),
+  activity('checkout-2', 'step_exit', { stepName: 'cart', stepDuration: 10000 }),
+  activity('checkout-2', 'step_enter', { stepName: 'shipping' }),
+  activity('checkout-2', 'validation_error', { stepName: 'shipping', formType: 'shipping', formField: 'postalCode' }),
+  activity('checkout-2', 'validation_error', { stepName: 'shipping', formType: 'shipping', formField: 'postalCode' }),
+  activity('checkout-2', 'step_exit', { stepName: 'shipping' }),
+  activity('checkout-3', 'step_enter', { stepName: 'cart', deviceType: 'mobile', browser: 'Chrome' }),
+  activity('checkout-3', 'step_exit', { stepName: 'cart', stepDuration: 20000 }),
+];
+
+describe('Checkout Activity Analytics Service', () => {
+  let service: ReturnType<typeof createAnalyticsService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockActivityMethods.findMany.mockReset();
+    mockActivityMethods.findMany.mockResolvedValueOnce(activities()).mockResolvedValue([]);
+    service = createAnalyticsService({ strapi: mockStrapi });
+  });
+
+  describe('getFunnelReport', () => {
+    it('should report step conversion, drop-offs and median time per step', async () => {
+      const report = await service.getFunnelReport(from, to);
+
+      expect(mockActivityMethods.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        filters: { timestamp: { $gte: from, $lte: to } },
+        sort: 'timestamp:asc',
+      }));
+      expect(report).toMatchObject({ totalSessions: 3, completedSessions: 1, completionRate: 33.33 });
+      expect(report.steps[0]).toEqual({
+        step: 'cart',
+        sessions: 3,
+        conversionRate: 100,
+        overallConversionRate: 100,
+        dropOffs: 1,
+        medianTimeMs: 20000,
+      });
+      expect(report.steps[1]).toEqual({
+        step: 'shipping',
+        sessions: 2,
+        conversionRate: 66.67,
+        overallConversionRate: 66.67,
+        dropOffs: 1,
+        medianTimeMs: 31500,
+      });
+      expect(report.steps[2]).toMatchObject({ step: 'billing', sessions: 0, conversionRate: 0, medianTimeMs: null });
+    });
+
+    it('should rank the fields causing validation errors', async () => {
+      const report = await service.getFunnelReport(from, to);
+
+      expect(report.validationErrors).toEqual([{
+        field: 'shipping.postalCode',
+        step: 'shipping',
+        errors: 2,
+        sessions: 1,
+        abandonedSessions: 1,
+      }]);
+    });
+
+    it('should break drop-off down by device, browser and UTM source', async () => {
+      const report = await service.getFunnelReport(from, to);
+
+      expect(report.segments).toContainEqual({
+        dimension: 'deviceType',
+        value: 'mobile',
+        sessions: 2,
+        completed: 0,
+        dropOffs: 2,
+        dropOffRate: 100,
+        dropOffSteps: { shipping: 1, cart: 1 },
+      });
+      expect(report.segments).toContainEqual(expect.objectContaining({
+        dimension: 'utmSource', value: 'unknown', sessions: 2, dropOffs: 2,
+      }));
+      expect(report.segments).toContainEqual(expect.objectContaining({
+        dimension: 'utmSource', value: 'newsletter', sessions: 1, completed: 1, dropOffRate: 0,
+      }));
+    });
+
+    it('should page through the activities of the date range', async () => {
+      mockActivityMethods.findMany.mockReset();
+      const fullPage = Array.from({ length: 1000 }, () => activity('checkout-4', 'form_field_focus'));
+      mockActivityMethods.findMany.mockResolvedValueOnce(fullPage).mockResolvedValueOnce(activities());
+
+      const report = await service.getFunnelReport(from, to);
+
+      expect(mockActivityMethods.findMany).toHaveBeenCalledTimes(2);
+      expect(mockActivityMethods.findMany).toHaveBeenLastCalledWith(expect.objectContaining({ start: 1000, limit: 1000 }));
+      expect(report.totalSessions).toBe(4);
+    });
+
+    it('should reject a date range that ends before it starts', async () => {
+      await expect(service.getFunnelReport(to, from)).rejects.toThrow('Invalid date range');
+    });
+  });
+
+  describe('convertFunnelToCSV', () => {
+    it('should export a section of the report as CSV', async () => {
+      const report = await service.getFunnelReport(from, to);
+
+      const steps = service.convertFunnelToCSV(report, 'steps').split('\n');
+      expect(steps[0]).toBe('Step,Sessions,Conversion Rate,Overall Conversion Rate,Drop-offs,Median Time (ms)');
+      expect(steps[1]).toBe('cart,3,100,100,1,20000');
+      expect(steps).toHaveLength(7);
+
+      const segments = service.convertFunnelToCSV(report, 'segments');
+      expect(segments).toContain('deviceType,mobile,2,0,2,100,shipping:1 cart:1');
+    });
+
+    it('should neutralize text that spreadsheets would evaluate as a formula', async () => {
+      const report = await service.getFunnelReport(from, to);
+      report.segments = [{
+        dimension: 'utmSource',
+        value: '=HYPERLINK("http://evil.example")',
+        sessions: 1,
+        completed: 0,
+        dropOffs: 1,
+        dropOffRate: 100,
+        dropOffSteps: { cart: 1 },
+      }];
+
+      const segments = service.convertFunnelToCSV(report, 'segments').split('\n');
+
+      expect(segments[1]).toBe(`utmSource,"'=HYPERLINK(""http://evil.example"")",1,0,1,100,cart:1`);
+    });
+  });
+});
@@ -14,6 +14,79 @@ interface SessionSummary {
   validationErrors: Record<string, number>;
 }
 
+interface FunnelStep {
+  step: string;
+  sessions: number; // checkouts that entered the step
+  conversionRate: number; // share of the previous step's checkouts that entered this step
+  overallConversionRate: number; // share of all checkouts that entered this step
+  dropOffs: number; // checkouts whose last step this was, without completing
+  medianTimeMs: number | null; // median time a checkout spent on the step
+}
+
+interface FieldErrorStat {
+  field: string; // formType.formField
+  step?: string;
+  errors: number;
+  sessions: number;
+  abandonedSessions: number; // checkouts with the error that were not completed
+}
+
+interface SegmentStat {
+  dimension: 'deviceType' | 'browser' | 'utmSource';
+  value: string;
+  sessions: number;
+  completed: number;
+  dropOffs: number;
+  dropOffRate: number;
+  dropOffSteps: Record<string, number>; // last step entered by the checkouts that dropped off
+}
+
+export interface FunnelReport {
+  period: { from: Date; to: Date };
+  totalSessions: number;
+  completedSessions: number;
+  completionRate: number;
+  steps: FunnelStep[];
+  validationErrors: FieldErrorStat[];
+  segments: SegmentStat[];
+}
+
+export type FunnelReportSection = 'steps' | 'validation-errors' | 'segments';
+
+interface FunnelSession {
+  enteredSteps: Set<string>;
+  lastStep?: string;
+  completed: boolean;
+  stepTimes: Record<string, number>;
+  fieldErrors: Set<string>;
+  deviceType?: string;
+  browser?: string;
+  utmSource?: string;
+}
+
+const FUNNEL_STEPS = ['cart', 'shipping', 'billing', 'payment', 'review', 'confirmation'];
+const SEGMENT_DIMENSIONS: SegmentStat['dimension'][] = ['deviceType', 'browser', 'utmSource'];
+const FUNNEL_PAGE_SIZE = 1000;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle];
+};
+
+const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 10000) / 100 : 0);
+
+// Text starting with a formula character is prefixed so spreadsheets do not evaluate it
+const escapeCSVValue = (value: any): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
 
 export default ({ strapi }: { strapi: any }) => ({
   /**
@@ -108,4 +181,195 @@ export default ({ strapi }: { strapi: any }) => ({
     }
   },
 
+  /**
+   * Get the checkout funnel report of the checkouts active in a date range
+   *
+   * Activities are grouped by checkout, a checkout is completed when it
+   * recorded checkout_complete or entered the confirmation step. Device,
+   * browser and UTM source come from the first activity that has them.
+   */
+  async getFunnelReport(from: Date, to: Date, errorLimit: number = 10): Promise<FunnelReport> {
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      throw new Error('Invalid date range');
+    }
+
+    const sessions = new Map<string, FunnelSession>();
+    const fieldErrors = new Map<string, { step?: string; errors: number; sessions: Set<string> }>();
+
+    for await (const activity of this.streamActivities(from, to)) {
+      const checkoutId = activity.checkout?.documentId;
+      if (!checkoutId) {
+        continue;
+      }
+      let session = sessions.get(checkoutId);
+      if (!session) {
+        session = { enteredSteps: new Set(), completed: false, stepTimes: {}, fieldErrors: new Set() };
+        sessions.set(checkoutId, session);
+      }
+      for (const dimension of SEGMENT_DIMENSIONS) {
+        session[dimension] = session[dimension] || activity[dimension] || undefined;
+      }
+
+      const timestamp = new Date(activity.timestamp).getTime();
+      switch (activity.activityType) {
+        case 'step_enter':
+          if (activity.stepName) {
+            session.enteredSteps.add(activity.stepName);
+            session.lastStep = activity.stepName;
+            session.stepTimes[`${activity.stepName}:enter`] = timestamp;
+          }
+          break;
+        case 'step_exit': {
+          const enteredAt = session.stepTimes[`${activity.stepName}:enter`];
+          const duration = activity.stepDuration ?? (enteredAt !== undefined ? timestamp - enteredAt : undefined);
+          if (activity.stepName && duration !== undefined && duration >= 0) {
+            session.stepTimes[activity.stepName] = (session.stepTimes[activity.stepName] || 0) + duration;
+          }
+          break;
+        }
+        case 'validation_error': {
+          const field = `${activity.formType}.${activity.formField}`;
+          const stat = fieldErrors.get(field) || { step: activity.stepName || undefined, errors: 0, sessions: new Set<string>() };
+          stat.errors++;
+          stat.sessions.add(checkoutId);
+          fieldErrors.set(field, stat);
+          session.fieldErrors.add(field);
+          break;
+        }
+        case 'checkout_complete':
+          session.completed = true;
+          break;
+      }
+      if (activity.stepName === 'confirmation' && activity.activityType === 'step_enter') {
+        session.completed = true;
+      }
+    }
+
+    const allSessions = [...sessions.values()];
+    const completedSessions = allSessions.filter((session) => session.completed).length;
+
+    const steps: FunnelStep[] = FUNNEL_STEPS.map((step, index) => {
+      const entered = allSessions.filter((session) => session.enteredSteps.has(step));
+      const previousCount = index === 0
+        ? allSessions.length
+        : allSessions.filter((session) => session.enteredSteps.has(FUNNEL_STEPS[index - 1])).length;
+      return {
+        step,
+        sessions: entered.length,
+        conversionRate: rate(entered.length, previousCount),
+        overallConversionRate: rate(entered.length, allSessions.length),
+        dropOffs: allSessions.filter((session) => !session.completed && session.lastStep === step).length,
+        medianTimeMs: median(entered
+          .map((session) => session.stepTimes[step])
+          .filter((time): time is number => time !== undefined))
+      };
+    });
+
+    const validationErrors: FieldErrorStat[] = [...fieldErrors.entries()]
+      .map(([field, stat]) => ({
+        field,
+        step: stat.step,
+        errors: stat.errors,
+        sessions: stat.sessions.size,
+        abandonedSessions: [...stat.sessions].filter((checkoutId) => !sessions.get(checkoutId)?.completed).length
+      }))
+      .sort((a, b) => b.errors - a.errors)
+      .slice(0, errorLimit);
+
+    const segments: SegmentStat[] = [];
+    for (const dimension of SEGMENT_DIMENSIONS) {
+      const groups = new Map<string, FunnelSession[]>();
+      for (const session of allSessions) {
+        const value = session[dimension] || 'unknown';
+        groups.set(value, [...(groups.get(value) || []), session]);
+      }
+      for (const [value, group] of groups) {
+        const dropped = group.filter((session) => !session.completed);
+        const dropOffSteps: Record<string, number> = {};
+        for (const session of dropped) {
+          const step = session.lastStep || 'none';
+          dropOffSteps[step] = (dropOffSteps[step] || 0) + 1;
+        }
+        segments.push({
+          dimension,
+          value,
+          sessions: group.length,
+          completed: group.length - dropped.length,
+          dropOffs: dropped.length,
+          dropOffRate: rate(dropped.length, group.length),
+          dropOffSteps
+        });
+      }
+    }
+    segments.sort((a, b) => a.dimension.localeCompare(b.dimension) || b.sessions - a.sessions);
+
+    return {
+      period: { from, to },
+      totalSessions: allSessions.length,
+      completedSessions,
+      completionRate: rate(completedSessions, allSessions.length),
+      steps,
+      validationErrors,
+      segments
+    };
+  },
+
+  /**
+   * Page through the checkout activities of a date range in timestamp order
+   */
+  async *streamActivities(from: Date, to: Date) {
+    for (let start = 0; ; start += FUNNEL_PAGE_SIZE) {
+      const page = await strapi.documents('api::checkout-activity.checkout-activity').findMany({
+        filters: { timestamp: { $gte: from, $lte: to } },
+        fields: ['activityType', 'stepName', 'formType', 'formField', 'timestamp', 'stepDuration', 'deviceType', 'browser', 'utmSource'],
+        populate: { checkout: { fields: ['documentId'] } },
+        sort: 'timestamp:asc',
+        start,
+        limit: FUNNEL_PAGE_SIZE,
+      });
+      yield* page;
+      if (page.length < FUNNEL_PAGE_SIZE) {
+        return;
+      }
+    }
+  },
+
+  /**
+   * Convert a section of a funnel report to CSV
+   */
+  convertFunnelToCSV(report: FunnelReport, section: FunnelReportSection = 'steps'): string {
+    let headers: string[];
+    let rows: any[][];
+    switch (section) {
+      case 'steps':
+        headers = ['Step', 'Sessions', 'Conversion Rate', 'Overall Conversion Rate', 'Drop-offs', 'Median Time (ms)'];
+        rows = report.steps.map((step) => [
+          step.step, step.sessions, step.conversionRate, step.overallConversionRate, step.dropOffs, step.medianTimeMs
+        ]);
+        break;
+      case 'validation-errors':
+        headers = ['Field', 'Step', 'Errors', 'Sessions', 'Abandoned Sessions'];
+        rows = report.validationErrors.map((stat) => [
+          stat.field, stat.step, stat.errors, stat.sessions, stat.abandonedSessions
+        ]);
+        break;
+      case 'segments':
+        headers = ['Dimension', 'Value', 'Sessions', 'Completed', 'Drop-offs', 'Drop-off Rate', 'Drop-off Steps'];
+        rows = report.segments.map((segment) => [
+          segment.dimension,
+          segment.value,
+          segment.sessions,
+          segment.completed,
+          segment.dropOffs,
+          segment.dropOffRate,
+          Object.entries(segment.dropOffSteps).map(([step, count]) => `${step}:${count}`).join(' ')
+        ]);
+        break;
+      default:
+        throw new Error(`Funnel report section ${section} not found`);
+    }
+
+    return [headers, ...rows].map((row) => row.map(escapeCSVValue).join(',')).join('\n');
+  },
+
 });
@@ -1,6 +1,26 @@
 import { Core } from "@strapi/strapi"
 import type { Context } from "koa"
 import { UserType } from "../../../../config/constant";
+import { CartChangedError } from "../services/checkout-revalidation";
+
+/**
+ * Respond to a failed checkout step request
+ */
+const handleStepError = (ctx: Context, error: any, fallbackMessage: string) => {
+  if (error instanceof CartChangedError) {
+    return ctx.conflict(error.message, { changes: error.changes, changesHash: error.changesHash });
+  }
+  if (error.message.includes('Authentication required') || error.message.includes('Ambiguous request')) {
+    return ctx.unauthorized(error.message);
+  }
+  if (error.message.includes('not found')) {
+    return ctx.notFound(error.message);
+  }
+  if (/not active|expired|validation failed|not the current step|not available|cannot|Insufficient available inventory/.test(error.message)) {
+    return ctx.badRequest(error.message);
+  }
+  return ctx.internalServerError(fallbackMessage);
+}
 
 
 export default ({ strapi }: { strapi: Core.Strapi }) => ({
@@ -35,6 +55,38 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
       return ctx.internalServerError('Failed to create checkout')
     }
   },
+  async getShippingMethods(ctx:Context) {
+    try {
+      const { user } = ctx.state;
+      const sessionId = ctx?.query?.sessionId as string | undefined;
+      const shippingAddress = ctx?.query?.shippingAddress as string | undefined;
+
+      if (!shippingAddress) {
+        return ctx.badRequest('shippingAddress is required');
+      }
+
+      const checkoutService = strapi.service('api::checkout.checkout');
+      const auth = await checkoutService.validateAuthentication(user, sessionId);
+
+      const methods = await checkoutService.getShippingMethods(shippingAddress, auth);
+
+      return {
+        data: methods,
+        meta: {
+          message: 'Shipping methods retrieved successfully'
+        }
+      }
+    } catch (error) {
+      strapi.log.error('Error getting shipping methods:', error)
+      if (error.message.includes('Authentication required') || error.message.includes('Ambiguous request')) {
+        return ctx.unauthorized(error.message);
+      }
+      if (error.message.includes('not found')) {
+        return ctx.notFound(error.message);
+      }
+      return ctx.internalServerError('Failed to get shipping methods')
+    }
+  },
   async validateCheckout(ctx:Context) {
     try {
       const { user } = ctx.state;
@@ -103,10 +155,12 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
       
       await checkoutService.validateCheckoutStatus(checkout, ['active'], true);
       
+      // The hash of the cart changes a previous attempt answered with, once the customer accepted them
       const order = await checkoutService.completeCheckoutProcess(
         checkout, 
         userId,
-        userType
+        userType,
+        ctx.request.body?.acceptedChanges
       );
       
       return {
@@ -116,18 +170,178 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
     } catch (error) {
       console.log('Error completing checkout:', error)
       strapi.log.error('Error completing checkout:', error)
+      if (error instanceof CartChangedError) {
+        return ctx.conflict(error.message, { changes: error.changes, changesHash: error.changesHash });
+      }
       if (error.message.includes('Authentication required') || error.message.includes('Ambiguous request')) {
         return ctx.unauthorized(error.message);
       }
       if (error.message.includes('not found')) {
         return ctx.notFound(error.message);
       }
-      if (error.message.includes('not active') || error.message.includes('expired')) {
+      if (error.message.includes('not active') || error.message.includes('expired') || error.message.includes('validation failed') || error.message.includes('Insufficient available inventory')) {
         return ctx.badRequest(error.message);
       }
       return ctx.internalServerError('Failed to proceed to payment')
     }
   },
+  async getSession(ctx:Context) {
+    try {
+      const { user } = ctx.state;
+      const sessionId = ctx?.query?.sessionId as string | undefined;
+      const documentId = ctx.params?.documentId;
+
+      const checkoutService = strapi.service('api::checkout.checkout');
+      const auth = await checkoutService.validateAuthentication(user, sessionId);
+
+      const checkout = await checkoutService.getCheckout(documentId, {
+        shippingAddress: true,
+        billingAddress: true,
+        order: true
+      }, auth);
+
+      return {
+        data: strapi.service('api::checkout.checkout-steps').toSession(checkout),
+        meta: { message: 'Checkout session retrieved successfully' }
+      }
+    } catch (error) {
+      strapi.log.error('Error getting checkout session:', error)
+      return handleStepError(ctx, error, 'Failed to get checkout session')
+    }
+  },
+  async completeStep(ctx:Context) {
+    try {
+      const { user, userType } = ctx.state;
+      const sessionId = ctx?.query?.sessionId || ctx?.request?.body?.sessionId;
+      const { documentId, step } = ctx.params;
+
+      const checkoutService = strapi.service('api::checkout.checkout');
+      const auth = await checkoutService.validateAuthentication(user, sessionId);
+
+      const checkout = await checkoutService.getCheckout(documentId, {
+        shippingAddress: true,
+        billingAddress: true,
+      }, auth);
+      await checkoutService.validateCheckoutStatus(checkout, ['active'], true);
+
+      const session = await strapi.service('api::checkout.checkout-steps').completeStep(
+        checkout,
+        step,
+        ctx.request.body?.formData,
+        auth,
+        userType
+      );
+
+      return {
+        data: session,
+        meta: { message: `Checkout step ${step} completed successfully` }
+      }
+    } catch (error) {
+      strapi.log.error('Error completing checkout step:', error)
+      return handleStepError(ctx, error, 'Failed to complete checkout step')
+    }
+  },
+  async previousStep(ctx:Context) {
+    try {
+      const { user } = ctx.state;
+      const sessionId = ctx?.query?.sessionId || ctx?.request?.body?.sessionId;
+      const { documentId } = ctx.params;
+
+      const checkoutService = strapi.service('api::checkout.checkout');
+      const auth = await checkoutService.validateAuthentication(user, sessionId);
+
+      const checkout = await checkoutService.getCheckout(documentId, {}, auth);
+      await checkoutService.validateCheckoutStatus(checkout, ['active'], true);
+
+      const session = await strapi.service('api::checkout.checkout-steps').goToPreviousStep(checkout);
+
+      return {
+        data: session,
+        meta: { message: 'Moved to the previous checkout step' }
+      }
+    } catch (error) {
+      strapi.log.error('Error moving to the previous checkout step:', error)
+      return handleStepError(ctx, error, 'Failed to move to the previous checkout step')
+    }
+  },
+  async updateSession(ctx:Context) {
+    try {
+      const { user } = ctx.state;
+      const sessionId = ctx?.query?.sessionId || ctx?.request?.body?.sessionId;
+      const { documentId } = ctx.params;
+      const { currentStep } = ctx.request.body || {};
+
+      if (!currentStep) {
+        return ctx.badRequest('currentStep is required');
+      }
+
+      const checkoutService = strapi.service('api::checkout.checkout');
+      const auth = await checkoutService.validateAuthentication(user, sessionId);
+
+      const checkout = await checkoutService.getCheckout(documentId, {}, auth);
+      await checkoutService.validateCheckoutStatus(checkout, ['active'], true);
+
+      const session = await strapi.service('api::checkout.checkout-steps').goToStep(checkout, currentStep);
+
+      return {
+        data: session,
+        meta: { message: `Moved to checkout step ${currentStep}` }
+      }
+    } catch (error) {
+      strapi.log.error('Error updating checkout session:', error)
+      return handleStepError(ctx, error, 'Failed to update checkout session')
+    }
+  },
+  async restoreCheckout(ctx:Context) {
+    try {
+      const documentId = ctx.params?.documentId;
+      const token = ctx.request.body?.token || ctx?.query?.token;
+
+      if (!token) {
+        return ctx.badRequest('Restore token is required');
+      }
+
+      const session = await strapi.service('api::checkout.checkout-recovery').restoreCheckout(documentId, token);
+
+      return {
+        data: session,
+        meta: { message: 'Checkout restored successfully' }
+      }
+    } catch (error) {
+      strapi.log.error('Error restoring checkout:', error)
+      if (error.message.includes('restore token') || error.message.includes('Restore token')) {
+        return ctx.unauthorized(error.message);
+      }
+      if (error.message.includes('not found')) {
+        return ctx.notFound(error.message);
+      }
+      if (/expired|cannot be restored/.test(error.message)) {
+        return ctx.badRequest(error.message);
+      }
+      return ctx.internalServerError('Failed to restore checkout')
+    }
+  },
+  async getRecoveryStats(ctx:Context) {
+    try {
+      const { from, to } = ctx.query as { from?: string; to?: string };
+      const periodEnd = to ? new Date(to) : new Date();
+      const periodStart = from ? new Date(from) : new Date(periodEnd.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime())) {
+        return ctx.badRequest('from and to must be valid dates');
+      }
+
+      const stats = await strapi.service('api::checkout.checkout-recovery').getCampaignStats(periodStart, periodEnd);
+
+      return {
+        data: stats,
+        meta: { message: 'Checkout recovery stats retrieved successfully' }
+      }
+    } catch (error) {
+      strapi.log.error('Error getting checkout recovery stats:', error)
+      return ctx.internalServerError('Failed to get checkout recovery stats')
+    }
+  },
   async abandonCheckout(ctx:Context) {
     try {
       const { user } = ctx.state;
@@ -9,6 +9,60 @@ export default {
         policies: ['global::is-public']
       }
     },
+    // List shipping methods available for an address
+    {
+      method: 'GET',
+      path: '/checkout/shipping-methods',
+      handler: 'checkout.getShippingMethods',
+      config: {
+        policies: ['global::is-public']
+      }
+    },
+    // Abandoned checkout recovery campaign results
+    {
+      method: 'GET',
+      path: '/checkout/recovery/stats',
+      handler: 'checkout.getRecoveryStats',
+      config: {
+        policies: ['global::is-admin']
+      }
+    },
+    // Get checkout session with its step progress
+    {
+      method: 'GET',
+      path: '/checkout/session/:documentId',
+      handler: 'checkout.getSession',
+      config: {
+        policies: ['global::is-public']
+      }
+    },
+    // Move checkout session to a completed step or the next step to complete
+    {
+      method: 'PUT',
+      path: '/checkout/session/:documentId',
+      handler: 'checkout.updateSession',
+      config: {
+        policies: ['global::is-public']
+      }
+    },
+    // Go back to the previous checkout step
+    {
+      method: 'POST',
+      path: '/checkout/session/:documentId/steps/previous',
+      handler: 'checkout.previousStep',
+      config: {
+        policies: ['global::is-public']
+      }
+    },
+    // Complete the current checkout step, completing the review places the order
+    {
+      method: 'POST',
+      path: '/checkout/session/:documentId/steps/:step/complete',
+      handler: 'checkout.completeStep',
+      config: {
+        policies: ['global::is-public']
+      }
+    },
     // Validate checkout
     {
       method: 'POST',
@@ -27,6 +81,15 @@ export default {
         policies: ['global::is-public']
       }
     },
+    // Restore an abandoned checkout from the signed link of a recovery reminder
+    {
+      method: 'POST',
+      path: '/checkout/:documentId/restore',
+      handler: 'checkout.restoreCheckout',
+      config: {
+        policies: ['global::is-public']
+      }
+    },
     // Abandon checkout
     {
       method: 'POST',
@@ -0,0 +1,364 @@
+/**
+ * Checkout recovery service tests
+ *
+ * Tests abandonment detection from checkout activity, marketing consent,
+ * reminder scheduling, signed restore links and order attribution
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createRecoveryService from './checkout-recovery';
+import { CHECKOUT_RECOVERY_CONFIG } from '../../../../config/constant';
+
+const HOUR = 60 * 60 * 1000;
+
+const mockDocuments: Record<string, any> = {
+  'api::checkout.checkout': {
+    findMany: jest.fn() as jest.MockedFunction<any>,
+    findOne: jest.fn() as jest.MockedFunction<any>,
+    update: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::checkout-activity.checkout-activity': {
+    findFirst: jest.fn() as jest.MockedFunction<any>,
+    create: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::user-preference.user-preference': {
+    findFirst: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::privacy-setting.privacy-setting': {
+    findFirst: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::guest.guest': {
+    findFirst: jest.fn() as jest.MockedFunction<any>,
+    findMany: jest.fn() as jest.MockedFunction<any>,
+    update: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::cart.cart': {
+    findMany: jest.fn() as jest.MockedFunction<any>,
+    update: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::address.address': {
+    findMany: jest.fn() as jest.MockedFunction<any>,
+    update: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+// Mock knex query builder of the conditional restore token claim
+const mockRestoreQuery: any = {
+  where: jest.fn(() => mockRestoreQuery),
+  andWhere: jest.fn(() => mockRestoreQuery),
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockServices: Record<string, any> = {
+  'api::checkout.checkout-steps': {
+    getStepProgress: jest.fn((checkout: any) => ({ currentStep: checkout.currentStep, completedSteps: [] })),
+  },
+  'api::notification.notification': {
+    notify: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockNotify = mockServices['api::notification.notification'].notify;
+
+const mockStrapi: any = {
+  documents: jest.fn((uid: string) => mockDocuments[uid]),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  db: {
+    metadata: {
+      get: jest.fn(() => ({ tableName: 'checkouts', attributes: {} })),
+    },
+    connection: jest.fn(() => mockRestoreQuery),
+  },
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const checkouts = mockDocuments['api::checkout.checkout'];
+const activities = mockDocuments['api::checkout-activity.checkout-activity'];
+
+const createCheckout = (overrides: any = {}) => ({
+  documentId: 'checkout-1',
+  status: 'abandoned',
+  recoveryStatus: 'pending',
+  recoveryEmailsSent: 0,
+  abandonedAt: new Date(Date.now() - 2 * HOUR),
+  updatedAt: new Date(Date.now() - 2 * HOUR),
+  expiresAt: new Date(Date.now() + 24 * HOUR),
+  currentStep: 'shipping',
+  user: { id: 7, email: 'customer@example.com' },
+  metadata: { cartItems: [{ documentId: 'cart-item-1', quantity: 2 }] },
+  ...overrides,
+});
+
+const giveConsent = (emailMarketing: boolean, marketingConsent: boolean) => {
+  mockDocuments['api::user-preference.user-preference'].findFirst.mockResolvedValue({ emailMarketing });
+  mockDocuments['api::privacy-setting.privacy-setting'].findFirst.mockResolvedValue({ marketingConsent });
+};
+
+describe('Checkout Recovery Service', () => {
+  let service: ReturnType<typeof createRecoveryService>;
+  const originalSecret = CHECKOUT_RECOVERY_CONFIG.restoreTokenSecret;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocuments).forEach((methods) => Object.values(methods).forEach((fn: any) => fn.mockReset()));
+    checkouts.update.mockImplementation(async ({ documentId, data }: any) => ({ ...createCheckout(), documentId, ...data }));
+    ['api::guest.guest', 'api::cart.cart', 'api::address.address'].forEach((uid) => mockDocuments[uid].findMany.mockResolvedValue([]));
+    mockRestoreQuery.update.mockReset();
+    mockRestoreQuery.update.mockResolvedValue(1);
+    mockNotify.mockReset();
+    mockNotify.mockResolvedValue({ deliveries: [], delivered: ['email'] });
+    CHECKOUT_RECOVERY_CONFIG.restoreTokenSecret = 'test-restore-secret';
+    service = createRecoveryService({ strapi: mockStrapi });
+  });
+
+  afterEach(() => {
+    CHECKOUT_RECOVERY_CONFIG.restoreTokenSecret = originalSecret;
+  });
+
+  describe('detectAbandonedCheckouts', () => {
+    it('should abandon checkouts whose customer was last seen before the inactivity cutoff', async () => {
+      checkouts.findMany.mockResolvedValue([
+        createCheckout({ status: 'active', recoveryStatus: null }),
+        createCheckout({ documentId: 'checkout-2', status: 'active', recoveryStatus: null }),
+      ]);
+      activities.findFirst
+        .mockResolvedValueOnce({ timestamp: new Date(Date.now() - 3 * HOUR) })
+        .mockResolvedValueOnce({ timestamp: new Date(Date.now() - 5 * 60 * 1000) });
+
+      const result = await service.detectAbandonedCheckouts();
+
+      expect(result).toEqual({ abandonedCount: 1 });
+      expect(checkouts.update).toHaveBeenCalledTimes(1);
+      expect(checkouts.update).toHaveBeenCalledWith({
+        documentId: 'checkout-1',
+        data: { status: 'abandoned', abandonedAt: expect.any(Date), recoveryStatus: 'pending', nextRecoveryAt: expect.any(Date) },
+      });
+      expect(activities.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ checkout: 'checkout-1', activityType: 'checkout_abandon', stepName: 'shipping', user: 7 }),
+      });
+    });
+
+    it('should not start a second campaign for a checkout abandoned again after a restore', async () => {
+      checkouts.findMany.mockResolvedValue([createCheckout({ status: 'active', recoveryStatus: 'restored' })]);
+      activities.findFirst.mockResolvedValue(null);
+
+      await service.detectAbandonedCheckouts();
+
+      expect(checkouts.update).toHaveBeenCalledWith({
+        documentId: 'checkout-1',
+        data: { status: 'abandoned', abandonedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('sendRecoveryReminders', () => {
+    it('should email the due reminder with a signed restore link', async () => {
+      checkouts.findMany.mockResolvedValue([createCheckout()]);
+      giveConsent(true, true);
+
+      const result = await service.sendRecoveryReminders();
+
+      expect(result).toEqual({ sentCount: 1, skippedCount: 0, failedCount: 0 });
+      const notification = mockNotify.mock.calls[0][0] as any;
+      expect(notification).toMatchObject({
+        template: 'checkout-recovery',
+        email: 'customer@example.com',
+        channels: ['email'],
+        reference: 'checkout-1',
+        data: { itemCount: 2, validDays: CHECKOUT_RECOVERY_CONFIG.restoreTokenTtlDays },
+      });
+      const link = new URL(notification.data.restoreUrl);
+      expect(link.searchParams.get('checkout')).toBe('checkout-1');
+      expect(link.searchParams.get('utm_campaign')).toBe('abandoned-checkout');
+      expect(service.verifyRestoreToken('checkout-1', link.searchParams.get('token') as string)).toMatchObject({ reminder: 1 });
+      expect(checkouts.update).toHaveBeenCalledWith({
+        documentId: 'checkout-1',
+        data: { recoveryEmailsSent: 1, lastRecoveryEmailAt: expect.any(Date), nextRecoveryAt: expect.any(Date) },
+      });
+      // the second reminder is due 24 hours after abandonment
+      const { nextRecoveryAt } = (checkouts.update.mock.calls[0][0] as any).data;
+      expect(nextRecoveryAt.getTime() - createCheckout().abandonedAt.getTime()).toBeGreaterThan(21 * HOUR);
+    });
+
+    it('should only load checkouts whose next reminder is due', async () => {
+      checkouts.findMany.mockResolvedValue([]);
+
+      await service.sendRecoveryReminders();
+
+      expect(checkouts.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        filters: expect.objectContaining({
+          $or: [{ nextRecoveryAt: { $lte: expect.any(Date) } }, { nextRecoveryAt: { $null: true } }],
+        }),
+        sort: [{ nextRecoveryAt: 'asc' }, { abandonedAt: 'asc' }],
+      }));
+    });
+
+    it('should stop reminding when the email is skipped and retry failed emails', async () => {
+      checkouts.findMany.mockResolvedValue([createCheckout(), createCheckout({ documentId: 'checkout-2' })]);
+      giveConsent(true, true);
+      mockNotify
+        .mockResolvedValueOnce({
+          deliveries: [{ channel: 'email', status: 'skipped', reason: 'no email provider is configured' }],
+          delivered: [],
+        })
+        .mockResolvedValueOnce({ deliveries: [{ channel: 'email', status: 'failed', error: 'SMTP unavailable' }], delivered: [] });
+
+      const result = await service.sendRecoveryReminders();
+
+      expect(result).toEqual({ sentCount: 0, skippedCount: 1, failedCount: 1 });
+      expect(checkouts.update).toHaveBeenCalledTimes(1);
+      expect(checkouts.update).toHaveBeenCalledWith({ documentId: 'checkout-1', data: { recoveryStatus: 'skipped' } });
+    });
+
+    it('should store when the next reminder is due on checkouts loaded before it', async () => {
+      checkouts.findMany.mockResolvedValue([createCheckout({ recoveryEmailsSent: 1 })]);
+      giveConsent(true, true);
+
+      const result = await service.sendRecoveryReminders();
+
+      expect(result.sentCount).toBe(0);
+      expect(mockNotify).not.toHaveBeenCalled();
+      expect(checkouts.update).toHaveBeenCalledWith({
+        documentId: 'checkout-1',
+        data: { nextRecoveryAt: expect.any(Date) },
+      });
+    });
+
+    it('should skip users who did not consent to marketing in both their preferences and privacy settings', async () => {
+      checkouts.findMany.mockResolvedValue([createCheckout()]);
+      giveConsent(true, false);
+
+      const result = await service.sendRecoveryReminders();
+
+      expect(result).toEqual({ sentCount: 0, skippedCount: 1, failedCount: 0 });
+      expect(mockNotify).not.toHaveBeenCalled();
+      expect(checkouts.update).toHaveBeenCalledWith({ documentId: 'checkout-1', data: { recoveryStatus: 'skipped' } });
+    });
+
+    it('should only email guests who accepted marketing', async () => {
+      checkouts.findMany.mockResolvedValue([
+        createCheckout({ user: null, sessionId: 'session-1', stepData: { review: { marketingAccepted: true } } }),
+        createCheckout({ documentId: 'checkout-2', user: null, sessionId: 'session-2' }),
+      ]);
+      mockDocuments['api::guest.guest'].findFirst.mockResolvedValue({ email: 'guest@example.com' });
+
+      const result = await service.sendRecoveryReminders();
+
+      expect(result).toEqual({ sentCount: 1, skippedCount: 1, failedCount: 0 });
+      expect(mockNotify).toHaveBeenCalledTimes(1);
+      expect(mockNotify).toHaveBeenCalledWith(expect.objectContaining({ email: 'guest@example.com' }));
+    });
+
+    it('should not send reminders without a restore token secret', async () => {
+      CHECKOUT_RECOVERY_CONFIG.restoreTokenSecret = '';
+
+      const result = await service.sendRecoveryReminders();
+
+      expect(result).toEqual({ sentCount: 0, skippedCount: 0, failedCount: 0 });
+      expect(checkouts.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreCheckout', () => {
+    it('should reactivate an abandoned checkout and record the reminder it came back from', async () => {
+      const token = service.signRestoreToken('checkout-1', 2);
+      checkouts.findOne.mockResolvedValue(createCheckout());
+
+      await service.restoreCheckout('checkout-1', token);
+
+      expect(checkouts.update).toHaveBeenCalledWith({
+        documentId: 'checkout-1',
+        data: expect.objectContaining({
+          status: 'active',
+          recoveryStatus: 'restored',
+          metadata: expect.objectContaining({
+            recovery: expect.objectContaining({ campaign: 'abandoned-checkout', reminder: 2, checkoutId: 'checkout-1' }),
+          }),
+        }),
+      });
+    });
+
+    it('should only return the step progress and cart lines and ask users to sign in', async () => {
+      checkouts.findOne.mockResolvedValue(createCheckout({ shippingAddress: { street: '1 Main St' } }));
+
+      const restored = await service.restoreCheckout('checkout-1', service.signRestoreToken('checkout-1', 1));
+
+      expect(restored).toEqual({
+        documentId: 'checkout-1',
+        status: 'active',
+        currentStep: 'shipping',
+        stepProgress: { currentStep: 'shipping', completedSteps: [] },
+        items: [{ documentId: 'cart-item-1', quantity: 2 }],
+        sessionId: null,
+        requiresSignIn: true,
+      });
+    });
+
+    it('should move a guest checkout to a new short-lived session', async () => {
+      checkouts.findOne.mockResolvedValue(createCheckout({ user: null, sessionId: 'session-1' }));
+      mockDocuments['api::address.address'].findMany.mockResolvedValue([{ documentId: 'address-1' }]);
+
+      const restored = await service.restoreCheckout('checkout-1', service.signRestoreToken('checkout-1', 1));
+
+      expect(restored.sessionId).toEqual(expect.any(String));
+      expect(restored.sessionId).not.toBe('session-1');
+      expect(restored.requiresSignIn).toBe(false);
+      expect(checkouts.update).toHaveBeenCalledWith({
+        documentId: 'checkout-1',
+        data: expect.objectContaining({ sessionId: restored.sessionId, expiresAt: expect.any(Date) }),
+      });
+      const expiresAt = checkouts.update.mock.calls[0][0].data.expiresAt.getTime();
+      expect(expiresAt).toBeLessThanOrEqual(Date.now() + CHECKOUT_RECOVERY_CONFIG.restoredSessionTtlHours * HOUR);
+      expect(mockDocuments['api::address.address'].findMany).toHaveBeenCalledWith({ filters: { sessionId: 'session-1' } });
+      expect(mockDocuments['api::address.address'].update).toHaveBeenCalledWith({
+        documentId: 'address-1',
+        data: { sessionId: restored.sessionId },
+      });
+    });
+
+    it('should refuse a token once it restored the checkout', async () => {
+      checkouts.findOne.mockResolvedValue(createCheckout());
+      mockRestoreQuery.update.mockResolvedValue(0);
+
+      await expect(service.restoreCheckout('checkout-1', service.signRestoreToken('checkout-1', 1)))
+        .rejects.toThrow('Restore token has already been used');
+      expect(mockRestoreQuery.where).toHaveBeenCalledWith('documentId', 'checkout-1');
+      expect(checkouts.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens signed for another checkout or expired', async () => {
+      const otherToken = service.signRestoreToken('checkout-2', 1);
+      const expiredToken = service.signRestoreToken('checkout-1', 1, Date.now() - 1000);
+
+      await expect(service.restoreCheckout('checkout-1', otherToken)).rejects.toThrow('Invalid restore token');
+      await expect(service.restoreCheckout('checkout-1', expiredToken)).rejects.toThrow('Restore token has expired');
+      await expect(service.restoreCheckout('checkout-1', 'not-a-token')).rejects.toThrow('Invalid restore token');
+      expect(checkouts.update).not.toHaveBeenCalled();
+    });
+
+    it('should not restore completed checkouts', async () => {
+      checkouts.findOne.mockResolvedValue(createCheckout({ status: 'completed' }));
+
+      await expect(service.restoreCheckout('checkout-1', service.signRestoreToken('checkout-1', 1)))
+        .rejects.toThrow('Checkout is completed and cannot be restored');
+    });
+  });
+
+  describe('getOrderAttribution', () => {
+    it('should attribute orders placed within the attribution window of a restore', () => {
+      const recovery = { campaign: 'abandoned-checkout', reminder: 1, checkoutId: 'checkout-1', restoredAt: new Date().toISOString() };
+
+      expect(service.getOrderAttribution(createCheckout({ recoveryStatus: 'restored', metadata: { recovery } }))).toEqual(recovery);
+      expect(service.getOrderAttribution(createCheckout({
+        recoveryStatus: 'restored',
+        metadata: { recovery: { ...recovery, restoredAt: new Date(Date.now() - 30 * 24 * HOUR).toISOString() } },
+      }))).toBeNull();
+      expect(service.getOrderAttribution(createCheckout({ recoveryStatus: 'pending' }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,487 @@
+import { Core } from "@strapi/strapi"
+import { createHmac, timingSafeEqual } from "crypto";
+import { CHECKOUT_RECOVERY_CONFIG } from "../../../../config/constant";
+import { generateSessionId } from "../../../utils/activity-tracking";
+
+export interface RecoveryAttribution {
+  campaign: string;
+  reminder: number; // reminder the customer came back from, 1 for the first
+  checkoutId: string;
+  restoredAt: string;
+}
+
+interface RestoreToken {
+  checkoutId: string;
+  reminder: number;
+  expiresAt: number;
+}
+
+export interface RestoredCheckout {
+  documentId: string;
+  status: string;
+  currentStep: string;
+  stepProgress: any;
+  items: any[]; // cart lines of the checkout
+  sessionId: string | null; // new guest session, null for users
+  requiresSignIn: boolean; // users sign in to continue, their addresses are not returned
+}
+
+/**
+ * Checkout recovery service
+ *
+ * Marks active checkouts without recent checkout activity abandoned and runs
+ * the recovery campaign for them: reminder emails with a signed link that
+ * restores the checkout, sent only to customers who consented to marketing.
+ * Orders placed from a restored checkout are attributed to the campaign.
+ */
+export default ({ strapi }: { strapi: Core.Strapi }) => ({
+
+  /**
+   * Marks active checkouts abandoned when their customer was last seen before the inactivity cutoff
+   * @returns Number of checkouts marked abandoned
+   */
+  async detectAbandonedCheckouts(): Promise<{ abandonedCount: number }> {
+    const cutoff = new Date(Date.now() - CHECKOUT_RECOVERY_CONFIG.inactivityMinutes * 60 * 1000);
+    // A checkout updated after the cutoff has been active since, whatever its activity says
+    const checkouts = await strapi.documents('api::checkout.checkout').findMany({
+      filters: {
+        status: 'active',
+        updatedAt: { $lt: cutoff }
+      },
+      populate: { user: true },
+      sort: { updatedAt: 'asc' },
+      limit: CHECKOUT_RECOVERY_CONFIG.batchSize
+    });
+
+    let abandonedCount = 0;
+    for (const checkout of checkouts) {
+      const lastSeenAt = await this.getLastSeenAt(checkout);
+      if (lastSeenAt >= cutoff) {
+        continue;
+      }
+
+      const hasItems = ((checkout.metadata as any)?.cartItems || []).length > 0;
+      const abandonedAt = new Date();
+      await strapi.documents('api::checkout.checkout').update({
+        documentId: checkout.documentId,
+        data: {
+          status: 'abandoned',
+          abandonedAt,
+          // A checkout abandoned again after a restore does not start a second campaign
+          ...(checkout.recoveryStatus
+            ? {}
+            : hasItems
+              ? { recoveryStatus: 'pending', nextRecoveryAt: this.getNextRecoveryAt(abandonedAt, 1) }
+              : { recoveryStatus: 'skipped' })
+        }
+      });
+      await strapi.documents('api::checkout-activity.checkout-activity').create({
+        data: {
+          checkout: checkout.documentId,
+          sessionId: checkout.sessionId,
+          user: checkout.user?.id,
+          activityType: 'checkout_abandon',
+          stepName: checkout.currentStep,
+          timestamp: new Date(),
+          activityData: { lastSeenAt: lastSeenAt.toISOString(), source: 'inactivity' }
+        }
+      });
+      abandonedCount++;
+    }
+
+    if (abandonedCount > 0) {
+      strapi.log.info(`Marked ${abandonedCount} inactive checkouts abandoned`);
+    }
+    return { abandonedCount };
+  },
+
+  /**
+   * Gets when the customer of a checkout was last seen, from its latest checkout activity
+   */
+  async getLastSeenAt(checkout: any): Promise<Date> {
+    const activity = await strapi.documents('api::checkout-activity.checkout-activity').findFirst({
+      filters: { checkout: { documentId: checkout.documentId } },
+      sort: { timestamp: 'desc' },
+      fields: ['timestamp']
+    });
+    const updatedAt = new Date(checkout.updatedAt);
+    const activityAt = activity ? new Date(activity.timestamp) : null;
+    return activityAt && activityAt > updatedAt ? activityAt : updatedAt;
+  },
+
+  /**
+   * Sends the recovery reminders that are due to the customers of abandoned checkouts
+   * @returns Number of reminders sent, checkouts skipped for missing consent or email, and failed sends
+   */
+  async sendRecoveryReminders(): Promise<{ sentCount: number; skippedCount: number; failedCount: number }> {
+    const result = { sentCount: 0, skippedCount: 0, failedCount: 0 };
+    if (!CHECKOUT_RECOVERY_CONFIG.restoreTokenSecret) {
+      strapi.log.warn('Checkout recovery reminders are disabled, CHECKOUT_RESTORE_SECRET is not configured');
+      return result;
+    }
+
+    // Only checkouts whose next reminder is due take a place in the batch
+    const now = new Date();
+    const checkouts = await strapi.documents('api::checkout.checkout').findMany({
+      filters: {
+        status: 'abandoned',
+        recoveryStatus: 'pending',
+        expiresAt: { $gt: now },
+        $or: [
+          { nextRecoveryAt: { $lte: now } },
+          { nextRecoveryAt: { $null: true } }
+        ]
+      },
+      populate: { user: true },
+      sort: [{ nextRecoveryAt: 'asc' }, { abandonedAt: 'asc' }],
+      limit: CHECKOUT_RECOVERY_CONFIG.batchSize
+    });
+
+    for (const checkout of checkouts) {
+      const reminder = (checkout.recoveryEmailsSent || 0) + 1;
+      const nextRecoveryAt = this.getNextRecoveryAt(checkout.abandonedAt, reminder);
+      if (!nextRecoveryAt) {
+        await this.setRecoveryStatus(checkout.documentId, 'exhausted');
+        continue;
+      }
+      // Checkouts abandoned before the due time was stored get it on their first run
+      if (nextRecoveryAt > now) {
+        await strapi.documents('api::checkout.checkout').update({
+          documentId: checkout.documentId,
+          data: { nextRecoveryAt }
+        });
+        continue;
+      }
+
+      const email = await this.getRecipientEmail(checkout);
+      if (!email) {
+        await this.setRecoveryStatus(checkout.documentId, 'skipped');
+        result.skippedCount++;
+        continue;
+      }
+
+      try {
+        const status = await this.sendReminder(checkout, email, reminder);
+        // A skipped email, e.g. without an email provider, is not retried, failed sends are
+        if (status === 'skipped') {
+          await this.setRecoveryStatus(checkout.documentId, 'skipped');
+          result.skippedCount++;
+          continue;
+        }
+        if (status === 'failed') {
+          result.failedCount++;
+          continue;
+        }
+        const followingRecoveryAt = this.getNextRecoveryAt(checkout.abandonedAt, reminder + 1);
+        await strapi.documents('api::checkout.checkout').update({
+          documentId: checkout.documentId,
+          data: {
+            recoveryEmailsSent: reminder,
+            lastRecoveryEmailAt: new Date(),
+            nextRecoveryAt: followingRecoveryAt,
+            ...(followingRecoveryAt ? {} : { recoveryStatus: 'exhausted' })
+          }
+        });
+        result.sentCount++;
+      } catch (error) {
+        strapi.log.error(`Error sending recovery reminder for checkout ${checkout.documentId}:`, error);
+        result.failedCount++;
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Gets when a reminder of an abandoned checkout is due
+   * @returns null when the campaign has no such reminder
+   */
+  getNextRecoveryAt(abandonedAt: Date | string, reminder: number): Date | null {
+    const delayHours = CHECKOUT_RECOVERY_CONFIG.reminderDelayHours[reminder - 1];
+    if (delayHours === undefined) {
+      return null;
+    }
+    return new Date(new Date(abandonedAt).getTime() + delayHours * 60 * 60 * 1000);
+  },
+
+  /**
+   * Gets the email to send recovery reminders to, when the customer consented to marketing emails
+   *
+   * Users consent through both their email marketing preference and their
+   * privacy settings, guests by accepting marketing on the review step.
+   * @returns null when the customer did not consent or left no email
+   */
+  async getRecipientEmail(checkout: any): Promise<string | null> {
+    if (checkout.user) {
+      const [preference, privacySetting] = await Promise.all([
+        strapi.documents('api::user-preference.user-preference').findFirst({
+          filters: { user: { id: checkout.user.id } }
+        }),
+        strapi.documents('api::privacy-setting.privacy-setting').findFirst({
+          filters: { user: { id: checkout.user.id } }
+        })
+      ]);
+      if (!preference?.emailMarketing || !privacySetting?.marketingConsent) {
+        return null;
+      }
+      return checkout.user.email || null;
+    }
+
+    if (!checkout.sessionId || (checkout.stepData as any)?.review?.marketingAccepted !== true) {
+      return null;
+    }
+    const guest = await strapi.documents('api::guest.guest').findFirst({
+      filters: { sessionId: checkout.sessionId }
+    });
+    return guest?.email || null;
+  },
+
+  /**
+   * Emails a recovery reminder with the link that restores the checkout
+   * @returns How the email delivery went, skipped when the notification service left it out
+   */
+  async sendReminder(checkout: any, email: string, reminder: number): Promise<'sent' | 'skipped' | 'failed'> {
+    const cartItems = (checkout.metadata as any)?.cartItems || [];
+    const result = await strapi.service('api::notification.notification').notify({
+      template: 'checkout-recovery',
+      user: checkout.user || undefined,
+      email,
+      channels: ['email'],
+      reference: checkout.documentId,
+      data: {
+        itemCount: cartItems.reduce((sum: number, item: any) => sum + item.quantity, 0),
+        restoreUrl: this.getRestoreUrl(checkout.documentId, reminder),
+        validDays: CHECKOUT_RECOVERY_CONFIG.restoreTokenTtlDays
+      }
+    });
+    const delivery = result.deliveries.find((candidate: any) => candidate.channel === 'email');
+    if (result.delivered.includes('email') || delivery?.status === 'queued') {
+      return 'sent';
+    }
+    return delivery?.status === 'skipped' ? 'skipped' : 'failed';
+  },
+
+  /**
+   * Builds the restore link of a reminder, tagged with the campaign for the storefront analytics
+   */
+  getRestoreUrl(checkoutId: string, reminder: number): string {
+    const url = new URL(CHECKOUT_RECOVERY_CONFIG.restoreUrl);
+    url.searchParams.set('checkout', checkoutId);
+    url.searchParams.set('token', this.signRestoreToken(checkoutId, reminder));
+    url.searchParams.set('utm_source', 'email');
+    url.searchParams.set('utm_medium', 'checkout_recovery');
+    url.searchParams.set('utm_campaign', CHECKOUT_RECOVERY_CONFIG.campaign);
+    url.searchParams.set('utm_content', `reminder-${reminder}`);
+    return url.toString();
+  },
+
+  /**
+   * Signs a restore token for a checkout and the reminder it is sent with
+   * @returns Token in the form reminder.expiresAt.signature
+   */
+  signRestoreToken(checkoutId: string, reminder: number, expiresAt?: number): string {
+    const expires = expiresAt ?? Date.now() + CHECKOUT_RECOVERY_CONFIG.restoreTokenTtlDays * 24 * 60 * 60 * 1000;
+    const signature = createHmac('sha256', CHECKOUT_RECOVERY_CONFIG.restoreTokenSecret)
+      .update(`${checkoutId}.${reminder}.${expires}`)
+      .digest('hex');
+    return `${reminder}.${expires}.${signature}`;
+  },
+
+  /**
+   * Verifies a restore token was signed for the checkout and has not expired
+   * @throws Error when the token is malformed, forged or expired
+   */
+  verifyRestoreToken(checkoutId: string, token: string): RestoreToken {
+    const [reminderPart, expiresPart, signature] = (token || '').split('.');
+    const reminder = Number(reminderPart);
+    const expiresAt = Number(expiresPart);
+    if (!CHECKOUT_RECOVERY_CONFIG.restoreTokenSecret || !signature || !Number.isInteger(reminder) || !Number.isInteger(expiresAt)) {
+      throw new Error('Invalid restore token');
+    }
+
+    const expected = Buffer.from(this.signRestoreToken(checkoutId, reminder, expiresAt).split('.')[2]);
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new Error('Invalid restore token');
+    }
+    if (expiresAt < Date.now()) {
+      throw new Error('Restore token has expired');
+    }
+    return { checkoutId, reminder, expiresAt };
+  },
+
+  /**
+   * Restores an abandoned checkout from the link of a recovery reminder
+   *
+   * A link restores the checkout once, tokens issued before the last restore
+   * are refused. Only the step progress and the cart lines are returned:
+   * guests continue with a new short-lived session ID and users once signed in.
+   * @param checkoutId - Checkout document ID
+   * @param token - Restore token of the link
+   * @returns Restored checkout
+   */
+  async restoreCheckout(checkoutId: string, token: string): Promise<RestoredCheckout> {
+    const { reminder, expiresAt } = this.verifyRestoreToken(checkoutId, token);
+    const checkout = await strapi.documents('api::checkout.checkout').findOne({
+      documentId: checkoutId,
+      populate: { user: true }
+    });
+    if (!checkout) {
+      throw new Error('Checkout not found');
+    }
+    if (new Date(checkout.expiresAt) < new Date()) {
+      throw new Error('Checkout has expired');
+    }
+    if (!['abandoned', 'active'].includes(checkout.status)) {
+      throw new Error(`Checkout is ${checkout.status} and cannot be restored`);
+    }
+
+    const restoredAt = new Date();
+    if (!await this.claimRestoreToken(checkoutId, expiresAt, restoredAt)) {
+      throw new Error('Restore token has already been used');
+    }
+
+    const data: Record<string, any> = { restoredAt };
+    if (checkout.status === 'abandoned') {
+      const metadata = (checkout.metadata as any) || {};
+      Object.assign(data, {
+        status: 'active',
+        recoveryStatus: 'restored',
+        metadata: {
+          ...metadata,
+          recovery: {
+            campaign: CHECKOUT_RECOVERY_CONFIG.campaign,
+            reminder,
+            checkoutId,
+            restoredAt: restoredAt.toISOString()
+          }
+        }
+      });
+    }
+
+    // The session of the link holder replaces the one the guest left with
+    let sessionId: string | null = null;
+    if (!checkout.user) {
+      sessionId = generateSessionId();
+      const sessionExpiresAt = restoredAt.getTime() + CHECKOUT_RECOVERY_CONFIG.restoredSessionTtlHours * 60 * 60 * 1000;
+      data.sessionId = sessionId;
+      data.expiresAt = new Date(Math.min(new Date(checkout.expiresAt).getTime(), sessionExpiresAt));
+      if (checkout.sessionId) {
+        await this.moveGuestSession(checkout.sessionId, sessionId);
+      }
+    }
+
+    const restoredCheckout = await strapi.documents('api::checkout.checkout').update({
+      documentId: checkoutId,
+      data
+    });
+    const stepProgress = strapi.service('api::checkout.checkout-steps').getStepProgress(restoredCheckout);
+
+    return {
+      documentId: checkoutId,
+      status: restoredCheckout.status,
+      currentStep: stepProgress.currentStep,
+      stepProgress,
+      items: ((restoredCheckout.metadata as any)?.cartItems || []).map((item: any) => ({
+        documentId: item.documentId,
+        product: item.product,
+        variant: item.variant,
+        quantity: item.quantity,
+        price: item.price
+      })),
+      sessionId,
+      requiresSignIn: !!checkout.user
+    };
+  },
+
+  /**
+   * Marks a restore token used by moving the checkout restoredAt past the time the token was issued
+   *
+   * The conditional update lets only one of concurrent restores with the same token through.
+   * @returns false when the checkout was restored since the token was issued
+   */
+  async claimRestoreToken(checkoutId: string, expiresAt: number, restoredAt: Date): Promise<boolean> {
+    const { tableName, attributes } = strapi.db.metadata.get('api::checkout.checkout');
+    const column = (name: string): string => (attributes as any)?.[name]?.columnName || name;
+    const issuedAt = new Date(expiresAt - CHECKOUT_RECOVERY_CONFIG.restoreTokenTtlDays * 24 * 60 * 60 * 1000);
+
+    const updatedRows = await strapi.db.connection(tableName)
+      .where(column('documentId'), checkoutId)
+      .andWhere((builder: any) =>
+        builder.whereNull(column('restoredAt')).orWhere(column('restoredAt'), '<', issuedAt)
+      )
+      .update({ [column('restoredAt')]: restoredAt });
+    return updatedRows > 0;
+  },
+
+  /**
+   * Moves the guest record, cart and addresses of a guest session to a new session ID
+   */
+  async moveGuestSession(previousSessionId: string, sessionId: string): Promise<void> {
+    for (const uid of ['api::guest.guest', 'api::cart.cart', 'api::address.address'] as const) {
+      const documents = await strapi.documents(uid).findMany({
+        filters: { sessionId: previousSessionId } as any
+      });
+      for (const document of documents) {
+        await strapi.documents(uid).update({
+          documentId: document.documentId,
+          data: { sessionId } as any
+        });
+      }
+    }
+  },
+
+  /**
+   * Gets the campaign an order placed from a checkout is attributed to
+   * @returns null when the checkout was not restored within the attribution window
+   */
+  getOrderAttribution(checkout: any): RecoveryAttribution | null {
+    const recovery = (checkout.metadata as any)?.recovery;
+    if (!recovery?.restoredAt || !['restored', 'recovered'].includes(checkout.recoveryStatus)) {
+      return null;
+    }
+    const windowEnd = new Date(recovery.restoredAt).getTime() + CHECKOUT_RECOVERY_CONFIG.attributionWindowDays * 24 * 60 * 60 * 1000;
+    return windowEnd >= Date.now() ? recovery : null;
+  },
+
+  /**
+   * Counts the checkouts and orders of the recovery campaign
+   * @param from - Start of the period checkouts were abandoned in
+   * @param to - End of the period
+   * @returns Checkouts reminded, restored and recovered, and the revenue of the recovered orders
+   */
+  async getCampaignStats(from: Date, to: Date) {
+    const filters = { abandonedAt: { $gte: from, $lte: to } };
+    const count = (extra: any) => strapi.documents('api::checkout.checkout').count({ filters: { ...filters, ...extra } });
+
+    const [abandonedCount, remindedCount, restoredCount] = await Promise.all([
+      count({}),
+      count({ recoveryEmailsSent: { $gt: 0 } }),
+      count({ recoveryStatus: { $in: ['restored', 'recovered'] } })
+    ]);
+    const recoveredCheckouts = await strapi.documents('api::checkout.checkout').findMany({
+      filters: { ...filters, recoveryStatus: 'recovered' },
+      populate: { order: true }
+    });
+
+    return {
+      campaign: CHECKOUT_RECOVERY_CONFIG.campaign,
+      period: { from, to },
+      abandonedCount,
+      remindedCount,
+      restoredCount,
+      recoveredCount: recoveredCheckouts.length,
+      recoveredRevenue: recoveredCheckouts.reduce((sum, checkout: any) => sum + (checkout.order?.total || 0), 0)
+    };
+  },
+
+  /**
+   * Sets the recovery campaign status of a checkout
+   */
+  async setRecoveryStatus(documentId: string, recoveryStatus: 'pending' | 'skipped' | 'exhausted' | 'restored' | 'recovered') {
+    return strapi.documents('api::checkout.checkout').update({
+      documentId,
+      data: { recoveryStatus }
+    });
+  }
+})
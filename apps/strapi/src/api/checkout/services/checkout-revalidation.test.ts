@@ -0,0 +1,233 @@
+/**
+ * Checkout revalidation service tests
+ *
+ * Tests repricing the cart snapshot of a checkout against current listing
+ * and variant prices, the price tolerance and stock shortages
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createRevalidationService, { CartChangedError } from './checkout-revalidation';
+import createCheckoutService from './checkout';
+import { CHECKOUT_REVALIDATION_CONFIG, UserType } from '../../../../config/constant';
+
+const mockListingMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockVariantMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockDocumentMethods = {
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockServices: Record<string, any> = {
+  'api::inventory.inventory': {
+    findInventoryRecord: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn((uid: string) => {
+    if (uid === 'api::product-listing.product-listing') {
+      return mockListingMethods;
+    }
+    if (uid === 'api::product-listing-variant.product-listing-variant') {
+      return mockVariantMethods;
+    }
+    return mockDocumentMethods;
+  }),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const createCartItem = (overrides: any = {}) => ({
+  documentId: 'cart-item-1',
+  product: { documentId: 'product-1' },
+  productListing: { documentId: 'listing-1' },
+  variant: null,
+  price: 1000,
+  total: 2000,
+  quantity: 2,
+  ...overrides,
+});
+
+describe('Checkout Revalidation Service', () => {
+  let service: ReturnType<typeof createRevalidationService>;
+  const originalTolerance = CHECKOUT_REVALIDATION_CONFIG.priceTolerancePercent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListingMethods.findOne.mockReset();
+    mockVariantMethods.findOne.mockReset();
+    mockListingMethods.findOne.mockResolvedValue({ documentId: 'listing-1', basePrice: 1000, isActive: true });
+    mockServices['api::inventory.inventory'].findInventoryRecord.mockResolvedValue({ available: 10 });
+    service = createRevalidationService({ strapi: mockStrapi });
+    mockServices['api::checkout.checkout-revalidation'] = service;
+  });
+
+  afterEach(() => {
+    CHECKOUT_REVALIDATION_CONFIG.priceTolerancePercent = originalTolerance;
+  });
+
+  describe('revalidateItems', () => {
+    it('should keep lines whose price and stock did not change', async () => {
+      const result = await service.revalidateItems([createCartItem()]);
+
+      expect(result.changes).toEqual([]);
+      expect(result.items[0]).toMatchObject({ price: 1000, total: 2000 });
+      expect(mockListingMethods.findOne).toHaveBeenCalledWith({ documentId: 'listing-1', status: 'published' });
+    });
+
+    it('should report variant prices that changed', async () => {
+      mockListingMethods.findOne.mockResolvedValue({ documentId: 'listing-1', type: 'variant', basePrice: 900 });
+      mockVariantMethods.findOne.mockResolvedValue({
+        documentId: 'variant-1',
+        basePrice: 1200,
+        discountPrice: 1100,
+        productListing: { documentId: 'listing-1' },
+      });
+
+      const result = await service.revalidateItems([createCartItem({ variant: { documentId: 'variant-1' } })]);
+
+      expect(result.changes).toEqual([{
+        cartItemId: 'cart-item-1',
+        type: 'price_changed',
+        productListingId: 'listing-1',
+        variantId: 'variant-1',
+        previousPrice: 1000,
+        currentPrice: 1100,
+      }]);
+      expect(result.items[0]).toMatchObject({ price: 1100, total: 2200 });
+    });
+
+    it('should reprice drift within the tolerance without reporting it', async () => {
+      CHECKOUT_REVALIDATION_CONFIG.priceTolerancePercent = 5;
+      mockListingMethods.findOne.mockResolvedValue({ documentId: 'listing-1', basePrice: 1040 });
+
+      const result = await service.revalidateItems([createCartItem()]);
+
+      expect(result.changes).toEqual([]);
+      expect(result.items[0]).toMatchObject({ price: 1040, total: 2080 });
+    });
+
+    it('should report listings no longer sold and stock that ran short', async () => {
+      mockListingMethods.findOne
+        .mockResolvedValueOnce({ documentId: 'listing-1', basePrice: 1000, isActive: false })
+        .mockResolvedValueOnce({ documentId: 'listing-2', basePrice: 500 });
+      mockServices['api::inventory.inventory'].findInventoryRecord.mockResolvedValue({ available: 1 });
+
+      const result = await service.revalidateItems([
+        createCartItem(),
+        createCartItem({ documentId: 'cart-item-2', productListing: { documentId: 'listing-2' }, price: 500 }),
+      ]);
+
+      expect(result.changes).toEqual([
+        { cartItemId: 'cart-item-1', type: 'unavailable', productListingId: 'listing-1', variantId: undefined },
+        {
+          cartItemId: 'cart-item-2',
+          type: 'insufficient_stock',
+          productListingId: 'listing-2',
+          variantId: undefined,
+          requestedQuantity: 2,
+          availableQuantity: 1,
+        },
+      ]);
+    });
+  });
+
+  describe('revalidateCheckout', () => {
+    it('should write prices within the tolerance to the cart and the checkout snapshot', async () => {
+      CHECKOUT_REVALIDATION_CONFIG.priceTolerancePercent = 5;
+      mockListingMethods.findOne.mockResolvedValue({ documentId: 'listing-1', basePrice: 1040 });
+
+      const result = await service.revalidateCheckout({
+        documentId: 'checkout-1',
+        metadata: { cartItems: [createCartItem()] },
+      });
+
+      expect(result.isChanged).toBe(false);
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'cart-item-1',
+        data: { price: 1040, total: 2080 },
+      });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'checkout-1',
+        data: { metadata: { cartItems: [expect.objectContaining({ price: 1040, total: 2080 })] } },
+      });
+    });
+
+    it('should keep prices beyond the tolerance until the customer accepts them', async () => {
+      mockListingMethods.findOne.mockResolvedValue({ documentId: 'listing-1', basePrice: 1500, discountPrice: 1250 });
+      const checkout = { documentId: 'checkout-1', metadata: { cartItems: [createCartItem()] } };
+
+      const result = await service.revalidateCheckout(checkout);
+
+      expect(result).toMatchObject({ isChanged: true, changesHash: service.hashChanges(result.changes) });
+      expect(result.cartItems[0]).toMatchObject({ price: 1000, total: 2000 });
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+
+      const accepted = await service.revalidateCheckout(checkout, result.changesHash);
+
+      expect(accepted.isChanged).toBe(false);
+      expect(accepted.cartItems[0]).toMatchObject({ price: 1250, total: 2500 });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'cart-item-1',
+        data: { price: 1250, total: 2500 },
+      });
+    });
+
+    it('should ask again when the price changed after the customer accepted it', async () => {
+      mockListingMethods.findOne.mockResolvedValue({ documentId: 'listing-1', basePrice: 1250 });
+      const checkout = { documentId: 'checkout-1', metadata: { cartItems: [createCartItem()] } };
+      const { changesHash } = await service.revalidateCheckout(checkout);
+      mockListingMethods.findOne.mockResolvedValue({ documentId: 'listing-1', basePrice: 1400 });
+
+      const result = await service.revalidateCheckout(checkout, changesHash);
+
+      expect(result.isChanged).toBe(true);
+      expect(result.changesHash).not.toBe(changesHash);
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let the customer accept stock that ran short', async () => {
+      mockServices['api::inventory.inventory'].findInventoryRecord.mockResolvedValue({ available: 1 });
+      const checkout = { documentId: 'checkout-1', metadata: { cartItems: [createCartItem()] } };
+      const { changesHash } = await service.revalidateCheckout(checkout);
+
+      const result = await service.revalidateCheckout(checkout, changesHash);
+
+      expect(result.isChanged).toBe(true);
+    });
+  });
+
+  describe('completeCheckoutProcess', () => {
+    it('should not place the order when the cart changed', async () => {
+      mockServices['api::inventory.inventory'].findInventoryRecord.mockResolvedValue({ available: 0 });
+      const checkoutService = createCheckoutService({ strapi: mockStrapi });
+
+      const completion = checkoutService.completeCheckoutProcess({
+        documentId: 'checkout-1',
+        status: 'active',
+        shippingAddress: { id: 1 },
+        billingAddress: { id: 1 },
+        shippingMethod: 'standard',
+        metadata: { cartItems: [createCartItem()] },
+      }, 'user-1', UserType.AUTHENTICATED);
+
+      await expect(completion).rejects.toThrow(CartChangedError);
+      await expect(completion).rejects.toMatchObject({
+        changes: [expect.objectContaining({ type: 'insufficient_stock', availableQuantity: 0 })],
+        changesHash: expect.any(String),
+      });
+      // the checkout is not locked
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+  });
+});
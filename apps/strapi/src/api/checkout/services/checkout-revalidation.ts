@@ -0,0 +1,176 @@
+import { Core } from "@strapi/strapi"
+import { createHash } from "crypto";
+import { getPrice } from "../../../utils/price";
+import { CHECKOUT_REVALIDATION_CONFIG } from "../../../../config/constant";
+
+export interface CartChange {
+  cartItemId: string;
+  type: 'price_changed' | 'unavailable' | 'insufficient_stock';
+  productListingId?: string;
+  variantId?: string;
+  previousPrice?: number;
+  currentPrice?: number;
+  requestedQuantity?: number;
+  availableQuantity?: number;
+}
+
+/**
+ * Raised when the cart of a checkout no longer matches the current prices or stock
+ */
+export class CartChangedError extends Error {
+  changes: CartChange[];
+  changesHash: string; // sent back as acceptedChanges to order at the changed prices
+
+  constructor(changes: CartChange[], changesHash: string) {
+    super('Cart changed since the checkout started');
+    this.name = 'CartChangedError';
+    this.changes = changes;
+    this.changesHash = changesHash;
+  }
+}
+
+/**
+ * Checkout revalidation service
+ *
+ * The cart items of a checkout are a snapshot taken when the checkout was
+ * opened. Before the order is placed every line is repriced against its
+ * product listing or variant and checked against the available stock.
+ */
+export default ({ strapi }: { strapi: Core.Strapi }) => ({
+
+  /**
+   * Reprices cart items and checks their stock
+   * @param cartItems - Cart items snapshotted on the checkout
+   * @returns Cart items at their current price and the changes beyond the price tolerance
+   */
+  async revalidateItems(cartItems: any[]): Promise<{ items: any[]; changes: CartChange[] }> {
+    const inventoryService = strapi.service('api::inventory.inventory');
+    const items: any[] = [];
+    const changes: CartChange[] = [];
+
+    for (const item of cartItems) {
+      const productListingId = item.productListing?.documentId;
+      const variantId = item.variant?.documentId;
+      let price = item.price;
+
+      // Items added straight from a product have no listing price to compare with
+      if (productListingId) {
+        const current = await this.getCurrentListing(productListingId, variantId);
+        if (!current) {
+          changes.push({ cartItemId: item.documentId, type: 'unavailable', productListingId, variantId });
+          items.push(item);
+          continue;
+        }
+
+        price = getPrice(current);
+        const tolerance = Math.abs(item.price) * CHECKOUT_REVALIDATION_CONFIG.priceTolerancePercent / 100;
+        if (Math.abs(price - item.price) > tolerance) {
+          changes.push({
+            cartItemId: item.documentId,
+            type: 'price_changed',
+            productListingId,
+            variantId,
+            previousPrice: item.price,
+            currentPrice: price
+          });
+        }
+      }
+
+      const inventory = await inventoryService.findInventoryRecord(item.product?.documentId, variantId);
+      if (inventory && inventory.available < item.quantity) {
+        changes.push({
+          cartItemId: item.documentId,
+          type: 'insufficient_stock',
+          productListingId,
+          variantId,
+          requestedQuantity: item.quantity,
+          availableQuantity: inventory.available
+        });
+      }
+
+      items.push({ ...item, price, total: price * item.quantity });
+    }
+
+    return { items, changes };
+  },
+
+  /**
+   * Hashes the changes of a cart, the customer accepts them by sending the hash back
+   */
+  hashChanges(changes: CartChange[]): string {
+    return createHash('sha256').update(JSON.stringify(changes)).digest('hex');
+  },
+
+  /**
+   * Revalidates the cart of a checkout and refreshes its snapshot
+   *
+   * Prices within the tolerance are written to the cart items and the
+   * checkout right away. Prices beyond it are only written once the customer
+   * accepted them by sending back the hash of the changes they were shown,
+   * prices that changed again since need to be accepted again. Unavailable
+   * items and stock that ran short cannot be accepted.
+   * @param checkout - Checkout data
+   * @param acceptedChanges - Hash of the changes the customer accepted
+   * @returns Whether the cart changed, the changes with their hash and the cart items to order
+   */
+  async revalidateCheckout(
+    checkout: any,
+    acceptedChanges?: string
+  ): Promise<{ isChanged: boolean; changes: CartChange[]; changesHash: string; cartItems: any[] }> {
+    const metadata = (checkout.metadata as any) || {};
+    const cartItems: any[] = metadata.cartItems || [];
+    const { items, changes } = await this.revalidateItems(cartItems);
+    const changesHash = this.hashChanges(changes);
+    const isAccepted = changes.length > 0
+      && acceptedChanges === changesHash
+      && changes.every((change) => change.type === 'price_changed');
+
+    // Until accepted, lines whose price changed beyond the tolerance keep the price the customer saw
+    const pendingItemIds = isAccepted
+      ? new Set<string>()
+      : new Set(changes.filter((change) => change.type === 'price_changed').map((change) => change.cartItemId));
+    const snapshotItems = items.map((item, index) => (pendingItemIds.has(item.documentId) ? cartItems[index] : item));
+
+    const repricedItems = snapshotItems.filter((item, index) => item.price !== cartItems[index].price);
+    if (repricedItems.length > 0) {
+      for (const item of repricedItems) {
+        await strapi.documents('api::cart.cart-item').update({
+          documentId: item.documentId,
+          data: { price: item.price, total: item.total }
+        });
+      }
+      await strapi.documents('api::checkout.checkout').update({
+        documentId: checkout.documentId,
+        data: { metadata: { ...metadata, cartItems: snapshotItems } }
+      });
+    }
+
+    return { isChanged: changes.length > 0 && !isAccepted, changes, changesHash, cartItems: snapshotItems };
+  },
+
+  /**
+   * Gets the published product listing or variant a cart item is priced from
+   * @returns The variant or the listing, null when it is no longer sold
+   */
+  async getCurrentListing(productListingId: string, variantId?: string): Promise<any> {
+    const productListing = await strapi.documents('api::product-listing.product-listing').findOne({
+      documentId: productListingId,
+      status: 'published'
+    });
+    if (!productListing || productListing.isActive === false) {
+      return null;
+    }
+    if (!variantId) {
+      return productListing;
+    }
+
+    const variant = await strapi.documents('api::product-listing-variant.product-listing-variant').findOne({
+      documentId: variantId,
+      populate: { productListing: true }
+    });
+    if (!variant || variant.productListing?.documentId !== productListingId) {
+      return null;
+    }
+    return variant;
+  }
+})
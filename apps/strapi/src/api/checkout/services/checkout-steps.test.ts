@@ -0,0 +1,290 @@
+/**
+ * Checkout steps service tests
+ *
+ * Tests step validation and progression, going back, changed steps being
+ * completed again and the review step placing the order
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createCheckoutStepsService from './checkout-steps';
+import { UserType } from '../../../../config/constant';
+
+const mockDocumentMethods = {
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockServices: Record<string, any> = {
+  'api::checkout.validation': {
+    validateAddress: jest.fn() as jest.MockedFunction<any>,
+    validateCartItems: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::shipping.shipping': {
+    quoteShipping: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::checkout.checkout': {
+    completeCheckoutProcess: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const auth = { isUser: true, isGuest: false, userId: 7 };
+
+const cartItems = [{ documentId: 'cart-item-1', quantity: 1, price: 1000, cart: { documentId: 'cart-1', total: 1000 } }];
+
+const createCheckout = (overrides: any = {}) => ({
+  documentId: 'checkout-1',
+  status: 'active',
+  currentStep: 'cart',
+  completedSteps: [],
+  stepData: {},
+  metadata: { cartItems },
+  shippingAddress: null,
+  billingAddress: null,
+  ...overrides,
+});
+
+describe('Checkout Steps Service', () => {
+  let service: ReturnType<typeof createCheckoutStepsService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDocumentMethods.findFirst.mockReset();
+    mockDocumentMethods.update.mockReset();
+    mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({
+      ...createCheckout(),
+      documentId,
+      ...data,
+    }));
+    mockServices['api::checkout.validation'].validateAddress.mockImplementation(async (documentId: string) => ({
+      address: { id: 1, documentId, user: { id: 7 } },
+      errors: [],
+    }));
+    mockServices['api::checkout.validation'].validateCartItems.mockResolvedValue({ cartItems, errors: [] });
+    mockServices['api::shipping.shipping'].quoteShipping.mockResolvedValue({ code: 'standard', price: 500 });
+    service = createCheckoutStepsService({ strapi: mockStrapi });
+  });
+
+  describe('getStepProgress', () => {
+    it('should make completed steps and the next step to complete available', () => {
+      const progress = service.getStepProgress(createCheckout({
+        currentStep: 'shipping',
+        completedSteps: ['cart', 'shipping'],
+      }));
+
+      expect(progress).toEqual({
+        currentStep: 'shipping',
+        completedSteps: ['cart', 'shipping'],
+        availableSteps: ['cart', 'shipping', 'billing'],
+        nextStep: 'billing',
+        previousStep: 'cart',
+        canProceed: true,
+        errors: {},
+      });
+    });
+  });
+
+  describe('completeStep', () => {
+    it('should save the shipping step and move to billing', async () => {
+      const session = await service.completeStep(
+        createCheckout({ currentStep: 'shipping', completedSteps: ['cart'] }),
+        'shipping',
+        { shippingAddress: 'address-1', shippingMethod: 'standard' },
+        auth,
+        UserType.AUTHENTICATED
+      );
+
+      expect(mockServices['api::shipping.shipping'].quoteShipping).toHaveBeenCalledWith({
+        items: cartItems,
+        shippingAddress: { id: 1, documentId: 'address-1', user: { id: 7 } },
+        shippingMethod: 'standard',
+      });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          shippingAddress: 'address-1',
+          shippingMethod: 'standard',
+          stepData: { shipping: { shippingAddress: 'address-1', shippingMethod: 'standard' } },
+          completedSteps: ['cart', 'shipping'],
+          currentStep: 'billing',
+        }),
+      }));
+      expect(session.stepProgress).toMatchObject({ currentStep: 'billing', previousStep: 'shipping' });
+      expect(session.cart).toMatchObject({ documentId: 'cart-1', total: 1000 });
+    });
+
+    it('should keep the errors of a failed step on the checkout', async () => {
+      mockServices['api::shipping.shipping'].quoteShipping.mockResolvedValue(null);
+
+      await expect(service.completeStep(
+        createCheckout({ currentStep: 'shipping', completedSteps: ['cart'] }),
+        'shipping',
+        { shippingAddress: 'address-1', shippingMethod: 'express' },
+        auth,
+        UserType.AUTHENTICATED
+      )).rejects.toThrow('Step validation failed: Shipping method is not available for the shipping address');
+
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'checkout-1',
+        data: {
+          metadata: {
+            cartItems,
+            stepErrors: { shipping: ['Shipping method is not available for the shipping address'] },
+          },
+        },
+      });
+    });
+
+    it('should only complete the current step', async () => {
+      await expect(service.completeStep(
+        createCheckout(),
+        'payment',
+        { paymentMethod: 'credit_card' },
+        auth,
+        UserType.AUTHENTICATED
+      )).rejects.toThrow('Step payment is not the current step, the checkout is at cart');
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+
+    it('should make the steps after a changed step to be completed again', async () => {
+      await service.completeStep(
+        createCheckout({
+          currentStep: 'shipping',
+          completedSteps: ['cart', 'shipping', 'billing', 'payment'],
+          stepData: { shipping: { shippingAddress: 'address-1', shippingMethod: 'standard' } },
+        }),
+        'shipping',
+        { shippingAddress: 'address-2', shippingMethod: 'standard' },
+        auth,
+        UserType.AUTHENTICATED
+      );
+
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ completedSteps: ['cart', 'shipping'], currentStep: 'billing' }),
+      }));
+    });
+
+    it('should return to the next step left when a step is confirmed unchanged', async () => {
+      await service.completeStep(
+        createCheckout({
+          currentStep: 'shipping',
+          completedSteps: ['cart', 'shipping', 'billing', 'payment'],
+          stepData: { shipping: { shippingAddress: 'address-1', shippingMethod: 'standard' } },
+        }),
+        'shipping',
+        { shippingAddress: 'address-1', shippingMethod: 'standard' },
+        auth,
+        UserType.AUTHENTICATED
+      );
+
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ completedSteps: ['cart', 'shipping', 'billing', 'payment'], currentStep: 'review' }),
+      }));
+    });
+
+    it('should bill the shipping address when billing is the same as shipping', async () => {
+      await service.completeStep(
+        createCheckout({ currentStep: 'billing', completedSteps: ['cart', 'shipping'], shippingAddress: { documentId: 'address-1' } }),
+        'billing',
+        { sameAsShipping: true },
+        auth,
+        UserType.AUTHENTICATED
+      );
+
+      expect(mockServices['api::checkout.validation'].validateAddress).not.toHaveBeenCalled();
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ billingAddress: 'address-1', currentStep: 'payment' }),
+      }));
+    });
+
+    it('should only accept active payment methods', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(null);
+
+      await expect(service.completeStep(
+        createCheckout({ currentStep: 'payment', completedSteps: ['cart', 'shipping', 'billing'] }),
+        'payment',
+        { paymentMethod: 'crypto_currency' },
+        auth,
+        UserType.AUTHENTICATED
+      )).rejects.toThrow('Payment method crypto_currency is not available');
+      expect(mockDocumentMethods.findFirst).toHaveBeenCalledWith({
+        filters: { code: 'crypto_currency', isActive: true },
+      });
+    });
+
+    it('should place the order when the review is completed', async () => {
+      mockServices['api::checkout.checkout'].completeCheckoutProcess.mockResolvedValue({ documentId: 'order-1' });
+
+      const session = await service.completeStep(
+        createCheckout({ currentStep: 'review', completedSteps: ['cart', 'shipping', 'billing', 'payment'] }),
+        'review',
+        { termsAccepted: true, specialInstructions: 'Leave at the door', acceptedChanges: 'changes-hash' },
+        auth,
+        UserType.AUTHENTICATED
+      );
+
+      // the cart changes the customer accepted go along with the review
+      expect(mockServices['api::checkout.checkout'].completeCheckoutProcess).toHaveBeenCalledWith(
+        expect.objectContaining({
+          completedSteps: ['cart', 'shipping', 'billing', 'payment'],
+          stepData: { review: expect.objectContaining({ termsAccepted: true, specialInstructions: 'Leave at the door' }) },
+        }),
+        7,
+        UserType.AUTHENTICATED,
+        'changes-hash'
+      );
+      expect(session).toMatchObject({
+        order: 'order-1',
+        currentStep: 'confirmation',
+        stepProgress: { completedSteps: ['cart', 'shipping', 'billing', 'payment', 'review'], canProceed: false },
+      });
+    });
+
+    it('should not place the order before the terms are accepted', async () => {
+      await expect(service.completeStep(
+        createCheckout({ currentStep: 'review', completedSteps: ['cart', 'shipping', 'billing', 'payment'] }),
+        'review',
+        {},
+        auth,
+        UserType.AUTHENTICATED
+      )).rejects.toThrow('Terms must be accepted to place the order');
+      expect(mockServices['api::checkout.checkout'].completeCheckoutProcess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('goToPreviousStep', () => {
+    it('should go back one step and keep the completed steps', async () => {
+      const checkout = createCheckout({ currentStep: 'payment', completedSteps: ['cart', 'shipping', 'billing'] });
+      mockDocumentMethods.update.mockImplementation(async ({ data }: any) => ({ ...checkout, ...data }));
+
+      const session = await service.goToPreviousStep(checkout);
+
+      expect(session.stepProgress).toMatchObject({
+        currentStep: 'billing',
+        completedSteps: ['cart', 'shipping', 'billing'],
+      });
+    });
+
+    it('should not go back from the first step', async () => {
+      await expect(service.goToPreviousStep(createCheckout())).rejects.toThrow('Checkout cannot go back from step cart');
+    });
+  });
+
+  describe('goToStep', () => {
+    it('should not skip steps left to complete', async () => {
+      await expect(service.goToStep(
+        createCheckout({ completedSteps: ['cart'] }),
+        'billing'
+      )).rejects.toThrow('Step billing is not available, the steps before it have to be completed first');
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { Core } from "@strapi/strapi"
+import { UserType } from "../../../../config/constant";
+
+export const CHECKOUT_STEPS = ['cart', 'shipping', 'billing', 'payment', 'review', 'confirmation'] as const;
+
+export type CheckoutStep = typeof CHECKOUT_STEPS[number];
+
+export interface StepProgress {
+  currentStep: CheckoutStep;
+  completedSteps: CheckoutStep[];
+  availableSteps: CheckoutStep[]; // completed steps and the first step left to complete
+  nextStep?: CheckoutStep;
+  previousStep?: CheckoutStep;
+  canProceed: boolean;
+  errors: Record<string, string[]>;
+}
+
+interface StepValidation {
+  errors: string[];
+  data: Record<string, any>; // checkout fields set by the step
+  stepData: Record<string, any>; // form data kept for the step
+}
+
+/**
+ * Checkout steps service
+ *
+ * Moves a checkout through cart, shipping, billing, payment and review to
+ * confirmation. Each step validates and saves its form data, completing the
+ * review step places the order. Going back keeps the data of later steps,
+ * changing the data of a step makes the steps after it to be completed again.
+ */
+export default ({ strapi }: { strapi: Core.Strapi }) => ({
+
+  /**
+   * Gets the step progress of a checkout
+   * @param checkout - Checkout data
+   * @returns Current, completed and available steps and the errors of the last failed step
+   */
+  getStepProgress(checkout: any): StepProgress {
+    const currentStep: CheckoutStep = checkout.currentStep || 'cart';
+    const completedSteps = this.getCompletedSteps(checkout);
+    const firstOpenStep = CHECKOUT_STEPS.find((step) => !completedSteps.includes(step));
+    const index = CHECKOUT_STEPS.indexOf(currentStep);
+
+    return {
+      currentStep,
+      completedSteps,
+      availableSteps: CHECKOUT_STEPS.filter((step) => completedSteps.includes(step) || step === firstOpenStep),
+      nextStep: CHECKOUT_STEPS[index + 1],
+      previousStep: index > 0 && currentStep !== 'confirmation' ? CHECKOUT_STEPS[index - 1] : undefined,
+      canProceed: checkout.status === 'active' && currentStep !== 'confirmation'
+        && CHECKOUT_STEPS.slice(0, index).every((step) => completedSteps.includes(step)),
+      errors: (checkout.metadata as any)?.stepErrors || {}
+    };
+  },
+
+  /**
+   * Gets the completed steps of a checkout in step order
+   */
+  getCompletedSteps(checkout: any): CheckoutStep[] {
+    const completedSteps = (checkout.completedSteps as string[]) || [];
+    return CHECKOUT_STEPS.filter((step) => completedSteps.includes(step));
+  },
+
+  /**
+   * Formats a checkout as a checkout session with its cart and step progress
+   * @param checkout - Checkout data
+   * @returns Checkout session
+   */
+  toSession(checkout: any) {
+    const cartItems = (checkout.metadata as any)?.cartItems || [];
+    const cart = cartItems[0]?.cart;
+    const stepProgress = this.getStepProgress(checkout);
+
+    return {
+      ...checkout,
+      step: stepProgress.currentStep,
+      currentStep: stepProgress.currentStep,
+      cart: cart ? {
+        id: cart.id,
+        documentId: cart.documentId,
+        items: cartItems,
+        subtotal: cart.subtotal,
+        tax: cart.tax,
+        shipping: cart.shipping,
+        total: cart.total
+      } : null,
+      stepProgress
+    };
+  },
+
+  /**
+   * Completes the current step of a checkout and moves to the next one
+   * @param checkout - Checkout data with its shipping and billing addresses
+   * @param step - Step to complete, has to be the current step
+   * @param formData - Form data of the step
+   * @param auth - Authentication details from validateAuthentication
+   * @param userType - Authenticated user or guest, used to place the order
+   * @returns Updated checkout session
+   */
+  async completeStep(checkout: any, step: CheckoutStep, formData: any, auth: any, userType: UserType) {
+    const currentStep: CheckoutStep = checkout.currentStep || 'cart';
+    if (!CHECKOUT_STEPS.includes(step)) {
+      throw new Error(`Checkout step ${step} not found`);
+    }
+    if (step === 'confirmation') {
+      throw new Error('Step confirmation cannot be completed');
+    }
+    if (step !== currentStep) {
+      throw new Error(`Step ${step} is not the current step, the checkout is at ${currentStep}`);
+    }
+
+    const metadata = (checkout.metadata as any) || {};
+    const { errors, data, stepData } = await this.validateStep(checkout, step, formData || {}, auth);
+    if (errors.length > 0) {
+      // Kept on the checkout so the step shows its errors when the checkout is reloaded
+      await strapi.documents('api::checkout.checkout').update({
+        documentId: checkout.documentId,
+        data: { metadata: { ...metadata, stepErrors: { [step]: errors } } }
+      });
+      throw new Error(`Step validation failed: ${errors.join(', ')}`);
+    }
+
+    // Changed data has to be confirmed again by the steps after it
+    const previousStepData = (checkout.stepData as any)?.[step];
+    const isChanged = JSON.stringify(previousStepData) !== JSON.stringify(stepData);
+    const stepIndex = CHECKOUT_STEPS.indexOf(step);
+    const keptSteps = this.getCompletedSteps(checkout)
+      .filter((completedStep) => !isChanged || CHECKOUT_STEPS.indexOf(completedStep) < stepIndex);
+    const completedSteps = CHECKOUT_STEPS.filter((candidate) => candidate === step || keptSteps.includes(candidate));
+    const nextStep = isChanged
+      ? CHECKOUT_STEPS[stepIndex + 1]
+      : CHECKOUT_STEPS.find((candidate) => !completedSteps.includes(candidate));
+
+    const { stepErrors, ...cleanMetadata } = metadata;
+    const updatedCheckout = await strapi.documents('api::checkout.checkout').update({
+      documentId: checkout.documentId,
+      data: {
+        ...data,
+        metadata: { ...cleanMetadata, ...data.metadata },
+        stepData: { ...(checkout.stepData as any || {}), [step]: stepData },
+        completedSteps: step === 'review' ? completedSteps.filter((completedStep) => completedStep !== 'review') : completedSteps,
+        currentStep: step === 'review' ? 'review' : nextStep
+      },
+      populate: { shippingAddress: true, billingAddress: true }
+    });
+
+    if (step !== 'review') {
+      return this.toSession(updatedCheckout);
+    }
+
+    // Reviewing the checkout places the order, the review is completed once the order exists
+    const checkoutService = strapi.service('api::checkout.checkout');
+    const order = await checkoutService.completeCheckoutProcess(
+      updatedCheckout,
+      auth.userId,
+      userType,
+      formData?.acceptedChanges
+    );
+    const confirmedCheckout = await strapi.documents('api::checkout.checkout').update({
+      documentId: checkout.documentId,
+      data: {
+        order: order.documentId,
+        completedSteps,
+        currentStep: 'confirmation',
+        completedAt: new Date()
+      },
+      populate: { shippingAddress: true, billingAddress: true, order: true }
+    });
+
+    return this.toSession(confirmedCheckout);
+  },
+
+  /**
+   * Moves a checkout back to the step before its current step
+   * @param checkout - Checkout data
+   * @returns Updated checkout session
+   */
+  async goToPreviousStep(checkout: any) {
+    const { previousStep } = this.getStepProgress(checkout);
+    if (!previousStep) {
+      throw new Error(`Checkout cannot go back from step ${checkout.currentStep || 'cart'}`);
+    }
+
+    const updatedCheckout = await strapi.documents('api::checkout.checkout').update({
+      documentId: checkout.documentId,
+      data: { currentStep: previousStep },
+      populate: { shippingAddress: true, billingAddress: true }
+    });
+
+    return this.toSession(updatedCheckout);
+  },
+
+  /**
+   * Moves a checkout to a completed step or to the first step left to complete
+   * @param checkout - Checkout data
+   * @param step - Step to move to
+   * @returns Updated checkout session
+   */
+  async goToStep(checkout: any, step: CheckoutStep) {
+    if (!CHECKOUT_STEPS.includes(step)) {
+      throw new Error(`Checkout step ${step} not found`);
+    }
+    const { availableSteps } = this.getStepProgress(checkout);
+    if (step === 'confirmation' || !availableSteps.includes(step)) {
+      throw new Error(`Step ${step} is not available, the steps before it have to be completed first`);
+    }
+
+    const updatedCheckout = await strapi.documents('api::checkout.checkout').update({
+      documentId: checkout.documentId,
+      data: { currentStep: step },
+      populate: { shippingAddress: true, billingAddress: true }
+    });
+
+    return this.toSession(updatedCheckout);
+  },
+
+  /**
+   * Validates the form data of a step
+   * @param checkout - Checkout data with its shipping address
+   * @param step - Step to validate
+   * @param formData - Form data of the step
+   * @param auth - Authentication details from validateAuthentication
+   * @returns Validation errors, the checkout fields to save and the form data to keep
+   */
+  async validateStep(checkout: any, step: CheckoutStep, formData: any, auth: any): Promise<StepValidation> {
+    const validationService = strapi.service('api::checkout.validation');
+    const cartItems = (checkout.metadata as any)?.cartItems || [];
+
+    switch (step) {
+      case 'cart': {
+        const cartItemIds: string[] = formData.cartItems || cartItems.map((item: any) => item.documentId);
+        if (cartItemIds.length === 0) {
+          return { errors: ['Cart items are required for checkout'], data: {}, stepData: {} };
+        }
+        const result = await validationService.validateCartItems(cartItemIds, auth.userId, auth.isGuest);
+        return {
+          errors: result.errors,
+          data: { metadata: { cartItems: result.cartItems } },
+          stepData: { cartItems: cartItemIds }
+        };
+      }
+
+      case 'shipping': {
+        const { shippingAddress, shippingMethod } = formData;
+        if (!shippingAddress || !shippingMethod) {
+          return { errors: ['Shipping address and shipping method are required'], data: {}, stepData: {} };
+        }
+        const { address, errors } = await validationService.validateAddress(shippingAddress, 'Shipping', auth.userId, auth.isGuest);
+        if (errors.length === 0) {
+          const quote = await strapi.service('api::shipping.shipping').quoteShipping({
+            items: cartItems,
+            shippingAddress: address,
+            shippingMethod
+          });
+          if (!quote) {
+            errors.push('Shipping method is not available for the shipping address');
+          }
+        }
+        return { errors, data: { shippingAddress, shippingMethod }, stepData: { shippingAddress, shippingMethod } };
+      }
+
+      case 'billing': {
+        const sameAsShipping = formData.sameAsShipping ?? !formData.billingAddress;
+        const billingAddress = sameAsShipping ? checkout.shippingAddress?.documentId : formData.billingAddress;
+        if (!billingAddress) {
+          return { errors: ['Billing address is required'], data: {}, stepData: {} };
+        }
+        const { errors } = sameAsShipping
+          ? { errors: [] }
+          : await validationService.validateAddress(billingAddress, 'Billing', auth.userId, auth.isGuest);
+        return { errors, data: { billingAddress }, stepData: { sameAsShipping, billingAddress } };
+      }
+
+      case 'payment': {
+        const { paymentMethod } = formData;
+        if (!paymentMethod) {
+          return { errors: ['Payment method is required'], data: {}, stepData: {} };
+        }
+        const method = await strapi.documents('api::payment-method.payment-method').findFirst({
+          filters: { code: paymentMethod, isActive: true }
+        });
+        const errors = method ? [] : [`Payment method ${paymentMethod} is not available`];
+        return { errors, data: { paymentMethod }, stepData: { paymentMethod } };
+      }
+
+      case 'review': {
+        const errors = formData.termsAccepted === true ? [] : ['Terms must be accepted to place the order'];
+        const stepData = {
+          termsAccepted: formData.termsAccepted === true,
+          privacyAccepted: formData.privacyAccepted === true,
+          marketingAccepted: formData.marketingAccepted === true,
+          specialInstructions: formData.specialInstructions || ''
+        };
+        return { errors, data: {}, stepData };
+      }
+
+      default:
+        return { errors: [`Step ${step} cannot be completed`], data: {}, stepData: {} };
+    }
+  }
+})
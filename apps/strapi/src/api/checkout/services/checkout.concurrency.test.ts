@@ -0,0 +1,250 @@
+/**
+ * Checkout concurrency tests
+ *
+ * Runs parallel completeCheckoutProcess calls against an in-memory stock
+ * table whose conditional updates are atomic, like the database, while every
+ * other query yields to the event loop so checkouts interleave.
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { UserType } from '../../../../config/constant';
+
+// Let other checkouts run between two queries
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+// In-memory stock table and stored documents
+let inventories: Record<string, any> = {};
+let documents: Record<string, Record<string, any>> = {};
+let documentCount = 0;
+
+const createDocumentMethods = (uid: string) => ({
+  findOne: jest.fn(async ({ documentId }: any) => {
+    await tick();
+    const store = uid === 'api::inventory.inventory' ? inventories : documents[uid] || {};
+    return store[documentId] ? { ...store[documentId] } : null;
+  }),
+  findFirst: jest.fn(async ({ filters }: any) => {
+    await tick();
+    const productId = filters?.product?.documentId;
+    const inventory = Object.values(inventories).find((record: any) => record.productId === productId);
+    return inventory ? { ...inventory } : null;
+  }),
+  create: jest.fn(async ({ data }: any) => {
+    await tick();
+    const documentId = `${uid}-${++documentCount}`;
+    documents[uid] = documents[uid] || {};
+    documents[uid][documentId] = { ...data, documentId };
+    return { ...documents[uid][documentId] };
+  }),
+  update: jest.fn(async ({ documentId, data }: any) => {
+    await tick();
+    const store = uid === 'api::inventory.inventory' ? inventories : (documents[uid] = documents[uid] || {});
+    store[documentId] = { ...store[documentId], ...data, documentId };
+    return { ...store[documentId] };
+  }),
+});
+
+const documentMethods: Record<string, any> = {};
+
+// Knex query builder over the stock table, the update itself is atomic
+const createStockQuery = () => {
+  const conditions: Array<(row: any) => boolean> = [];
+  const query: any = {
+    where: (column: string, value: any) => {
+      conditions.push(row => row[column] === value);
+      return query;
+    },
+    andWhere: (column: string, operator: string, value: number) => {
+      conditions.push(row => (operator === '>=' ? row[column] >= value : false));
+      return query;
+    },
+    transacting: () => query,
+    update: async (update: Record<string, any>) => {
+      await tick();
+      const rows = Object.values(inventories).filter(row => conditions.every(condition => condition(row)));
+      for (const row of rows) {
+        for (const [column, value] of Object.entries(update)) {
+          row[column] = value?.sql === '?? + ?' ? row[value.bindings[0]] + value.bindings[1] : value;
+        }
+      }
+      return rows.length;
+    },
+  };
+  return query;
+};
+
+const services: Record<string, any> = {
+  'api::inventory.inventory-allocation': {
+    getLevels: jest.fn(async () => []),
+  },
+  'api::order.order-creation': {
+    generateOrderNumber: jest.fn(async () => `ORD-${++documentCount}`),
+  },
+  'api::shipping.shipping': {
+    quoteShipping: jest.fn(async () => ({ id: 'method-1', code: 'standard', name: 'Standard', price: 0, estimatedDays: 3 })),
+  },
+  'api::promotion.promotion': {},
+  'api::tax.tax': {
+    calculateTax: jest.fn(async () => ({ tax: 0, lines: [], pricesIncludeTax: false, location: null })),
+  },
+  'api::currency.currency': {
+    getQuote: jest.fn(async () => ({ currency: 'USD', baseCurrency: 'USD', exchangeRate: 1 })),
+  },
+  'api::order.order-history': {
+    recordOrderCreation: jest.fn(async () => undefined),
+    recordStatusChange: jest.fn(async () => undefined),
+  },
+  'api::checkout.checkout-revalidation': {
+    revalidateCheckout: jest.fn(async (checkout: any) => ({ isChanged: false, changes: [], cartItems: checkout.metadata.cartItems })),
+  },
+  'api::checkout.checkout-recovery': {
+    getOrderAttribution: jest.fn(() => null),
+  },
+  'api::cart.cart-calculation': {
+    calculateCartTotals: jest.fn(async () => ({ subtotal: 0, tax: 0, shipping: 0, total: 0 })),
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn((uid: string) => (documentMethods[uid] = documentMethods[uid] || createDocumentMethods(uid))),
+  service: jest.fn((uid: string) => services[uid]),
+  db: {
+    transaction: jest.fn(async (callback: any) => callback({ trx: null, commit: async () => undefined })),
+    metadata: {
+      get: jest.fn(() => ({ tableName: 'inventories', attributes: {} })),
+    },
+    connection: Object.assign(jest.fn(() => createStockQuery()), {
+      raw: jest.fn((sql: string, bindings: any[]) => ({ sql, bindings })),
+    }),
+  },
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+// Mock Strapi factories with proper service context
+jest.mock('@strapi/strapi', () => ({
+  factories: {
+    createCoreService: jest.fn((serviceName: any, serviceFunction?: any) => {
+      if (serviceFunction) {
+        const serviceInstance = serviceFunction({ strapi: mockStrapi });
+        Object.keys(serviceInstance).forEach(key => {
+          if (typeof serviceInstance[key] === 'function') {
+            serviceInstance[key] = serviceInstance[key].bind(serviceInstance);
+          }
+        });
+        return serviceInstance;
+      }
+      return mockStrapi;
+    }),
+  },
+}));
+
+const createCheckout = (index: number, lines: Array<{ productId: string; quantity: number }>) => ({
+  documentId: `checkout-${index}`,
+  status: 'active',
+  shippingAddress: { id: 1, country: 'US' },
+  billingAddress: { id: 1 },
+  shippingMethod: 'standard',
+  metadata: {
+    cartItems: lines.map((line, lineIndex) => ({
+      documentId: `cart-item-${index}-${lineIndex}`,
+      product: { documentId: line.productId },
+      price: 10,
+      quantity: line.quantity,
+      cart: { documentId: `cart-${index}`, currency: 'USD' },
+    })),
+  },
+});
+
+describe('Checkout Concurrency', () => {
+  let checkoutService: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    documents = {};
+    documentCount = 0;
+    Object.keys(documentMethods).forEach(uid => delete documentMethods[uid]);
+    inventories = {
+      'inventory-1': { documentId: 'inventory-1', productId: 'product-1', quantity: 3, reserved: 0, available: 3 },
+      'inventory-2': { documentId: 'inventory-2', productId: 'product-2', quantity: 10, reserved: 0, available: 10 },
+    };
+
+    services['api::inventory.inventory'] = require('../../inventory/services/inventory').default;
+    checkoutService = require('./checkout').default({ strapi: mockStrapi });
+  });
+
+  const completeInParallel = (checkouts: any[]) =>
+    Promise.allSettled(
+      checkouts.map((checkout, index) =>
+        checkoutService.completeCheckoutProcess(checkout, `user-${index}`, UserType.AUTHENTICATED)
+      )
+    );
+
+  const activeReservations = () =>
+    Object.values(documents['api::stock-reservation.stock-reservation'] || {})
+      .filter((reservation: any) => reservation.status === 'active');
+
+  it('should never reserve more than the available stock', async () => {
+    const checkouts = Array.from({ length: 10 }, (_, index) =>
+      createCheckout(index, [{ productId: 'product-1', quantity: 1 }])
+    );
+
+    const results = await completeInParallel(checkouts);
+
+    const completed = results.filter(result => result.status === 'fulfilled');
+    const rejected = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+    expect(completed).toHaveLength(3);
+    expect(rejected).toHaveLength(7);
+    rejected.forEach(result =>
+      expect(result.reason.message).toBe('Insufficient available inventory for reservation')
+    );
+    expect(inventories['inventory-1']).toMatchObject({ quantity: 3, reserved: 3, available: 0 });
+    expect(activeReservations()).toHaveLength(3);
+  });
+
+  it('should not oversell when checkouts ask for different quantities', async () => {
+    const checkouts = [2, 2, 1, 3].map((quantity, index) =>
+      createCheckout(index, [{ productId: 'product-1', quantity }])
+    );
+
+    await completeInParallel(checkouts);
+
+    const reservedQuantity = activeReservations()
+      .reduce((sum: number, reservation: any) => sum + reservation.quantity, 0);
+    expect(reservedQuantity).toBeLessThanOrEqual(3);
+    expect(inventories['inventory-1'].reserved).toBe(reservedQuantity);
+    expect(inventories['inventory-1'].available).toBe(3 - reservedQuantity);
+  });
+
+  it('should give back every line of an order that cannot be fully reserved', async () => {
+    const checkouts = Array.from({ length: 5 }, (_, index) =>
+      createCheckout(index, [
+        { productId: 'product-2', quantity: 2 },
+        { productId: 'product-1', quantity: 1 },
+      ])
+    );
+
+    const results = await completeInParallel(checkouts);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(3);
+    expect(inventories['inventory-1']).toMatchObject({ reserved: 3, available: 0 });
+    // Only the three complete orders keep their product-2 stock
+    expect(inventories['inventory-2']).toMatchObject({ reserved: 6, available: 4 });
+    expect(activeReservations()).toHaveLength(6);
+  });
+
+  it('should unlock checkouts that could not be completed', async () => {
+    const checkouts = Array.from({ length: 4 }, (_, index) =>
+      createCheckout(index, [{ productId: 'product-1', quantity: 1 }])
+    );
+
+    const results = await completeInParallel(checkouts);
+
+    const rejectedIndex = results.findIndex(result => result.status === 'rejected');
+    expect(documents['api::checkout.checkout'][`checkout-${rejectedIndex}`].status).toBe('active');
+  });
+});
@@ -1,5 +1,8 @@
 import { Core } from "@strapi/strapi"
 import { UserType } from "../../../../config/constant";
+import { CurrencyQuote, convertAmount } from "../../currency/services/currency";
+import type { CartCalculation } from "../../cart/services/cart-calculation";
+import { CartChangedError } from "./checkout-revalidation";
 
 export default ({ strapi }: { strapi: Core.Strapi }) => ({
   
@@ -116,6 +119,34 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
     return checkoutUpdated;
   },
 
+  /**
+   * Lists the shipping methods available for an address and the requester cart
+   * @param addressId - Shipping address document ID
+   * @param auth - Authentication details from validateAuthentication
+   * @returns Shipping methods with their prices
+   */
+  async getShippingMethods(addressId: string, auth: any) {
+    const address = await strapi.documents('api::address.address').findOne({
+      documentId: addressId,
+      populate: ['user']
+    });
+
+    const addressOwner = auth.isGuest ? address?.sessionId : address?.user?.id;
+    if (!address || addressOwner !== auth.userId) {
+      throw new Error('Shipping address not found');
+    }
+
+    const cartPersistenceService = strapi.service('api::cart.cart-persistence');
+    const cart = auth.isGuest
+      ? await cartPersistenceService.getCartBySessionId(auth.userId)
+      : await cartPersistenceService.getCartByUserId(auth.userId);
+
+    return strapi.service('api::shipping.shipping').getAvailableMethods({
+      items: cart?.items || [],
+      shippingAddress: address
+    });
+  },
+
   /**
    * Creates an order from checkout
    * @param checkout - Checkout  data
@@ -125,19 +156,92 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
   async createOrderFromCheckout(checkout: any, userId: string | null, userType: UserType) {
     const cartItems = (checkout.metadata as any).cartItems;
     const orderNumber = await strapi.service('api::order.order-creation').generateOrderNumber();
-    
+    const subtotal = cartItems.reduce((sum: number, item: any) => sum + item.price * item.quantity, 0);
+    const customer = {
+      userId: userType === UserType.AUTHENTICATED ? userId : null,
+      sessionId: userType === UserType.GUEST ? userId : null,
+    };
+
+    // Quote the selected shipping method for the shipping address
+    const shippingQuote = await strapi.service('api::shipping.shipping').quoteShipping({
+      items: cartItems,
+      shippingAddress: checkout.shippingAddress,
+      shippingMethod: checkout.shippingMethod
+    });
+    if (!shippingQuote) {
+      throw new Error('Shipping method validation failed: shipping method is not available for the shipping address');
+    }
+    const { price: shipping } = shippingQuote;
+
+    // Re-evaluate the discount code applied to the cart, usage limits may have changed
+    const promotionService = strapi.service('api::promotion.promotion');
+    const discountCode = cartItems[0]?.cart?.discountCode;
+    let promotionEvaluation = null;
+    if (discountCode) {
+      promotionEvaluation = await promotionService.evaluateCode({
+        code: discountCode,
+        items: cartItems,
+        subtotal,
+        shipping,
+        customer
+      });
+      if (!promotionEvaluation.isValid) {
+        throw new Error(`Discount code validation failed: ${promotionEvaluation.errors.join(', ')}`);
+      }
+    }
+    const discount = promotionEvaluation?.discount || 0;
+
+    // Per-line taxes for the shipping destination, written to the order items below
+    const taxCalculation = await strapi.service('api::tax.tax').calculateTax({
+      items: cartItems,
+      shippingAddress: checkout.shippingAddress
+    });
+    const { tax } = taxCalculation;
+
+    // Amounts above are in the base currency, the order is placed in the cart currency
+    // with the exchange rate snapshotted for reporting and refunds
+    const currencyService = strapi.service('api::currency.currency');
+    const cartCurrency = cartItems[0]?.cart?.currency;
+    const currencyQuote: CurrencyQuote = await currencyService.getQuote(cartCurrency)
+      .catch(() => currencyService.getQuote());
+    const total = Math.max(0, subtotal + (taxCalculation.pricesIncludeTax ? 0 : tax) + shipping - discount);
+
+    // Checkouts restored from a recovery reminder credit the order to the campaign
+    const recovery = strapi.service('api::checkout.checkout-recovery').getOrderAttribution(checkout);
+
+    // Breakdown the order was priced with, kept on the order for support and reporting
+    const calculation: CartCalculation = {
+      subtotal: convertAmount(subtotal, currencyQuote),
+      tax: convertAmount(tax, currencyQuote),
+      shipping: convertAmount(shipping, currencyQuote),
+      discount: convertAmount(discount, currencyQuote),
+      total: convertAmount(total, currencyQuote),
+      currency: currencyQuote.currency,
+      baseCurrency: currencyQuote.baseCurrency,
+      exchangeRate: currencyQuote.exchangeRate,
+      taxRate: subtotal > 0 ? (tax / (taxCalculation.pricesIncludeTax ? subtotal - tax : subtotal)) * 100 : 0,
+      pricesIncludeTax: taxCalculation.pricesIncludeTax,
+      shippingMethod: checkout.shippingMethod,
+      discountCode: promotionEvaluation?.code || undefined,
+      itemCount: cartItems.reduce((sum: number, item: any) => sum + item.quantity, 0),
+      calculationTimestamp: new Date()
+    };
+
     const orderData = {
       orderNumber,
       user: userType === UserType.AUTHENTICATED ? userId : null,
       sessionId: userType === UserType.GUEST ? userId : null,
       checkout: checkout.documentId,
       status: 'pending' as const,
-      subtotal: cartItems.reduce((sum: number, item: any) => sum + item.price * item.quantity, 0),
-      tax: 0,
-      shipping: 0,
-      discount: 0,
-      total: cartItems.reduce((sum: number, item: any) => sum + item.price * item.quantity, 0),
-      currency: 'USD',
+      subtotal: calculation.subtotal,
+      tax: calculation.tax,
+      shipping: calculation.shipping,
+      discount: calculation.discount,
+      discountCode: promotionEvaluation?.code || null,
+      total: calculation.total,
+      currency: calculation.currency,
+      baseCurrency: calculation.baseCurrency,
+      exchangeRate: calculation.exchangeRate,
       shippingAddress: checkout.shippingAddress.id,
       billingAddress: checkout.billingAddress.id,
       paymentStatus: 'pending' as const,
@@ -147,42 +251,82 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
       createdAt: new Date(),
       updatedAt: new Date(),
       orderSource: 'web' as const,
-      customerNotes: '',
+      customerNotes: (checkout.stepData as any)?.review?.specialInstructions || '',
       adminNotes: '',
       fraudScore: 0,
       isGift: false,
       giftMessage: '',
-      metadata: {}
+      metadata: {
+        shipping: {
+          methodId: shippingQuote.id,
+          code: shippingQuote.code,
+          name: shippingQuote.name,
+          estimatedDays: shippingQuote.estimatedDays
+        },
+        tax: {
+          pricesIncludeTax: taxCalculation.pricesIncludeTax,
+          location: taxCalculation.location
+        },
+        ...(checkout.paymentMethod ? { paymentMethod: checkout.paymentMethod } : {}),
+        calculation: calculation as any,
+        ...(recovery ? { recovery: recovery as any } : {}),
+        ...(promotionEvaluation ? {
+          promotion: {
+            documentId: promotionEvaluation.promotion.documentId,
+            code: promotionEvaluation.code,
+            type: promotionEvaluation.promotion.type,
+            freeShipping: promotionEvaluation.freeShipping
+          }
+        } : {})
+      }
     };
 
     const order = await strapi.documents('api::order.order').create({
       data: orderData
     });
-    // inventory service
-    const inventoryService = await strapi.service('api::inventory.inventory');
+    if (promotionEvaluation) {
+      await promotionService.recordUsage(promotionEvaluation.promotion, {
+        orderId: order.documentId,
+        discountAmount: discount,
+        customer
+      });
+    }
     // Create order items
-    for (const item of cartItems) {
+    for (const [index, item] of cartItems.entries()) {
+      const lineTax = taxCalculation.lines[index];
       await strapi.documents('api::order.order-item').create({
         data: {
           order: order.documentId,
           product: item.product,
           productListing: item.productListing,
           variant: item.variant,
-          price: item.price,
-          subtotal: item.price * item.quantity,
+          price: convertAmount(item.price, currencyQuote),
+          subtotal: convertAmount(item.price * item.quantity, currencyQuote),
           quantity: item.quantity,
-          tax: 0
+          tax: convertAmount(lineTax?.tax || 0, currencyQuote),
+          metadata: {
+            taxRates: lineTax?.rates || []
+          }
         }
       });
-      await inventoryService.reserveStock(item.product.documentId, item.quantity, {
-        orderId: order.documentId,
-        customerId: userType === UserType.AUTHENTICATED ? userId : null,
-        sessionId: userType === UserType.GUEST ? userId : null,
-      });
       // create order history
       await strapi.service('api::order.order-history').recordOrderCreation(order.documentId, orderData, userType === UserType.AUTHENTICATED ? userId : null, 'customer');
       await strapi.service('api::order.order-history').recordStatusChange(order.documentId, 'pending', 'pending', userType === UserType.AUTHENTICATED ? userId : null, 'Order created from checkout');
     }
+    // Reserve stock for every line, the order fails as a whole when one line is out of stock
+    await strapi.service('api::inventory.inventory').reserveOrderStock(
+      cartItems.map((item: any) => ({
+        productId: item.product?.documentId,
+        variantId: item.variant?.documentId,
+        quantity: item.quantity
+      })),
+      {
+        orderId: order.documentId,
+        customerId: userType === UserType.AUTHENTICATED ? userId : null,
+        sessionId: userType === UserType.GUEST ? userId : null,
+        shippingAddress: checkout.shippingAddress
+      }
+    );
     return order;
   },
 
@@ -190,9 +334,25 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
    * Completes checkout process with order creation
    * @param checkout - Checkout data
    * @param userId - User ID (null for guests)
+   * @param acceptedChanges - Hash of the cart changes the customer accepted, from a previous attempt
    * @returns Created order with populated data
    */
-  async completeCheckoutProcess(checkout: any, userId: string | null, userType: UserType) {
+  async completeCheckoutProcess(checkout: any, userId: string | null, userType: UserType, acceptedChanges?: string) {
+    // Checkouts created without every detail collect them step by step
+    if (!checkout.shippingAddress || !checkout.billingAddress || !checkout.shippingMethod) {
+      throw new Error('Checkout validation failed: shipping address, billing address and shipping method are required');
+    }
+
+    // Order the cart at its current prices, the customer confirms prices that drifted and stock that ran short
+    const revalidation = await strapi.service('api::checkout.checkout-revalidation').revalidateCheckout(
+      checkout,
+      acceptedChanges
+    );
+    if (revalidation.isChanged) {
+      throw new CartChangedError(revalidation.changes, revalidation.changesHash);
+    }
+    checkout = { ...checkout, metadata: { ...checkout.metadata, cartItems: revalidation.cartItems } };
+
     // Lock checkout session
     await strapi.documents('api::checkout.checkout').update({
       documentId: checkout.documentId,
@@ -200,13 +360,14 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
     });
 
     const order = await strapi.db.transaction(async ({ commit }) => {
-      // Create order
+      // Create order, rolled back as a whole when stock cannot be reserved
       const order = await this.createOrderFromCheckout(checkout, userId, userType);
       
-      // Update checkout session to completed
+      // Update checkout session to completed, a restored checkout is recovered by the order
+      const recovery = (order.metadata as any)?.recovery;
       await strapi.documents('api::checkout.checkout').update({
         documentId: checkout.documentId,
-        data: { status: 'completed' }
+        data: { status: 'completed', ...(recovery ? { recoveryStatus: 'recovered' as const } : {}) }
       });
       // soft delete cart items
       const cartItems = (checkout.metadata as any).cartItems;
@@ -219,15 +380,17 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
           }
         });
       }
-      // recalculate cart totals
-      const calculation = await strapi.service('api::cart.cart-calculation').calculateCartTotals(cart);
+      // recalculate cart totals, the discount code has been redeemed by the order
+      const calculation = await strapi.service('api::cart.cart-calculation').calculateCartTotals({ ...cart, discountCode: null });
       await strapi.documents('api::cart.cart').update({
         documentId: cart.documentId,
         data: {
           subtotal: calculation.subtotal,
           tax: calculation.tax,
           shipping: calculation.shipping,
-          total: calculation.total
+          total: calculation.total,
+          discountCode: null,
+          discountAmount: 0
         }
       });
       
@@ -246,6 +409,13 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
       });
       
       return latestOrder;
+    }).catch(async (error) => {
+      // Unlock the checkout session so the customer can retry, e.g. after changing quantities
+      await strapi.documents('api::checkout.checkout').update({
+        documentId: checkout.documentId,
+        data: { status: 'active' }
+      });
+      throw error;
     });
 
     return order;
@@ -260,7 +430,7 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
   async updateCheckoutStatus(documentId: string, status: 'active' | 'expired' | 'abandoned' | 'locked' | 'completed') {
     const updatedCheckout = await strapi.documents('api::checkout.checkout').update({
       documentId,
-      data: { status }
+      data: { status, ...(status === 'abandoned' ? { abandonedAt: new Date() } : {}) }
     });
 
     return updatedCheckout;
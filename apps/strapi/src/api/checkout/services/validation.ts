@@ -1,9 +1,9 @@
 import { Core } from '@strapi/strapi';
 import { z } from 'zod';
 const checkoutCreateSchema = z.object({
-    shippingAddress: z.string(),
-    billingAddress: z.string(),
-    shippingMethod: z.string(),
+    shippingAddress: z.string().optional(),
+    billingAddress: z.string().optional(),
+    shippingMethod: z.string().optional(),
     status: z.enum(['active', 'completed', 'abandoned', 'expired']).optional(),
     metadata: z.object({}).optional(),
     completedAt: z.string().optional(),
@@ -65,89 +65,23 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
 
         // Validate addresses exist and belong to the user
         if (validatedData.shippingAddress) {
-            try {
-                const shippingAddress = await strapi.documents('api::address.address').findOne({
-                    documentId: validatedData.shippingAddress,
-                    populate: ['user']
-                });
-                
-                if (!shippingAddress) {
-                    errors.push('Shipping address not found');
-                } else {
-                    // Check ownership
-                    const addressOwner = isGuest ? shippingAddress.sessionId : shippingAddress.user?.id;
-                    if (addressOwner !== userId) {
-                        errors.push('Shipping address does not belong to the requesting user');
-                    }
-                }
-            } catch (error) {
-                errors.push('Error validating shipping address ' + error.message);
-            }
+            const { errors: addressErrors } = await this.validateAddress(validatedData.shippingAddress, 'Shipping', userId, isGuest);
+            errors.push(...addressErrors);
         }
 
         if (validatedData.billingAddress) {
-            try {
-                const billingAddress = await strapi.documents('api::address.address').findOne({
-                    documentId: validatedData.billingAddress,
-                    populate: ['user']
-                });
-                
-                if (!billingAddress) {
-                    errors.push('Billing address not found');
-                } else {
-                    // Check ownership
-                    const addressOwner = isGuest ? billingAddress.sessionId : billingAddress.user?.id;
-                    if (addressOwner !== userId) {
-                        errors.push('Billing address does not belong to the requesting user');
-                    }
-                }
-            } catch (error) {
-                errors.push('Error validating billing address ' + error.message);
-            }
+            const { errors: addressErrors } = await this.validateAddress(validatedData.billingAddress, 'Billing', userId, isGuest);
+            errors.push(...addressErrors);
         }
 
         // Validate cart items exist and belong to the user
         if (validatedData.cartItems && validatedData.cartItems.length > 0) {
-            try {
-                const cartItems = await strapi.documents('api::cart.cart-item').findMany({
-                    filters: {
-                        documentId: {
-                            $in: validatedData.cartItems
-                        }
-                    },
-                    populate: {
-                        cart: {
-                            populate: {
-                                user: true
-                            }
-                        },
-                        product: true
-                    }
-                });
-                
-                // Check if all cart items were found
-                const foundCartItemIds = cartItems.map(item => item.documentId);
-                const missingCartItems = validatedData.cartItems.filter(id => !foundCartItemIds.includes(id));
-                
-                if (missingCartItems.length > 0) {
-                    errors.push(`Cart items not found: ${missingCartItems.join(', ')}`);
-                }
-                
-                // Check ownership for found cart items
-                for (const cartItem of cartItems) {
-                    const cartOwner = isGuest ? cartItem.cart.sessionId : cartItem.cart.user?.id;
-                    if (cartOwner !== userId) {
-                        errors.push(`Cart item ${cartItem.documentId} does not belong to the requesting user`);
-                    }
-                    if (cartItem.deletedAt) {
-                        errors.push(`Cart item ${cartItem.documentId} is deleted`);
-                    }
-                }
+            const { errors: cartItemErrors, cartItems } = await this.validateCartItems(validatedData.cartItems, userId, isGuest);
+            errors.push(...cartItemErrors);
+            if (cartItems) {
                 validatedData.metadata = {
                     cartItems
                 }
-            } catch (error) {
-                errors.push('Error validating cart items ' + error.message);
             }
         }
 
@@ -156,5 +90,86 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
             errors: errors,
             data: validatedData,
         }
+    },
+
+    /**
+     * Validates an address exists and belongs to the requester
+     * @param addressId - Address document ID
+     * @param label - Address kind used in error messages, Shipping or Billing
+     * @returns The address and the validation errors
+     */
+    async validateAddress(addressId: string, label: 'Shipping' | 'Billing', userId: any, isGuest: boolean) {
+        const errors: string[] = [];
+        try {
+            const address = await strapi.documents('api::address.address').findOne({
+                documentId: addressId,
+                populate: ['user']
+            });
+
+            if (!address) {
+                errors.push(`${label} address not found`);
+                return { address: null, errors };
+            }
+            // Check ownership
+            const addressOwner = isGuest ? address.sessionId : address.user?.id;
+            if (addressOwner !== userId) {
+                errors.push(`${label} address does not belong to the requesting user`);
+            }
+            return { address, errors };
+        } catch (error) {
+            errors.push(`Error validating ${label.toLowerCase()} address ` + error.message);
+            return { address: null, errors };
+        }
+    },
+
+    /**
+     * Validates cart items exist, belong to the requester and are not deleted
+     * @param cartItemIds - Cart item document IDs
+     * @returns The cart items with their cart, product, listing and variant, and the validation errors
+     */
+    async validateCartItems(cartItemIds: string[], userId: any, isGuest: boolean) {
+        const errors: string[] = [];
+        try {
+            const cartItems = await strapi.documents('api::cart.cart-item').findMany({
+                filters: {
+                    documentId: {
+                        $in: cartItemIds
+                    }
+                },
+                populate: {
+                    cart: {
+                        populate: {
+                            user: true
+                        }
+                    },
+                    product: true,
+                    productListing: true,
+                    variant: true
+                }
+            });
+
+            // Check if all cart items were found
+            const foundCartItemIds = cartItems.map(item => item.documentId);
+            const missingCartItems = cartItemIds.filter(id => !foundCartItemIds.includes(id));
+
+            if (missingCartItems.length > 0) {
+                errors.push(`Cart items not found: ${missingCartItems.join(', ')}`);
+            }
+
+            // Check ownership for found cart items
+            for (const cartItem of cartItems) {
+                const cartOwner = isGuest ? cartItem.cart.sessionId : cartItem.cart.user?.id;
+                if (cartOwner !== userId) {
+                    errors.push(`Cart item ${cartItem.documentId} does not belong to the requesting user`);
+                }
+                if (cartItem.deletedAt) {
+                    errors.push(`Cart item ${cartItem.documentId} is deleted`);
+                }
+            }
+            return { cartItems, errors };
+        } catch (error) {
+            errors.push('Error validating cart items ' + error.message);
+            return { cartItems: null, errors };
+        }
     }
 });
\ No newline at end of file
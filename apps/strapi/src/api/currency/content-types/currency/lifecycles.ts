@@ -0,0 +1,9 @@
+export default {
+    // Keep track of when an exchange rate was last changed
+    beforeUpdate(event) {
+      const { data } = event.params;
+      if (data?.exchangeRate !== undefined) {
+        data.rateUpdatedAt = new Date();
+      }
+    },
+  };
@@ -0,0 +1,26 @@
+/**
+ * currency controller
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreController('api::currency.currency', ({ strapi }) => ({
+  /**
+   * List the currencies shoppers can pay in
+   */
+  async getActive(ctx) {
+    try {
+      const currencies = await strapi.service('api::currency.currency').getActiveCurrencies();
+
+      return {
+        data: currencies,
+        meta: {
+          message: 'Active currencies retrieved successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error getting active currencies:', error);
+      return ctx.internalServerError('Failed to get active currencies');
+    }
+  },
+}));
@@ -0,0 +1,52 @@
+/**
+ * currency router
+ *
+ * Currencies and exchange rates are managed by admins, shoppers can
+ * list the active currencies.
+ */
+
+import { factories } from '@strapi/strapi';
+
+const coreRoutes = factories.createCoreRouter('api::currency.currency', {
+  config: {
+    find: {
+      policies: ['global::is-admin'],
+    },
+    findOne: {
+      policies: ['global::is-admin'],
+    },
+    create: {
+      policies: ['global::is-admin'],
+    },
+    update: {
+      policies: ['global::is-admin'],
+    },
+    delete: {
+      policies: ['global::is-admin'],
+    },
+  },
+});
+
+// IMPORTANT: Specific routes must come BEFORE parameterized routes to avoid conflicts
+const extraRoutes = [
+  {
+    method: 'GET',
+    path: '/currencies/active',
+    handler: 'api::currency.currency.getActive',
+    config: {
+      policies: ['global::is-public'],
+    },
+  },
+];
+
+const customRouter = {
+  get prefix() {
+    return coreRoutes.prefix;
+  },
+  get routes() {
+    const coreRoutesArray = Array.isArray(coreRoutes.routes) ? coreRoutes.routes : [];
+    return [...extraRoutes, ...coreRoutesArray];
+  },
+};
+
+export default customRouter;
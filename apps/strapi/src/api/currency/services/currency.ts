@@ -0,0 +1,163 @@
+/**
+ * Currency service
+ *
+ * Converts amounts between the base currency (catalog prices, tax and
+ * shipping tables) and the currency a shopper pays in, using the exchange
+ * rate table and the rounding rules configured per currency. All amounts
+ * are in minor units (cents).
+ */
+
+import { Core, factories } from '@strapi/strapi';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+export interface CurrencyQuote {
+  currency: string;
+  baseCurrency: string;
+  exchangeRate: number; // units of currency per unit of base currency
+  minorUnits: number;
+  baseMinorUnits: number;
+  roundingMode: RoundingMode;
+  roundingIncrement: number; // in minor units
+}
+
+const toNumber = (value: any): number => {
+  const result = parseFloat(value);
+  return isNaN(result) ? 0 : result;
+};
+
+/**
+ * Round an amount in minor units to a multiple of the increment
+ */
+export const roundAmount = (
+  amount: number,
+  mode: RoundingMode = 'nearest',
+  increment: number = 1
+): number => {
+  const step = increment > 0 ? increment : 1;
+  // Strip floating point noise before rounding up/down (e.g. 1234.0000001)
+  const units = Math.round((amount / step) * 1e6) / 1e6;
+
+  switch (mode) {
+    case 'up':
+      return Math.ceil(units) * step;
+    case 'down':
+      return Math.floor(units) * step;
+    default:
+      return Math.round(units) * step;
+  }
+};
+
+/**
+ * Convert an amount from the base currency to the quoted currency
+ */
+export const convertAmount = (amount: number, quote: CurrencyQuote): number => {
+  if (quote.currency === quote.baseCurrency) {
+    return amount;
+  }
+
+  const converted = amount * quote.exchangeRate *
+    Math.pow(10, quote.minorUnits - quote.baseMinorUnits);
+
+  return roundAmount(converted, quote.roundingMode, quote.roundingIncrement);
+};
+
+/**
+ * Convert an amount in the quoted currency back to the base currency
+ */
+export const toBaseAmount = (amount: number, quote: Pick<CurrencyQuote, 'exchangeRate' | 'minorUnits' | 'baseMinorUnits'>): number => {
+  if (!quote.exchangeRate) {
+    return amount;
+  }
+
+  return Math.round(
+    (amount / quote.exchangeRate) * Math.pow(10, quote.baseMinorUnits - quote.minorUnits)
+  );
+};
+
+export default factories.createCoreService(
+  'api::currency.currency',
+  ({ strapi }: { strapi: Core.Strapi }) => ({
+    /**
+     * Get the base currency, defaults to USD when none is configured
+     */
+    async getBaseCurrency(): Promise<any> {
+      const baseCurrency = await strapi.documents('api::currency.currency').findFirst({
+        filters: { isBase: true },
+      });
+
+      return baseCurrency || {
+        code: DEFAULT_CURRENCY,
+        minorUnits: 2,
+        exchangeRate: 1,
+        roundingMode: 'nearest',
+        roundingIncrement: 1,
+      };
+    },
+
+    /**
+     * List the currencies shoppers can pay in
+     */
+    async getActiveCurrencies(): Promise<any[]> {
+      return strapi.documents('api::currency.currency').findMany({
+        filters: { isActive: true },
+        fields: ['code', 'name', 'symbol', 'minorUnits', 'exchangeRate', 'isBase'],
+        sort: { code: 'asc' },
+      });
+    },
+
+    /**
+     * Get the conversion from the base currency to a currency
+     * @throws Error when the currency is not supported
+     */
+    async getQuote(code?: string | null): Promise<CurrencyQuote> {
+      const baseCurrency = await this.getBaseCurrency();
+      const currencyCode = (code || baseCurrency.code).trim().toUpperCase();
+
+      const identity: CurrencyQuote = {
+        currency: baseCurrency.code,
+        baseCurrency: baseCurrency.code,
+        exchangeRate: 1,
+        minorUnits: baseCurrency.minorUnits ?? 2,
+        baseMinorUnits: baseCurrency.minorUnits ?? 2,
+        roundingMode: 'nearest',
+        roundingIncrement: 1,
+      };
+
+      if (currencyCode === baseCurrency.code) {
+        return identity;
+      }
+
+      const currency: any = await strapi.documents('api::currency.currency').findFirst({
+        filters: { code: { $eqi: currencyCode }, isActive: true },
+      });
+
+      if (!currency || toNumber(currency.exchangeRate) <= 0) {
+        throw new Error(`Currency ${currencyCode} is not supported`);
+      }
+
+      return {
+        ...identity,
+        currency: currency.code.toUpperCase(),
+        exchangeRate: toNumber(currency.exchangeRate),
+        minorUnits: currency.minorUnits ?? 2,
+        roundingMode: currency.roundingMode || 'nearest',
+        roundingIncrement: currency.roundingIncrement || 1,
+      };
+    },
+
+    /**
+     * Check whether shoppers can pay in a currency
+     */
+    async isSupported(code: string): Promise<boolean> {
+      try {
+        await this.getQuote(code);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  })
+);
@@ -15,7 +15,8 @@ import { Core, factories } from '@strapi/strapi';
 
 // Local type definitions specific to this controller
 interface InitializeInventoryRequest {
-  productId: string;
+  productId?: string;
+  variantId?: string;
   initialQuantity?: number;
 }
 
@@ -25,10 +26,19 @@ interface UpdateQuantityRequest {
   source?: 'manual' | 'order' | 'return' | 'adjustment' | 'system';
   orderId?: string;
   allowNegative?: boolean;
+  locationId?: string;
+}
+
+interface TransferStockRequest {
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  reason?: string;
 }
 
 interface ReserveStockRequest {
-  productId: string;
+  productId?: string;
+  variantId?: string;
   quantity: number;
   orderId: string;
   customerId?: string;
@@ -56,36 +66,54 @@ interface InventoryQueryParams {
   categoryId?: string;
 }
 
+interface ReorderSuggestionQueryParams {
+  windowDays?: string;
+  leadTimeDays?: string;
+  all?: string;
+}
+
 export default factories.createCoreController(
   'api::inventory.inventory' as any, // Strapi content type identifier
   ({ strapi }: { strapi: Core.Strapi }) => ({
     // Strapi instance type
     /**
-     * Initialize inventory for a product
+     * Initialize inventory for a product or a product listing variant
      */
     async initializeInventory(ctx: any): Promise<void> {
       // Strapi controller context
       try {
-        const { productId, initialQuantity = 0 }: InitializeInventoryRequest =
+        const { productId, variantId, initialQuantity = 0 }: InitializeInventoryRequest =
           ctx.request.body;
         const userId = ctx.state.user?.id;
 
-        if (!productId) {
+        if (!productId && !variantId) {
           return ctx.badRequest('Product ID is required');
         }
 
-        // Validate that product exists using Document Service API
-        const product = await strapi.documents('api::product.product').findOne({
-          documentId: productId,
-        });
+        if (variantId) {
+          // Validate that variant exists using Document Service API
+          const variant = await strapi
+            .documents('api::product-listing-variant.product-listing-variant')
+            .findOne({ documentId: variantId });
+
+          if (!variant) {
+            return ctx.notFound('Variant not found');
+          }
+        } else {
+          // Validate that product exists using Document Service API
+          const product = await strapi.documents('api::product.product').findOne({
+            documentId: productId,
+          });
 
-        if (!product) {
-          return ctx.notFound('Product not found');
+          if (!product) {
+            return ctx.notFound('Product not found');
+          }
         }
 
-        const inventory = await strapi
-          .service('api::inventory.inventory')
-          .initializeInventory(productId, initialQuantity, userId);
+        const inventoryService = strapi.service('api::inventory.inventory');
+        const inventory = variantId
+          ? await inventoryService.initializeInventory(null, initialQuantity, userId, variantId)
+          : await inventoryService.initializeInventory(productId, initialQuantity, userId);
 
         ctx.body = {
           data: inventory,
@@ -116,6 +144,7 @@ export default factories.createCoreController(
           source = 'manual',
           orderId,
           allowNegative = false,
+          locationId,
         }: UpdateQuantityRequest = ctx.request.body;
         const userId = ctx.state.user?.id;
 
@@ -134,6 +163,7 @@ export default factories.createCoreController(
             documentId: id,
             populate: {
               product: true,
+              variant: true,
             },
           });
 
@@ -143,12 +173,14 @@ export default factories.createCoreController(
 
         const updatedInventory = await strapi
           .service('api::inventory.inventory')
-          .updateInventory(inventory.product.documentId, quantityChange, {
+          .updateInventory(inventory.product?.documentId, quantityChange, {
             reason,
             source,
             orderId,
             userId,
             allowNegative,
+            variantId: inventory.variant?.documentId,
+            locationId,
           });
 
         ctx.body = {
@@ -177,13 +209,14 @@ export default factories.createCoreController(
       try {
         const {
           productId,
+          variantId,
           quantity,
           orderId,
           customerId,
           expirationMinutes = 30,
         }: ReserveStockRequest = ctx.request.body;
 
-        if (!productId || !quantity || !orderId) {
+        if ((!productId && !variantId) || !quantity || !orderId) {
           return ctx.badRequest(
             'Product ID, quantity, and order ID are required'
           );
@@ -199,6 +232,7 @@ export default factories.createCoreController(
             orderId,
             customerId: customerId || ctx.state.user?.id,
             expirationMinutes,
+            variantId,
           });
 
         ctx.body = {
@@ -278,6 +312,114 @@ export default factories.createCoreController(
       }
     },
 
+    /**
+     * Get the stock of an inventory record per location
+     */
+    async getLevels(ctx: any): Promise<void> {
+      try {
+        const { id } = ctx.params;
+
+        const levels = await strapi
+          .service('api::inventory.inventory')
+          .getLocationLevels(id);
+
+        ctx.body = {
+          data: levels,
+          meta: {},
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        strapi.log.error('Error in getLevels:', error);
+        ctx.throw(500, errorMessage);
+      }
+    },
+
+    /**
+     * Move stock between two locations
+     */
+    async transferStock(ctx: any): Promise<void> {
+      try {
+        const { id } = ctx.params;
+        const {
+          fromLocationId,
+          toLocationId,
+          quantity,
+          reason,
+        }: TransferStockRequest = ctx.request.body;
+
+        if (!fromLocationId || !toLocationId || !quantity) {
+          return ctx.badRequest(
+            'Source location, destination location and quantity are required'
+          );
+        }
+
+        if (typeof quantity !== 'number' || quantity <= 0) {
+          return ctx.badRequest('Quantity must be greater than zero');
+        }
+
+        const levels = await strapi
+          .service('api::inventory.inventory')
+          .transferStock(id, fromLocationId, toLocationId, quantity, {
+            reason,
+            userId: ctx.state.user?.id,
+          });
+
+        ctx.body = {
+          data: levels,
+          meta: { message: 'Stock transferred successfully' },
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        strapi.log.error('Error in transferStock:', error);
+
+        if (errorMessage.includes('not found')) {
+          return ctx.notFound(errorMessage);
+        }
+        if (
+          errorMessage.includes('Insufficient') ||
+          errorMessage.includes('must be different') ||
+          errorMessage.includes('Cannot reduce')
+        ) {
+          return ctx.badRequest(errorMessage);
+        }
+        ctx.throw(500, errorMessage);
+      }
+    },
+
+    /**
+     * Get inventory by product listing variant ID
+     */
+    async findByVariant(ctx: any): Promise<void> {
+      try {
+        const { variantId } = ctx.params;
+
+        const inventory = await strapi.documents('api::inventory.inventory').findFirst({
+          filters: { variant: { documentId: variantId } },
+          populate: {
+            variant: {
+              populate: { productListing: true, optionValue: true },
+            },
+          },
+        });
+
+        if (!inventory) {
+          return ctx.notFound('Inventory record not found for this variant');
+        }
+
+        ctx.body = {
+          data: inventory,
+          meta: {},
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        strapi.log.error('Error in findByVariant:', error);
+        ctx.throw(500, errorMessage);
+      }
+    },
+
     /**
      * Get low stock products
      */
@@ -291,6 +433,7 @@ export default factories.createCoreController(
             filters: { isLowStock: true },
             populate: {
               product: true,
+              variant: true,
             },
             sort: 'quantity:asc',
             limit: pageSize,
@@ -316,6 +459,37 @@ export default factories.createCoreController(
       }
     },
 
+    /**
+     * Get reorder suggestions from the inventory decrease velocity
+     */
+    async getReorderSuggestions(ctx: any): Promise<void> {
+      try {
+        const { windowDays, leadTimeDays, all }: ReorderSuggestionQueryParams = ctx.query;
+        const parsedWindowDays = parseInt(String(windowDays));
+        const parsedLeadTimeDays = parseInt(String(leadTimeDays));
+
+        const suggestions = await strapi
+          .service('api::inventory.inventory-reorder')
+          .getReorderSuggestions({
+            windowDays: parsedWindowDays > 0 ? parsedWindowDays : undefined,
+            leadTimeDays: parsedLeadTimeDays >= 0 ? parsedLeadTimeDays : undefined,
+            includeAll: all === 'true',
+          });
+
+        ctx.body = {
+          data: suggestions,
+          meta: {
+            total: suggestions.length,
+          },
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        strapi.log.error('Error in getReorderSuggestions:', error);
+        ctx.throw(500, errorMessage);
+      }
+    },
+
     /**
      * Get inventory history for a product
      */
@@ -382,6 +556,30 @@ export default factories.createCoreController(
       }
     },
 
+    /**
+     * Get the inventory history of an order, linking each stock change to it
+     */
+    async getOrderHistory(ctx: any): Promise<void> {
+      try {
+        const { orderId } = ctx.params;
+        const history = await strapi
+          .service('api::inventory.inventory')
+          .getOrderStockHistory(orderId);
+
+        ctx.body = {
+          data: history,
+          meta: {
+            total: history.length,
+          },
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        strapi.log.error('Error in getOrderHistory:', error);
+        ctx.throw(500, errorMessage);
+      }
+    },
+
     /**
      * Get inventory analytics
      */
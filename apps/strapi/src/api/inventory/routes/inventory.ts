@@ -55,6 +55,22 @@ const extraRoutes = [
       ],
     },
   },
+  {
+    method: 'GET',
+    path: '/inventories/:id/levels',
+    handler: 'inventory.getLevels',
+    config: {
+      policies: ['global::is-authenticated'],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/inventories/:id/transfer',
+    handler: 'inventory.transferStock',
+    config: {
+      policies: ['global::is-authenticated'],
+    },
+  },
   {
     method: 'POST',
     path: '/inventories/reserve',
@@ -79,6 +95,14 @@ const extraRoutes = [
       policies: ['global::is-authenticated'],
     },
   },
+  {
+    method: 'GET',
+    path: '/inventories/variant/:variantId',
+    handler: 'inventory.findByVariant',
+    config: {
+      policies: ['global::is-authenticated'],
+    },
+  },
   {
     method: 'GET',
     path: '/inventories/low-stock',
@@ -87,6 +111,14 @@ const extraRoutes = [
       policies: ['global::is-authenticated'],
     },
   },
+  {
+    method: 'GET',
+    path: '/inventories/reorder-suggestions',
+    handler: 'inventory.getReorderSuggestions',
+    config: {
+      policies: ['global::is-authenticated'],
+    },
+  },
   {
     method: 'GET',
     path: '/inventories/product/:productId/history',
@@ -95,6 +127,14 @@ const extraRoutes = [
       policies: ['global::is-authenticated'],
     },
   },
+  {
+    method: 'GET',
+    path: '/inventories/orders/:orderId/history',
+    handler: 'inventory.getOrderHistory',
+    config: {
+      policies: ['global::is-admin'],
+    },
+  },
   {
     method: 'GET',
     path: '/inventories/analytics',
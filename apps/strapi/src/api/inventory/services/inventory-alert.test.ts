@@ -0,0 +1,166 @@
+/**
+ * Inventory Alert Service tests
+ *
+ * Tests for low stock alert delivery by email and webhook and
+ * the daily digest
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { LOW_STOCK_ALERT_CONFIG } from '../../../../config/constant';
+import createAlertService from './inventory-alert';
+
+const mockDocumentMethods = {
+  findMany: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockNotificationService = {
+  notify: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn(() => mockNotificationService),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const mockFetch = jest.fn() as jest.MockedFunction<any>;
+const originalFetch = global.fetch;
+const originalConfig = { ...LOW_STOCK_ALERT_CONFIG };
+
+const alert = {
+  productId: 'product-1',
+  productName: 'Linen Shirt',
+  sku: 'LS-01',
+  quantity: 3,
+  threshold: 10,
+};
+
+describe('Inventory Alert Service', () => {
+  let service: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDocumentMethods.findMany.mockReset();
+    mockNotificationService.notify.mockReset();
+    mockNotificationService.notify.mockResolvedValue({ deliveries: [{ channel: 'email', status: 'sent' }], delivered: ['email'] });
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true, status: 200 });
+    global.fetch = mockFetch as any;
+    Object.assign(LOW_STOCK_ALERT_CONFIG, {
+      delivery: 'immediate',
+      recipients: ['inventory@example.com'],
+      webhookUrl: 'https://hooks.example.com/stock',
+    });
+
+    service = createAlertService({ strapi: mockStrapi });
+    // Bind methods for proper `this` context
+    Object.keys(service).forEach(key => {
+      service[key] = service[key].bind(service);
+    });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    Object.assign(LOW_STOCK_ALERT_CONFIG, originalConfig);
+  });
+
+  describe('sendLowStockAlert', () => {
+    it('should deliver the alert by email and webhook', async () => {
+      const result = await service.sendLowStockAlert(alert);
+
+      expect(result).toEqual({ alertSent: true, channels: ['email', 'webhook'] });
+      expect(mockNotificationService.notify).toHaveBeenCalledWith({
+        template: 'low-stock-alert',
+        email: 'inventory@example.com',
+        channels: ['email'],
+        data: { name: 'Linen Shirt', description: 'Linen Shirt (LS-01): 3 units left, threshold 10' },
+      });
+      expect(mockFetch).toHaveBeenCalledWith('https://hooks.example.com/stock', expect.objectContaining({
+        method: 'POST',
+      }));
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({ event: 'inventory.low_stock', data: alert });
+    });
+
+    it('should keep delivering when one channel fails', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      const result = await service.sendLowStockAlert(alert);
+
+      expect(result).toEqual({
+        alertSent: true,
+        channels: ['email'],
+        error: 'Low stock webhook responded with 500',
+      });
+    });
+
+    it('should report the email as failed when no recipient received it', async () => {
+      mockNotificationService.notify.mockResolvedValue({
+        deliveries: [{ channel: 'email', status: 'failed', error: 'SMTP unavailable' }],
+        delivered: [],
+      });
+
+      const result = await service.sendLowStockAlert(alert);
+
+      expect(result).toEqual({ alertSent: true, channels: ['webhook'], error: 'SMTP unavailable' });
+    });
+
+    it('should skip channels that are not configured', async () => {
+      Object.assign(LOW_STOCK_ALERT_CONFIG, { recipients: [], webhookUrl: '' });
+
+      const result = await service.sendLowStockAlert(alert);
+
+      expect(result).toEqual({ alertSent: false, channels: [] });
+      expect(mockNotificationService.notify).not.toHaveBeenCalled();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should hold single alerts back for the digest', async () => {
+      Object.assign(LOW_STOCK_ALERT_CONFIG, { delivery: 'digest' });
+
+      const result = await service.sendLowStockAlert(alert);
+
+      expect(result.alertSent).toBe(false);
+      expect(mockNotificationService.notify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendDailyDigest', () => {
+    it('should send one digest of the records low on stock', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([
+        { documentId: 'inventory-1', quantity: 0, lowStockThreshold: 5, product: { documentId: 'product-1', name: 'Linen Shirt', sku: 'LS-01' } },
+        { documentId: 'inventory-2', quantity: 4, lowStockThreshold: 10, product: { documentId: 'product-2', name: 'Canvas Tote' }, variant: { documentId: 'variant-1', sku: 'CT-RED' } },
+      ]);
+
+      const result = await service.sendDailyDigest();
+
+      expect(mockDocumentMethods.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        filters: { lowStockAlertedAt: { $notNull: true } },
+      }));
+      expect(result).toEqual({ alertSent: true, channels: ['email', 'webhook'], itemCount: 2 });
+      expect(mockNotificationService.notify).toHaveBeenCalledWith({
+        template: 'low-stock-digest',
+        email: 'inventory@example.com',
+        channels: ['email'],
+        data: {
+          itemCount: '2 items',
+          items: '- Linen Shirt (LS-01): 0 units left, threshold 5\n- Canvas Tote (CT-RED): 4 units left, threshold 10',
+        },
+      });
+    });
+
+    it('should not send an empty digest', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([]);
+
+      const result = await service.sendDailyDigest();
+
+      expect(result).toEqual({ alertSent: false, channels: [], itemCount: 0 });
+      expect(mockNotificationService.notify).not.toHaveBeenCalled();
+    });
+  });
+});
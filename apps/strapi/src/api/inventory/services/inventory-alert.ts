@@ -0,0 +1,184 @@
+/**
+ * Inventory Alert Service
+ *
+ * Delivers low stock alerts by email and to a webhook. An inventory record
+ * is alerted once when it drops to its threshold and again only after its
+ * stock recovered above it. With digest delivery, single alerts are held
+ * back and the records still low are sent once a day instead.
+ */
+
+import { LOW_STOCK_ALERT_CONFIG } from '../../../../config/constant';
+
+export interface LowStockAlert {
+  productId?: string;
+  variantId?: string;
+  productName?: string;
+  sku?: string;
+  quantity: number;
+  threshold: number;
+}
+
+export interface AlertDeliveryResult {
+  alertSent: boolean;
+  channels: Array<'email' | 'webhook'>;
+  error?: string;
+}
+
+/**
+ * Describe the alerted product or variant in one line
+ */
+const describeAlert = (alert: LowStockAlert): string => {
+  const target = alert.productName || (alert.variantId ? `Variant ${alert.variantId}` : `Product ${alert.productId}`);
+  const sku = alert.sku ? ` (${alert.sku})` : '';
+  return `${target}${sku}: ${alert.quantity} units left, threshold ${alert.threshold}`;
+};
+
+export default ({ strapi }: { strapi: any }) => ({
+  /**
+   * Build the alert of an inventory record
+   */
+  toAlert(inventory: any): LowStockAlert {
+    return {
+      productId: inventory.product?.documentId,
+      variantId: inventory.variant?.documentId,
+      productName: inventory.product?.name,
+      sku: inventory.variant?.sku || inventory.product?.sku,
+      quantity: inventory.quantity,
+      threshold: inventory.lowStockThreshold,
+    };
+  },
+
+  /**
+   * Email a notification template to each alert recipient
+   * @returns false when no recipient is configured
+   * @throws Error when the email could not be sent to any recipient
+   */
+  async sendEmail(template: string, data: Record<string, any>): Promise<boolean> {
+    if (LOW_STOCK_ALERT_CONFIG.recipients.length === 0) {
+      return false;
+    }
+
+    const notificationService = strapi.service('api::notification.notification');
+    const errors: string[] = [];
+    let sent = false;
+    for (const recipient of LOW_STOCK_ALERT_CONFIG.recipients) {
+      const result = await notificationService.notify({ template, email: recipient, channels: ['email'], data });
+      if (result.delivered.includes('email')) {
+        sent = true;
+      } else {
+        errors.push(...result.deliveries.map((delivery: any) => delivery.error || delivery.reason));
+      }
+    }
+    if (!sent) {
+      throw new Error(errors.filter(Boolean).join('; ') || 'Email delivery failed');
+    }
+    return true;
+  },
+
+  /**
+   * Post an event to the alert webhook
+   * @returns false when no webhook is configured
+   * @throws Error when the webhook does not accept the event
+   */
+  async sendWebhook(event: string, data: any): Promise<boolean> {
+    if (!LOW_STOCK_ALERT_CONFIG.webhookUrl) {
+      return false;
+    }
+
+    const response = await fetch(LOW_STOCK_ALERT_CONFIG.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event, data, sentAt: new Date().toISOString() }),
+    });
+    if (!response.ok) {
+      throw new Error(`Low stock webhook responded with ${response.status}`);
+    }
+    return true;
+  },
+
+  /**
+   * Send the alert to every configured channel, a failing channel does not stop the others
+   */
+  async deliver(
+    template: string,
+    templateData: Record<string, any>,
+    event: string,
+    data: any
+  ): Promise<AlertDeliveryResult> {
+    const channels: AlertDeliveryResult['channels'] = [];
+    const errors: string[] = [];
+
+    try {
+      if (await this.sendEmail(template, templateData)) {
+        channels.push('email');
+      }
+    } catch (error) {
+      strapi.log.error('Error sending low stock email:', error);
+      errors.push(error instanceof Error ? error.message : 'Email delivery failed');
+    }
+
+    try {
+      if (await this.sendWebhook(event, data)) {
+        channels.push('webhook');
+      }
+    } catch (error) {
+      strapi.log.error('Error sending low stock webhook:', error);
+      errors.push(error instanceof Error ? error.message : 'Webhook delivery failed');
+    }
+
+    return {
+      alertSent: channels.length > 0,
+      channels,
+      ...(errors.length > 0 ? { error: errors.join('; ') } : {}),
+    };
+  },
+
+  /**
+   * Deliver the alert of a record that just dropped to its threshold
+   */
+  async sendLowStockAlert(alert: LowStockAlert): Promise<AlertDeliveryResult> {
+    strapi.log.warn(`Low stock alert: ${describeAlert(alert)}`);
+
+    if (LOW_STOCK_ALERT_CONFIG.delivery === 'digest') {
+      return { alertSent: false, channels: [] };
+    }
+
+    return this.deliver(
+      'low-stock-alert',
+      {
+        name: alert.productName || alert.sku || alert.productId || alert.variantId,
+        description: describeAlert(alert),
+      },
+      'inventory.low_stock',
+      alert
+    );
+  },
+
+  /**
+   * Deliver one digest of every record currently alerted as low on stock
+   */
+  async sendDailyDigest(): Promise<AlertDeliveryResult & { itemCount: number }> {
+    const inventories = await strapi.documents('api::inventory.inventory').findMany({
+      filters: { lowStockAlertedAt: { $notNull: true } },
+      populate: { product: true, variant: true },
+      sort: 'quantity:asc',
+    });
+
+    if (inventories.length === 0) {
+      return { alertSent: false, channels: [], itemCount: 0 };
+    }
+
+    const alerts: LowStockAlert[] = inventories.map((inventory: any) => this.toAlert(inventory));
+    const result = await this.deliver(
+      'low-stock-digest',
+      {
+        itemCount: `${alerts.length} item${alerts.length === 1 ? '' : 's'}`,
+        items: alerts.map((alert) => `- ${describeAlert(alert)}`).join('\n'),
+      },
+      'inventory.low_stock_digest',
+      { items: alerts }
+    );
+
+    return { ...result, itemCount: alerts.length };
+  },
+});
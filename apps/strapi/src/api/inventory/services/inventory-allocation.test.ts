@@ -0,0 +1,208 @@
+/**
+ * Inventory Allocation Service tests
+ *
+ * Tests for location ranking (nearest and priority strategies),
+ * split allocations and inventory level updates
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createAllocationService, { getProximityRank } from './inventory-allocation';
+
+const mockDocumentMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+// Mock knex query builder used by the atomic stock counter updates
+const mockStockQuery: any = {
+  where: jest.fn(() => mockStockQuery),
+  andWhere: jest.fn(() => mockStockQuery),
+  transacting: jest.fn(() => mockStockQuery),
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  db: {
+    transaction: jest.fn(async (callback: any) => callback({ trx: null })),
+    metadata: {
+      get: jest.fn(() => ({ tableName: 'inventory_levels', attributes: {} })),
+    },
+    connection: Object.assign(jest.fn(() => mockStockQuery), {
+      raw: jest.fn((sql: string, bindings: any[]) => ({ sql, bindings })),
+    }),
+  },
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const createLevel = (code: string, available: number, location: any = {}) => ({
+  documentId: `level-${code}`,
+  quantity: available,
+  reserved: 0,
+  available,
+  location: {
+    documentId: `location-${code}`,
+    code,
+    country: 'US',
+    priority: 0,
+    isActive: true,
+    fulfillsOnlineOrders: true,
+    ...location,
+  },
+});
+
+const address = { country: 'US', state: 'CA', postalCode: '94105' };
+
+describe('Inventory Allocation Service', () => {
+  let service: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+    mockStockQuery.update.mockReset();
+    mockStockQuery.update.mockResolvedValue(1);
+
+    service = createAllocationService({ strapi: mockStrapi });
+    // Bind methods for proper `this` context
+    Object.keys(service).forEach(key => {
+      service[key] = service[key].bind(service);
+    });
+  });
+
+  describe('getProximityRank', () => {
+    it('should rank locations by postal area, state and country', () => {
+      expect(getProximityRank({ country: 'US', state: 'CA', postalCode: '94107' }, address)).toBe(0);
+      expect(getProximityRank({ country: 'US', state: 'ca', postalCode: '90001' }, address)).toBe(1);
+      expect(getProximityRank({ country: 'US', state: 'NY' }, address)).toBe(2);
+      expect(getProximityRank({ country: 'CA' }, address)).toBe(3);
+    });
+  });
+
+  describe('allocate', () => {
+    it('should allocate from the nearest location with enough stock', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([
+        createLevel('ny', 10, { state: 'NY', priority: 0 }),
+        createLevel('sf', 10, { state: 'CA', postalCode: '94110', priority: 5 }),
+      ]);
+
+      const allocations = await service.allocate('inventory-1', 4, { shippingAddress: address });
+
+      expect(allocations).toEqual([
+        { levelId: 'level-sf', locationId: 'location-sf', locationCode: 'sf', quantity: 4 },
+      ]);
+    });
+
+    it('should follow location priority with the priority strategy', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([
+        createLevel('sf', 10, { state: 'CA', priority: 5 }),
+        createLevel('ny', 10, { state: 'NY', priority: 1 }),
+      ]);
+
+      const [allocation] = await service.allocate('inventory-1', 4, {
+        shippingAddress: address,
+        strategy: 'priority',
+      });
+
+      expect(allocation.locationCode).toBe('ny');
+    });
+
+    it('should prefer locations already used by the order', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([
+        createLevel('sf', 10, { state: 'CA' }),
+        createLevel('ny', 10, { state: 'NY' }),
+      ]);
+
+      const [allocation] = await service.allocate('inventory-1', 4, {
+        shippingAddress: address,
+        preferredLocationIds: ['location-ny'],
+      });
+
+      expect(allocation.locationCode).toBe('ny');
+    });
+
+    it('should split a line across locations when allowed', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([
+        createLevel('sf', 3, { state: 'CA' }),
+        createLevel('ny', 5, { state: 'NY' }),
+      ]);
+
+      const allocations = await service.allocate('inventory-1', 6, { shippingAddress: address, allowSplit: true });
+
+      expect(allocations.map((allocation: any) => [allocation.locationCode, allocation.quantity])).toEqual([
+        ['sf', 3],
+        ['ny', 3],
+      ]);
+    });
+
+    it('should refuse to split when split shipments are not allowed', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([
+        createLevel('sf', 3, { state: 'CA' }),
+        createLevel('ny', 5, { state: 'NY' }),
+      ]);
+
+      await expect(
+        service.allocate('inventory-1', 6, { shippingAddress: address, allowSplit: false })
+      ).rejects.toThrow('Insufficient available inventory for reservation at a single location');
+    });
+
+    it('should skip inactive locations', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([
+        createLevel('sf', 10, { state: 'CA', isActive: false }),
+        createLevel('store', 10, { state: 'CA', fulfillsOnlineOrders: false }),
+      ]);
+
+      await expect(
+        service.allocate('inventory-1', 1, { shippingAddress: address })
+      ).rejects.toThrow('Insufficient available inventory for reservation');
+    });
+  });
+
+  describe('level updates', () => {
+    const allocations = [
+      { levelId: 'level-sf', locationId: 'location-sf', quantity: 4 },
+      { levelId: 'level-ny', locationId: 'location-ny', quantity: 2 },
+    ];
+
+    it('should hold stock at the allocated levels with conditional updates', async () => {
+      await service.reserve(allocations);
+
+      expect(mockStockQuery.where).toHaveBeenCalledWith('documentId', 'level-sf');
+      expect(mockStockQuery.andWhere).toHaveBeenCalledWith('available', '>=', 4);
+      expect(mockStockQuery.update).toHaveBeenCalledWith({
+        reserved: { sql: '?? + ?', bindings: ['reserved', 4] },
+        available: { sql: '?? + ?', bindings: ['available', -4] },
+      });
+    });
+
+    it('should give back held stock when a level ran out concurrently', async () => {
+      mockStockQuery.update
+        .mockResolvedValueOnce(1)
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(1);
+
+      await expect(service.reserve(allocations)).rejects.toThrow('Insufficient available inventory for reservation');
+
+      expect(mockStockQuery.where).toHaveBeenLastCalledWith('documentId', 'level-sf');
+      expect(mockStockQuery.update).toHaveBeenLastCalledWith({
+        reserved: { sql: '?? + ?', bindings: ['reserved', -4] },
+        available: { sql: '?? + ?', bindings: ['available', 4] },
+      });
+    });
+
+    it('should remove fulfilled stock from quantity and reserved', async () => {
+      await service.fulfill([allocations[0]]);
+
+      expect(mockStockQuery.andWhere).toHaveBeenCalledWith('reserved', '>=', 4);
+      expect(mockStockQuery.update).toHaveBeenCalledWith({
+        quantity: { sql: '?? + ?', bindings: ['quantity', -4] },
+        reserved: { sql: '?? + ?', bindings: ['reserved', -4] },
+      });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Inventory Allocation Service
+ *
+ * Decides which stock locations fulfil a reservation and keeps the
+ * per-location inventory levels in sync with reservations, fulfilment and
+ * transfers. Locations are ranked either by proximity to the shipping
+ * address or by their priority; a line is split across locations only when
+ * splitting is allowed. Level counters are changed atomically.
+ */
+
+import { INVENTORY_ALLOCATION_CONFIG } from '../../../../config/constant';
+import {
+  consumeStockCounters,
+  releaseStockCounters,
+  reserveStockCounters,
+} from '../../../utils/stock';
+
+export type AllocationStrategy = 'nearest' | 'priority';
+
+export interface Allocation {
+  levelId: string;
+  locationId: string;
+  locationCode?: string;
+  quantity: number;
+}
+
+export interface AllocationOptions {
+  shippingAddress?: any;
+  strategy?: AllocationStrategy;
+  allowSplit?: boolean;
+  preferredLocationIds?: string[];
+}
+
+const normalize = (value: any): string => String(value || '').trim().toUpperCase();
+
+/**
+ * Proximity of a location to a destination, lower is nearer
+ */
+export const getProximityRank = (location: any, destination: any): number => {
+  if (!destination?.country || normalize(location.country) !== normalize(destination.country)) {
+    return 3;
+  }
+  if (!destination.state || normalize(location.state) !== normalize(destination.state)) {
+    return 2;
+  }
+  const locationPostalCode = normalize(location.postalCode);
+  const destinationPostalCode = normalize(destination.postalCode);
+  if (locationPostalCode && destinationPostalCode &&
+    locationPostalCode.slice(0, 3) === destinationPostalCode.slice(0, 3)) {
+    return 0;
+  }
+  return 1;
+};
+
+export default ({ strapi }: { strapi: any }) => ({
+  /**
+   * Get the levels of an inventory record at active online fulfilment locations
+   */
+  async getLevels(inventoryId: string): Promise<any[]> {
+    const levels = await strapi.documents('api::inventory.inventory-level').findMany({
+      filters: { inventory: { documentId: inventoryId } },
+      populate: { location: true },
+    });
+
+    return levels.filter((level: any) =>
+      level.location?.isActive !== false && level.location?.fulfillsOnlineOrders !== false
+    );
+  },
+
+  /**
+   * Resolve an address document ID to the address
+   */
+  async resolveAddress(address: any): Promise<any> {
+    if (!address || typeof address !== 'string') {
+      return address || null;
+    }
+    return strapi.documents('api::address.address').findOne({ documentId: address });
+  },
+
+  /**
+   * Order levels by preference for allocation
+   */
+  rankLevels(levels: any[], destination: any, options: AllocationOptions = {}): any[] {
+    const strategy = options.strategy || INVENTORY_ALLOCATION_CONFIG.strategy;
+    const preferred = new Set(options.preferredLocationIds || []);
+
+    return [...levels].sort((a, b) => {
+      // Keep an order on locations already picked for it, limiting the number of shipments
+      const preferredDiff = Number(preferred.has(b.location.documentId)) - Number(preferred.has(a.location.documentId));
+      if (preferredDiff !== 0) {
+        return preferredDiff;
+      }
+      if (strategy === 'nearest') {
+        const proximityDiff = getProximityRank(a.location, destination) - getProximityRank(b.location, destination);
+        if (proximityDiff !== 0) {
+          return proximityDiff;
+        }
+      }
+      return (a.location.priority ?? 0) - (b.location.priority ?? 0);
+    });
+  },
+
+  /**
+   * Pick the locations a quantity is reserved from
+   * @throws Error when the locations cannot cover the quantity
+   */
+  async allocate(inventoryId: string, quantity: number, options: AllocationOptions = {}): Promise<Allocation[]> {
+    const levels = await this.getLevels(inventoryId);
+    const destination = await this.resolveAddress(options.shippingAddress);
+    const ranked = this.rankLevels(levels, destination, options);
+    const allowSplit = options.allowSplit ?? INVENTORY_ALLOCATION_CONFIG.allowSplit;
+
+    const toAllocation = (level: any, allocated: number): Allocation => ({
+      levelId: level.documentId,
+      locationId: level.location.documentId,
+      locationCode: level.location.code,
+      quantity: allocated,
+    });
+
+    const single = ranked.find(level => level.available >= quantity);
+    if (single) {
+      return [toAllocation(single, quantity)];
+    }
+
+    if (!allowSplit) {
+      throw new Error('Insufficient available inventory for reservation at a single location');
+    }
+
+    const allocations: Allocation[] = [];
+    let remaining = quantity;
+    for (const level of ranked) {
+      if (remaining <= 0) {
+        break;
+      }
+      const allocated = Math.min(level.available, remaining);
+      if (allocated > 0) {
+        allocations.push(toAllocation(level, allocated));
+        remaining -= allocated;
+      }
+    }
+
+    if (remaining > 0) {
+      throw new Error('Insufficient available inventory for reservation');
+    }
+
+    return allocations;
+  },
+
+  /**
+   * Hold stock at the allocated levels
+   * @throws Error when a level no longer has the allocated quantity available
+   */
+  async reserve(allocations: Allocation[]): Promise<void> {
+    const reserved: Allocation[] = [];
+    for (const allocation of allocations) {
+      const isReserved = await reserveStockCounters(
+        strapi,
+        'api::inventory.inventory-level',
+        allocation.levelId,
+        allocation.quantity
+      );
+      if (!isReserved) {
+        await this.release(reserved);
+        throw new Error('Insufficient available inventory for reservation');
+      }
+      reserved.push(allocation);
+    }
+  },
+
+  /**
+   * Return held stock at the allocated levels
+   */
+  async release(allocations: Allocation[]): Promise<void> {
+    for (const allocation of allocations) {
+      const isReleased = await releaseStockCounters(
+        strapi,
+        'api::inventory.inventory-level',
+        allocation.levelId,
+        allocation.quantity
+      );
+      if (!isReleased) {
+        strapi.log.warn(`Inventory level ${allocation.levelId} has less reserved stock than its allocation`);
+      }
+    }
+  },
+
+  /**
+   * Remove held stock from the allocated levels once shipped
+   */
+  async fulfill(allocations: Allocation[]): Promise<void> {
+    for (const allocation of allocations) {
+      const isFulfilled = await consumeStockCounters(
+        strapi,
+        'api::inventory.inventory-level',
+        allocation.levelId,
+        allocation.quantity
+      );
+      if (!isFulfilled) {
+        strapi.log.warn(`Inventory level ${allocation.levelId} has less reserved stock than its allocation`);
+      }
+    }
+  },
+});
@@ -0,0 +1,123 @@
+/**
+ * Inventory Reorder Service tests
+ *
+ * Tests for sales velocity, days of cover and suggested
+ * reorder quantities
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createReorderService from './inventory-reorder';
+
+const mockHistoryMethods = {
+  findMany: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockInventoryMethods = {
+  findMany: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn((uid: string) =>
+    uid === 'api::inventory-history.inventory-history' ? mockHistoryMethods : mockInventoryMethods
+  ),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const createInventory = (id: string, available: number, lowStockThreshold: number = 10) => ({
+  documentId: `inventory-${id}`,
+  quantity: available,
+  available,
+  lowStockThreshold,
+  product: { documentId: `product-${id}`, name: `Product ${id}` },
+});
+
+const createDecrease = (id: string, quantityChanged: number) => ({
+  action: 'decrease',
+  quantityChanged,
+  product: { documentId: `product-${id}` },
+});
+
+describe('Inventory Reorder Service', () => {
+  let service: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockHistoryMethods.findMany.mockReset();
+    mockInventoryMethods.findMany.mockReset();
+
+    service = createReorderService({ strapi: mockStrapi });
+    // Bind methods for proper `this` context
+    Object.keys(service).forEach(key => {
+      service[key] = service[key].bind(service);
+    });
+  });
+
+  it('should estimate days of cover and the reorder quantity from the decrease velocity', async () => {
+    // 60 units sold over 30 days, 2 per day
+    mockHistoryMethods.findMany.mockResolvedValue([createDecrease('a', -40), createDecrease('a', -20)]);
+    mockInventoryMethods.findMany.mockResolvedValue([createInventory('a', 20)]);
+
+    const [suggestion] = await service.getReorderSuggestions({
+      windowDays: 30,
+      leadTimeDays: 7,
+      safetyStockDays: 7,
+      targetCoverDays: 30,
+    });
+
+    expect(mockHistoryMethods.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      filters: { action: 'decrease', timestamp: { $gte: expect.any(Date) } },
+    }));
+    expect(suggestion).toMatchObject({
+      inventoryId: 'inventory-a',
+      productId: 'product-a',
+      dailyVelocity: 2,
+      daysOfCover: 10,
+      reorderPoint: 28,
+      needsReorder: true,
+      // 2 per day over 44 days, less the 20 available
+      suggestedQuantity: 68,
+    });
+  });
+
+  it('should leave out records with enough cover unless all are requested', async () => {
+    mockHistoryMethods.findMany.mockResolvedValue([createDecrease('a', -30)]);
+    mockInventoryMethods.findMany.mockResolvedValue([createInventory('a', 100)]);
+
+    expect(await service.getReorderSuggestions({ windowDays: 30 })).toEqual([]);
+
+    const [suggestion] = await service.getReorderSuggestions({ windowDays: 30, includeAll: true });
+    expect(suggestion).toMatchObject({ needsReorder: false, suggestedQuantity: 0, daysOfCover: 100 });
+  });
+
+  it('should refill low stock without sales history to twice its threshold', async () => {
+    mockHistoryMethods.findMany.mockResolvedValue([]);
+    mockInventoryMethods.findMany.mockResolvedValue([createInventory('a', 4, 10)]);
+
+    const [suggestion] = await service.getReorderSuggestions();
+
+    expect(suggestion).toMatchObject({ dailyVelocity: 0, daysOfCover: null, needsReorder: true, suggestedQuantity: 16 });
+  });
+
+  it('should keep variants apart and list the most urgent first', async () => {
+    mockHistoryMethods.findMany.mockResolvedValue([
+      { ...createDecrease('a', -30), variant: { documentId: 'variant-red' } },
+      { ...createDecrease('a', -90), variant: { documentId: 'variant-blue' } },
+    ]);
+    mockInventoryMethods.findMany.mockResolvedValue([
+      { ...createInventory('red', 10), variant: { documentId: 'variant-red', sku: 'RED' } },
+      { ...createInventory('blue', 10), variant: { documentId: 'variant-blue', sku: 'BLUE' } },
+    ]);
+
+    const suggestions = await service.getReorderSuggestions({ windowDays: 30 });
+
+    expect(suggestions.map((suggestion: any) => [suggestion.sku, suggestion.daysOfCover])).toEqual([
+      ['BLUE', 3.3],
+      ['RED', 10],
+    ]);
+  });
+});
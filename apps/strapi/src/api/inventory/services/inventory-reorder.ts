@@ -0,0 +1,128 @@
+/**
+ * Inventory Reorder Service
+ *
+ * Suggests what to reorder from the rate stock has been decreasing at in
+ * the inventory history. The daily velocity gives the days of cover left,
+ * a record is due for reorder once its available stock no longer covers
+ * the supplier lead time plus the safety stock.
+ */
+
+import { REORDER_SUGGESTION_CONFIG } from '../../../../config/constant';
+
+export interface ReorderOptions {
+  windowDays?: number;
+  leadTimeDays?: number;
+  safetyStockDays?: number;
+  targetCoverDays?: number;
+  includeAll?: boolean; // include records that are not due for reorder
+}
+
+export interface ReorderSuggestion {
+  inventoryId: string;
+  productId?: string;
+  variantId?: string;
+  productName?: string;
+  sku?: string;
+  quantity: number;
+  available: number;
+  lowStockThreshold: number;
+  dailyVelocity: number;
+  daysOfCover: number | null;
+  reorderPoint: number;
+  needsReorder: boolean;
+  suggestedQuantity: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Key history and inventory records by variant, falling back to the product
+ */
+const stockKey = (record: any): string | undefined => {
+  if (record.variant?.documentId) {
+    return `variant:${record.variant.documentId}`;
+  }
+  return record.product?.documentId ? `product:${record.product.documentId}` : undefined;
+};
+
+export default ({ strapi }: { strapi: any }) => ({
+  /**
+   * Sum the decreases per record over the window
+   */
+  async getDecreasesByRecord(windowDays: number): Promise<Map<string, number>> {
+    const history = await strapi.documents('api::inventory-history.inventory-history').findMany({
+      filters: {
+        action: 'decrease',
+        timestamp: { $gte: new Date(Date.now() - windowDays * DAY_MS) },
+      },
+      populate: { product: true, variant: true },
+    });
+
+    const decreases = new Map<string, number>();
+    for (const record of history) {
+      const key = stockKey(record);
+      if (key) {
+        decreases.set(key, (decreases.get(key) || 0) + Math.abs(record.quantityChanged || 0));
+      }
+    }
+    return decreases;
+  },
+
+  /**
+   * Suggest reorder quantities per product and variant, most urgent first
+   */
+  async getReorderSuggestions(options: ReorderOptions = {}): Promise<ReorderSuggestion[]> {
+    const windowDays = options.windowDays || REORDER_SUGGESTION_CONFIG.velocityWindowDays;
+    const leadTimeDays = options.leadTimeDays ?? REORDER_SUGGESTION_CONFIG.leadTimeDays;
+    const safetyStockDays = options.safetyStockDays ?? REORDER_SUGGESTION_CONFIG.safetyStockDays;
+    const targetCoverDays = options.targetCoverDays ?? REORDER_SUGGESTION_CONFIG.targetCoverDays;
+
+    const decreases = await this.getDecreasesByRecord(windowDays);
+    const inventories = await strapi.documents('api::inventory.inventory').findMany({
+      populate: { product: true, variant: true },
+    });
+
+    const suggestions: ReorderSuggestion[] = inventories.map((inventory: any) => {
+      const available = inventory.available ?? 0;
+      const dailyVelocity = (decreases.get(stockKey(inventory) || '') || 0) / windowDays;
+      const reorderPoint = Math.ceil(dailyVelocity * (leadTimeDays + safetyStockDays));
+      const needsReorder = dailyVelocity > 0
+        ? available <= reorderPoint
+        : available <= inventory.lowStockThreshold;
+
+      // Cover the lead time, the target cover and the safety stock; without any
+      // sales history, refill low stock to twice its threshold
+      const suggestedQuantity = dailyVelocity > 0
+        ? Math.max(0, Math.ceil(dailyVelocity * (leadTimeDays + targetCoverDays + safetyStockDays) - available))
+        : needsReorder ? Math.max(0, inventory.lowStockThreshold * 2 - available) : 0;
+
+      return {
+        inventoryId: inventory.documentId,
+        productId: inventory.product?.documentId,
+        variantId: inventory.variant?.documentId,
+        productName: inventory.product?.name,
+        sku: inventory.variant?.sku || inventory.product?.sku,
+        quantity: inventory.quantity,
+        available,
+        lowStockThreshold: inventory.lowStockThreshold,
+        dailyVelocity: Math.round(dailyVelocity * 100) / 100,
+        daysOfCover: dailyVelocity > 0 ? Math.round((available / dailyVelocity) * 10) / 10 : null,
+        reorderPoint,
+        needsReorder,
+        suggestedQuantity,
+      };
+    });
+
+    return suggestions
+      .filter((suggestion) => options.includeAll || suggestion.needsReorder)
+      .sort((a, b) => {
+        if (a.daysOfCover === b.daysOfCover) {
+          return 0;
+        }
+        if (a.daysOfCover === null || b.daysOfCover === null) {
+          return a.daysOfCover === null ? 1 : -1;
+        }
+        return a.daysOfCover - b.daysOfCover;
+      });
+  },
+});
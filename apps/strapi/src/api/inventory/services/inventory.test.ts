@@ -30,11 +30,44 @@ const mockDbQueryMethods = {
   delete: jest.fn() as jest.MockedFunction<any>,
 };
 
+// Mock knex query builder used by the atomic stock counter updates
+const mockStockQuery: any = {
+  where: jest.fn(() => mockStockQuery),
+  andWhere: jest.fn(() => mockStockQuery),
+  transacting: jest.fn(() => mockStockQuery),
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+const mockConnection: any = Object.assign(jest.fn(() => mockStockQuery), {
+  raw: jest.fn((sql: string, bindings: any[]) => ({ sql, bindings })),
+});
+
+// Mock allocation service, records without inventory levels are not allocated
+const mockAllocationService = {
+  getLevels: jest.fn() as jest.MockedFunction<any>,
+  allocate: jest.fn() as jest.MockedFunction<any>,
+  reserve: jest.fn() as jest.MockedFunction<any>,
+  release: jest.fn() as jest.MockedFunction<any>,
+  fulfill: jest.fn() as jest.MockedFunction<any>,
+};
+
+// Mock alert service delivering low stock alerts
+const mockAlertService = {
+  sendLowStockAlert: jest.fn() as jest.MockedFunction<any>,
+};
+
 // Mock Strapi instance with Document Service API
 const mockStrapi: any = {
   documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn((uid: string) =>
+    uid === 'api::inventory.inventory-alert' ? mockAlertService : mockAllocationService
+  ),
   db: {
     query: jest.fn(() => mockDbQueryMethods),
+    transaction: jest.fn(async (callback: any) => callback({ trx: null })),
+    metadata: {
+      get: jest.fn(() => ({ tableName: 'inventories', attributes: {} })),
+    },
+    connection: mockConnection,
   },
   log: {
     error: jest.fn(),
@@ -72,6 +105,12 @@ describe('Inventory Service', () => {
     // Reset all mock document methods
     Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
     Object.values(mockDbQueryMethods).forEach(mock => mock.mockReset());
+    Object.values(mockAllocationService).forEach(mock => mock.mockReset());
+    mockAllocationService.getLevels.mockResolvedValue([]);
+    mockAlertService.sendLowStockAlert.mockReset();
+    mockAlertService.sendLowStockAlert.mockResolvedValue({ alertSent: true, channels: ['email'] });
+    mockStockQuery.update.mockReset();
+    mockStockQuery.update.mockResolvedValue(1);
 
     // Import the actual service
     const serviceModule = require('./inventory').default;
@@ -362,4 +401,536 @@ describe('Inventory Service', () => {
       );
     });
   });
+
+  describe('variant inventory', () => {
+    const variantInventory = {
+      documentId: 'inventory-variant-1',
+      quantity: 8,
+      reserved: 2,
+      available: 6,
+      lowStockThreshold: 5,
+      isLowStock: false,
+    };
+
+    it('should initialize inventory for a variant', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([]);
+      mockDocumentMethods.create.mockResolvedValue({ documentId: 'inventory-variant-1' });
+
+      await service.initializeInventory(null, 8, 'user-1', 'variant-red-m');
+
+      expect(mockDocumentMethods.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        filters: { variant: { documentId: 'variant-red-m' } },
+      }));
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          variant: { documentId: 'variant-red-m' },
+          quantity: 8,
+          available: 8,
+        }),
+      });
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          product: null,
+          variant: { documentId: 'variant-red-m' },
+          action: 'initialize',
+        }),
+      });
+    });
+
+    it('should reserve stock against the variant record', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(variantInventory);
+      mockDocumentMethods.findOne.mockResolvedValue({ ...variantInventory, reserved: 5, available: 3 });
+      mockDocumentMethods.create.mockResolvedValue({ documentId: 'reservation-1' });
+
+      await service.reserveStock('product-1', 3, { orderId: 'order-1', variantId: 'variant-red-m' });
+
+      expect(mockDocumentMethods.findFirst).toHaveBeenCalledTimes(1);
+      expect(mockDocumentMethods.findFirst).toHaveBeenCalledWith({
+        filters: { variant: { documentId: 'variant-red-m' } },
+      });
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          product: { documentId: 'product-1' },
+          variant: { documentId: 'variant-red-m' },
+          quantity: 3,
+        }),
+      });
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'reserve', reservedBefore: 2, reservedAfter: 5 }),
+      });
+    });
+
+    it('should reserve with a single conditional update', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(variantInventory);
+      mockDocumentMethods.findOne.mockResolvedValue(variantInventory);
+
+      await service.reserveStock('product-1', 3, { orderId: 'order-1', variantId: 'variant-red-m' });
+
+      expect(mockStockQuery.where).toHaveBeenCalledWith('documentId', 'inventory-variant-1');
+      expect(mockStockQuery.andWhere).toHaveBeenCalledWith('available', '>=', 3);
+      expect(mockStockQuery.update).toHaveBeenCalledTimes(1);
+      expect(mockStockQuery.update).toHaveBeenCalledWith({
+        lastUpdated: expect.any(Date),
+        reserved: { sql: '?? + ?', bindings: ['reserved', 3] },
+        available: { sql: '?? + ?', bindings: ['available', -3] },
+      });
+      // Counters are never written from a previously read value
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+
+    it('should not share stock between variants', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(variantInventory);
+      mockStockQuery.update.mockResolvedValue(0);
+
+      await expect(
+        service.reserveStock('product-1', 7, { orderId: 'order-1', variantId: 'variant-blue-l' })
+      ).rejects.toThrow('Insufficient available inventory for reservation');
+    });
+
+    it('should fall back to the product record for untracked variants', async () => {
+      mockDocumentMethods.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ documentId: 'inventory-product-1' });
+
+      const inventory = await service.findInventoryRecord('product-1', 'variant-red-m');
+
+      expect(inventory.documentId).toBe('inventory-product-1');
+      expect(mockDocumentMethods.findFirst).toHaveBeenLastCalledWith({
+        filters: { product: { documentId: 'product-1' } },
+      });
+    });
+
+    it('should break low stock analytics down by variant', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([
+        { ...variantInventory, quantity: 0, available: 0, reserved: 0, isLowStock: false, variant: {
+          documentId: 'variant-red-m',
+          basePrice: 2000,
+          productListing: { documentId: 'listing-1', title: 'T-Shirt' },
+          optionValue: { displayName: 'Red / M' },
+        } },
+        { ...variantInventory, quantity: 3, isLowStock: true, variant: {
+          documentId: 'variant-blue-l',
+          basePrice: 2000,
+          productListing: { documentId: 'listing-1', title: 'T-Shirt' },
+          optionValue: { displayName: 'Blue / L' },
+        } },
+      ]);
+
+      const result = await service.getInventoryAnalytics();
+
+      expect(result).toMatchObject({
+        variantCount: 2,
+        lowStockVariantCount: 1,
+        outOfStockVariantCount: 1,
+        topLowStockProducts: [],
+      });
+      expect(result.topLowStockVariants.map((entry: any) => entry.optionValue)).toEqual(['Red / M', 'Blue / L']);
+      expect(result.topLowStockVariants[1]).toMatchObject({ productListingTitle: 'T-Shirt', shortfall: 2 });
+    });
+  });
+
+  describe('stock locations', () => {
+    const inventory = {
+      documentId: 'inventory-1',
+      product: { documentId: 'product-1' },
+      quantity: 20,
+      reserved: 0,
+      available: 20,
+    };
+
+    it('should allocate reservations to stock locations', async () => {
+      const allocations = [{ levelId: 'level-east', locationId: 'location-east', quantity: 3 }];
+      mockDocumentMethods.findFirst.mockResolvedValue(inventory);
+      mockDocumentMethods.findOne.mockResolvedValue(inventory);
+      mockDocumentMethods.create.mockResolvedValue({ documentId: 'reservation-1' });
+      mockAllocationService.getLevels.mockResolvedValue([{ documentId: 'level-east' }]);
+      mockAllocationService.allocate.mockResolvedValue(allocations);
+
+      await service.reserveStock('product-1', 3, {
+        orderId: 'order-1',
+        shippingAddress: 'address-1',
+        preferredLocationIds: ['location-east'],
+      });
+
+      expect(mockAllocationService.allocate).toHaveBeenCalledWith('inventory-1', 3, expect.objectContaining({
+        shippingAddress: 'address-1',
+        preferredLocationIds: ['location-east'],
+      }));
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          location: { documentId: 'location-east' },
+          metadata: { expirationMinutes: 30, allocations },
+        }),
+      });
+      expect(mockAllocationService.reserve).toHaveBeenCalledWith(allocations);
+    });
+
+    it('should transfer stock between locations and record both legs', async () => {
+      mockDocumentMethods.findOne
+        .mockResolvedValueOnce(inventory)
+        .mockResolvedValueOnce({ documentId: 'level-east', quantity: 7, reserved: 2, available: 5 });
+      mockDocumentMethods.findFirst
+        .mockResolvedValueOnce({ documentId: 'level-east', quantity: 12, reserved: 2, available: 10 })
+        .mockResolvedValueOnce(null);
+      mockDocumentMethods.create.mockImplementation(async ({ data }: any) => data);
+      mockDocumentMethods.findMany.mockResolvedValue([]);
+
+      await service.transferStock('inventory-1', 'location-east', 'location-west', 5, { reason: 'Rebalance' });
+
+      // taken from the source relative to its stored counters, while enough is available
+      expect(mockStockQuery.where).toHaveBeenCalledWith('documentId', 'level-east');
+      expect(mockStockQuery.andWhere).toHaveBeenCalledWith('available', '>=', 5);
+      expect(mockStockQuery.update).toHaveBeenCalledWith({
+        quantity: { sql: '?? + ?', bindings: ['quantity', -5] },
+        available: { sql: '?? + ?', bindings: ['available', -5] },
+      });
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          location: { documentId: 'location-west' },
+          quantity: 5,
+          available: 5,
+        }),
+      });
+      const historyCalls = mockDocumentMethods.create.mock.calls
+        .map(([params]: any) => params.data)
+        .filter((data: any) => data.action === 'transfer');
+      expect(historyCalls.map((data: any) => data.quantityChanged)).toEqual([-5, 5]);
+      expect(historyCalls[0]).toMatchObject({ quantityBefore: 12, quantityAfter: 7 });
+      expect(historyCalls[1]).toMatchObject({ quantityBefore: 0, quantityAfter: 5, reason: 'Rebalance' });
+    });
+
+    it('should reject transfers exceeding the stock available at the source', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(inventory);
+      mockDocumentMethods.findFirst.mockResolvedValue({ documentId: 'level-east', quantity: 4, reserved: 2, available: 2 });
+      // the conditional update does not match, reservations took the stock
+      mockStockQuery.update.mockResolvedValue(0);
+
+      await expect(
+        service.transferStock('inventory-1', 'location-east', 'location-west', 3)
+      ).rejects.toThrow('Insufficient available inventory at source location');
+      expect(mockDocumentMethods.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep reservations made at a location while its quantity changes', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue({ documentId: 'level-east', quantity: 12, reserved: 2, available: 10 });
+      mockDocumentMethods.findOne.mockResolvedValue({ documentId: 'level-east', quantity: 9, reserved: 4, available: 5 });
+
+      const level = await service.updateLocationLevel('inventory-1', 'location-east', -3);
+
+      expect(mockStockQuery.andWhere).toHaveBeenCalledWith('available', '>=', 3);
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+      expect(level).toMatchObject({ reserved: 4, available: 5 });
+    });
+
+    it('should not reduce a location below its reserved quantity', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue({ documentId: 'level-east', quantity: 4, reserved: 2, available: 2 });
+      mockStockQuery.update.mockResolvedValue(0);
+
+      await expect(service.updateLocationLevel('inventory-1', 'location-east', -3)).rejects.toThrow(
+        'Cannot reduce inventory below reserved quantity at location'
+      );
+    });
+  });
+
+  describe('relative stock updates', () => {
+    const inventory = {
+      documentId: 'inventory-1',
+      quantity: 20,
+      reserved: 5,
+      available: 15,
+      lowStockThreshold: 2,
+      lowStockAlertedAt: null,
+    };
+
+    it('should change the counters relative to the stored row', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(inventory);
+      mockDocumentMethods.findOne.mockResolvedValue({ ...inventory, quantity: 16, reserved: 7, available: 9 });
+
+      await service.updateInventory('product-1', -4, { reason: 'Damaged' });
+
+      expect(mockStockQuery.andWhere).toHaveBeenCalledWith('available', '>=', 4);
+      expect(mockStockQuery.update).toHaveBeenCalledWith(expect.objectContaining({
+        quantity: { sql: '?? + ?', bindings: ['quantity', -4] },
+        available: { sql: '?? + ?', bindings: ['available', -4] },
+      }));
+      expect(mockDocumentMethods.update).not.toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ quantity: expect.anything() }),
+      }));
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ quantityBefore: 20, quantityAfter: 16, reservedAfter: 7 }),
+      });
+    });
+
+    it('should refuse a decrease once the stock has been reserved in the meantime', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(inventory);
+      mockStockQuery.update.mockResolvedValueOnce(0);
+
+      await expect(service.updateInventory('product-1', -10, { reason: 'Damaged' }))
+        .rejects.toThrow('Cannot reduce inventory below reserved quantity');
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('low stock alerts', () => {
+    const inventory = {
+      documentId: 'inventory-1',
+      quantity: 20,
+      reserved: 0,
+      available: 20,
+      lowStockThreshold: 10,
+      isLowStock: false,
+      lowStockAlertedAt: null,
+    };
+
+    it('should alert when stock drops to the threshold', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(inventory);
+
+      await service.updateInventory('product-1', -12, { reason: 'Sold' });
+
+      expect(mockAlertService.sendLowStockAlert).toHaveBeenCalledWith({
+        productId: 'product-1',
+        variantId: undefined,
+        quantity: 8,
+        threshold: 10,
+      });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'inventory-1',
+        data: expect.objectContaining({ lowStockAlertedAt: expect.any(Date) }),
+      });
+    });
+
+    it('should not alert again until stock recovers', async () => {
+      const alertedAt = new Date('2026-01-01');
+      mockDocumentMethods.findFirst.mockResolvedValue({ ...inventory, quantity: 8, available: 8, lowStockAlertedAt: alertedAt });
+
+      await service.updateInventory('product-1', -8, { reason: 'Sold' });
+
+      expect(mockAlertService.sendLowStockAlert).not.toHaveBeenCalled();
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'inventory-1',
+        data: expect.objectContaining({ lowStockAlertedAt: alertedAt }),
+      });
+    });
+
+    it('should re-arm the alert once stock recovers above the threshold', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue({ ...inventory, quantity: 2, available: 2, lowStockAlertedAt: new Date('2026-01-01') });
+
+      await service.updateInventory('product-1', 30, { reason: 'Restocked' });
+
+      expect(mockAlertService.sendLowStockAlert).not.toHaveBeenCalled();
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'inventory-1',
+        data: expect.objectContaining({ lowStockAlertedAt: null }),
+      });
+    });
+  });
+
+  describe('reserveOrderStock', () => {
+    const inventory = {
+      documentId: 'inventory-1',
+      quantity: 10,
+      reserved: 0,
+      available: 10,
+    };
+
+    it('should reserve every line of the order', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(inventory);
+      mockDocumentMethods.findOne.mockResolvedValue(inventory);
+      mockDocumentMethods.create.mockImplementation(async ({ data }: any) => ({ documentId: `reservation-${data.quantity}`, ...data }));
+
+      const reservations = await service.reserveOrderStock(
+        [{ productId: 'product-1', quantity: 1 }, { productId: 'product-2', quantity: 2 }],
+        { orderId: 'order-1' }
+      );
+
+      expect(reservations.map((reservation: any) => reservation.documentId)).toEqual(['reservation-1', 'reservation-2']);
+      expect(mockStrapi.db.transaction).toHaveBeenCalled();
+    });
+
+    it('should release earlier lines when a line cannot be reserved', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(inventory);
+      mockDocumentMethods.findOne.mockImplementation(async ({ documentId }: any) =>
+        documentId === 'reservation-1'
+          ? { documentId, status: 'active', quantity: 1, product: { documentId: 'product-1' }, order: { documentId: 'order-1' }, metadata: {} }
+          : inventory
+      );
+      mockDocumentMethods.create.mockImplementation(async ({ data }: any) => ({ documentId: `reservation-${data.quantity}`, ...data }));
+      // First line reserved, second line sold out, release of the first line succeeds
+      mockStockQuery.update
+        .mockResolvedValueOnce(1)
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(1);
+
+      await expect(service.reserveOrderStock(
+        [{ productId: 'product-1', quantity: 1 }, { productId: 'product-2', quantity: 2 }],
+        { orderId: 'order-1' }
+      )).rejects.toThrow('Insufficient available inventory for reservation');
+
+      expect(mockStockQuery.andWhere).toHaveBeenLastCalledWith('reserved', '>=', 1);
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'reservation-1',
+        data: { status: 'cancelled' },
+      });
+    });
+  });
+
+  describe('completeReservation', () => {
+    const inventory = {
+      documentId: 'inventory-1',
+      quantity: 10,
+      reserved: 3,
+      available: 7,
+      lowStockThreshold: 2,
+      lowStockAlertedAt: null,
+    };
+    const reservation = {
+      documentId: 'reservation-1',
+      status: 'active',
+      quantity: 3,
+      product: { documentId: 'product-1' },
+      order: { documentId: 'order-1', orderNumber: 'ORD2601ABCD' },
+      metadata: { expirationMinutes: 30, allocations: [] },
+    };
+
+    it('should take the reserved quantity out of stock and record the sale against the order', async () => {
+      mockDocumentMethods.findOne.mockImplementation(async ({ documentId }: any) =>
+        documentId === 'reservation-1' ? reservation : { ...inventory, quantity: 7, reserved: 0 }
+      );
+      mockDocumentMethods.findFirst.mockResolvedValue(inventory);
+      mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({ documentId, ...data }));
+
+      const completed = await service.completeReservation('reservation-1', 'Order ORD2601ABCD paid', 'user-3');
+
+      // quantity and reserved go down together, available stays the same
+      expect(mockStockQuery.andWhere).toHaveBeenCalledWith('reserved', '>=', 3);
+      expect(mockStockQuery.update).toHaveBeenCalledWith(expect.objectContaining({
+        quantity: { sql: '?? + ?', bindings: ['quantity', -3] },
+        reserved: { sql: '?? + ?', bindings: ['reserved', -3] },
+      }));
+      expect(mockStockQuery.update.mock.calls[0][0]).not.toHaveProperty('available');
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'decrease',
+          quantityBefore: 10,
+          quantityAfter: 7,
+          quantityChanged: -3,
+          reservedBefore: 3,
+          reservedAfter: 0,
+          source: 'order',
+          orderId: 'order-1',
+          reason: 'Order ORD2601ABCD paid',
+          metadata: { reservationId: 'reservation-1', orderNumber: 'ORD2601ABCD', allocations: [] },
+        }),
+      });
+      expect(completed).toMatchObject({
+        status: 'completed',
+        metadata: { expirationMinutes: 30, allocations: [], fulfilled: true },
+      });
+    });
+
+    it('should clamp out of sync counters at zero in the update itself', async () => {
+      mockDocumentMethods.findOne.mockImplementation(async ({ documentId }: any) =>
+        documentId === 'reservation-1' ? reservation : { ...inventory, quantity: 1, reserved: 0, available: 1 }
+      );
+      mockDocumentMethods.findFirst.mockResolvedValue({ ...inventory, quantity: 1, reserved: 1, available: 0 });
+      mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({ documentId, ...data }));
+      mockStockQuery.update.mockResolvedValueOnce(0);
+
+      await service.completeReservation('reservation-1');
+
+      const clamp = 'CASE WHEN ?? + ? < 0 THEN 0 ELSE ?? + ? END';
+      expect(mockStockQuery.update).toHaveBeenLastCalledWith(expect.objectContaining({
+        quantity: { sql: clamp, bindings: ['quantity', -3, 'quantity', -3] },
+        reserved: { sql: clamp, bindings: ['reserved', -3, 'reserved', -3] },
+        available: expect.objectContaining({ sql: expect.stringContaining('CASE WHEN') }),
+      }));
+      expect(mockDocumentMethods.update).not.toHaveBeenCalledWith({
+        documentId: 'inventory-1',
+        data: expect.objectContaining({ quantity: expect.anything() }),
+      });
+    });
+
+    it('should only complete active reservations', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...reservation, status: 'expired' });
+
+      await expect(service.completeReservation('reservation-1')).rejects.toThrow('Reservation is not active');
+      expect(mockStockQuery.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reduceOrderStock', () => {
+    const allocations = [{ locationId: 'loc-1', quantity: 2 }, { locationId: 'loc-2', quantity: 1 }];
+
+    it('should release part of an active reservation from the last locations it was allocated to', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([{
+        documentId: 'reservation-1',
+        status: 'active',
+        quantity: 3,
+        product: { documentId: 'product-1' },
+        order: { documentId: 'order-1' },
+        metadata: { allocations },
+      }]);
+      mockDocumentMethods.findFirst.mockResolvedValue({ documentId: 'inventory-1', quantity: 10, reserved: 3 });
+      mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({ documentId, ...data }));
+
+      await service.reduceOrderStock('order-1', { productId: 'product-1', quantity: 2 }, 'Order ORD2601ABCD edited');
+
+      expect(mockStockQuery.update).toHaveBeenCalledWith(expect.objectContaining({
+        reserved: { sql: '?? + ?', bindings: ['reserved', -2] },
+      }));
+      expect(mockAllocationService.release).toHaveBeenCalledWith([
+        { locationId: 'loc-2', quantity: 1 },
+        { locationId: 'loc-1', quantity: 1 },
+      ]);
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'release', reservedBefore: 3, reservedAfter: 1, orderId: 'order-1' }),
+      });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'reservation-1',
+        data: { quantity: 1, metadata: { allocations: [{ locationId: 'loc-1', quantity: 1 }] } },
+      });
+    });
+
+    it('should return stock already sold to the order to its locations', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([{
+        documentId: 'reservation-1',
+        status: 'completed',
+        quantity: 3,
+        product: { documentId: 'product-1' },
+        order: { documentId: 'order-1' },
+        metadata: { allocations, fulfilled: true },
+      }]);
+      const updateInventory = jest.spyOn(service, 'updateInventory').mockResolvedValue({} as never);
+
+      await service.reduceOrderStock('order-1', { productId: 'product-1', quantity: 3 }, 'Order ORD2601ABCD edited');
+
+      expect(updateInventory).toHaveBeenCalledTimes(2);
+      expect(updateInventory).toHaveBeenCalledWith('product-1', 1, expect.objectContaining({
+        source: 'adjustment',
+        locationId: 'loc-2',
+        orderId: 'order-1',
+      }));
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'reservation-1',
+        data: { status: 'cancelled', reason: 'Order ORD2601ABCD edited' },
+      });
+      updateInventory.mockRestore();
+    });
+  });
+
+  describe('cleanupExpiredReservations', () => {
+    it('should leave the reservations of paid or confirmed orders to be turned into sales', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([]);
+
+      await service.cleanupExpiredReservations();
+
+      expect(mockDocumentMethods.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        filters: expect.objectContaining({
+          status: 'active',
+          order: { status: 'pending', paymentStatus: { $ne: 'paid' } },
+        }),
+      }));
+    });
+  });
 });
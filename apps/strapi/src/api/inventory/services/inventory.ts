@@ -3,10 +3,27 @@
  *
  * Provides business logic for inventory management including stock tracking,
  * reservations, analytics, and history management.
+ *
+ * Stock is tracked per product or per product listing variant. Operations
+ * given a variantId use the variant's inventory record and fall back to the
+ * product's record when the variant is not tracked separately.
+ *
+ * Records with inventory levels hold their stock at several stock locations;
+ * reservations are allocated to locations by the inventory-allocation
+ * service and the record itself keeps the totals across locations.
  */
 
 // Node.js and external library imports
 import { factories } from '@strapi/strapi';
+import { ORDER_CANCELLATION_CONFIG } from '../../../../config/constant';
+import {
+  adjustStockCounters,
+  clampStockCounters,
+  consumeStockCounters,
+  releaseStockCounters,
+  reserveStockCounters,
+} from '../../../utils/stock';
+import type { AllocationStrategy } from './inventory-allocation';
 
 // Local type imports
 interface InventoryUpdateOptions {
@@ -15,6 +32,9 @@ interface InventoryUpdateOptions {
   orderId?: string;
   userId?: string;
   allowNegative?: boolean;
+  variantId?: string;
+  locationId?: string;
+  metadata?: any; // kept on the history record
 }
 
 interface ReservationOptions {
@@ -22,17 +42,30 @@ interface ReservationOptions {
   customerId?: string;
   expirationMinutes?: number;
   sessionId?: string;
+  variantId?: string;
+  shippingAddress?: any;
+  allocationStrategy?: AllocationStrategy;
+  allowSplit?: boolean;
+  preferredLocationIds?: string[];
+}
+
+interface TransferOptions {
+  reason?: string;
+  userId?: string;
 }
 
 interface HistoryRecordData {
-  productId: string;
+  productId?: string;
+  variantId?: string;
+  locationId?: string;
   action:
     | 'increase'
     | 'decrease'
     | 'reserve'
     | 'release'
     | 'adjust'
-    | 'initialize';
+    | 'initialize'
+    | 'transfer';
   quantityBefore: number;
   quantityAfter: number;
   quantityChanged: number;
@@ -45,6 +78,30 @@ interface HistoryRecordData {
   metadata?: any;
 }
 
+/**
+ * Filters selecting the inventory record of a variant or a product
+ */
+const getInventoryFilters = (productId?: string, variantId?: string) =>
+  variantId
+    ? { variant: { documentId: variantId } }
+    : { product: { documentId: productId } };
+
+/**
+ * Split location allocations, the last allocations give up the quantity first
+ */
+const splitAllocations = (allocations: any[], quantity: number) => {
+  const kept = allocations.map((allocation) => ({ ...allocation }));
+  const removed: any[] = [];
+  let remaining = quantity;
+  for (let index = kept.length - 1; index >= 0 && remaining > 0; index--) {
+    const taken = Math.min(remaining, kept[index].quantity);
+    removed.push({ ...kept[index], quantity: taken });
+    kept[index].quantity -= taken;
+    remaining -= taken;
+  }
+  return { kept: kept.filter((allocation) => allocation.quantity > 0), removed };
+};
+
 export default factories.createCoreService(
   'api::inventory.inventory' as any,
   ({ strapi }) => ({
@@ -66,20 +123,59 @@ export default factories.createCoreService(
       }
     },
 
+    /**
+     * Get inventory record for a product listing variant
+     */
+    async getInventoryByVariant(variantId: string): Promise<any> {
+      try {
+        const inventory = await strapi.documents(
+          'api::inventory.inventory'
+        ).findFirst({
+          filters: getInventoryFilters(undefined, variantId),
+        });
+
+        return inventory;
+      } catch (error) {
+        strapi.log.error('Error getting inventory by variant:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Find the inventory record tracking a variant, falling back to the
+     * product record for variants without their own stock counter
+     */
+    async findInventoryRecord(productId?: string, variantId?: string): Promise<any> {
+      if (variantId) {
+        const variantInventory = await strapi.documents('api::inventory.inventory').findFirst({
+          filters: getInventoryFilters(undefined, variantId),
+        });
+        if (variantInventory || !productId) {
+          return variantInventory;
+        }
+      }
+
+      return strapi.documents('api::inventory.inventory').findFirst({
+        filters: getInventoryFilters(productId),
+      });
+    },
+
     /**
      * Initialize inventory record for a product
      */
     async initializeInventory(
-      productId: string,
+      productId: string | null,
       initialQuantity: number = 0,
-      userId?: string
+      userId?: string,
+      variantId?: string
     ): Promise<any> {
       try {
-        strapi.log.info(`Initializing inventory for product ${productId} with quantity ${initialQuantity}`);
+        const target = variantId ? `variant ${variantId}` : `product ${productId}`;
+        strapi.log.info(`Initializing inventory for ${target} with quantity ${initialQuantity}`);
         
         // Check if inventory record already exists using Document Service API
         const existingInventory = await strapi.documents('api::inventory.inventory').findMany({
-          filters: { product: { documentId: productId } },
+          filters: getInventoryFilters(productId, variantId),
           limit: 1,
           start: 0,
         });
@@ -87,13 +183,15 @@ export default factories.createCoreService(
         strapi.log.info(`Existing inventory check result:`, existingInventory);
 
         if (existingInventory?.length > 0) {
-          strapi.log.warn(`Inventory record already exists for product ${productId}`);
-          throw new Error('Inventory record already exists for this product');
+          strapi.log.warn(`Inventory record already exists for ${target}`);
+          throw new Error(`Inventory record already exists for this ${variantId ? 'variant' : 'product'}`);
         }
 
         // Create inventory record using Document Service API
         const inventoryData = {
-          product: { documentId: productId },
+          ...(variantId
+            ? { variant: { documentId: variantId } }
+            : { product: { documentId: productId } }),
           quantity: initialQuantity,
           reserved: 0,
           available: initialQuantity,
@@ -115,6 +213,7 @@ export default factories.createCoreService(
         if (initialQuantity > 0) {
           await this.createHistoryRecord({
             productId,
+            variantId,
             action: 'initialize',
             quantityBefore: 0,
             quantityAfter: initialQuantity,
@@ -136,6 +235,10 @@ export default factories.createCoreService(
 
     /**
      * Update inventory quantity with atomic operations
+     *
+     * The quantity and available counters are changed relative to what the
+     * row holds, reservations committed since the inventory was read keep
+     * their stock.
      */
     async updateInventory(
       productId: string,
@@ -143,43 +246,56 @@ export default factories.createCoreService(
       options: InventoryUpdateOptions
     ): Promise<any> {
       try {
-        strapi.log.info(`updateInventory called with productId: ${productId}, quantityChange: ${quantityChange}, options:`, options);
-        
         // Get current inventory using Document Service API
-        const inventory = await strapi.documents('api::inventory.inventory').findFirst({
-          filters: { product: { documentId: productId } },
-          populate: { product: true },
-        });
+        const inventory = await this.findInventoryRecord(productId, options.variantId);
 
         if (!inventory) {
           throw new Error('Inventory record not found for product');
         }
 
-        strapi.log.info(`Current inventory:`, inventory);
-        const newQuantity = inventory.quantity + quantityChange;
-        strapi.log.info(`Calculated newQuantity: ${newQuantity} (${inventory.quantity} + ${quantityChange})`);
-
         // Validate business rules
-        if (!options.allowNegative && newQuantity < 0) {
+        if (!options.allowNegative && inventory.quantity + quantityChange < 0) {
           throw new Error('Insufficient inventory. Cannot reduce below zero.');
         }
 
-        if (newQuantity < inventory.reserved) {
+        if (inventory.quantity + quantityChange < inventory.reserved) {
+          throw new Error('Cannot reduce inventory below reserved quantity');
+        }
+
+        // Update the counters atomically, decreases only apply while the stock is not reserved
+        const updated = await adjustStockCounters(
+          strapi,
+          'api::inventory.inventory',
+          inventory.documentId,
+          { quantity: quantityChange },
+          quantityChange < 0 ? { minAvailable: -quantityChange } : {},
+          { lastUpdated: new Date(), updatedBy: options.userId }
+        );
+        if (!updated) {
           throw new Error('Cannot reduce inventory below reserved quantity');
         }
 
-        const newAvailable = Math.max(0, newQuantity - inventory.reserved);
+        if (options.locationId) {
+          await this.updateLocationLevel(inventory.documentId, options.locationId, quantityChange);
+        }
+
+        // Read the counters back, other reservations may have run in between
+        const current = await strapi.documents('api::inventory.inventory').findOne({
+          documentId: inventory.documentId,
+        });
+        const newQuantity = current?.quantity ?? inventory.quantity + quantityChange;
+        const reserved = current?.reserved ?? inventory.reserved;
+
         const isLowStock = newQuantity > 0 && newQuantity <= inventory.lowStockThreshold;
+        // Alert once per low stock period, re-armed when stock recovers above the threshold
+        const isBelowThreshold = newQuantity <= inventory.lowStockThreshold;
+        const shouldAlert = isBelowThreshold && !inventory.lowStockAlertedAt;
 
-        // Update inventory atomically using Document Service API
         const updatedInventory = await strapi.documents('api::inventory.inventory').update({
           documentId: inventory.documentId,
           data: {
-            quantity: newQuantity,
-            available: newAvailable,
             isLowStock,
-            lastUpdated: new Date(),
-            updatedBy: options.userId,
+            lowStockAlertedAt: isBelowThreshold ? inventory.lowStockAlertedAt || new Date() : null,
           },
         });
 
@@ -189,24 +305,28 @@ export default factories.createCoreService(
         // Create history record
         await this.createHistoryRecord({
           productId,
+          variantId: options.variantId,
+          locationId: options.locationId,
           action: quantityChange > 0 ? 'increase' : 'decrease',
-          quantityBefore: inventory.quantity,
+          quantityBefore: newQuantity - quantityChange,
           quantityAfter: newQuantity,
           quantityChanged: quantityChange,
-          reservedBefore: inventory.reserved,
-          reservedAfter: inventory.reserved,
+          reservedBefore: reserved,
+          reservedAfter: reserved,
           reason: options.reason,
           source: options.source || 'manual',
           orderId: options.orderId,
           changedBy: options.userId,
+          metadata: options.metadata,
         });
 
         // Check for low stock alerts
-        if (isLowStock && !inventory.isLowStock) {
+        if (shouldAlert) {
           await this.triggerLowStockAlert(
             productId,
             newQuantity,
-            inventory.lowStockThreshold
+            inventory.lowStockThreshold,
+            options.variantId
           );
         }
 
@@ -219,6 +339,9 @@ export default factories.createCoreService(
 
     /**
      * Reserve stock for an order
+     *
+     * The stock counters are changed with a conditional update, so concurrent
+     * reservations can never take more than the available quantity.
      */
     async reserveStock(
       productId: string,
@@ -226,72 +349,287 @@ export default factories.createCoreService(
       options: ReservationOptions
     ): Promise<any> {
       try {
-        // Get current inventory
-        const inventory = await strapi.documents(
-          'api::inventory.inventory'
-        ).findFirst({
-          filters: { product: { documentId: productId } },
-        });
+        return await strapi.db.transaction(async () => {
+          // Get current inventory
+          const inventory = await this.findInventoryRecord(productId, options.variantId);
 
-        if (!inventory) {
-          throw new Error('Inventory record not found for product');
-        }
+          if (!inventory) {
+            throw new Error('Inventory record not found for product');
+          }
+
+          const reserved = await reserveStockCounters(
+            strapi,
+            'api::inventory.inventory',
+            inventory.documentId,
+            quantity,
+            { lastUpdated: new Date() }
+          );
+          if (!reserved) {
+            throw new Error('Insufficient available inventory for reservation');
+          }
+
+          try {
+            // Allocate the quantity to stock locations for multi-location records
+            const allocationService = strapi.service('api::inventory.inventory-allocation');
+            const levels = await allocationService.getLevels(inventory.documentId);
+            const allocations = levels.length > 0
+              ? await allocationService.allocate(inventory.documentId, quantity, {
+                  shippingAddress: options.shippingAddress,
+                  strategy: options.allocationStrategy,
+                  allowSplit: options.allowSplit,
+                  preferredLocationIds: options.preferredLocationIds,
+                })
+              : [];
+
+            if (allocations.length > 0) {
+              await allocationService.reserve(allocations);
+            }
+
+            // Unpaid orders are cancelled at their payment deadline, their stock is held until then
+            const expirationMinutes = options.expirationMinutes || ORDER_CANCELLATION_CONFIG.paymentTimeoutMinutes;
+            const expiresAt = new Date(Date.now() + expirationMinutes * 60 * 1000);
+
+            // Create reservation using Document Service API
+            const reservation = await strapi.documents(
+              'api::stock-reservation.stock-reservation'
+            ).create({
+              data: {
+                product: productId ? { documentId: productId } : null,
+                variant: options.variantId ? { documentId: options.variantId } : null,
+                quantity,
+                order: options.orderId,
+                customer: options.customerId,
+                sessionId: options.sessionId,
+                status: 'active',
+                expiresAt,
+                location: allocations.length === 1 ? { documentId: allocations[0].locationId } : null,
+                metadata: { expirationMinutes, allocations },
+              },
+            });
 
-        if (inventory.available < quantity) {
-          throw new Error('Insufficient available inventory for reservation');
+            // Read the counters back, other reservations may have run in between
+            const updatedInventory = await strapi.documents('api::inventory.inventory').findOne({
+              documentId: inventory.documentId,
+            });
+            const reservedAfter = updatedInventory?.reserved ?? inventory.reserved + quantity;
+
+            // Create history record
+            await this.createHistoryRecord({
+              productId,
+              variantId: options.variantId,
+              action: 'reserve',
+              quantityBefore: updatedInventory?.quantity ?? inventory.quantity,
+              quantityAfter: updatedInventory?.quantity ?? inventory.quantity,
+              quantityChanged: 0,
+              reservedBefore: reservedAfter - quantity,
+              reservedAfter,
+              reason: `Stock reserved for order ${options.orderId}`,
+              source: 'order',
+              orderId: options.orderId,
+              changedBy: options.customerId,
+            });
+
+            return reservation;
+          } catch (error) {
+            // Give the counters back when the reservation could not be completed
+            await releaseStockCounters(strapi, 'api::inventory.inventory', inventory.documentId, quantity);
+            throw error;
+          }
+        });
+      } catch (error) {
+        strapi.log.error('Error reserving stock:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Reserve every line of an order, all or nothing
+     *
+     * Reservations made before a failing line are rolled back with the
+     * surrounding transaction and released explicitly, so no line keeps
+     * stock when the order cannot be fully reserved.
+     */
+    async reserveOrderStock(
+      lines: Array<{ productId?: string; variantId?: string; quantity: number }>,
+      options: Omit<ReservationOptions, 'variantId'>
+    ): Promise<any[]> {
+      const reservations: any[] = [];
+      const allocatedLocationIds = new Set<string>(options.preferredLocationIds || []);
+
+      return strapi.db.transaction(async () => {
+        try {
+          for (const line of lines) {
+            const reservation = await this.reserveStock(line.productId, line.quantity, {
+              ...options,
+              variantId: line.variantId,
+              // Keep the order on locations already picked for it, limiting the number of shipments
+              preferredLocationIds: Array.from(allocatedLocationIds),
+            });
+            reservations.push(reservation);
+            for (const allocation of (reservation?.metadata as any)?.allocations || []) {
+              allocatedLocationIds.add(allocation.locationId);
+            }
+          }
+          return reservations;
+        } catch (error) {
+          for (const reservation of reservations) {
+            try {
+              await this.releaseReservation(reservation.documentId, 'Order reservation rolled back');
+              await strapi.documents('api::stock-reservation.stock-reservation').update({
+                documentId: reservation.documentId,
+                data: { status: 'cancelled' },
+              });
+            } catch (releaseError) {
+              strapi.log.error(`Error rolling back reservation ${reservation.documentId}:`, releaseError);
+            }
+          }
+          throw error;
         }
+      });
+    },
 
-        // Calculate expiration time (default 30 minutes)
-        const expirationMinutes = options.expirationMinutes || 30;
-        const expiresAt = new Date(Date.now() + expirationMinutes * 60 * 1000);
+    /**
+     * Get the stock of an inventory record per location
+     */
+    async getLocationLevels(inventoryId: string): Promise<any[]> {
+      try {
+        return await strapi.documents('api::inventory.inventory-level').findMany({
+          filters: { inventory: { documentId: inventoryId } },
+          populate: { location: true },
+          sort: 'createdAt:asc',
+        });
+      } catch (error) {
+        strapi.log.error('Error getting inventory levels:', error);
+        throw error;
+      }
+    },
 
-        // Create reservation using Document Service API
-        const reservation = await strapi.documents(
-          'api::stock-reservation.stock-reservation'
-        ).create({
+    /**
+     * Change the quantity held at a location, creating the level if needed
+     *
+     * Existing levels are changed with a relative conditional update, so
+     * reservations made at the location in the meantime are kept.
+     * @throws Error when the change would leave less than the reserved quantity
+     */
+    async updateLocationLevel(
+      inventoryId: string,
+      locationId: string,
+      quantityChange: number
+    ): Promise<any> {
+      const filters = {
+        inventory: { documentId: inventoryId },
+        location: { documentId: locationId },
+      };
+      const level = await strapi.documents('api::inventory.inventory-level').findFirst({ filters });
+
+      if (!level) {
+        if (quantityChange < 0) {
+          throw new Error('Cannot reduce inventory below reserved quantity at location');
+        }
+        return strapi.documents('api::inventory.inventory-level').create({
           data: {
-            product: { documentId: productId },
-            quantity,
-            order: options.orderId,
-            customer: options.customerId,
-            sessionId: options.sessionId,
-            status: 'active',
-            expiresAt,
-            metadata: { expirationMinutes },
+            inventory: { documentId: inventoryId },
+            location: { documentId: locationId },
+            quantity: quantityChange,
+            reserved: 0,
+            available: quantityChange,
           },
         });
+      }
 
-        // Update inventory using Document Service API
-        const newReserved = inventory.reserved + quantity;
-        const newAvailable = inventory.quantity - newReserved;
+      const updated = await adjustStockCounters(
+        strapi,
+        'api::inventory.inventory-level',
+        level.documentId,
+        { quantity: quantityChange },
+        quantityChange < 0 ? { minAvailable: -quantityChange } : {}
+      );
+      if (!updated) {
+        throw new Error('Cannot reduce inventory below reserved quantity at location');
+      }
 
-        await strapi.documents('api::inventory.inventory').update({
-          documentId: inventory.documentId,
-          data: {
-            reserved: newReserved,
-            available: newAvailable,
-            lastUpdated: new Date(),
+      return strapi.documents('api::inventory.inventory-level').findOne({ documentId: level.documentId });
+    },
+
+    /**
+     * Move stock between two locations of an inventory record
+     */
+    async transferStock(
+      inventoryId: string,
+      fromLocationId: string,
+      toLocationId: string,
+      quantity: number,
+      options: TransferOptions = {}
+    ): Promise<any> {
+      try {
+        if (fromLocationId === toLocationId) {
+          throw new Error('Source and destination locations must be different');
+        }
+
+        const inventory = await strapi.documents('api::inventory.inventory').findOne({
+          documentId: inventoryId,
+          populate: { product: true, variant: true },
+        });
+
+        if (!inventory) {
+          throw new Error('Inventory record not found');
+        }
+
+        const source = await strapi.documents('api::inventory.inventory-level').findFirst({
+          filters: {
+            inventory: { documentId: inventoryId },
+            location: { documentId: fromLocationId },
           },
         });
 
-        // Create history record
-        await this.createHistoryRecord({
-          productId,
-          action: 'reserve',
-          quantityBefore: inventory.quantity,
-          quantityAfter: inventory.quantity,
-          quantityChanged: 0,
-          reservedBefore: inventory.reserved,
-          reservedAfter: newReserved,
-          reason: `Stock reserved for order ${options.orderId}`,
-          source: 'order',
-          orderId: options.orderId,
-          changedBy: options.customerId,
+        if (!source) {
+          throw new Error('Insufficient available inventory at source location');
+        }
+
+        // Taken from the source only while it still has the quantity available
+        const taken = await adjustStockCounters(
+          strapi,
+          'api::inventory.inventory-level',
+          source.documentId,
+          { quantity: -quantity },
+          { minAvailable: quantity }
+        );
+        if (!taken) {
+          throw new Error('Insufficient available inventory at source location');
+        }
+        const sourceAfter = await strapi.documents('api::inventory.inventory-level').findOne({
+          documentId: source.documentId,
         });
+        const sourceBefore = (sourceAfter?.quantity ?? source.quantity - quantity) + quantity;
+        const destination = await this.updateLocationLevel(inventoryId, toLocationId, quantity);
+
+        const reason = options.reason || 'Stock transfer';
+        const metadata = { fromLocationId, toLocationId };
+        const legs = [
+          { locationId: fromLocationId, change: -quantity, before: sourceBefore },
+          { locationId: toLocationId, change: quantity, before: destination.quantity - quantity },
+        ];
+        for (const leg of legs) {
+          await this.createHistoryRecord({
+            productId: inventory.product?.documentId,
+            variantId: inventory.variant?.documentId,
+            locationId: leg.locationId,
+            action: 'transfer',
+            quantityBefore: leg.before,
+            quantityAfter: leg.before + leg.change,
+            quantityChanged: leg.change,
+            reservedBefore: inventory.reserved,
+            reservedAfter: inventory.reserved,
+            reason,
+            source: 'adjustment',
+            changedBy: options.userId,
+            metadata,
+          });
+        }
 
-        return reservation;
+        return this.getLocationLevels(inventoryId);
       } catch (error) {
-        strapi.log.error('Error reserving stock:', error);
+        strapi.log.error('Error transferring stock:', error);
         throw error;
       }
     },
@@ -305,7 +643,9 @@ export default factories.createCoreService(
           'api::inventory-history.inventory-history'
         ).create({
           data: {
-            product: { documentId: data.productId },
+            product: data.productId ? { documentId: data.productId } : null,
+            variant: data.variantId ? { documentId: data.variantId } : null,
+            location: data.locationId ? { documentId: data.locationId } : null,
             action: data.action,
             quantityBefore: data.quantityBefore,
             quantityAfter: data.quantityAfter,
@@ -339,7 +679,7 @@ export default factories.createCoreService(
           'api::stock-reservation.stock-reservation'
         ).findOne({
           documentId: reservationId,
-          populate: { product: true, order: true },
+          populate: { product: true, variant: true, order: true },
         });
 
         if (!reservation) {
@@ -351,11 +691,10 @@ export default factories.createCoreService(
         }
 
         // Get current inventory
-        const inventory = await strapi.documents(
-          'api::inventory.inventory'
-        ).findFirst({
-          filters: { product: { documentId: reservation.product.documentId } },
-        });
+        const inventory = await this.findInventoryRecord(
+          reservation.product?.documentId,
+          reservation.variant?.documentId
+        );
 
         if (!inventory) {
           throw new Error('Inventory record not found');
@@ -373,25 +712,38 @@ export default factories.createCoreService(
           },
         });
 
-        // Update inventory using Document Service API
+        const allocations = (reservation.metadata as any)?.allocations || [];
+        if (allocations.length > 0) {
+          await strapi.service('api::inventory.inventory-allocation').release(allocations);
+        }
+
+        // Update inventory counters atomically, concurrent reservations keep their stock
+        const released = await releaseStockCounters(
+          strapi,
+          'api::inventory.inventory',
+          inventory.documentId,
+          reservation.quantity,
+          { lastUpdated: new Date() }
+        );
         const newReserved = Math.max(
           0,
           inventory.reserved - reservation.quantity
         );
-        const newAvailable = inventory.quantity - newReserved;
-
-        await strapi.documents('api::inventory.inventory').update({
-          documentId: inventory.documentId,
-          data: {
-            reserved: newReserved,
-            available: newAvailable,
-            lastUpdated: new Date(),
-          },
-        });
+        if (!released) {
+          // Counters are out of sync with the reservations, clamp them at zero
+          await clampStockCounters(
+            strapi,
+            'api::inventory.inventory',
+            inventory.documentId,
+            { reserved: -reservation.quantity },
+            { lastUpdated: new Date() }
+          );
+        }
 
         // Create history record
         await this.createHistoryRecord({
-          productId: reservation.product.documentId,
+          productId: reservation.product?.documentId,
+          variantId: reservation.variant?.documentId,
           action: 'release',
           quantityBefore: inventory.quantity,
           quantityAfter: inventory.quantity,
@@ -412,59 +764,284 @@ export default factories.createCoreService(
     },
 
     /**
-     * Complete a stock reservation (fulfill order)
+     * Complete a stock reservation, its reserved stock becomes a sale
+     *
+     * The quantity and reserved counters go down together, the decrease is
+     * recorded on the inventory history with the order and the reservation.
      */
     async completeReservation(
       reservationId: string,
-      reason: string = 'Order fulfilled'
+      reason: string = 'Order fulfilled',
+      changedBy?: string
     ): Promise<any> {
       try {
-        // Get the reservation using Document Service API
-        const reservation = await strapi.documents(
-          'api::stock-reservation.stock-reservation'
-        ).findOne({
-          documentId: reservationId,
-          populate: { product: true, order: true },
-        });
+        return await strapi.db.transaction(async () => {
+          // Get the reservation using Document Service API
+          const reservation = await strapi.documents(
+            'api::stock-reservation.stock-reservation'
+          ).findOne({
+            documentId: reservationId,
+            populate: { product: true, variant: true, order: true },
+          });
 
-        if (!reservation) {
-          throw new Error('Reservation not found');
-        }
+          if (!reservation) {
+            throw new Error('Reservation not found');
+          }
 
-        if (reservation.status !== 'active') {
-          throw new Error('Reservation is not active');
-        }
+          if (reservation.status !== 'active') {
+            throw new Error('Reservation is not active');
+          }
+
+          const inventory = await this.findInventoryRecord(
+            reservation.product?.documentId,
+            reservation.variant?.documentId
+          );
+
+          if (!inventory) {
+            throw new Error('Inventory record not found');
+          }
+
+          // Update inventory counters atomically, concurrent reservations keep their stock
+          const consumed = await consumeStockCounters(
+            strapi,
+            'api::inventory.inventory',
+            inventory.documentId,
+            reservation.quantity,
+            { lastUpdated: new Date() }
+          );
+          if (!consumed) {
+            // Counters are out of sync with the reservations, clamp them at zero
+            await clampStockCounters(
+              strapi,
+              'api::inventory.inventory',
+              inventory.documentId,
+              { quantity: -reservation.quantity, reserved: -reservation.quantity },
+              { lastUpdated: new Date() }
+            );
+          }
+
+          const allocations = (reservation.metadata as any)?.allocations || [];
+          if (allocations.length > 0) {
+            await strapi.service('api::inventory.inventory-allocation').fulfill(allocations);
+          }
+
+          // Read the counters back, other reservations may have run in between
+          const updatedInventory = await strapi.documents('api::inventory.inventory').findOne({
+            documentId: inventory.documentId,
+          });
+          const quantityAfter = updatedInventory?.quantity ?? Math.max(0, inventory.quantity - reservation.quantity);
+          const reservedAfter = updatedInventory?.reserved ?? Math.max(0, inventory.reserved - reservation.quantity);
 
-        // Update inventory by reducing both quantity and reserved
-        await this.updateInventory(
-          reservation.product.documentId,
-          -reservation.quantity,
-          {
+          await this.createHistoryRecord({
+            productId: reservation.product?.documentId,
+            variantId: reservation.variant?.documentId,
+            locationId: allocations.length === 1 ? allocations[0].locationId : undefined,
+            action: 'decrease',
+            quantityBefore: quantityAfter + reservation.quantity,
+            quantityAfter,
+            quantityChanged: -reservation.quantity,
+            reservedBefore: reservedAfter + reservation.quantity,
+            reservedAfter,
             reason,
             source: 'order',
             orderId: reservation.order.documentId,
+            changedBy,
+            metadata: {
+              reservationId,
+              orderNumber: reservation.order.orderNumber,
+              allocations,
+            },
+          });
+
+          // Alert once per low stock period, like manual decreases
+          const isBelowThreshold = quantityAfter <= inventory.lowStockThreshold;
+          await strapi.documents('api::inventory.inventory').update({
+            documentId: inventory.documentId,
+            data: {
+              isLowStock: quantityAfter > 0 && isBelowThreshold,
+              lowStockAlertedAt: isBelowThreshold ? inventory.lowStockAlertedAt || new Date() : null,
+            },
+          });
+          if (isBelowThreshold && !inventory.lowStockAlertedAt) {
+            await this.triggerLowStockAlert(
+              reservation.product?.documentId,
+              quantityAfter,
+              inventory.lowStockThreshold,
+              reservation.variant?.documentId
+            );
           }
-        );
 
-        // Update reservation status using Document Service API
-        const updatedReservation = await strapi.documents(
-          'api::stock-reservation.stock-reservation'
-        ).update({
-          documentId: reservationId,
-          data: {
-            status: 'completed',
-            completedAt: new Date(),
-            reason,
-          },
+          // Update reservation status using Document Service API, fulfilled tells it apart from a release
+          return strapi.documents(
+            'api::stock-reservation.stock-reservation'
+          ).update({
+            documentId: reservationId,
+            data: {
+              status: 'completed',
+              completedAt: new Date(),
+              reason,
+              metadata: { ...(reservation.metadata as any), fulfilled: true },
+            },
+          });
         });
-
-        return updatedReservation;
       } catch (error) {
         strapi.log.error('Error completing reservation:', error);
         throw error;
       }
     },
 
+    /**
+     * Turn the active reservations of an order into sales
+     *
+     * Called when the order is paid and again when it ships, reservations
+     * completed the first time are skipped the second.
+     * @throws Error on the first reservation that cannot be completed, the others are completed on the next call
+     */
+    async completeOrderReservations(
+      orderId: string,
+      reason: string,
+      changedBy?: string
+    ): Promise<any[]> {
+      const reservations = await strapi.documents(
+        'api::stock-reservation.stock-reservation'
+      ).findMany({
+        filters: {
+          order: { documentId: orderId },
+          status: 'active',
+        } as any,
+      });
+
+      const completed: any[] = [];
+      for (const reservation of reservations) {
+        completed.push(await this.completeReservation(reservation.documentId, reason, changedBy));
+      }
+      return completed;
+    },
+
+    /**
+     * Give back stock an order no longer needs
+     *
+     * Active reservations of the order are reduced first, stock already sold
+     * to it is then returned to the locations it was taken from.
+     */
+    async reduceOrderStock(
+      orderId: string,
+      line: { productId?: string; variantId?: string; quantity: number },
+      reason: string
+    ): Promise<void> {
+      const reservations = await strapi.documents(
+        'api::stock-reservation.stock-reservation'
+      ).findMany({
+        filters: {
+          order: { documentId: orderId },
+          status: { $in: ['active', 'completed'] },
+          ...getInventoryFilters(line.productId, line.variantId),
+        } as any,
+        populate: { product: true, variant: true, order: true },
+        sort: 'createdAt:desc',
+      });
+
+      const matching = reservations.filter((reservation: any) =>
+        reservation.status === 'active' || (reservation.metadata as any)?.fulfilled
+      );
+      const ordered = [
+        ...matching.filter((reservation: any) => reservation.status === 'active'),
+        ...matching.filter((reservation: any) => reservation.status === 'completed'),
+      ];
+
+      let remaining = line.quantity;
+      for (const reservation of ordered) {
+        if (remaining <= 0) {
+          break;
+        }
+        const quantity = Math.min(remaining, reservation.quantity);
+        await this.reduceReservation(reservation, quantity, reason);
+        remaining -= quantity;
+      }
+
+      if (remaining > 0) {
+        strapi.log.warn(`Order ${orderId} holds ${remaining} fewer units of ${line.variantId || line.productId} than it gives back`);
+      }
+    },
+
+    /**
+     * Take quantity off a reservation, releasing it while active or returning it to stock once sold
+     */
+    async reduceReservation(reservation: any, quantity: number, reason: string): Promise<any> {
+      const allocations = (reservation.metadata as any)?.allocations || [];
+      const { kept, removed } = splitAllocations(allocations, quantity);
+      const remaining = reservation.quantity - quantity;
+      const productId = reservation.product?.documentId;
+      const variantId = reservation.variant?.documentId;
+
+      if (reservation.status === 'active' && remaining <= 0) {
+        await this.releaseReservation(reservation.documentId, reason);
+      } else if (reservation.status === 'active') {
+        const inventory = await this.findInventoryRecord(productId, variantId);
+        if (!inventory) {
+          throw new Error('Inventory record not found');
+        }
+        const released = await releaseStockCounters(
+          strapi,
+          'api::inventory.inventory',
+          inventory.documentId,
+          quantity,
+          { lastUpdated: new Date() }
+        );
+        if (!released) {
+          strapi.log.warn(`Inventory ${inventory.documentId} has less reserved stock than reservation ${reservation.documentId}`);
+        }
+        if (removed.length > 0) {
+          await strapi.service('api::inventory.inventory-allocation').release(removed);
+        }
+        await this.createHistoryRecord({
+          productId,
+          variantId,
+          action: 'release',
+          quantityBefore: inventory.quantity,
+          quantityAfter: inventory.quantity,
+          quantityChanged: 0,
+          reservedBefore: inventory.reserved,
+          reservedAfter: Math.max(0, inventory.reserved - quantity),
+          reason,
+          source: 'order',
+          orderId: reservation.order?.documentId,
+          metadata: { reservationId: reservation.documentId, quantity },
+        });
+      } else {
+        // Sold stock goes back where it was taken from
+        const returns = removed.length > 0 ? removed : [{ quantity }];
+        for (const allocation of returns) {
+          await this.updateInventory(productId, allocation.quantity, {
+            reason,
+            source: 'adjustment',
+            orderId: reservation.order?.documentId,
+            variantId,
+            locationId: allocation.locationId,
+            metadata: { reservationId: reservation.documentId },
+          });
+        }
+      }
+
+      return strapi.documents('api::stock-reservation.stock-reservation').update({
+        documentId: reservation.documentId,
+        data: remaining <= 0
+          ? { status: 'cancelled', reason }
+          : { quantity: remaining, metadata: { ...(reservation.metadata as any), allocations: kept } },
+      });
+    },
+
+    /**
+     * Get the inventory history of an order, every reservation, sale and return of its stock
+     */
+    async getOrderStockHistory(orderId: string): Promise<any[]> {
+      return strapi.documents('api::inventory-history.inventory-history').findMany({
+        filters: { orderId },
+        populate: { product: true, variant: true, location: true },
+        sort: 'timestamp:asc',
+      });
+    },
+
     /**
      * Clean up expired reservations
      */
@@ -479,7 +1056,9 @@ export default factories.createCoreService(
           filters: {
             status: 'active',
             expiresAt: { $lt: now },
-          },
+            // Stock of paid or confirmed orders is sold, it is turned into a sale when the order ships
+            order: { status: 'pending', paymentStatus: { $ne: 'paid' } },
+          } as any,
           populate: { product: true, order: true },
         });
 
@@ -545,10 +1124,15 @@ export default factories.createCoreService(
           filters,
           populate: {
             product: true,
+            variant: {
+              populate: { productListing: true, optionValue: true },
+            },
           },
         });
 
         const inventoryRecords = inventoryResponse;
+        const productRecords = inventoryRecords.filter((inv: any) => !inv.variant);
+        const variantRecords = inventoryRecords.filter((inv: any) => inv.variant);
 
         const totalProducts = inventoryRecords.length;
         const lowStockCount = inventoryRecords.filter(
@@ -577,7 +1161,9 @@ export default factories.createCoreService(
 
         // Calculate total inventory value
         const totalValue = inventoryRecords.reduce((sum: number, inv: any) => {
-          const price = inv.product?.price || 0;
+          const price = inv.variant
+            ? inv.variant.discountPrice || inv.variant.basePrice || 0
+            : inv.product?.price || 0;
           return sum + inv.quantity * price;
         }, 0);
 
@@ -586,7 +1172,7 @@ export default factories.createCoreService(
           totalProducts > 0 ? totalQuantity / totalProducts : 0;
 
         // Get top low stock products
-        const topLowStockProducts = inventoryRecords
+        const topLowStockProducts = productRecords
           .filter((inv: any) => inv.isLowStock)
           .sort((a: any, b: any) => a.quantity - b.quantity)
           .slice(0, 10)
@@ -599,6 +1185,21 @@ export default factories.createCoreService(
             shortfall: Math.max(0, inv.lowStockThreshold - inv.quantity),
           }));
 
+        // Low stock broken down by variant
+        const topLowStockVariants = variantRecords
+          .filter((inv: any) => inv.isLowStock || inv.quantity === 0)
+          .sort((a: any, b: any) => a.quantity - b.quantity)
+          .slice(0, 10)
+          .map((inv: any) => ({
+            variantId: inv.variant.documentId,
+            productListingId: inv.variant.productListing?.documentId,
+            productListingTitle: inv.variant.productListing?.title,
+            optionValue: inv.variant.optionValue?.displayName || inv.variant.optionValue?.value,
+            currentQuantity: inv.quantity,
+            threshold: inv.lowStockThreshold,
+            shortfall: Math.max(0, inv.lowStockThreshold - inv.quantity),
+          }));
+
         return {
           totalProducts,
           lowStockCount,
@@ -611,6 +1212,10 @@ export default factories.createCoreService(
           lowStockPercentage: Math.round(lowStockPercentage * 100) / 100,
           outOfStockPercentage: Math.round(outOfStockPercentage * 100) / 100,
           topLowStockProducts,
+          variantCount: variantRecords.length,
+          lowStockVariantCount: variantRecords.filter((inv: any) => inv.isLowStock).length,
+          outOfStockVariantCount: variantRecords.filter((inv: any) => inv.quantity === 0).length,
+          topLowStockVariants,
         };
       } catch (error) {
         strapi.log.error('Error getting inventory analytics:', error);
@@ -619,25 +1224,25 @@ export default factories.createCoreService(
     },
 
     /**
-     * Trigger low stock alert
+     * Trigger low stock alert, delivered by email and webhook
      */
     async triggerLowStockAlert(
       productId: string,
       currentQuantity: number,
-      threshold: number
+      threshold: number,
+      variantId?: string
     ): Promise<{ alertSent: boolean; error?: string }> {
       try {
-        strapi.log.warn(
-          `Low stock alert: Product ${productId} has ${currentQuantity} units (threshold: ${threshold})`
-        );
-
-        // Here you would implement actual notification logic:
-        // - Send email to administrators
-        // - Create system notifications
-        // - Integrate with external alerting systems
-        // - Log to monitoring systems
+        const { alertSent, error } = await strapi
+          .service('api::inventory.inventory-alert')
+          .sendLowStockAlert({
+            productId,
+            variantId,
+            quantity: currentQuantity,
+            threshold,
+          });
 
-        return { alertSent: true };
+        return error ? { alertSent, error } : { alertSent };
       } catch (error) {
         const errorMessage =
           error instanceof Error ? error.message : 'Unknown error occurred';
@@ -0,0 +1,26 @@
+/**
+ * Email channel adapter
+ *
+ * Sends through the Strapi email plugin and the provider it is configured with.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { ChannelAdapter } from './types';
+
+export const createEmailAdapter = (strapi: Core.Strapi): ChannelAdapter => ({
+  name: 'email',
+  channels: ['email'],
+  async send(message) {
+    const emailPlugin = strapi.plugin('email');
+    if (!emailPlugin) {
+      throw new Error('Email plugin is not enabled');
+    }
+
+    await emailPlugin.service('email').send({
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+    return {};
+  },
+});
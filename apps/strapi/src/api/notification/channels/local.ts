@@ -0,0 +1,37 @@
+/**
+ * Local channel adapters
+ *
+ * Stand-ins for the SMS, push and email providers in development and tests.
+ * The console adapter logs every notification, the file adapter appends them
+ * as JSON lines to one file per channel in NOTIFICATION_CONFIG.outboxDir.
+ */
+
+import { randomUUID } from 'crypto';
+import { appendFile, mkdir } from 'fs/promises';
+import * as path from 'path';
+import type { Core } from '@strapi/strapi';
+import { ChannelAdapter } from './types';
+
+export const createConsoleAdapter = (strapi: Core.Strapi): ChannelAdapter => ({
+  name: 'console',
+  channels: ['email', 'sms', 'push', 'webhook'],
+  async send(message) {
+    const messageId = randomUUID();
+    strapi.log.info(`[notification:${message.channel}] ${message.template} to ${message.to}: ${message.subject}\n${message.text}`);
+    return { messageId };
+  },
+});
+
+export const createFileAdapter = (outboxDir: string): ChannelAdapter => ({
+  name: 'file',
+  channels: ['email', 'sms', 'push', 'webhook'],
+  async send(message) {
+    const messageId = randomUUID();
+    await mkdir(outboxDir, { recursive: true });
+    await appendFile(
+      path.join(outboxDir, `${message.channel}.jsonl`),
+      `${JSON.stringify({ messageId, sentAt: new Date().toISOString(), ...message })}\n`
+    );
+    return { messageId };
+  },
+});
@@ -0,0 +1,35 @@
+/**
+ * Notification channel adapter contract
+ *
+ * An adapter delivers rendered notifications on one or more channels: the
+ * email plugin, an SMS or push provider, an outgoing webhook, or the local
+ * console and file adapters used in development and tests. Adapters are
+ * registered with the notification service under their name, each channel
+ * sends through the adapter named in NOTIFICATION_CONFIG.adapters.
+ */
+
+export type NotificationChannel = 'email' | 'sms' | 'push' | 'webhook';
+
+export interface NotificationMessage {
+  channel: NotificationChannel;
+  to: string; // email address, phone number, push user or webhook URL
+  template: string;
+  locale: string;
+  subject: string;
+  text: string; // full body on email and webhook, short body on sms and push
+  data: Record<string, any>; // template data, sent along by the webhook adapter
+}
+
+export interface ChannelDelivery {
+  messageId?: string; // provider reference of the sent message
+}
+
+export interface ChannelAdapter {
+  name: string;
+  channels: NotificationChannel[]; // channels the adapter can deliver on
+  /**
+   * Deliver a rendered notification
+   * @throws Error when the provider does not accept the message
+   */
+  send(message: NotificationMessage): Promise<ChannelDelivery>;
+}
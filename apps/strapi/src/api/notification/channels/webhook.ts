@@ -0,0 +1,46 @@
+/**
+ * Webhook channel adapter
+ *
+ * Posts the notification as JSON to the recipient URL. When a secret is
+ * configured the body is signed with an HMAC-SHA256 in the
+ * `X-Notification-Signature` header, see `signNotificationWebhook`.
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import { NOTIFICATION_CONFIG } from '../../../../config/constant';
+import { ChannelAdapter } from './types';
+
+/**
+ * Sign a webhook body the way receivers verify it
+ */
+export const signNotificationWebhook = (body: string, secret: string): string =>
+  createHmac('sha256', secret).update(body).digest('hex');
+
+const webhookAdapter: ChannelAdapter = {
+  name: 'webhook',
+  channels: ['webhook'],
+  async send(message) {
+    const messageId = randomUUID();
+    const body = JSON.stringify({
+      id: messageId,
+      template: message.template,
+      locale: message.locale,
+      subject: message.subject,
+      text: message.text,
+      data: message.data,
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (NOTIFICATION_CONFIG.webhookSecret) {
+      headers['X-Notification-Signature'] = signNotificationWebhook(body, NOTIFICATION_CONFIG.webhookSecret);
+    }
+
+    const response = await fetch(message.to, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error(`Notification webhook responded with ${response.status}`);
+    }
+    return { messageId };
+  },
+};
+
+export default webhookAdapter;
@@ -0,0 +1,7 @@
+/**
+ * notification-delivery controller
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreController('api::notification.notification-delivery');
@@ -0,0 +1,19 @@
+/**
+ * notification-delivery router
+ *
+ * The delivery log is written by the notification service and read by admins only.
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::notification.notification-delivery', {
+  only: ['find', 'findOne'],
+  config: {
+    find: {
+      policies: ['global::is-admin'],
+    },
+    findOne: {
+      policies: ['global::is-admin'],
+    },
+  },
+});
@@ -0,0 +1,7 @@
+/**
+ * notification-delivery service
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreService('api::notification.notification-delivery');
@@ -0,0 +1,288 @@
+/**
+ * Notification Service tests
+ *
+ * Tests template rendering in the user language, user preferences and
+ * notification frequency digests, and the delivery log written for every
+ * channel the notification is attempted on
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createNotificationService from './notification';
+import { NOTIFICATION_CONFIG } from '../../../../config/constant';
+import { ChannelAdapter } from '../channels/types';
+
+const mockPreferenceMethods = {
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockDeliveryMethods = {
+  create: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockOrderMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockDocuments: Record<string, any> = {
+  'api::user-preference.user-preference': mockPreferenceMethods,
+  'api::notification.notification-delivery': mockDeliveryMethods,
+  'api::order.order': mockOrderMethods,
+};
+
+const mockServices: Record<string, any> = {
+  'api::order.order-state-machine': {
+    getCustomerEmail: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn((uid: string) => mockDocuments[uid]),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  plugin: jest.fn(),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const createAdapter = (name: string, channels: ChannelAdapter['channels']) => ({
+  name,
+  channels,
+  send: jest.fn(async () => ({ messageId: `${name}-message` })) as jest.MockedFunction<any>,
+});
+
+const user = { id: 7, documentId: 'user-7', email: 'customer@example.com', phone: '+15550100', username: 'customer' };
+
+const preference = {
+  orderUpdates: true,
+  orderStatusNotifications: true,
+  securityNotifications: true,
+  emailNotifications: true,
+  smsNotifications: true,
+  smsNotificationEnabled: true,
+  notificationFrequency: 'immediate',
+  language: 'en',
+};
+
+describe('Notification Service', () => {
+  let service: ReturnType<typeof createNotificationService>;
+  let emailAdapter: ReturnType<typeof createAdapter>;
+  let consoleAdapter: ReturnType<typeof createAdapter>;
+  const originalAdapters = { ...NOTIFICATION_CONFIG.adapters };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(NOTIFICATION_CONFIG.adapters, { sms: 'console', push: 'console' });
+    mockPreferenceMethods.findFirst.mockReset();
+    mockPreferenceMethods.findFirst.mockResolvedValue(preference);
+    mockDeliveryMethods.create.mockImplementation(async ({ data }: any) => ({ documentId: 'delivery-1', ...data }));
+
+    service = createNotificationService({ strapi: mockStrapi });
+    emailAdapter = createAdapter('email', ['email']);
+    consoleAdapter = createAdapter('console', ['email', 'sms', 'push', 'webhook']);
+    service.registerAdapter(emailAdapter);
+    service.registerAdapter(consoleAdapter);
+  });
+
+  afterEach(() => {
+    Object.assign(NOTIFICATION_CONFIG.adapters, originalAdapters);
+  });
+
+  describe('render', () => {
+    it('should fill in the template data and format amounts in minor units', () => {
+      const rendered = service.render('order-confirmed', 'en', { orderNumber: 'ORD1', total: 1250, currency: 'USD' });
+
+      expect(rendered).toEqual({
+        locale: 'en',
+        subject: 'Order ORD1 confirmed',
+        text: 'Your order ORD1 has been confirmed.\nTotal: $12.50',
+        short: 'Order ORD1 confirmed, total $12.50',
+      });
+    });
+
+    it('should fall back to the base language and then to the default locale', () => {
+      expect(service.render('order-delivered', 'es-MX', { orderNumber: 'ORD1' }).subject)
+        .toBe('El pedido ORD1 ha sido entregado');
+      expect(service.render('order-delivered', 'fr', { orderNumber: 'ORD1' }).locale).toBe('en');
+      expect(service.render('payment-auto-confirmed', 'es', { paymentId: 'pay-1' }).locale).toBe('en');
+    });
+
+    it('should reject unknown templates', () => {
+      expect(() => service.render('unknown', 'en')).toThrow('Notification template unknown not found');
+    });
+  });
+
+  describe('notify', () => {
+    it('should send on every reachable channel and log each delivery', async () => {
+      const result = await service.notify({
+        template: 'order-shipped',
+        user,
+        reference: 'ORD1',
+        data: { orderNumber: 'ORD1', trackingNumber: 'TRK1' },
+      });
+
+      expect(result.delivered).toEqual(['email', 'sms', 'push']);
+      expect(emailAdapter.send).toHaveBeenCalledWith(expect.objectContaining({
+        channel: 'email',
+        to: 'customer@example.com',
+        subject: 'Order ORD1 has shipped',
+      }));
+      expect(consoleAdapter.send).toHaveBeenCalledWith(expect.objectContaining({
+        channel: 'sms',
+        to: '+15550100',
+        text: 'Order ORD1 has shipped, tracking number TRK1',
+      }));
+      expect(mockDeliveryMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          template: 'order-shipped',
+          channel: 'email',
+          adapter: 'email',
+          recipient: 'customer@example.com',
+          user: 7,
+          status: 'sent',
+          messageId: 'email-message',
+          reference: 'ORD1',
+        }),
+      });
+      expect(mockDeliveryMethods.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should skip the channels the user preferences turn off', async () => {
+      mockPreferenceMethods.findFirst.mockResolvedValue({ ...preference, smsNotificationEnabled: false });
+
+      const result = await service.notify({ template: 'order-delivered', user, data: { orderNumber: 'ORD1' } });
+
+      expect(result.deliveries).toContainEqual({ channel: 'sms', status: 'skipped', reason: 'sms notifications are not enabled' });
+      expect(mockDeliveryMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ channel: 'sms', status: 'skipped', error: 'sms notifications are not enabled' }),
+      });
+
+      mockPreferenceMethods.findFirst.mockResolvedValue({ ...preference, orderUpdates: false });
+      const disabled = await service.notify({ template: 'order-delivered', user, data: { orderNumber: 'ORD1' } });
+
+      expect(disabled.delivered).toEqual([]);
+      expect(disabled.deliveries.every((delivery) => delivery.reason === 'orderUpdates is disabled')).toBe(true);
+    });
+
+    it('should skip the channels without a provider', async () => {
+      Object.assign(NOTIFICATION_CONFIG.adapters, { sms: '', push: '' });
+
+      const result = await service.notify({ template: 'order-delivered', user, data: { orderNumber: 'ORD1' } });
+
+      expect(result.delivered).toEqual(['email']);
+      expect(result.deliveries).toContainEqual({ channel: 'sms', status: 'skipped', reason: 'no sms provider is configured' });
+      expect(consoleAdapter.send).not.toHaveBeenCalled();
+    });
+
+    it('should not deliver through the local adapters in production', async () => {
+      const nodeEnv = process.env.NODE_ENV;
+      process.env.NODE_ENV = 'production';
+      try {
+        const result = await service.notify({ template: 'password-changed', user, data: { username: 'customer' } });
+
+        expect(result.delivered).toEqual(['email']);
+        expect(result.deliveries).toContainEqual({ channel: 'sms', status: 'skipped', reason: 'no sms provider is configured' });
+      } finally {
+        process.env.NODE_ENV = nodeEnv;
+      }
+    });
+
+    it('should notify guests by email only', async () => {
+      const result = await service.notify({ template: 'order-shipped', email: 'guest@example.com', data: { orderNumber: 'ORD1' } });
+
+      expect(mockPreferenceMethods.findFirst).not.toHaveBeenCalled();
+      expect(result.delivered).toEqual(['email']);
+      expect(result.deliveries).toHaveLength(1);
+    });
+
+    it('should hold back notifications for the digest of the user notification frequency', async () => {
+      mockPreferenceMethods.findFirst.mockResolvedValue({ ...preference, notificationFrequency: 'daily' });
+
+      const result = await service.notify({ template: 'order-processing', user, data: { orderNumber: 'ORD1' } });
+
+      expect(result.deliveries).toEqual([{ channel: 'email', status: 'queued' }]);
+      expect(emailAdapter.send).not.toHaveBeenCalled();
+      expect(mockDeliveryMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'queued', digest: 'daily', subject: 'Order ORD1 is being prepared' }),
+      });
+    });
+
+    it('should send critical notifications right away whatever the notification frequency', async () => {
+      mockPreferenceMethods.findFirst.mockResolvedValue({ ...preference, notificationFrequency: 'disabled' });
+
+      const result = await service.notify({ template: 'password-changed', user, data: { username: 'customer' } });
+
+      expect(result.delivered).toEqual(['email', 'sms']);
+    });
+
+    it('should report and log adapter failures without throwing', async () => {
+      emailAdapter.send.mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+      const result = await service.notify({ template: 'order-confirmed', email: 'guest@example.com', data: { orderNumber: 'ORD1' } });
+
+      expect(result).toEqual({
+        deliveries: [{ channel: 'email', status: 'failed', error: 'SMTP unavailable' }],
+        delivered: [],
+      });
+      expect(mockDeliveryMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'failed', adapter: 'email', error: 'SMTP unavailable' }),
+      });
+    });
+  });
+
+  describe('notifyOrderCustomer', () => {
+    it('should notify guests at the email they left during checkout', async () => {
+      mockOrderMethods.findOne.mockResolvedValue({ documentId: 'order-1', orderNumber: 'ORD1', total: 4200, currency: 'EUR', sessionId: 'session-1' });
+      mockServices['api::order.order-state-machine'].getCustomerEmail.mockResolvedValue('guest@example.com');
+
+      const result = await service.notifyOrderCustomer('payment-received', 'order-1', { amount: 4200 });
+
+      expect(result.delivered).toEqual(['email']);
+      expect(emailAdapter.send).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'guest@example.com',
+        text: 'We received your payment of €42.00 for order ORD1.',
+      }));
+    });
+  });
+
+  describe('sendDigests', () => {
+    it('should send one digest per recipient and mark its notifications digested', async () => {
+      mockDeliveryMethods.findMany.mockResolvedValue([
+        { documentId: 'delivery-1', recipient: 'customer@example.com', user, language: 'en', subject: 'Order ORD1 is being prepared' },
+        { documentId: 'delivery-2', recipient: 'customer@example.com', user, language: 'en', subject: 'Order ORD1 has shipped' },
+      ]);
+
+      const result = await service.sendDigests('weekly');
+
+      expect(mockDeliveryMethods.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        filters: { status: 'queued', digest: 'weekly' },
+      }));
+      expect(emailAdapter.send).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'customer@example.com',
+        subject: 'Your 2 latest updates',
+        text: 'Here is what happened since our last message:\n- Order ORD1 is being prepared\n- Order ORD1 has shipped',
+      }));
+      expect(mockDeliveryMethods.update).toHaveBeenCalledWith({
+        documentId: 'delivery-2',
+        data: expect.objectContaining({ status: 'digested' }),
+      });
+      expect(result).toEqual({ digestCount: 1, itemCount: 2, failedCount: 0 });
+    });
+
+    it('should keep the notifications queued when the digest fails', async () => {
+      mockDeliveryMethods.findMany.mockResolvedValue([
+        { documentId: 'delivery-1', recipient: 'customer@example.com', user, language: 'en', subject: 'Order ORD1 is being prepared' },
+      ]);
+      emailAdapter.send.mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+      const result = await service.sendDigests('daily');
+
+      expect(mockDeliveryMethods.update).not.toHaveBeenCalled();
+      expect(result).toEqual({ digestCount: 0, itemCount: 0, failedCount: 1 });
+    });
+  });
+});
@@ -0,0 +1,462 @@
+/**
+ * Notification service
+ *
+ * Sends the named notification templates to customers on email, SMS, push
+ * and the store webhook, each channel through the adapter configured in
+ * NOTIFICATION_CONFIG.adapters. Users only receive what their preferences
+ * allow, and notifications that are not critical are held back for the
+ * daily or weekly digest of users who chose that notification frequency.
+ * Every delivery is logged in the notification delivery log.
+ */
+
+import { Core } from '@strapi/strapi';
+import { NOTIFICATION_CONFIG } from '../../../../config/constant';
+import { createEmailAdapter } from '../channels/email';
+import { createConsoleAdapter, createFileAdapter } from '../channels/local';
+import { ChannelAdapter, NotificationChannel } from '../channels/types';
+import webhookAdapter from '../channels/webhook';
+import { NOTIFICATION_TEMPLATES, NotificationTemplate } from '../templates';
+
+export type DeliveryStatus = 'queued' | 'sent' | 'digested' | 'failed' | 'skipped';
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface NotifyInput {
+  template: string;
+  user?: any; // users-permissions user, guests are notified by email or phone only
+  email?: string; // overrides the user email
+  phone?: string; // overrides the user phone
+  locale?: string; // overrides the user language
+  data?: Record<string, any>;
+  reference?: string; // what the notification is about, e.g. an order number
+  channels?: NotificationChannel[]; // overrides the template channels
+}
+
+export interface ChannelResult {
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  reason?: string; // why the channel was skipped
+  error?: string; // why the adapter failed
+}
+
+export interface NotifyResult {
+  deliveries: ChannelResult[];
+  delivered: NotificationChannel[]; // channels the notification was sent on
+}
+
+export interface RenderedNotification {
+  locale: string;
+  subject: string;
+  text: string;
+  short: string;
+}
+
+// Development and test adapters, they report notifications as sent that never reach anyone
+const LOCAL_ADAPTERS = ['console', 'file'];
+
+const PLACEHOLDER = /\{\{\s*(\w+)(?:\|(\w+))?\s*\}\}/g;
+
+/**
+ * Format one placeholder value in the locale of the notification
+ */
+const formatValue = (value: any, format: string | undefined, locale: string, data: Record<string, any>): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  try {
+    if (format === 'currency') {
+      // amounts are stored in minor units, cents for USD
+      const formatter = new Intl.NumberFormat(locale, { style: 'currency', currency: data.currency || 'USD' });
+      const minorUnits = formatter.resolvedOptions().maximumFractionDigits ?? 2;
+      return formatter.format(Number(value) / Math.pow(10, minorUnits));
+    }
+    if (format === 'date') {
+      return new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(new Date(value));
+    }
+  } catch {
+    // Unknown currency codes and invalid dates are sent as they are
+  }
+  return String(value);
+};
+
+const interpolate = (text: string, locale: string, data: Record<string, any>): string =>
+  text.replace(PLACEHOLDER, (_match, key: string, format?: string) => formatValue(data[key], format, locale, data));
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  const adapters = new Map<string, ChannelAdapter>();
+  for (const adapter of [
+    createEmailAdapter(strapi),
+    webhookAdapter,
+    createConsoleAdapter(strapi),
+    createFileAdapter(NOTIFICATION_CONFIG.outboxDir),
+  ]) {
+    adapters.set(adapter.name, adapter);
+  }
+
+  return {
+    /**
+     * Register a channel adapter, replaces any adapter registered under the same name
+     */
+    registerAdapter(adapter: ChannelAdapter) {
+      adapters.set(adapter.name, adapter);
+    },
+
+    /**
+     * Get a registered adapter by name
+     * @throws Error when no adapter is registered under the name
+     */
+    getAdapter(name: string): ChannelAdapter {
+      const adapter = adapters.get(name);
+      if (!adapter) {
+        throw new Error(`Notification adapter ${name} not found`);
+      }
+      return adapter;
+    },
+
+    /**
+     * Get the name of the adapter a channel sends through, null when the channel is off
+     *
+     * A channel is off without a configured adapter, and in production when
+     * it is configured with one of the local adapters.
+     */
+    getChannelAdapterName(channel: NotificationChannel): string | null {
+      const name = NOTIFICATION_CONFIG.adapters[channel];
+      if (!name || (process.env.NODE_ENV === 'production' && LOCAL_ADAPTERS.includes(name))) {
+        return null;
+      }
+      return name;
+    },
+
+    /**
+     * Get the adapter a channel sends through
+     * @throws Error when the channel is off, or the configured adapter does not exist or cannot deliver on the channel
+     */
+    getChannelAdapter(channel: NotificationChannel): ChannelAdapter {
+      const name = this.getChannelAdapterName(channel);
+      if (!name) {
+        throw new Error(`No ${channel} provider is configured`);
+      }
+      const adapter = this.getAdapter(name);
+      if (!adapter.channels.includes(channel)) {
+        throw new Error(`Notification adapter ${adapter.name} cannot deliver on ${channel}`);
+      }
+      return adapter;
+    },
+
+    /**
+     * Get a notification template by name
+     * @throws Error when the template does not exist
+     */
+    getTemplate(name: string): NotificationTemplate {
+      const template = NOTIFICATION_TEMPLATES[name];
+      if (!template) {
+        throw new Error(`Notification template ${name} not found`);
+      }
+      return template;
+    },
+
+    /**
+     * Pick the template locale for a language, `es-MX` falls back to `es`
+     * and then to the default locale
+     */
+    resolveLocale(template: NotificationTemplate, language?: string | null): string {
+      if (language) {
+        if (template.locales[language]) {
+          return language;
+        }
+        const base = language.split(/[-_]/)[0].toLowerCase();
+        if (template.locales[base]) {
+          return base;
+        }
+      }
+      return NOTIFICATION_CONFIG.defaultLocale;
+    },
+
+    /**
+     * Render a template in a language with its data
+     * @throws Error when the template does not exist
+     */
+    render(name: string, language: string | null | undefined, data: Record<string, any> = {}): RenderedNotification {
+      const template = this.getTemplate(name);
+      const locale = this.resolveLocale(template, language);
+      const content = template.locales[locale] || template.locales[NOTIFICATION_CONFIG.defaultLocale];
+      return {
+        locale,
+        subject: interpolate(content.subject, locale, data),
+        text: interpolate(content.text, locale, data),
+        short: interpolate(content.short, locale, data),
+      };
+    },
+
+    /**
+     * Check whether a user preference allows a template on a channel
+     *
+     * The webhook is the store's own integration and ignores user preferences.
+     * Without a preference record the schema defaults apply: email only.
+     * @returns the reason the channel is not allowed, or null
+     */
+    getBlockReason(template: NotificationTemplate, channel: NotificationChannel, preference: any): string | null {
+      if (channel === 'webhook') {
+        return null;
+      }
+      if (!preference) {
+        return channel === 'email' ? null : `${channel} notifications are not enabled`;
+      }
+      const disabledFlag = template.preferences.find((flag) => preference[flag] === false);
+      if (disabledFlag) {
+        return `${disabledFlag} is disabled`;
+      }
+      if (channel === 'email' && preference.emailNotifications === false) {
+        return 'emailNotifications is disabled';
+      }
+      if (channel === 'sms' && (!preference.smsNotificationEnabled || !preference.smsNotifications)) {
+        return 'sms notifications are not enabled';
+      }
+      return null;
+    },
+
+    /**
+     * Get the recipient of a channel, null when there is none
+     */
+    getRecipient(channel: NotificationChannel, input: NotifyInput): string | null {
+      switch (channel) {
+        case 'email':
+          return input.email || input.user?.email || null;
+        case 'sms':
+          return input.phone || input.user?.phone || null;
+        case 'push':
+          return input.user?.documentId || (input.user?.id ? String(input.user.id) : null);
+        case 'webhook':
+          return NOTIFICATION_CONFIG.webhookUrl || null;
+        default:
+          return null;
+      }
+    },
+
+    /**
+     * Get the notification preferences of a user, null for guests and users without preferences
+     */
+    async getPreference(user: any): Promise<any> {
+      if (!user?.id) {
+        return null;
+      }
+      return strapi.documents('api::user-preference.user-preference').findFirst({
+        filters: { user: { id: user.id } },
+      });
+    },
+
+    /**
+     * Log one delivery attempt, failures to log never fail the notification
+     */
+    async logDelivery(entry: Record<string, any>) {
+      try {
+        await strapi.documents('api::notification.notification-delivery').create({
+          data: entry as any,
+        });
+      } catch (error) {
+        strapi.log.error(`Error logging ${entry.template} notification delivery:`, error);
+      }
+    },
+
+    /**
+     * Send a notification template on each of its channels the recipient can be reached on
+     *
+     * Channels without a recipient are left out, channels without a provider
+     * are logged as skipped. Adapter failures are logged and reported per
+     * channel, they are not thrown.
+     * @throws Error when the template does not exist
+     */
+    async notify(input: NotifyInput): Promise<NotifyResult> {
+      const template = this.getTemplate(input.template);
+      const preference = await this.getPreference(input.user);
+      const language = input.locale || preference?.language || input.user?.language;
+      const rendered = this.render(input.template, language, input.data);
+      const frequency: string = preference?.notificationFrequency || 'immediate';
+
+      const result: NotifyResult = { deliveries: [], delivered: [] };
+
+      for (const channel of input.channels || template.channels) {
+        const recipient = this.getRecipient(channel, input);
+        if (!recipient) {
+          continue;
+        }
+
+        const text = channel === 'sms' || channel === 'push' ? rendered.short : rendered.text;
+        const entry: Record<string, any> = {
+          template: input.template,
+          channel,
+          recipient,
+          user: input.user?.id,
+          language: rendered.locale,
+          subject: rendered.subject,
+          body: text,
+          reference: input.reference,
+        };
+
+        let reason = this.getChannelAdapterName(channel)
+          ? this.getBlockReason(template, channel, preference)
+          : `no ${channel} provider is configured`;
+        if (!reason && channel !== 'webhook' && !template.critical && frequency !== 'immediate') {
+          if (frequency === 'disabled') {
+            reason = 'notifications are disabled';
+          } else if (channel === 'email') {
+            await this.logDelivery({ ...entry, status: 'queued', digest: frequency });
+            result.deliveries.push({ channel, status: 'queued' });
+            continue;
+          } else {
+            reason = `${frequency} digest is sent by email only`;
+          }
+        }
+
+        if (reason) {
+          await this.logDelivery({ ...entry, status: 'skipped', error: reason });
+          result.deliveries.push({ channel, status: 'skipped', reason });
+          continue;
+        }
+
+        let adapterName: string | undefined;
+        try {
+          const adapter = this.getChannelAdapter(channel);
+          adapterName = adapter.name;
+          const delivery = await adapter.send({
+            channel,
+            to: recipient,
+            template: input.template,
+            locale: rendered.locale,
+            subject: rendered.subject,
+            text,
+            data: input.data || {},
+          });
+          await this.logDelivery({
+            ...entry,
+            adapter: adapterName,
+            status: 'sent',
+            messageId: delivery.messageId,
+            sentAt: new Date(),
+          });
+          result.deliveries.push({ channel, status: 'sent' });
+          result.delivered.push(channel);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          strapi.log.error(`Error sending ${input.template} notification on ${channel}:`, error);
+          await this.logDelivery({ ...entry, adapter: adapterName, status: 'failed', error: message });
+          result.deliveries.push({ channel, status: 'failed', error: message });
+        }
+      }
+
+      return result;
+    },
+
+    /**
+     * Send a notification template to the customer of an order, registered or guest
+     * @throws Error when the order does not exist
+     */
+    async notifyOrderCustomer(
+      templateName: string,
+      orderId: string,
+      data: Record<string, any> = {},
+      channels?: NotificationChannel[]
+    ): Promise<NotifyResult> {
+      const order = await strapi.documents('api::order.order').findOne({
+        documentId: orderId,
+        populate: ['user', 'shippingAddress'],
+      });
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      const user = (order as any).user;
+      const email = user?.email || (await strapi.service('api::order.order-state-machine').getCustomerEmail(order));
+      return this.notify({
+        template: templateName,
+        user,
+        email: email || undefined,
+        phone: user?.phone || (order as any).shippingAddress?.phone || undefined,
+        reference: order.orderNumber,
+        channels,
+        data: {
+          orderNumber: order.orderNumber,
+          total: order.total,
+          currency: order.currency,
+          ...data,
+        },
+      });
+    },
+
+    /**
+     * Send the notifications held back for users with a daily or weekly
+     * notification frequency, one digest email per recipient
+     */
+    async sendDigests(frequency: DigestFrequency): Promise<{ digestCount: number; itemCount: number; failedCount: number }> {
+      const result = { digestCount: 0, itemCount: 0, failedCount: 0 };
+      const queued = await strapi.documents('api::notification.notification-delivery').findMany({
+        filters: { status: 'queued', digest: frequency },
+        populate: ['user'],
+        sort: 'createdAt:asc',
+      });
+
+      const groups = new Map<string, any[]>();
+      for (const delivery of queued as any[]) {
+        const items = groups.get(delivery.recipient) || [];
+        items.push(delivery);
+        groups.set(delivery.recipient, items);
+      }
+
+      for (const [recipient, items] of groups) {
+        const user = items[0].user;
+        const rendered = this.render('notification-digest', items[0].language, {
+          count: items.length,
+          items: items.map((item) => `- ${item.subject}`).join('\n'),
+        });
+        const entry = {
+          template: 'notification-digest',
+          channel: 'email',
+          recipient,
+          user: user?.id,
+          language: rendered.locale,
+          subject: rendered.subject,
+          body: rendered.text,
+          digest: frequency,
+          metadata: { deliveries: items.map((item) => item.documentId) },
+        };
+
+        let adapterName: string | undefined;
+        try {
+          const adapter = this.getChannelAdapter('email');
+          adapterName = adapter.name;
+          const delivery = await adapter.send({
+            channel: 'email',
+            to: recipient,
+            template: 'notification-digest',
+            locale: rendered.locale,
+            subject: rendered.subject,
+            text: rendered.text,
+            data: { count: items.length },
+          });
+          const sentAt = new Date();
+          await this.logDelivery({ ...entry, adapter: adapterName, status: 'sent', messageId: delivery.messageId, sentAt });
+          for (const item of items) {
+            await strapi.documents('api::notification.notification-delivery').update({
+              documentId: item.documentId,
+              data: { status: 'digested', sentAt } as any,
+            });
+          }
+          result.digestCount++;
+          result.itemCount += items.length;
+        } catch (error) {
+          // The notifications stay queued for the next digest
+          strapi.log.error(`Error sending ${frequency} notification digest:`, error);
+          await this.logDelivery({
+            ...entry,
+            adapter: adapterName,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          });
+          result.failedCount++;
+        }
+      }
+
+      return result;
+    },
+  };
+};
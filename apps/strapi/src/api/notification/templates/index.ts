@@ -0,0 +1,278 @@
+/**
+ * Notification templates
+ *
+ * Named transactional notifications and their text in each locale. Text
+ * placeholders are written `{{name}}` and read from the template data.
+ * `{{name|currency}}` formats an amount in minor units in the `currency` of
+ * the data and `{{name|date}}` a date, both in the locale the notification
+ * is sent in.
+ * `short` is the body of the SMS and push channels.
+ */
+
+import { NotificationChannel } from '../channels/types';
+
+export type PreferenceFlag =
+  | 'orderUpdates'
+  | 'orderStatusNotifications'
+  | 'securityNotifications';
+
+export interface LocalizedContent {
+  subject: string;
+  text: string;
+  short: string;
+}
+
+export interface NotificationTemplate {
+  channels: NotificationChannel[]; // channels the notification is sent on by default
+  preferences: PreferenceFlag[]; // user-preference flags that all have to be on
+  critical: boolean; // sent right away whatever the user notification frequency
+  locales: Record<string, LocalizedContent>;
+}
+
+const ORDER_UPDATES: PreferenceFlag[] = ['orderUpdates', 'orderStatusNotifications'];
+
+export const NOTIFICATION_TEMPLATES: Record<string, NotificationTemplate> = {
+  'order-confirmed': {
+    channels: ['email', 'webhook'],
+    preferences: ORDER_UPDATES,
+    critical: true,
+    locales: {
+      en: {
+        subject: 'Order {{orderNumber}} confirmed',
+        text: 'Your order {{orderNumber}} has been confirmed.\nTotal: {{total|currency}}',
+        short: 'Order {{orderNumber}} confirmed, total {{total|currency}}',
+      },
+      es: {
+        subject: 'Pedido {{orderNumber}} confirmado',
+        text: 'Tu pedido {{orderNumber}} ha sido confirmado.\nTotal: {{total|currency}}',
+        short: 'Pedido {{orderNumber}} confirmado, total {{total|currency}}',
+      },
+    },
+  },
+  'order-processing': {
+    channels: ['email'],
+    preferences: ORDER_UPDATES,
+    critical: false,
+    locales: {
+      en: {
+        subject: 'Order {{orderNumber}} is being prepared',
+        text: 'Your order {{orderNumber}} is being prepared.',
+        short: 'Order {{orderNumber}} is being prepared',
+      },
+      es: {
+        subject: 'Estamos preparando el pedido {{orderNumber}}',
+        text: 'Estamos preparando tu pedido {{orderNumber}}.',
+        short: 'Estamos preparando el pedido {{orderNumber}}',
+      },
+    },
+  },
+  'order-shipped': {
+    channels: ['email', 'sms', 'push', 'webhook'],
+    preferences: ORDER_UPDATES,
+    critical: false,
+    locales: {
+      en: {
+        subject: 'Order {{orderNumber}} has shipped',
+        text: 'Your order {{orderNumber}} has shipped.\nTracking number: {{trackingNumber}}',
+        short: 'Order {{orderNumber}} has shipped, tracking number {{trackingNumber}}',
+      },
+      es: {
+        subject: 'El pedido {{orderNumber}} ha sido enviado',
+        text: 'Tu pedido {{orderNumber}} ha sido enviado.\nNúmero de seguimiento: {{trackingNumber}}',
+        short: 'Pedido {{orderNumber}} enviado, seguimiento {{trackingNumber}}',
+      },
+    },
+  },
+  'tracking-update': {
+    channels: ['email', 'push'],
+    preferences: ORDER_UPDATES,
+    critical: false,
+    locales: {
+      en: {
+        subject: 'Order {{orderNumber}}: {{description}}',
+        text: 'Update on your order {{orderNumber}}: {{description}} {{location}}\nTrack your parcel: {{trackingUrl}}',
+        short: 'Order {{orderNumber}}: {{description}}. Track at {{trackingUrl}}',
+      },
+      es: {
+        subject: 'Pedido {{orderNumber}}: {{description}}',
+        text: 'Novedades de tu pedido {{orderNumber}}: {{description}} {{location}}\nSigue tu paquete: {{trackingUrl}}',
+        short: 'Pedido {{orderNumber}}: {{description}}. Seguimiento en {{trackingUrl}}',
+      },
+    },
+  },
+  'order-delivered': {
+    channels: ['email', 'sms', 'push', 'webhook'],
+    preferences: ORDER_UPDATES,
+    critical: false,
+    locales: {
+      en: {
+        subject: 'Order {{orderNumber}} has been delivered',
+        text: 'Your order {{orderNumber}} has been delivered.',
+        short: 'Order {{orderNumber}} has been delivered',
+      },
+      es: {
+        subject: 'El pedido {{orderNumber}} ha sido entregado',
+        text: 'Tu pedido {{orderNumber}} ha sido entregado.',
+        short: 'Pedido {{orderNumber}} entregado',
+      },
+    },
+  },
+  'order-cancelled': {
+    channels: ['email'],
+    preferences: ['orderUpdates'],
+    critical: true,
+    locales: {
+      en: {
+        subject: 'Order {{orderNumber}} has been cancelled',
+        text: 'Your order {{orderNumber}} has been cancelled.\nReason: {{reason}}\nAny payment you made goes back to your original payment method.',
+        short: 'Order {{orderNumber}} has been cancelled',
+      },
+      es: {
+        subject: 'El pedido {{orderNumber}} ha sido cancelado',
+        text: 'Tu pedido {{orderNumber}} ha sido cancelado.\nMotivo: {{reason}}\nCualquier pago que hayas hecho se abonará en tu método de pago original.',
+        short: 'Pedido {{orderNumber}} cancelado',
+      },
+    },
+  },
+  'payment-received': {
+    channels: ['email', 'webhook'],
+    preferences: ['orderUpdates'],
+    critical: true,
+    locales: {
+      en: {
+        subject: 'Payment received for order {{orderNumber}}',
+        text: 'We received your payment of {{amount|currency}} for order {{orderNumber}}.',
+        short: 'Payment of {{amount|currency}} received for order {{orderNumber}}',
+      },
+      es: {
+        subject: 'Pago recibido del pedido {{orderNumber}}',
+        text: 'Hemos recibido tu pago de {{amount|currency}} del pedido {{orderNumber}}.',
+        short: 'Pago de {{amount|currency}} recibido, pedido {{orderNumber}}',
+      },
+    },
+  },
+  'refund-issued': {
+    channels: ['email', 'webhook'],
+    preferences: ['orderUpdates'],
+    critical: true,
+    locales: {
+      en: {
+        subject: 'Refund issued for order {{orderNumber}}',
+        text: 'A refund of {{amount|currency}} for order {{orderNumber}} was issued on {{processedAt|date}}. It goes back to your original payment method.',
+        short: 'Refund of {{amount|currency}} issued for order {{orderNumber}}',
+      },
+      es: {
+        subject: 'Reembolso emitido del pedido {{orderNumber}}',
+        text: 'El {{processedAt|date}} emitimos un reembolso de {{amount|currency}} del pedido {{orderNumber}}. Se abonará en tu método de pago original.',
+        short: 'Reembolso de {{amount|currency}} emitido, pedido {{orderNumber}}',
+      },
+    },
+  },
+  'payment-comment': {
+    channels: ['email'],
+    preferences: ['orderUpdates'],
+    critical: false,
+    locales: {
+      en: {
+        subject: 'New message about your payment for order {{orderNumber}}',
+        text: 'There is a new message about your payment for order {{orderNumber}}:\n{{content}}',
+        short: 'New message about your payment for order {{orderNumber}}',
+      },
+      es: {
+        subject: 'Nuevo mensaje sobre tu pago del pedido {{orderNumber}}',
+        text: 'Hay un nuevo mensaje sobre tu pago del pedido {{orderNumber}}:\n{{content}}',
+        short: 'Nuevo mensaje sobre tu pago del pedido {{orderNumber}}',
+      },
+    },
+  },
+  'password-changed': {
+    channels: ['email', 'sms'],
+    preferences: ['securityNotifications'],
+    critical: true,
+    locales: {
+      en: {
+        subject: 'Your password was changed',
+        text: 'The password of your account {{username}} was changed on {{changedAt|date}}. If this was not you, reset your password and contact us right away.',
+        short: 'Your password was changed. If this was not you, contact us right away.',
+      },
+      es: {
+        subject: 'Tu contraseña ha cambiado',
+        text: 'La contraseña de tu cuenta {{username}} se cambió el {{changedAt|date}}. Si no fuiste tú, restablece tu contraseña y contáctanos de inmediato.',
+        short: 'Tu contraseña ha cambiado. Si no fuiste tú, contáctanos de inmediato.',
+      },
+    },
+  },
+  // Sent by the recovery campaign, only to customers who consented to marketing
+  'checkout-recovery': {
+    channels: ['email'],
+    preferences: [],
+    critical: true,
+    locales: {
+      en: {
+        subject: 'You left items in your cart',
+        text: 'Items waiting in your checkout: {{itemCount}}.\nPick up where you left off:\n{{restoreUrl}}\nThis link is valid for {{validDays}} days.',
+        short: 'You left items in your cart: {{restoreUrl}}',
+      },
+      es: {
+        subject: 'Has dejado artículos en tu carrito',
+        text: 'Artículos esperando en tu compra: {{itemCount}}.\nContinúa donde lo dejaste:\n{{restoreUrl}}\nEste enlace es válido durante {{validDays}} días.',
+        short: 'Has dejado artículos en tu carrito: {{restoreUrl}}',
+      },
+    },
+  },
+  // Staff notifications, sent to the address of the automation rule or the alert recipients
+  'payment-auto-confirmed': {
+    channels: ['email'],
+    preferences: [],
+    critical: true,
+    locales: {
+      en: {
+        subject: 'Payment auto-confirmed',
+        text: 'Payment {{paymentId}} of order {{orderNumber}} has been auto-confirmed.',
+        short: 'Payment {{paymentId}} auto-confirmed',
+      },
+    },
+  },
+  'low-stock-alert': {
+    channels: ['email'],
+    preferences: [],
+    critical: true,
+    locales: {
+      en: {
+        subject: 'Low stock: {{name}}',
+        text: '{{description}}',
+        short: 'Low stock: {{name}}',
+      },
+    },
+  },
+  'low-stock-digest': {
+    channels: ['email'],
+    preferences: [],
+    critical: true,
+    locales: {
+      en: {
+        subject: 'Low stock digest: {{itemCount}}',
+        text: '{{items}}',
+        short: 'Low stock digest: {{itemCount}}',
+      },
+    },
+  },
+  // Notifications held back by a daily or weekly notification frequency, sent together
+  'notification-digest': {
+    channels: ['email'],
+    preferences: [],
+    critical: true,
+    locales: {
+      en: {
+        subject: 'Your {{count}} latest updates',
+        text: 'Here is what happened since our last message:\n{{items}}',
+        short: '{{count}} updates',
+      },
+      es: {
+        subject: 'Tus {{count}} últimas novedades',
+        text: 'Esto es lo que ha pasado desde nuestro último mensaje:\n{{items}}',
+        short: '{{count}} novedades',
+      },
+    },
+  },
+};
@@ -44,7 +44,7 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
         filters,
         limit: pagination.pageSize,
         start: (pagination.page - 1) * pagination.pageSize,
-        populate: ['user', 'items.productListing', 'items.variant',]
+        populate: ['user', 'items.productListing', 'items.variant', 'fulfillments.tracking']
       });
 
       // Get total count for pagination
@@ -176,7 +176,8 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
           'user',
           'items.variant',
           'items.productListing',
-          'payments'
+          'payments',
+          'fulfillments.tracking'
         ]
       });
 
@@ -194,6 +195,7 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
       return {
         data: order,
         meta: {
+          fulfillment: strapi.service('api::order.order-fulfillment').getFulfillmentSummary(order, (order as any).fulfillments || []),
           message: 'Order found successfully'
         }
       };
@@ -233,41 +235,213 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
         return ctx.forbidden('Access denied You are not authorized to cancel this order');
       }
       // validate order status
-      const orderStatusService = strapi.service('api::order.order-status');
-      const result = await orderStatusService.validateStatusUpdate(order.status, 'cancelled');
+      const stateMachine = strapi.service('api::order.order-state-machine');
+      const result = stateMachine.checkTransition(order, 'cancelled', { role: 'customer', workflow: 'cancellation' });
       if (!result.isValid) {
         return ctx.badRequest('Validation errors ', result.errors);
       }
-      // cancel order
-      const orderUpdated = await strapi.documents('api::order.order').update({
-        documentId,
-        data: {
-          status: 'cancelled',
+      // cancel order, releasing its stock and settling its payments
+      const cancellation = await strapi.service('api::order.order-cancellation').cancelOrder(documentId, {
+        reason: cancelReason,
+        cancelledBy: userType === UserType.AUTHENTICATED ? userId : null,
+        source: 'customer'
+      });
+
+      return {
+        data: cancellation.order,
+        meta: {
+          message: 'Order cancelled successfully',
+          refunds: cancellation.refunds
         }
+      };
+    } catch (error) {
+      strapi.log.error('Error canceling order:', error);
+      return ctx.internalServerError('Error canceling order');
+    }
+  },
+  /**
+   * Cancel any order on behalf of the store (admin only)
+   */
+  async adminCancelOrder(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { user } = ctx.state;
+      const { cancelReason = 'Cancelled by store' } = ctx.request.body || {};
+
+      const cancellation = await strapi.service('api::order.order-cancellation').cancelOrder(documentId, {
+        reason: cancelReason,
+        cancelledBy: user?.id || null,
+        source: 'admin'
       });
-      // create order history
-      const orderHistoryService = strapi.service('api::order.order-history');
-      await orderHistoryService.recordStatusChange(documentId, order.status, 'cancelled', userType === UserType.AUTHENTICATED ? userId : null, cancelReason);
 
       return {
-        data: orderUpdated,
+        data: cancellation.order,
         meta: {
-          message: 'Order cancelled successfully'
+          message: cancellation.errors.length > 0
+            ? 'Order cancelled, some of its effects need follow-up'
+            : 'Order cancelled successfully',
+          releasedReservations: cancellation.releasedReservations,
+          restockedReservations: cancellation.restockedReservations,
+          cancelledPayments: cancellation.cancelledPayments,
+          refunds: cancellation.refunds,
+          errors: cancellation.errors
         }
       };
     } catch (error) {
+      if (error instanceof Error && error.message === 'Order not found') {
+        return ctx.notFound(error.message);
+      }
+      if (error instanceof Error && error.message.startsWith('Order cannot be cancelled')) {
+        return ctx.badRequest(error.message);
+      }
       strapi.log.error('Error canceling order:', error);
       return ctx.internalServerError('Error canceling order');
     }
   },
   /**
-   * Refund order
+   * Move an order to another status through the order state machine (admin only)
+   */
+  async updateStatus(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { user } = ctx.state;
+      const { status, reason } = ctx.request.body || {};
+      if (!status) {
+        return ctx.badRequest('Status is required');
+      }
+
+      const order = await strapi.service('api::order.order-state-machine').transition(documentId, status, {
+        role: 'admin',
+        userId: user?.id || null,
+        reason
+      });
+
+      return {
+        data: order,
+        meta: {
+          message: 'Order status updated successfully'
+        }
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Order not found') {
+        return ctx.notFound(error.message);
+      }
+      if (error instanceof Error && error.message.startsWith('Order cannot move')) {
+        return ctx.badRequest(error.message);
+      }
+      strapi.log.error('Error updating order status:', error);
+      return ctx.internalServerError('Error updating order status');
+    }
+  },
+  /**
+   * List the statuses an admin can move the order to, with the reasons the others are blocked
+   */
+  async getTransitions(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      // the items tell whether the order has anything to ship
+      const order = await strapi.documents('api::order.order').findOne({ documentId, populate: ['items'] });
+      if (!order) {
+        return ctx.notFound('Order not found');
+      }
+
+      return {
+        data: strapi.service('api::order.order-state-machine').getAvailableTransitions(order, 'admin'),
+        meta: {
+          message: 'Order transitions retrieved successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error getting order transitions:', error);
+      return ctx.internalServerError('Error getting order transitions');
+    }
+  },
+  /**
+   * Ship some or all of the items left to ship of an order (admin only)
+   */
+  async createFulfillment(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { user } = ctx.state;
+      const { items, trackingNumber, carrier, carrierCode, estimatedDelivery, packageWeight, packageDimensions, signatureRequired } = ctx.request.body || {};
+      if (items !== undefined && !Array.isArray(items)) {
+        return ctx.badRequest('Items must be a list of order items and quantities');
+      }
+
+      const fulfillment = await strapi.service('api::order.order-fulfillment').createFulfillment(documentId, {
+        items,
+        trackingNumber,
+        carrier,
+        carrierCode,
+        estimatedDelivery,
+        packageWeight,
+        packageDimensions,
+        signatureRequired
+      }, user?.id || null);
+
+      return {
+        data: fulfillment,
+        meta: {
+          message: 'Order items shipped successfully'
+        }
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Order not found') {
+        return ctx.notFound(error.message);
+      }
+      if (error instanceof Error && /cannot be shipped|must be|required|not found|no items left|more than once|already used/.test(error.message)) {
+        return ctx.badRequest(error.message);
+      }
+      strapi.log.error('Error creating fulfillment:', error);
+      return ctx.internalServerError('Error creating fulfillment');
+    }
+  },
+  /**
+   * Edit the items and shipping address of a pending or confirmed order (admin only)
+   */
+  async editOrder(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { user } = ctx.state;
+      const { items, shippingAddressId, reason } = ctx.request.body || {};
+      if (items !== undefined && !Array.isArray(items)) {
+        return ctx.badRequest('Items must be a list of changes');
+      }
+
+      const result = await strapi.service('api::order.order-editing').editOrder(documentId, { items, shippingAddressId }, {
+        editedBy: user?.id || null,
+        reason,
+        source: 'admin'
+      });
+
+      return {
+        data: result.order,
+        meta: {
+          previousTotal: result.previousTotal,
+          total: result.total,
+          settlement: result.settlement,
+          message: 'Order edited successfully'
+        }
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Order not found') {
+        return ctx.notFound(error.message);
+      }
+      if (error instanceof Error && /must|[Oo]nly |not found|not available|no changes|[Ii]nsufficient|required/.test(error.message)) {
+        return ctx.badRequest(error.message);
+      }
+      strapi.log.error('Error editing order:', error);
+      return ctx.internalServerError('Error editing order');
+    }
+  },
+  /**
+   * Request a refund of the order, processed once an admin approves it
    */
   async refundOrder(ctx) {
     try {
       const { documentId } = ctx.params;
       const { user, userType } = ctx.state;
-      const {refundReason = 'Customer request'} = ctx.request.body;
+      const {refundReason = 'Customer request', type = 'full', items, reasonCode = 'customer_request'} = ctx.request.body;
       const sessionId = ctx?.request?.query?.sessionId || ctx?.request?.body?.sessionId;
 
       let userId;
@@ -297,43 +471,51 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
       if (!result.isValid) {
         return ctx.badRequest('Validation errors ', result.errors);
       }
-      // refund order
-      const orderUpdated = await strapi.documents('api::order.order').update({
-        documentId,
-        data: {
-          status: 'refunded',
-          paymentStatus: 'refunded',
-        }
-      });
-      // create order history
-      const orderHistoryService = strapi.service('api::order.order-history');
-      await orderHistoryService.recordStatusChange(documentId, order.status, 'refunded', userType === UserType.AUTHENTICATED ? userId : null, refundReason);
-      // update payment status
-      // find all payments for this order and update the status to refunded
-      const payments = await strapi.documents('api::payment.payment').findMany({
-        filters: {
-          order: {
-            documentId: documentId,
-          }
-        }
-      });
-      for (const payment of payments) {
-        await strapi.documents('api::payment.payment').update({
-          documentId: payment.documentId,
-          data: {
-            status: 'refunded',
-          }
-        });
+      // customers refund the whole order or some of its items, partial amounts are set by admins
+      if (!['full', 'items'].includes(type)) {
+        return ctx.badRequest('Refund type must be full or items');
       }
+      const refund = await strapi.service('api::refund.refund').requestRefund(documentId, {
+        type,
+        items,
+        reasonCode,
+        reason: refundReason
+      }, userType === UserType.AUTHENTICATED ? userId : null);
+
       return {
-        data: orderUpdated,
+        data: refund,
         meta: {
-          message: 'Order refunded successfully'
+          message: 'Refund requested successfully'
         }
       };
     } catch (error) {
+      if (error instanceof Error && /nothing left|must be|required|[Oo]nly |not found/.test(error.message)) {
+        return ctx.badRequest(error.message);
+      }
       strapi.log.error('Error refunding order:', error);
       return ctx.internalServerError('Error refunding order');
     }
+  },
+  /**
+   * Revenue report normalized to the base currency (admin only)
+   */
+  async getRevenueReport(ctx) {
+    try {
+      const { startDate, endDate, status } = ctx.query;
+      const report = await strapi.service('api::order.order-reporting').getRevenueReport({
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+        statuses: status ? String(status).split(',') : undefined,
+      });
+      return {
+        data: report,
+        meta: {
+          message: 'Revenue report retrieved successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error getting revenue report:', error);
+      return ctx.internalServerError('Error getting revenue report');
+    }
   }
 });
\ No newline at end of file
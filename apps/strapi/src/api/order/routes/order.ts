@@ -8,6 +8,14 @@ export default {
         policies: ['global::is-authenticated'],
       }
     },
+    {
+      method: 'GET',
+      path: '/orders/revenue',
+      handler: 'order.getRevenueReport',
+      config: {
+        policies: ['global::is-admin'],
+      }
+    },
     {
       method: 'GET',
       path: '/orders/:documentId',
@@ -32,6 +40,46 @@ export default {
         policies: ['global::is-authenticated'],
       }
     },
+    {
+      method: 'POST',
+      path: '/orders/:documentId/admin-cancel',
+      handler: 'order.adminCancelOrder',
+      config: {
+        policies: ['global::is-admin'],
+      }
+    },
+    {
+      method: 'POST',
+      path: '/orders/:documentId/status',
+      handler: 'order.updateStatus',
+      config: {
+        policies: ['global::is-admin'],
+      }
+    },
+    {
+      method: 'GET',
+      path: '/orders/:documentId/transitions',
+      handler: 'order.getTransitions',
+      config: {
+        policies: ['global::is-admin'],
+      }
+    },
+    {
+      method: 'POST',
+      path: '/orders/:documentId/fulfillments',
+      handler: 'order.createFulfillment',
+      config: {
+        policies: ['global::is-admin'],
+      }
+    },
+    {
+      method: 'POST',
+      path: '/orders/:documentId/edit',
+      handler: 'order.editOrder',
+      config: {
+        policies: ['global::is-admin'],
+      }
+    },
     {
       method: 'POST',
       path: '/orders/:documentId/refund',
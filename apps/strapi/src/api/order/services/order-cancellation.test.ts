@@ -0,0 +1,243 @@
+/**
+ * Order Cancellation Service tests
+ *
+ * Tests stock release and return, payment voiding and refunds, and the
+ * automatic cancellation of orders whose payment expired
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import orderCancellationService from './order-cancellation';
+import orderStateMachineService from './order-state-machine';
+
+const mockDocumentMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  create: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const bindService = (service: any) => {
+  const bound = { ...service };
+  Object.keys(bound).forEach(key => {
+    if (typeof bound[key] === 'function') {
+      bound[key] = bound[key].bind(bound);
+    }
+  });
+  return bound;
+};
+
+const mockServices: Record<string, any> = {
+  // cancellations follow the order state machine
+  'api::order.order-state-machine': bindService(orderStateMachineService),
+  'api::order.order-history': {
+    recordStatusChange: jest.fn() as jest.MockedFunction<any>,
+    recordHistoryEvent: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::inventory.inventory': {
+    releaseReservation: jest.fn() as jest.MockedFunction<any>,
+    updateInventory: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::payment.payment-gateway': {
+    voidPayment: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::payment.payment-confirmation': {
+    cancelPaymentConfirmation: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::refund.refund': {
+    requestRefund: jest.fn() as jest.MockedFunction<any>,
+    approveRefund: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::notification.notification': {
+    notifyOrderCustomer: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+(global as any).strapi = mockStrapi;
+
+describe('Order Cancellation Service', () => {
+  let service: any;
+
+  const pendingOrder = {
+    documentId: 'order-1',
+    orderNumber: 'ORD2601ABCD',
+    status: 'pending',
+    paymentStatus: 'pending',
+    user: { id: 7, email: 'customer@example.com' },
+    payments: [
+      { documentId: 'payment-1', status: 'pending', gatewayCode: 'sandbox', gatewayStatus: 'authorized' },
+      { documentId: 'payment-2', status: 'pending', paymentConfirmation: { documentId: 'confirmation-2', confirmationStatus: 'pending' } },
+    ],
+  };
+
+  const paidOrder = {
+    ...pendingOrder,
+    status: 'processing',
+    paymentStatus: 'paid',
+    payments: [{ documentId: 'payment-1', status: 'confirmed', gatewayCode: 'sandbox', gatewayStatus: 'captured' }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+    mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({ documentId, ...data }));
+    mockDocumentMethods.findMany.mockResolvedValue([]);
+    mockServices['api::payment.payment-confirmation'].cancelPaymentConfirmation.mockResolvedValue({ success: true });
+    mockServices['api::refund.refund'].requestRefund.mockResolvedValue({ documentId: 'refund-1' });
+    mockServices['api::notification.notification'].notifyOrderCustomer.mockResolvedValue({ deliveries: [], delivered: ['email'] });
+
+    service = bindService(orderCancellationService);
+  });
+
+  describe('cancelOrder', () => {
+    it('should release held stock and stop pending payments of an unpaid order', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(pendingOrder);
+      mockDocumentMethods.findMany.mockResolvedValue([
+        { documentId: 'reservation-1', status: 'active', quantity: 2, product: { documentId: 'shirt' } },
+        { documentId: 'reservation-2', status: 'completed', quantity: 1, product: { documentId: 'hat' } },
+      ]);
+
+      const result = await service.cancelOrder('order-1', { reason: 'Changed my mind', cancelledBy: 7, source: 'customer' });
+
+      expect(mockServices['api::inventory.inventory'].releaseReservation).toHaveBeenCalledWith(
+        'reservation-1', 'Order cancelled: Changed my mind'
+      );
+      // a released reservation holds nothing anymore
+      expect(mockServices['api::inventory.inventory'].updateInventory).not.toHaveBeenCalled();
+      expect(mockServices['api::payment.payment-gateway'].voidPayment).toHaveBeenCalledWith(
+        'payment-1', 'Order cancelled: Changed my mind'
+      );
+      expect(mockServices['api::payment.payment-confirmation'].cancelPaymentConfirmation).toHaveBeenCalledWith(
+        'confirmation-2', '7', 'Order cancelled: Changed my mind'
+      );
+      expect(mockServices['api::refund.refund'].requestRefund).not.toHaveBeenCalled();
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({ documentId: 'order-1', data: { paymentStatus: 'cancelled' } });
+      expect(mockServices['api::order.order-history'].recordStatusChange).toHaveBeenCalledWith(
+        'order-1', 'pending', 'cancelled', 7, 'Changed my mind', 'customer'
+      );
+      expect(result).toMatchObject({
+        releasedReservations: ['reservation-1'],
+        cancelledPayments: ['payment-1', 'payment-2'],
+        notified: true,
+        errors: [],
+      });
+      expect(mockServices['api::notification.notification'].notifyOrderCustomer).toHaveBeenCalledWith(
+        'order-cancelled', 'order-1', { reason: 'Changed my mind' }
+      );
+    });
+
+    it('should return fulfilled stock to its locations and refund a paid order', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(paidOrder);
+      mockDocumentMethods.findMany.mockResolvedValue([{
+        documentId: 'reservation-1',
+        status: 'completed',
+        quantity: 3,
+        product: { documentId: 'shirt' },
+        variant: { documentId: 'shirt-m' },
+        metadata: {
+          fulfilled: true,
+          allocations: [{ locationId: 'warehouse', quantity: 2 }, { locationId: 'store', quantity: 1 }],
+        },
+      }]);
+
+      const result = await service.cancelOrder('order-1', { reason: 'Out of stock', cancelledBy: 3, source: 'admin' });
+
+      expect(mockServices['api::inventory.inventory'].updateInventory).toHaveBeenCalledWith('shirt', 2, expect.objectContaining({
+        source: 'return',
+        orderId: 'order-1',
+        variantId: 'shirt-m',
+        locationId: 'warehouse',
+      }));
+      expect(mockServices['api::inventory.inventory'].updateInventory).toHaveBeenCalledWith('shirt', 1, expect.objectContaining({
+        locationId: 'store',
+      }));
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({ documentId: 'reservation-1', data: { status: 'cancelled' } });
+      expect(mockServices['api::refund.refund'].requestRefund).toHaveBeenCalledWith('order-1', {
+        type: 'full',
+        reasonCode: 'customer_request',
+        reason: 'Order cancelled: Out of stock',
+      }, 3);
+      // the stock already came back with the reservation
+      expect(mockServices['api::refund.refund'].approveRefund).toHaveBeenCalledWith('refund-1', 3, { restock: false });
+      expect(mockDocumentMethods.update).not.toHaveBeenCalledWith({ documentId: 'order-1', data: { paymentStatus: 'cancelled' } });
+      expect(result).toMatchObject({ restockedReservations: ['reservation-1'], refunds: ['refund-1'] });
+    });
+
+    it('should not cancel orders past processing', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...paidOrder, status: 'shipping' });
+
+      await expect(service.cancelOrder('order-1', { reason: 'Late', cancelledBy: 7, source: 'customer' })).rejects.toThrow(
+        'Order cannot be cancelled: Invalid transition from shipping to cancelled'
+      );
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+
+    it('should record the cancelled status row of the order', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(pendingOrder);
+
+      await service.cancelOrder('order-1', { reason: 'Changed my mind', cancelledBy: 7, source: 'customer' });
+
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          order: 'order-1',
+          status: 'cancelled',
+          previousStatus: 'pending',
+          statusReason: 'customer_request',
+          notes: 'Changed my mind',
+        }),
+      });
+    });
+
+    it('should keep the cancellation and flag the effects that failed for follow-up', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(paidOrder);
+      mockServices['api::refund.refund'].approveRefund.mockRejectedValue(new Error('Gateway unavailable'));
+
+      const result = await service.cancelOrder('order-1', { reason: 'Fraud', cancelledBy: 3, source: 'admin' });
+
+      expect(result.order).toMatchObject({ status: 'cancelled' });
+      expect(result.errors).toEqual(['Refund: Gateway unavailable']);
+      expect(mockServices['api::order.order-history'].recordHistoryEvent).toHaveBeenCalledWith(expect.objectContaining({
+        orderId: 'order-1',
+        eventType: 'system_action',
+        requiresFollowUp: true,
+        automatedAction: 'order_cancellation',
+        metadata: { errors: ['Refund: Gateway unavailable'] },
+      }));
+    });
+  });
+
+  describe('cancelUnpaidOrders', () => {
+    it('should cancel orders waiting for their payment too long and expire the payment', async () => {
+      const unpaidOrder = { ...pendingOrder, user: null, sessionId: 'guest-session', payments: [pendingOrder.payments[1]] };
+      mockDocumentMethods.findMany
+        .mockResolvedValueOnce([unpaidOrder])
+        .mockResolvedValueOnce([]);
+      mockDocumentMethods.findOne.mockResolvedValue(unpaidOrder);
+
+      const result = await service.cancelUnpaidOrders();
+
+      expect(result).toEqual({ cancelledCount: 1, failedCount: 0 });
+      expect(mockServices['api::order.order-history'].recordStatusChange).toHaveBeenCalledWith(
+        'order-1', 'pending', 'cancelled', null, 'Payment expired', 'system'
+      );
+      expect(mockServices['api::payment.payment-confirmation'].cancelPaymentConfirmation).toHaveBeenCalledWith(
+        'confirmation-2', 'system', 'Order cancelled: Payment expired'
+      );
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({ documentId: 'payment-2', data: { status: 'expired' } });
+      expect(mockServices['api::notification.notification'].notifyOrderCustomer).toHaveBeenCalledWith(
+        'order-cancelled', 'order-1', { reason: 'Payment expired' }
+      );
+    });
+  });
+});
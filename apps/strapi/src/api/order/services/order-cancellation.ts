@@ -0,0 +1,280 @@
+/**
+ * Order Cancellation Service
+ * Cancels orders and rolls back what the order set in motion: stock held or
+ * taken for it, pending payment confirmations and captured payments. Used by
+ * customers, admins and the job cancelling orders whose payment expired.
+ */
+
+import { ORDER_CANCELLATION_CONFIG } from '../../../../config/constant';
+
+export type CancellationSource = 'customer' | 'admin' | 'system';
+
+export interface CancellationOptions {
+  reason: string;
+  cancelledBy: string | null;
+  source: CancellationSource;
+}
+
+export interface CancellationResult {
+  order: any;
+  releasedReservations: string[];
+  restockedReservations: string[];
+  cancelledPayments: string[];
+  refunds: string[];
+  notified: boolean;
+  errors: string[];
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export default {
+  /**
+   * Cancel an order and roll back its side effects
+   *
+   * The order is cancelled first, a side effect failing afterwards does not
+   * undo the cancellation: it is reported in the result and recorded on the
+   * order history for follow-up.
+   * @throws Error when the order does not exist or cannot be cancelled in its status
+   */
+  async cancelOrder(orderId: string, options: CancellationOptions): Promise<CancellationResult> {
+    const order = await strapi.documents('api::order.order').findOne({
+      documentId: orderId,
+      populate: {
+        user: true,
+        payments: { populate: { paymentConfirmation: true } }
+      } as any
+    });
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const stateMachine = strapi.service('api::order.order-state-machine');
+    const check = stateMachine.checkTransition(order, 'cancelled', { role: options.source, workflow: 'cancellation' });
+    if (!check.isValid) {
+      throw new Error(`Order cannot be cancelled: ${check.errors.join(', ')}`);
+    }
+
+    const cancelledOrder = await stateMachine.transition(orderId, 'cancelled', {
+      role: options.source,
+      workflow: 'cancellation',
+      userId: options.cancelledBy,
+      reason: options.reason
+    });
+
+    const result: CancellationResult = {
+      order: cancelledOrder,
+      releasedReservations: [],
+      restockedReservations: [],
+      cancelledPayments: [],
+      refunds: [],
+      notified: false,
+      errors: []
+    };
+
+    await this.returnStock(order, options, result);
+    await this.settlePayments(order, options, result);
+
+    // Paid orders end up refunded through their refund, unpaid ones have nothing left to pay
+    if (order.paymentStatus !== 'paid') {
+      result.order = await strapi.documents('api::order.order').update({
+        documentId: orderId,
+        data: { paymentStatus: 'cancelled' }
+      });
+    }
+
+    if (result.errors.length > 0) {
+      strapi.log.error(`Order ${orderId} cancelled with errors: ${result.errors.join('; ')}`);
+      await strapi.service('api::order.order-history').recordHistoryEvent({
+        orderId,
+        eventType: 'system_action',
+        changedBy: options.cancelledBy,
+        changeReason: 'Some effects of the order could not be rolled back',
+        changeSource: options.source,
+        isCustomerVisible: false,
+        priority: 'high',
+        requiresFollowUp: true,
+        automatedAction: 'order_cancellation',
+        metadata: { errors: result.errors }
+      });
+    }
+
+    if (ORDER_CANCELLATION_CONFIG.notifyCustomer) {
+      result.notified = await this.notifyCustomer(order, options);
+    }
+
+    return result;
+  },
+
+  /**
+   * Release the stock held for the order and return stock already taken for it
+   */
+  async returnStock(order: any, options: CancellationOptions, result: CancellationResult): Promise<void> {
+    const inventoryService = strapi.service('api::inventory.inventory');
+    const reservations = await strapi.documents('api::stock-reservation.stock-reservation').findMany({
+      filters: {
+        order: { documentId: order.documentId },
+        status: { $in: ['active', 'completed'] }
+      } as any,
+      populate: { product: true, variant: true }
+    });
+
+    for (const reservation of reservations as any[]) {
+      try {
+        if (reservation.status === 'active') {
+          await inventoryService.releaseReservation(reservation.documentId, `Order cancelled: ${options.reason}`);
+          result.releasedReservations.push(reservation.documentId);
+        } else if (reservation.metadata?.fulfilled) {
+          await this.restockReservation(reservation, order.documentId, options);
+          result.restockedReservations.push(reservation.documentId);
+        } else {
+          // released before, nothing is held for it anymore
+          continue;
+        }
+
+        await strapi.documents('api::stock-reservation.stock-reservation').update({
+          documentId: reservation.documentId,
+          data: { status: 'cancelled' }
+        });
+      } catch (error) {
+        result.errors.push(`Stock of reservation ${reservation.documentId}: ${errorMessage(error)}`);
+      }
+    }
+  },
+
+  /**
+   * Put the stock of a fulfilled reservation back at the locations it was taken from
+   */
+  async restockReservation(reservation: any, orderId: string, options: CancellationOptions): Promise<void> {
+    const inventoryService = strapi.service('api::inventory.inventory');
+    const allocations = reservation.metadata?.allocations || [];
+    const restockOptions = {
+      reason: `Order cancelled: ${options.reason}`,
+      source: 'return',
+      orderId,
+      userId: options.cancelledBy,
+      variantId: reservation.variant?.documentId
+    };
+
+    if (allocations.length === 0) {
+      await inventoryService.updateInventory(reservation.product?.documentId, reservation.quantity, restockOptions);
+      return;
+    }
+    for (const allocation of allocations) {
+      await inventoryService.updateInventory(reservation.product?.documentId, allocation.quantity, {
+        ...restockOptions,
+        locationId: allocation.locationId
+      });
+    }
+  },
+
+  /**
+   * Stop pending payments and refund the captured ones
+   */
+  async settlePayments(order: any, options: CancellationOptions, result: CancellationResult): Promise<void> {
+    const actor = options.cancelledBy ? String(options.cancelledBy) : 'system';
+    const reason = `Order cancelled: ${options.reason}`;
+
+    for (const payment of order.payments || []) {
+      if (payment.status !== 'pending') {
+        continue;
+      }
+      try {
+        if (payment.gatewayCode && ['requires_authorization', 'authorized'].includes(payment.gatewayStatus)) {
+          await strapi.service('api::payment.payment-gateway').voidPayment(payment.documentId, reason);
+        } else if (payment.paymentConfirmation?.confirmationStatus === 'pending') {
+          const cancelled = await strapi.service('api::payment.payment-confirmation').cancelPaymentConfirmation(
+            payment.paymentConfirmation.documentId, actor, reason
+          );
+          if (!cancelled.success) {
+            throw new Error(cancelled.error);
+          }
+        } else {
+          continue;
+        }
+        result.cancelledPayments.push(payment.documentId);
+      } catch (error) {
+        result.errors.push(`Payment ${payment.documentId}: ${errorMessage(error)}`);
+      }
+    }
+
+    if (order.paymentStatus !== 'paid') {
+      return;
+    }
+    // The stock comes back with the reservations, the refund only pays the customer back
+    try {
+      const refundService = strapi.service('api::refund.refund');
+      const refund = await refundService.requestRefund(order.documentId, {
+        type: 'full',
+        reasonCode: 'customer_request',
+        reason
+      }, options.cancelledBy);
+      result.refunds.push(refund.documentId);
+      await refundService.approveRefund(
+        refund.documentId,
+        options.source === 'admin' ? options.cancelledBy : null,
+        { restock: false }
+      );
+    } catch (error) {
+      result.errors.push(`Refund: ${errorMessage(error)}`);
+    }
+  },
+
+  /**
+   * Notify the customer that the order was cancelled
+   * @returns false when the notification could not be sent to the customer
+   */
+  async notifyCustomer(order: any, options: CancellationOptions): Promise<boolean> {
+    try {
+      const result = await strapi.service('api::notification.notification').notifyOrderCustomer(
+        'order-cancelled',
+        order.documentId,
+        { reason: options.reason }
+      );
+      return result.delivered.length > 0;
+    } catch (error) {
+      strapi.log.error(`Error notifying the cancellation of order ${order.documentId}:`, error);
+      return false;
+    }
+  },
+
+  /**
+   * Cancel pending orders whose payment did not arrive in time, their payments expire
+   */
+  async cancelUnpaidOrders(): Promise<{ cancelledCount: number; failedCount: number }> {
+    const cutoff = new Date(Date.now() - ORDER_CANCELLATION_CONFIG.paymentTimeoutMinutes * 60 * 1000);
+    const orders = await strapi.documents('api::order.order').findMany({
+      filters: {
+        status: 'pending',
+        paymentStatus: { $in: ['pending', 'failed'] },
+        createdAt: { $lt: cutoff }
+      } as any,
+      populate: { payments: true }
+    });
+
+    let cancelledCount = 0;
+    let failedCount = 0;
+    for (const order of orders as any[]) {
+      try {
+        await this.cancelOrder(order.documentId, {
+          reason: 'Payment expired',
+          cancelledBy: null,
+          source: 'system'
+        });
+        for (const payment of order.payments || []) {
+          if (payment.status === 'pending') {
+            await strapi.documents('api::payment.payment').update({
+              documentId: payment.documentId,
+              data: { status: 'expired' }
+            });
+          }
+        }
+        cancelledCount++;
+      } catch (error) {
+        strapi.log.error(`Error cancelling unpaid order ${order.documentId}:`, error);
+        failedCount++;
+      }
+    }
+
+    return { cancelledCount, failedCount };
+  },
+};
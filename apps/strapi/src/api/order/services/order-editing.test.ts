@@ -0,0 +1,286 @@
+/**
+ * Order Editing Service tests
+ *
+ * Tests item and address changes on placed orders, the stock they reserve
+ * or give back and the payment or refund of the difference
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import orderEditingService from './order-editing';
+import cartCalculationService from '../../cart/services/cart-calculation';
+
+const mockDocumentMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  create: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+  delete: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockServices: Record<string, any> = {
+  'api::currency.currency': {
+    getQuote: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::shipping.shipping': {
+    quoteShipping: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::tax.tax': {
+    calculateTax: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::inventory.inventory': {
+    reserveOrderStock: jest.fn() as jest.MockedFunction<any>,
+    reduceOrderStock: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::refund.refund': {
+    getCommittedRefunds: jest.fn() as jest.MockedFunction<any>,
+    getRefundableSummary: jest.fn() as jest.MockedFunction<any>,
+    requestRefund: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::order.order-history': {
+    recordHistoryEvent: jest.fn() as jest.MockedFunction<any>,
+    recordAddressChange: jest.fn() as jest.MockedFunction<any>,
+    recordPaymentUpdate: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+mockServices['api::cart.cart-calculation'] = cartCalculationService({ strapi: mockStrapi });
+
+(global as any).strapi = mockStrapi;
+
+describe('Order Editing Service', () => {
+  let service: any;
+
+  const order = {
+    documentId: 'order-1',
+    orderNumber: 'ORD2601ABCD',
+    status: 'confirmed',
+    paymentStatus: 'paid',
+    currency: 'USD',
+    exchangeRate: 1,
+    shippingMethod: 'standard',
+    total: 2200,
+    user: { id: 7 },
+    shippingAddress: { documentId: 'address-1' },
+    metadata: {},
+    items: [
+      {
+        documentId: 'item-1',
+        quantity: 1,
+        price: 1000,
+        product: { documentId: 'shirt' },
+        productListing: { documentId: 'listing-1', type: 'variant' },
+        variant: { documentId: 'shirt-m', basePrice: 1200 },
+      },
+      {
+        documentId: 'item-2',
+        quantity: 2,
+        price: 500,
+        product: { documentId: 'hat' },
+        productListing: { documentId: 'listing-2', basePrice: 500 },
+        variant: null,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+    mockDocumentMethods.findOne.mockResolvedValue(order);
+    mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({ documentId, ...data }));
+    mockServices['api::currency.currency'].getQuote.mockResolvedValue({
+      currency: 'USD',
+      baseCurrency: 'USD',
+      exchangeRate: 1,
+      minorUnits: 2,
+      baseMinorUnits: 2,
+      roundingMode: 'nearest',
+      roundingIncrement: 1,
+    });
+    mockServices['api::shipping.shipping'].quoteShipping.mockResolvedValue({ id: 'method-1', code: 'standard', price: 200 });
+    mockServices['api::tax.tax'].calculateTax.mockImplementation(async ({ items }: any) => ({
+      tax: 0,
+      pricesIncludeTax: false,
+      location: null,
+      lines: items.map(() => ({ tax: 0, rates: [] })),
+    }));
+    mockServices['api::refund.refund'].getCommittedRefunds.mockResolvedValue([]);
+    mockServices['api::refund.refund'].getRefundableSummary.mockReturnValue({ capturedAmount: 2200, refundableAmount: 2200 });
+    mockServices['api::refund.refund'].requestRefund.mockResolvedValue({ documentId: 'refund-1' });
+
+    service = { ...orderEditingService };
+    Object.keys(service).forEach(key => {
+      if (typeof service[key] === 'function') {
+        service[key] = service[key].bind(service);
+      }
+    });
+  });
+
+  describe('editOrder', () => {
+    it('should reserve the extra stock, price the added unit at the current price and collect the balance due', async () => {
+      const result = await service.editOrder('order-1', {
+        items: [{ action: 'update', orderItemId: 'item-1', quantity: 2 }],
+      }, { editedBy: 3, reason: 'Customer called' });
+
+      expect(mockServices['api::inventory.inventory'].reserveOrderStock).toHaveBeenCalledWith(
+        [{ productId: 'shirt', variantId: 'shirt-m', quantity: 1 }],
+        expect.objectContaining({ orderId: 'order-1', customerId: 7 })
+      );
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'item-1',
+        data: expect.objectContaining({ quantity: 2, price: 1100, subtotal: 2200 }),
+      });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'order-1',
+        data: expect.objectContaining({ subtotal: 3200, shipping: 200, total: 3400 }),
+      });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'order-1',
+        data: expect.objectContaining({ paymentStatus: 'pending', metadata: expect.objectContaining({ balanceDue: 1200 }) }),
+      });
+      expect(result).toMatchObject({ previousTotal: 2200, total: 3400, settlement: { type: 'payment', amount: 1200 } });
+      expect(mockServices['api::order.order-history'].recordHistoryEvent).toHaveBeenCalledWith(expect.objectContaining({
+        orderId: 'order-1',
+        eventType: 'item_modified',
+        previousValue: { orderItemId: 'item-1', quantity: 1, variant: 'shirt-m' },
+        newValue: { quantity: 2, variant: 'shirt-m', productListing: 'listing-1' },
+        changedBy: 3,
+        changeReason: 'Customer called',
+      }));
+    });
+
+    it('should give back the stock of removed items and refund the difference', async () => {
+      const result = await service.editOrder('order-1', {
+        items: [{ action: 'remove', orderItemId: 'item-2' }],
+      }, { editedBy: 3 });
+
+      expect(mockServices['api::inventory.inventory'].reserveOrderStock).not.toHaveBeenCalled();
+      expect(mockServices['api::inventory.inventory'].reduceOrderStock).toHaveBeenCalledWith(
+        'order-1',
+        { productId: 'hat', variantId: undefined, quantity: 2 },
+        'Order ORD2601ABCD edited'
+      );
+      expect(mockDocumentMethods.delete).toHaveBeenCalledWith({ documentId: 'item-2' });
+      expect(mockServices['api::refund.refund'].requestRefund).toHaveBeenCalledWith('order-1', {
+        type: 'partial',
+        amount: 1000,
+        reasonCode: 'other',
+        reason: 'Order ORD2601ABCD edited',
+      }, 3);
+      expect(result.settlement).toEqual({ type: 'refund', amount: 1000, refundId: 'refund-1' });
+    });
+
+    it('should keep the charged price of the units already on the line when more are added', async () => {
+      mockDocumentMethods.findOne
+        .mockResolvedValueOnce(order)
+        .mockResolvedValueOnce({ documentId: 'listing-2', basePrice: 600, product: { documentId: 'hat' } });
+
+      await service.editOrder('order-1', {
+        items: [{ action: 'add', productListingId: 'listing-2', quantity: 2 }],
+      }, { editedBy: 3 });
+
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'item-2',
+        data: expect.objectContaining({ quantity: 4, price: 550, subtotal: 2200 }),
+      });
+    });
+
+    it('should update the balance left due by an earlier edit', async () => {
+      const pendingOrder = { ...order, paymentStatus: 'pending', total: 3600, metadata: { balanceDue: 1400 } };
+      mockDocumentMethods.findOne.mockResolvedValue(pendingOrder);
+
+      const result = await service.editOrder('order-1', {
+        items: [{ action: 'remove', orderItemId: 'item-2' }],
+      }, { editedBy: 3 });
+
+      // 1200 now costs 1000 plus 200 shipping, 2200 was captured
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'order-1',
+        data: { paymentStatus: 'paid', metadata: {} },
+      });
+      expect(mockServices['api::refund.refund'].requestRefund).toHaveBeenCalledWith('order-1', expect.objectContaining({
+        amount: 1000,
+      }), 3);
+      expect(result.settlement).toEqual({ type: 'refund', amount: 1000, refundId: 'refund-1' });
+    });
+
+    it('should leave unpaid orders to be paid at their new total', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...order, status: 'pending', paymentStatus: 'pending' });
+      mockServices['api::refund.refund'].getRefundableSummary.mockReturnValue({ capturedAmount: 0, refundableAmount: 0 });
+
+      const result = await service.editOrder('order-1', {
+        items: [{ action: 'remove', orderItemId: 'item-2' }],
+      }, { editedBy: 3 });
+
+      expect(result.settlement).toEqual({ type: 'none', amount: 0 });
+      expect(mockServices['api::refund.refund'].requestRefund).not.toHaveBeenCalled();
+    });
+
+    it('should change the shipping address and requote shipping for it', async () => {
+      mockDocumentMethods.findOne
+        .mockResolvedValueOnce(order)
+        .mockResolvedValueOnce({ documentId: 'address-2', user: { id: 7 } });
+      mockServices['api::shipping.shipping'].quoteShipping.mockResolvedValue({ id: 'method-1', code: 'standard', price: 500 });
+
+      const result = await service.editOrder('order-1', { shippingAddressId: 'address-2' }, { editedBy: 3 });
+
+      expect(mockServices['api::shipping.shipping'].quoteShipping).toHaveBeenCalledWith(expect.objectContaining({
+        shippingAddress: { documentId: 'address-2', user: { id: 7 } },
+        shippingMethod: 'standard',
+      }));
+      expect(result).toMatchObject({ total: 2500, settlement: { type: 'payment', amount: 300 } });
+      expect(mockServices['api::order.order-history'].recordAddressChange).toHaveBeenCalledWith(
+        'order-1', 'shipping', 'address-1', 'address-2', 3, 'admin'
+      );
+    });
+
+    it('should not use the address of another customer', async () => {
+      mockDocumentMethods.findOne
+        .mockResolvedValueOnce(order)
+        .mockResolvedValueOnce({ documentId: 'address-2', user: { id: 8 } });
+
+      await expect(service.editOrder('order-1', { shippingAddressId: 'address-2' }, { editedBy: 3 })).rejects.toThrow(
+        'Shipping address must belong to the customer of the order'
+      );
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave the order untouched when the extra stock is not available', async () => {
+      mockServices['api::inventory.inventory'].reserveOrderStock.mockRejectedValue(
+        new Error('Insufficient available inventory for reservation')
+      );
+
+      await expect(service.editOrder('order-1', {
+        items: [{ action: 'update', orderItemId: 'item-2', quantity: 5 }],
+      }, { editedBy: 3 })).rejects.toThrow('Insufficient available inventory for reservation');
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+      expect(mockServices['api::inventory.inventory'].reduceOrderStock).not.toHaveBeenCalled();
+    });
+
+    it('should only edit pending or confirmed orders', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...order, status: 'shipping' });
+
+      await expect(service.editOrder('order-1', {
+        items: [{ action: 'remove', orderItemId: 'item-2' }],
+      }, { editedBy: 3 })).rejects.toThrow('Only pending or confirmed orders can be edited');
+    });
+
+    it('should keep at least one item on the order', async () => {
+      await expect(service.editOrder('order-1', {
+        items: [
+          { action: 'remove', orderItemId: 'item-1' },
+          { action: 'update', orderItemId: 'item-2', quantity: 0 },
+        ],
+      }, { editedBy: 3 })).rejects.toThrow('Order must keep at least one item');
+    });
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * Order Editing Service
+ * Changes the items and shipping address of placed orders. Totals are
+ * recalculated with the checkout rules, stock reservations follow the new
+ * quantities and the difference with what was paid is collected or refunded.
+ */
+
+import { ORDER_EDIT_CONFIG } from '../../../../config/constant';
+import { CurrencyQuote, convertAmount, toBaseAmount } from '../../currency/services/currency';
+import { getPrice } from '../../../utils/price';
+
+export type OrderItemChange =
+  | { action: 'add'; productListingId: string; variantId?: string; quantity: number }
+  | { action: 'update'; orderItemId: string; quantity?: number; variantId?: string }
+  | { action: 'remove'; orderItemId: string };
+
+export interface OrderEdit {
+  items?: OrderItemChange[];
+  shippingAddressId?: string;
+}
+
+export interface OrderEditOptions {
+  editedBy: string | null;
+  reason?: string;
+  source?: 'admin' | 'customer';
+}
+
+export interface OrderEditSettlement {
+  type: 'none' | 'payment' | 'refund';
+  amount: number; // in the order currency
+  refundId?: string;
+}
+
+export interface OrderEditResult {
+  order: any;
+  previousTotal: number;
+  total: number;
+  settlement: OrderEditSettlement;
+}
+
+interface EditLine {
+  orderItemId?: string;
+  product: any;
+  productListing: any;
+  variant: any;
+  quantity: number;
+  previousQuantity: number;
+  previousVariantId?: string;
+  price: number; // in the base currency
+  chargedPrice: number; // price the customer was charged for the previous quantity, in the base currency
+  changed: boolean;
+}
+
+const stockKey = (productId?: string, variantId?: string) => `${productId || ''}:${variantId || ''}`;
+
+const isQuantity = (quantity: any) => Number.isInteger(quantity) && quantity >= 0;
+
+/**
+ * Price a line after its quantity or variant changed: the units the customer
+ * was charged for keep their price and added units get the current price,
+ * a line switched to another variant is priced at the current price of that variant
+ */
+const repriceLine = (line: EditLine, currentPrice: number) => {
+  const keptQuantity = line.previousVariantId ? 0 : Math.min(line.previousQuantity, line.quantity);
+  line.price = line.quantity > 0
+    ? (line.chargedPrice * keptQuantity + currentPrice * (line.quantity - keptQuantity)) / line.quantity
+    : currentPrice;
+};
+
+export default {
+  /**
+   * Edit the items and shipping address of an order
+   *
+   * Added units are priced at the current price, the units the customer was
+   * charged for keep their price. Extra stock is
+   * reserved before anything is written, so an edit fails as a whole when
+   * an item is out of stock.
+   * @throws Error when the order does not exist, cannot be edited or the edit is invalid
+   */
+  async editOrder(orderId: string, edit: OrderEdit, options: OrderEditOptions): Promise<OrderEditResult> {
+    const order: any = await strapi.documents('api::order.order').findOne({
+      documentId: orderId,
+      populate: {
+        user: true,
+        shippingAddress: true,
+        items: { populate: { product: true, productListing: true, variant: true } },
+        payments: true
+      }
+    });
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (!ORDER_EDIT_CONFIG.editableStatuses.includes(order.status)) {
+      throw new Error(`Only ${ORDER_EDIT_CONFIG.editableStatuses.join(' or ')} orders can be edited`);
+    }
+    if (!edit.items?.length && !edit.shippingAddressId) {
+      throw new Error('Order edit has no changes');
+    }
+
+    const quote = await this.getOrderQuote(order);
+    const lines = await this.applyItemChanges(order, edit.items || [], quote);
+    const shippingAddress = edit.shippingAddressId
+      ? await this.getShippingAddress(order, edit.shippingAddressId)
+      : order.shippingAddress;
+    const totals = await this.calculateTotals(order, lines, shippingAddress, quote);
+
+    await this.adjustStock(order, lines, shippingAddress, options);
+    await this.saveItems(order, lines, totals.taxLines, quote);
+
+    const previousTotal = Number(order.total) || 0;
+    const updatedOrder = await strapi.documents('api::order.order').update({
+      documentId: orderId,
+      data: {
+        subtotal: totals.subtotal,
+        tax: totals.tax,
+        shipping: totals.shipping,
+        discount: totals.discount,
+        total: totals.total,
+        ...(edit.shippingAddressId ? { shippingAddress: shippingAddress.documentId } : {}),
+        metadata: {
+          ...(order.metadata as any),
+          tax: { pricesIncludeTax: totals.pricesIncludeTax, location: totals.location },
+          edits: [
+            ...((order.metadata as any)?.edits || []),
+            {
+              editedAt: new Date().toISOString(),
+              editedBy: options.editedBy,
+              reason: options.reason || null,
+              previousTotal,
+              total: totals.total
+            }
+          ]
+        }
+      } as any
+    });
+
+    const settlement = await this.settleDifference(order, totals.total, options);
+    await this.recordChanges(order, lines, shippingAddress, edit, previousTotal, totals.total, options);
+
+    return {
+      order: settlement.type === 'payment'
+        ? await strapi.documents('api::order.order').findOne({ documentId: orderId })
+        : updatedOrder,
+      previousTotal,
+      total: totals.total,
+      settlement
+    };
+  },
+
+  /**
+   * Get the conversion of the order, at the exchange rate the order was placed with
+   */
+  async getOrderQuote(order: any): Promise<CurrencyQuote> {
+    const currencyService = strapi.service('api::currency.currency');
+    const quote: CurrencyQuote = await currencyService.getQuote(order.currency)
+      .catch(() => currencyService.getQuote());
+    return quote.currency === order.currency && order.exchangeRate
+      ? { ...quote, exchangeRate: Number(order.exchangeRate) }
+      : quote;
+  },
+
+  /**
+   * Apply the item changes to the lines of the order
+   * @throws Error when a change refers to an unknown item, listing or variant or has an invalid quantity
+   */
+  async applyItemChanges(order: any, changes: OrderItemChange[], quote: CurrencyQuote): Promise<EditLine[]> {
+    const lines: EditLine[] = (order.items || []).map((item: any) => ({
+      orderItemId: item.documentId,
+      product: item.product,
+      productListing: item.productListing,
+      variant: item.variant,
+      quantity: item.quantity,
+      previousQuantity: item.quantity,
+      price: toBaseAmount(Number(item.price) || 0, quote),
+      chargedPrice: toBaseAmount(Number(item.price) || 0, quote),
+      changed: false
+    }));
+
+    for (const change of changes) {
+      if (change.action === 'add') {
+        if (!isQuantity(change.quantity) || change.quantity === 0) {
+          throw new Error('Quantity must be a whole number greater than 0');
+        }
+        const { productListing, variant } = await this.getListingVariant(change.productListingId, change.variantId);
+        const existing = lines.find((line) =>
+          line.productListing?.documentId === productListing.documentId &&
+          (line.variant?.documentId || null) === (variant?.documentId || null)
+        );
+        const price = getPrice(variant || productListing);
+        if (existing) {
+          existing.quantity += change.quantity;
+          repriceLine(existing, price);
+          existing.changed = true;
+        } else {
+          lines.push({
+            product: variant?.product || productListing.product,
+            productListing,
+            variant,
+            quantity: change.quantity,
+            previousQuantity: 0,
+            price,
+            chargedPrice: price,
+            changed: true
+          });
+        }
+        continue;
+      }
+
+      const line = lines.find((candidate) => candidate.orderItemId === change.orderItemId);
+      if (!line) {
+        throw new Error(`Order item ${change.orderItemId} not found`);
+      }
+
+      if (change.action === 'remove') {
+        line.quantity = 0;
+        line.changed = true;
+        continue;
+      }
+
+      if (change.quantity !== undefined) {
+        if (!isQuantity(change.quantity)) {
+          throw new Error('Quantity must be a whole number of 0 or more');
+        }
+        line.quantity = change.quantity;
+      }
+      if (change.variantId && change.variantId !== line.variant?.documentId) {
+        const { variant } = await this.getListingVariant(line.productListing?.documentId, change.variantId);
+        line.previousVariantId = line.variant?.documentId;
+        line.variant = variant;
+        line.product = variant.product || line.product;
+      }
+      repriceLine(line, getPrice(line.variant || line.productListing));
+      line.changed = true;
+    }
+
+    if (!lines.some((line) => line.quantity > 0)) {
+      throw new Error('Order must keep at least one item');
+    }
+    return lines;
+  },
+
+  /**
+   * Get an active product listing and one of its variants, required for variant listings
+   */
+  async getListingVariant(productListingId: string, variantId?: string): Promise<{ productListing: any; variant: any }> {
+    const productListing = await strapi.documents('api::product-listing.product-listing').findOne({
+      documentId: productListingId,
+      status: 'published',
+      populate: { product: true }
+    });
+    if (!productListing || productListing.isActive === false) {
+      throw new Error(`Product listing ${productListingId} not found`);
+    }
+    if (productListing.type === 'variant' && !variantId) {
+      throw new Error(`Variant is required for product listing ${productListingId}`);
+    }
+    if (!variantId) {
+      return { productListing, variant: null };
+    }
+
+    const variant = await strapi.documents('api::product-listing-variant.product-listing-variant').findOne({
+      documentId: variantId,
+      populate: { product: true, productListing: true }
+    });
+    if (!variant || variant.productListing?.documentId !== productListing.documentId) {
+      throw new Error(`Variant ${variantId} not found for product listing ${productListingId}`);
+    }
+    return { productListing, variant };
+  },
+
+  /**
+   * Get the new shipping address, it has to belong to the customer of the order
+   */
+  async getShippingAddress(order: any, addressId: string): Promise<any> {
+    const address = await strapi.documents('api::address.address').findOne({
+      documentId: addressId,
+      populate: ['user']
+    });
+    if (!address) {
+      throw new Error('Shipping address not found');
+    }
+    const belongsToCustomer = order.user
+      ? address.user?.id === order.user.id
+      : !!order.sessionId && address.sessionId === order.sessionId;
+    if (!belongsToCustomer) {
+      throw new Error('Shipping address must belong to the customer of the order');
+    }
+    return address;
+  },
+
+  /**
+   * Recalculate the order totals with the checkout rules, amounts are returned in the order currency
+   * @throws Error when the shipping method is no longer available or the totals do not add up
+   */
+  async calculateTotals(order: any, lines: EditLine[], shippingAddress: any, quote: CurrencyQuote) {
+    const items = lines
+      .filter((line) => line.quantity > 0)
+      .map((line) => ({
+        product: line.product,
+        productListing: line.productListing,
+        variant: line.variant,
+        quantity: line.quantity,
+        price: line.price,
+        total: line.price * line.quantity
+      }));
+    const cartCalculationService = strapi.service('api::cart.cart-calculation');
+    const subtotal = cartCalculationService.calculateSubtotal(items);
+
+    const shippingQuote = await strapi.service('api::shipping.shipping').quoteShipping({
+      items,
+      shippingAddress,
+      shippingMethod: order.shippingMethod
+    });
+    if (!shippingQuote) {
+      throw new Error('Shipping method is not available for the shipping address');
+    }
+    const shipping = shippingQuote.price;
+
+    // The discount code was redeemed with the order, its limits are not checked again
+    let discount = 0;
+    const promotionId = (order.metadata as any)?.promotion?.documentId;
+    if (promotionId) {
+      const promotion = await strapi.documents('api::promotion.promotion').findOne({ documentId: promotionId });
+      if (promotion) {
+        const calculation = await strapi.service('api::promotion.promotion').calculatePromotionDiscount(promotion, items, shipping);
+        discount = Math.min(calculation.discount, subtotal + shipping);
+      }
+    }
+
+    const taxCalculation = await strapi.service('api::tax.tax').calculateTax({ items, shippingAddress });
+    const converted = {
+      subtotal: convertAmount(subtotal, quote),
+      tax: convertAmount(taxCalculation.tax, quote),
+      shipping: convertAmount(shipping, quote),
+      discount: convertAmount(discount, quote)
+    };
+    const total = Math.max(0, converted.subtotal + (taxCalculation.pricesIncludeTax ? 0 : converted.tax) +
+      converted.shipping - converted.discount);
+
+    const isValid = cartCalculationService.validateCalculation({
+      ...converted,
+      total,
+      currency: quote.currency,
+      baseCurrency: quote.baseCurrency,
+      exchangeRate: quote.exchangeRate,
+      taxRate: 0,
+      pricesIncludeTax: taxCalculation.pricesIncludeTax,
+      itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+      calculationTimestamp: new Date()
+    });
+    if (!isValid) {
+      throw new Error('Order totals could not be recalculated');
+    }
+
+    // tax lines follow the lines still on the order
+    const taxLines: Record<number, any> = {};
+    lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => line.quantity > 0)
+      .forEach(({ index }, position) => {
+        taxLines[index] = taxCalculation.lines[position];
+      });
+
+    return {
+      ...converted,
+      total,
+      pricesIncludeTax: taxCalculation.pricesIncludeTax,
+      location: taxCalculation.location,
+      taxLines
+    };
+  },
+
+  /**
+   * Reserve the extra stock the order needs, then give back what it no longer needs
+   */
+  async adjustStock(order: any, lines: EditLine[], shippingAddress: any, options: OrderEditOptions): Promise<void> {
+    const quantities = new Map<string, { productId?: string; variantId?: string; delta: number }>();
+    const addQuantity = (productId: string | undefined, variantId: string | undefined, delta: number) => {
+      const key = stockKey(productId, variantId);
+      const entry = quantities.get(key) || { productId, variantId, delta: 0 };
+      entry.delta += delta;
+      quantities.set(key, entry);
+    };
+
+    for (const line of lines) {
+      const productId = line.product?.documentId;
+      if (line.previousQuantity > 0) {
+        addQuantity(productId, line.previousVariantId || line.variant?.documentId, -line.previousQuantity);
+      }
+      if (line.quantity > 0) {
+        addQuantity(productId, line.variant?.documentId, line.quantity);
+      }
+    }
+
+    const entries = Array.from(quantities.values());
+    const inventoryService = strapi.service('api::inventory.inventory');
+    const increases = entries.filter((entry) => entry.delta > 0);
+    if (increases.length > 0) {
+      await inventoryService.reserveOrderStock(
+        increases.map((entry) => ({ productId: entry.productId, variantId: entry.variantId, quantity: entry.delta })),
+        {
+          orderId: order.documentId,
+          customerId: order.user?.id || null,
+          sessionId: order.user ? null : order.sessionId,
+          shippingAddress
+        }
+      );
+    }
+
+    const reason = `Order ${order.orderNumber} edited${options.reason ? `: ${options.reason}` : ''}`;
+    for (const entry of entries.filter((candidate) => candidate.delta < 0)) {
+      await inventoryService.reduceOrderStock(
+        order.documentId,
+        { productId: entry.productId, variantId: entry.variantId, quantity: -entry.delta },
+        reason
+      );
+    }
+  },
+
+  /**
+   * Write the lines back to the order items, removed lines are deleted
+   */
+  async saveItems(order: any, lines: EditLine[], taxLines: Record<number, any>, quote: CurrencyQuote): Promise<void> {
+    for (const [index, line] of lines.entries()) {
+      if (!line.changed) {
+        continue;
+      }
+      if (line.quantity === 0) {
+        await strapi.documents('api::order.order-item').delete({ documentId: line.orderItemId });
+        continue;
+      }
+
+      const data = {
+        product: line.product?.documentId,
+        productListing: line.productListing?.documentId,
+        variant: line.variant?.documentId || null,
+        quantity: line.quantity,
+        price: convertAmount(line.price, quote),
+        subtotal: convertAmount(line.price * line.quantity, quote),
+        tax: convertAmount(taxLines[index]?.tax || 0, quote),
+        metadata: { taxRates: taxLines[index]?.rates || [] }
+      };
+      if (line.orderItemId) {
+        await strapi.documents('api::order.order-item').update({ documentId: line.orderItemId, data: data as any });
+      } else {
+        await strapi.documents('api::order.order-item').create({ data: { ...data, order: order.documentId } as any });
+      }
+    }
+  },
+
+  /**
+   * Collect or refund the difference between the new total and what the customer paid
+   *
+   * The balance is the new total less what was captured and not refunded.
+   * Orders owing more go back to a pending payment for the balance, orders
+   * now costing less get a partial refund request to approve, and a balance
+   * left due by an earlier edit is updated or cleared. Orders that were
+   * never paid are paid at their new total.
+   */
+  async settleDifference(order: any, total: number, options: OrderEditOptions): Promise<OrderEditSettlement> {
+    const refundService = strapi.service('api::refund.refund');
+    const summary = refundService.getRefundableSummary(order, await refundService.getCommittedRefunds(order.documentId));
+    const metadata = await this.getMetadata(order.documentId);
+    const previousBalanceDue = Number(metadata.balanceDue) || 0;
+    if (summary.capturedAmount === 0 && !previousBalanceDue) {
+      return { type: 'none', amount: 0 };
+    }
+
+    const balance = total - summary.refundableAmount;
+    const balanceDue = Math.max(0, balance);
+    if (balanceDue !== previousBalanceDue) {
+      const { balanceDue: _previous, ...rest } = metadata;
+      const paymentStatus = balanceDue > 0 ? 'pending' : 'paid';
+      await strapi.documents('api::order.order').update({
+        documentId: order.documentId,
+        data: {
+          paymentStatus,
+          metadata: balanceDue > 0 ? { ...rest, balanceDue } : rest
+        } as any
+      });
+      await strapi.service('api::order.order-history').recordPaymentUpdate(
+        order.documentId,
+        { paymentStatus: order.paymentStatus, ...(previousBalanceDue ? { balanceDue: previousBalanceDue } : {}) },
+        { paymentStatus, ...(balanceDue ? { balanceDue } : {}) },
+        options.editedBy,
+        options.source || 'admin'
+      );
+    }
+
+    if (balance > 0) {
+      return { type: 'payment', amount: balance };
+    }
+
+    if (balance < 0) {
+      const refund = await refundService.requestRefund(order.documentId, {
+        type: 'partial',
+        amount: -balance,
+        reasonCode: 'other',
+        reason: `Order ${order.orderNumber} edited${options.reason ? `: ${options.reason}` : ''}`
+      }, options.editedBy);
+      return { type: 'refund', amount: -balance, refundId: refund.documentId };
+    }
+
+    return { type: 'none', amount: 0 };
+  },
+
+  /**
+   * Get the current metadata of an order, after the edit wrote it
+   */
+  async getMetadata(orderId: string): Promise<any> {
+    const order = await strapi.documents('api::order.order').findOne({ documentId: orderId });
+    return (order?.metadata as any) || {};
+  },
+
+  /**
+   * Record every item and address change on the order history
+   */
+  async recordChanges(
+    order: any,
+    lines: EditLine[],
+    shippingAddress: any,
+    edit: OrderEdit,
+    previousTotal: number,
+    total: number,
+    options: OrderEditOptions
+  ): Promise<void> {
+    const orderHistoryService = strapi.service('api::order.order-history');
+    const source = options.source || 'admin';
+
+    for (const line of lines.filter((candidate) => candidate.changed)) {
+      await orderHistoryService.recordHistoryEvent({
+        orderId: order.documentId,
+        eventType: 'item_modified',
+        previousValue: line.previousQuantity > 0
+          ? { orderItemId: line.orderItemId, quantity: line.previousQuantity, variant: line.previousVariantId || line.variant?.documentId || null }
+          : null,
+        newValue: line.quantity > 0
+          ? { quantity: line.quantity, variant: line.variant?.documentId || null, productListing: line.productListing?.documentId }
+          : null,
+        changedBy: options.editedBy,
+        changeReason: options.reason || 'Order items edited',
+        changeSource: source,
+        affectedFields: ['items', 'subtotal', 'tax', 'shipping', 'discount', 'total'],
+        isCustomerVisible: true,
+        priority: 'normal',
+        metadata: { previousTotal, total }
+      });
+    }
+
+    if (edit.shippingAddressId) {
+      await orderHistoryService.recordAddressChange(
+        order.documentId,
+        'shipping',
+        order.shippingAddress?.documentId || null,
+        shippingAddress.documentId,
+        options.editedBy,
+        source
+      );
+    }
+  },
+};
@@ -0,0 +1,254 @@
+/**
+ * Order Fulfillment Service tests
+ *
+ * Tests split shipments, the quantities left to ship and the order moving
+ * to shipping and delivered with its last parcel
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import orderFulfillmentService from './order-fulfillment';
+
+const mockDocumentMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  create: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockServices: Record<string, any> = {
+  'api::order.order-state-machine': {
+    checkTransition: jest.fn() as jest.MockedFunction<any>,
+    transition: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::order.order-tracking': {
+    recordTracking: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+// Mock knex query builder of the fulfillment number counter
+const mockSequenceQuery: any = {
+  where: jest.fn(() => mockSequenceQuery),
+  transacting: jest.fn(() => mockSequenceQuery),
+  update: jest.fn() as jest.MockedFunction<any>,
+  first: jest.fn() as jest.MockedFunction<any>,
+};
+const mockConnection: any = Object.assign(jest.fn(() => mockSequenceQuery), {
+  raw: jest.fn((sql: string, bindings: any[]) => ({ sql, bindings })),
+});
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  db: {
+    transaction: jest.fn(async (callback: any) => callback({ trx: null })),
+    metadata: {
+      get: jest.fn(() => ({ tableName: 'orders', attributes: {} })),
+    },
+    connection: mockConnection,
+  },
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+(global as any).strapi = mockStrapi;
+
+describe('Order Fulfillment Service', () => {
+  let service: any;
+
+  const order = {
+    documentId: 'order-1',
+    orderNumber: 'ORD2601ABCD',
+    status: 'processing',
+    paymentStatus: 'paid',
+    items: [
+      { documentId: 'item-1', quantity: 2 },
+      { documentId: 'item-2', quantity: 1 },
+      { documentId: 'item-3', quantity: 1, isDigital: true },
+    ],
+    fulfillments: [],
+  };
+
+  const shipment = { trackingNumber: 'TRK2', carrier: 'ups' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+    mockDocumentMethods.create.mockImplementation(async ({ data }: any) => ({ documentId: 'fulfillment-1', ...data }));
+    mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({ documentId, ...data }));
+    mockServices['api::order.order-state-machine'].checkTransition.mockReturnValue({ isValid: true, errors: [] });
+    mockServices['api::order.order-tracking'].recordTracking.mockResolvedValue({ documentId: 'tracking-2', trackingNumber: 'TRK2' });
+    mockSequenceQuery.update.mockReset();
+    mockSequenceQuery.update.mockResolvedValue(1);
+    mockSequenceQuery.first.mockReset();
+    mockSequenceQuery.first.mockResolvedValue({ fulfillmentCount: 1 });
+
+    service = { ...orderFulfillmentService };
+    Object.keys(service).forEach(key => {
+      if (typeof service[key] === 'function') {
+        service[key] = service[key].bind(service);
+      }
+    });
+  });
+
+  describe('createFulfillment', () => {
+    it('should ship part of the order and keep it processing', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(order);
+
+      const fulfillment = await service.createFulfillment('order-1', {
+        ...shipment,
+        items: [{ orderItemId: 'item-1', quantity: 1 }],
+      }, 3);
+
+      expect(mockServices['api::order.order-tracking'].recordTracking).toHaveBeenCalledWith(expect.objectContaining({
+        orderId: 'order-1',
+        trackingNumber: 'TRK2',
+        carrier: 'ups',
+        direction: 'outbound',
+      }));
+      expect(mockStrapi.db.transaction).toHaveBeenCalled();
+      expect(mockSequenceQuery.update).toHaveBeenCalledWith({
+        fulfillmentCount: { sql: 'COALESCE(??, 0) + 1', bindings: ['fulfillmentCount'] },
+      });
+      expect(fulfillment).toMatchObject({
+        fulfillmentNumber: 'ORD2601ABCD-F1',
+        status: 'shipped',
+        items: [{ orderItemId: 'item-1', quantity: 1 }],
+        tracking: { documentId: 'tracking-2' },
+      });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'order-1',
+        data: { trackingNumber: 'TRK2', fulfillmentStatus: 'partially_fulfilled' },
+      });
+      expect(mockServices['api::order.order-state-machine'].transition).not.toHaveBeenCalled();
+    });
+
+    it('should move the order to shipping with the parcel holding its last items', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({
+        ...order,
+        fulfillmentStatus: 'partially_fulfilled',
+        fulfillments: [{ status: 'delivered', items: [{ orderItemId: 'item-1', quantity: 1 }] }],
+      });
+      mockSequenceQuery.first.mockResolvedValue({ fulfillmentCount: 2 });
+
+      const fulfillment = await service.createFulfillment('order-1', shipment, 3);
+
+      // digital items do not ship
+      expect(fulfillment.items).toEqual([{ orderItemId: 'item-1', quantity: 1 }, { orderItemId: 'item-2', quantity: 1 }]);
+      expect(fulfillment.fulfillmentNumber).toBe('ORD2601ABCD-F2');
+      expect(mockServices['api::order.order-state-machine'].transition).toHaveBeenCalledWith('order-1', 'shipping', expect.objectContaining({
+        role: 'system',
+        userId: 3,
+        data: { trackingNumber: 'TRK2', fulfillmentStatus: 'partially_delivered' },
+      }));
+    });
+
+    it('should not ship more than is left to ship', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({
+        ...order,
+        fulfillments: [{ status: 'shipped', items: [{ orderItemId: 'item-1', quantity: 1 }] }],
+      });
+
+      await expect(service.createFulfillment('order-1', {
+        ...shipment,
+        items: [{ orderItemId: 'item-1', quantity: 2 }],
+      }, 3)).rejects.toThrow('Fulfillment quantity for order item item-1 must be between 1 and 1');
+      expect(mockServices['api::order.order-tracking'].recordTracking).not.toHaveBeenCalled();
+    });
+
+    it('should number fulfillments of orders shipped before the counter after their fulfillments', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({
+        ...order,
+        fulfillments: [{ status: 'shipped', items: [{ orderItemId: 'item-1', quantity: 1 }] }],
+      });
+
+      const fulfillment = await service.createFulfillment('order-1', {
+        ...shipment,
+        items: [{ orderItemId: 'item-2', quantity: 1 }],
+      }, 3);
+
+      expect(fulfillment.fulfillmentNumber).toBe('ORD2601ABCD-F2');
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'order-1',
+        data: { trackingNumber: 'TRK2', fulfillmentStatus: 'partially_fulfilled', fulfillmentCount: 2 },
+      });
+    });
+
+    it('should not ship an order that does not exist', async () => {
+      mockSequenceQuery.update.mockResolvedValue(0);
+
+      await expect(service.createFulfillment('order-9', shipment, 3)).rejects.toThrow('Order not found');
+      expect(mockServices['api::order.order-tracking'].recordTracking).not.toHaveBeenCalled();
+    });
+
+    it('should only ship orders that can be shipped', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...order, paymentStatus: 'pending' });
+      mockServices['api::order.order-state-machine'].checkTransition.mockReturnValue({
+        isValid: false,
+        errors: ['Order is not paid'],
+      });
+
+      await expect(service.createFulfillment('order-1', shipment, 3)).rejects.toThrow(
+        'Order cannot be shipped: Order is not paid'
+      );
+      expect(mockDocumentMethods.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncTracking', () => {
+    const tracking = { documentId: 'tracking-2', order: { documentId: 'order-1', status: 'shipping' } };
+    const delivered = new Date('2026-01-10T10:00:00Z');
+
+    it('should deliver the order with its last parcel', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue({ documentId: 'fulfillment-2', status: 'shipped' });
+      mockDocumentMethods.findOne.mockResolvedValue({
+        ...order,
+        status: 'shipping',
+        fulfillments: [
+          { status: 'delivered', items: [{ orderItemId: 'item-1', quantity: 2 }] },
+          { status: 'delivered', items: [{ orderItemId: 'item-2', quantity: 1 }] },
+        ],
+      });
+
+      const fulfillment = await service.syncTracking(tracking, 'delivered', delivered);
+
+      expect(fulfillment).toMatchObject({ documentId: 'fulfillment-2', status: 'delivered', deliveredAt: delivered });
+      expect(mockServices['api::order.order-state-machine'].transition).toHaveBeenCalledWith('order-1', 'delivered', expect.objectContaining({
+        data: { actualDelivery: delivered, fulfillmentStatus: 'delivered' },
+      }));
+    });
+
+    it('should keep the order shipping while parcels are on their way', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue({ documentId: 'fulfillment-1', status: 'shipped' });
+      mockDocumentMethods.findOne.mockResolvedValue({
+        ...order,
+        status: 'shipping',
+        fulfillments: [
+          { status: 'delivered', items: [{ orderItemId: 'item-1', quantity: 2 }] },
+          { status: 'shipped', items: [{ orderItemId: 'item-2', quantity: 1 }] },
+        ],
+      });
+
+      await service.syncTracking(tracking, 'delivered', delivered);
+
+      expect(mockServices['api::order.order-state-machine'].transition).not.toHaveBeenCalled();
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'order-1',
+        data: { fulfillmentStatus: 'partially_delivered' },
+      });
+    });
+
+    it('should deliver orders tracked before fulfillments existed', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(null);
+
+      await service.syncTracking(tracking, 'delivered', delivered);
+
+      expect(mockServices['api::order.order-state-machine'].transition).toHaveBeenCalledWith('order-1', 'delivered', expect.objectContaining({
+        data: { actualDelivery: delivered },
+      }));
+    });
+  });
+});
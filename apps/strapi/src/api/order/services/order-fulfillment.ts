@@ -0,0 +1,302 @@
+/**
+ * Order Fulfillment Service
+ * Ships orders in one or more parcels. A fulfillment groups quantities of
+ * order items under one tracking record, the order moves to shipping once
+ * every item shipped and to delivered once every parcel arrived.
+ */
+
+export type FulfillmentStatus =
+  | 'unfulfilled'
+  | 'partially_fulfilled'
+  | 'fulfilled'
+  | 'partially_delivered'
+  | 'delivered';
+
+export interface FulfillmentItem {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface FulfillmentRequest {
+  items?: FulfillmentItem[]; // every item left to ship by default
+  trackingNumber: string;
+  carrier: string;
+  carrierCode?: string;
+  estimatedDelivery?: Date;
+  packageWeight?: number;
+  packageDimensions?: any;
+  signatureRequired?: boolean;
+  webhookUrl?: string;
+}
+
+export interface FulfillmentSummary {
+  status: FulfillmentStatus;
+  isFulfilled: boolean; // every item shipped
+  items: Array<{ orderItemId: string; quantity: number; fulfilledQuantity: number; deliveredQuantity: number }>;
+}
+
+export default {
+  /**
+   * Ship order items with a tracking number
+   *
+   * The order has to be paid and processing. It stays processing until its
+   * last item ships, the shipment of the last item moves it to shipping.
+   * Runs in one transaction that starts by taking the next fulfillment
+   * number of the order, which locks the order row: concurrent shipments of
+   * an order wait for each other, and a failure leaves no tracking or
+   * fulfillment behind.
+   * @throws Error when the order does not exist, cannot ship or the quantities exceed what is left to ship
+   */
+  async createFulfillment(orderId: string, request: FulfillmentRequest, userId: string | null = null): Promise<any> {
+    if (!request.trackingNumber || !request.carrier) {
+      throw new Error('Tracking number and carrier are required');
+    }
+
+    return strapi.db.transaction(async ({ trx }: { trx: any }) => {
+      const sequence = await this.claimFulfillmentSequence(orderId, trx);
+      if (!sequence) {
+        throw new Error('Order not found');
+      }
+
+      // Read once the order is locked, so the items shipped by other fulfillments are seen
+      const order: any = await strapi.documents('api::order.order').findOne({
+        documentId: orderId,
+        populate: { items: true, fulfillments: true }
+      });
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      // Every parcel is held to the rules of shipping the whole order
+      const stateMachine = strapi.service('api::order.order-state-machine');
+      const check = stateMachine.checkTransition(order, 'shipping', {
+        role: 'system',
+        data: { trackingNumber: request.trackingNumber, fulfillmentStatus: 'fulfilled' }
+      });
+      if (!check.isValid) {
+        throw new Error(`Order cannot be shipped: ${check.errors.join(', ')}`);
+      }
+
+      const items = this.getFulfillmentItems(order, request.items);
+      const tracking = await strapi.service('api::order.order-tracking').recordTracking({
+        orderId,
+        trackingNumber: request.trackingNumber,
+        carrier: request.carrier,
+        carrierCode: request.carrierCode,
+        estimatedDelivery: request.estimatedDelivery,
+        packageWeight: request.packageWeight,
+        packageDimensions: request.packageDimensions,
+        signatureRequired: request.signatureRequired,
+        webhookUrl: request.webhookUrl,
+        direction: 'outbound'
+      });
+
+      // Orders shipped before the counter existed continue after their fulfillments
+      const number = Math.max(sequence, (order.fulfillments || []).length + 1);
+      const fulfillment = await strapi.documents('api::order.order-fulfillment').create({
+        data: {
+          fulfillmentNumber: `${order.orderNumber}-F${number}`,
+          order: orderId,
+          status: 'shipped',
+          items,
+          tracking: tracking.documentId,
+          fulfilledBy: userId,
+          shippedAt: new Date()
+        } as any
+      });
+
+      const summary = this.getFulfillmentSummary(order, [...(order.fulfillments || []), fulfillment]);
+      const data = {
+        trackingNumber: request.trackingNumber,
+        fulfillmentStatus: summary.status,
+        ...(number > sequence ? { fulfillmentCount: number } : {})
+      };
+      if (summary.isFulfilled) {
+        await stateMachine.transition(orderId, 'shipping', {
+          role: 'system',
+          userId,
+          reason: `Shipped with ${request.carrier} ${request.trackingNumber}`,
+          source: 'shipping_carrier',
+          automatedTrigger: 'tracking_created',
+          data
+        });
+      } else {
+        await strapi.documents('api::order.order').update({
+          documentId: orderId,
+          data
+        });
+      }
+
+      return { ...fulfillment, tracking };
+    });
+  },
+
+  /**
+   * Take the next fulfillment number of an order
+   *
+   * The counter is incremented with a single UPDATE, which holds the lock on
+   * the order row until the transaction ends.
+   * @returns The number taken, 0 when the order does not exist
+   */
+  async claimFulfillmentSequence(orderId: string, trx: any): Promise<number> {
+    const { tableName, attributes } = strapi.db.metadata.get('api::order.order');
+    const column = (name: string): string => (attributes as any)?.[name]?.columnName || name;
+    const { connection } = strapi.db;
+
+    let update = connection(tableName).where(column('documentId'), orderId);
+    let select = connection(tableName).where(column('documentId'), orderId);
+    if (trx) {
+      update = update.transacting(trx);
+      select = select.transacting(trx);
+    }
+
+    const updatedRows = await update.update({
+      [column('fulfillmentCount')]: connection.raw('COALESCE(??, 0) + 1', [column('fulfillmentCount')])
+    });
+    if (updatedRows === 0) {
+      return 0;
+    }
+
+    const row = await select.first(column('fulfillmentCount'));
+    return Number(row?.[column('fulfillmentCount')]) || 0;
+  },
+
+  /**
+   * Get the items of a new fulfillment, checked against the quantities left to ship
+   */
+  getFulfillmentItems(order: any, requested?: FulfillmentItem[]): FulfillmentItem[] {
+    const summary = this.getFulfillmentSummary(order, order.fulfillments || []);
+    const remaining = new Map(
+      summary.items.map((item) => [item.orderItemId, item.quantity - item.fulfilledQuantity])
+    );
+
+    const items = requested?.length
+      ? requested
+      : Array.from(remaining.entries())
+        .filter(([, quantity]) => quantity > 0)
+        .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+    if (items.length === 0) {
+      throw new Error('Order has no items left to ship');
+    }
+
+    const seen = new Set<string>();
+    for (const item of items) {
+      if (!remaining.has(item.orderItemId)) {
+        throw new Error(`Order item ${item.orderItemId} not found`);
+      }
+      if (seen.has(item.orderItemId)) {
+        throw new Error(`Order item ${item.orderItemId} is listed more than once`);
+      }
+      seen.add(item.orderItemId);
+
+      const left = remaining.get(item.orderItemId);
+      if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > left) {
+        throw new Error(`Fulfillment quantity for order item ${item.orderItemId} must be between 1 and ${left}`);
+      }
+    }
+
+    return items.map((item) => ({ orderItemId: item.orderItemId, quantity: item.quantity }));
+  },
+
+  /**
+   * Get the shipped and delivered quantities of every item of an order, digital items do not ship
+   */
+  getFulfillmentSummary(order: any, fulfillments: any[]): FulfillmentSummary {
+    const fulfilled: Record<string, number> = {};
+    const delivered: Record<string, number> = {};
+    for (const fulfillment of fulfillments) {
+      for (const item of (fulfillment.items as FulfillmentItem[]) || []) {
+        fulfilled[item.orderItemId] = (fulfilled[item.orderItemId] || 0) + item.quantity;
+        if (fulfillment.status === 'delivered') {
+          delivered[item.orderItemId] = (delivered[item.orderItemId] || 0) + item.quantity;
+        }
+      }
+    }
+
+    const items = (order.items || [])
+      .filter((item: any) => !item.isDigital)
+      .map((item: any) => ({
+        orderItemId: item.documentId,
+        quantity: item.quantity,
+        fulfilledQuantity: fulfilled[item.documentId] || 0,
+        deliveredQuantity: delivered[item.documentId] || 0
+      }));
+
+    const total = items.reduce((sum, item) => sum + item.quantity, 0);
+    const totalFulfilled = items.reduce((sum, item) => sum + Math.min(item.fulfilledQuantity, item.quantity), 0);
+    const totalDelivered = items.reduce((sum, item) => sum + Math.min(item.deliveredQuantity, item.quantity), 0);
+
+    // deliveries only count once every item shipped, until then the order is being fulfilled
+    const isFulfilled = total > 0 && totalFulfilled === total;
+    let status: FulfillmentStatus = totalFulfilled > 0 ? 'partially_fulfilled' : 'unfulfilled';
+    if (isFulfilled && totalDelivered === total) {
+      status = 'delivered';
+    } else if (isFulfilled && totalDelivered > 0) {
+      status = 'partially_delivered';
+    } else if (isFulfilled) {
+      status = 'fulfilled';
+    }
+
+    return { status, isFulfilled, items };
+  },
+
+  /**
+   * Follow a tracking update on the fulfillment of the parcel
+   *
+   * A delivered parcel delivers its fulfillment, the order is delivered with
+   * its last parcel. Tracking records created before fulfillments existed
+   * deliver the order directly.
+   */
+  async syncTracking(tracking: any, status: string, timestamp: Date): Promise<any> {
+    if (status !== 'delivered') {
+      return null;
+    }
+
+    const fulfillment = await strapi.documents('api::order.order-fulfillment').findFirst({
+      filters: { tracking: { documentId: tracking.documentId } } as any
+    });
+    if (!fulfillment) {
+      if (tracking.order.status === 'shipping') {
+        await this.deliverOrder(tracking.order.documentId, timestamp);
+      }
+      return null;
+    }
+    if (fulfillment.status === 'delivered') {
+      return fulfillment;
+    }
+
+    const deliveredFulfillment = await strapi.documents('api::order.order-fulfillment').update({
+      documentId: fulfillment.documentId,
+      data: { status: 'delivered', deliveredAt: timestamp }
+    });
+
+    const order: any = await strapi.documents('api::order.order').findOne({
+      documentId: tracking.order.documentId,
+      populate: { items: true, fulfillments: true }
+    });
+    const summary = this.getFulfillmentSummary(order, order.fulfillments || []);
+    if (summary.status === 'delivered' && order.status === 'shipping') {
+      await this.deliverOrder(order.documentId, timestamp, summary.status);
+    } else {
+      await strapi.documents('api::order.order').update({
+        documentId: order.documentId,
+        data: { fulfillmentStatus: summary.status }
+      });
+    }
+
+    return deliveredFulfillment;
+  },
+
+  /**
+   * Move a shipped order to delivered
+   */
+  async deliverOrder(orderId: string, timestamp: Date, fulfillmentStatus?: FulfillmentStatus): Promise<any> {
+    return strapi.service('api::order.order-state-machine').transition(orderId, 'delivered', {
+      role: 'system',
+      reason: 'Package delivered',
+      source: 'shipping_carrier',
+      automatedTrigger: 'tracking_delivered',
+      data: { actualDelivery: timestamp, ...(fulfillmentStatus ? { fulfillmentStatus } : {}) }
+    });
+  },
+};
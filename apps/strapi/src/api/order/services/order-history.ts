@@ -166,7 +166,7 @@ export default {
   /**
    * Record address change event
    */
-  async recordAddressChange(orderId: string, addressType: 'shipping' | 'billing', previousAddress: any, newAddress: any, userId: string) {
+  async recordAddressChange(orderId: string, addressType: 'shipping' | 'billing', previousAddress: any, newAddress: any, userId: string, source: HistoryEvent['changeSource'] = 'customer') {
     const event: HistoryEvent = {
       orderId,
       eventType: 'address_changed',
@@ -174,7 +174,7 @@ export default {
       newValue: { [addressType]: newAddress },
       changedBy: userId,
       changeReason: `${addressType} address updated`,
-      changeSource: 'customer',
+      changeSource: source,
       affectedFields: [`${addressType}Address`],
       isCustomerVisible: true,
       priority: 'normal'
@@ -203,6 +203,38 @@ export default {
     return this.recordHistoryEvent(event);
   },
 
+  /**
+   * Record refund processed event
+   */
+  async recordRefund(orderId: string, refund: any, userId: string, source: string) {
+    const event: HistoryEvent = {
+      orderId,
+      eventType: 'refund_processed',
+      newValue: {
+        refundId: refund.documentId,
+        type: refund.type,
+        amount: refund.amount,
+        itemsAmount: refund.itemsAmount,
+        shippingAmount: refund.shippingAmount,
+        taxAmount: refund.taxAmount,
+        lines: refund.lines
+      },
+      changedBy: userId,
+      changeReason: refund.reason || refund.reasonCode,
+      changeSource: source as any,
+      affectedFields: ['paymentStatus'],
+      isCustomerVisible: true,
+      priority: 'high',
+      metadata: {
+        reasonCode: refund.reasonCode,
+        currency: refund.currency,
+        restock: refund.restock
+      }
+    };
+
+    return this.recordHistoryEvent(event);
+  },
+
   /**
    * Record fraud flag event
    */
@@ -0,0 +1,101 @@
+/**
+ * Order Reporting Service
+ * Aggregates order revenue, normalized to the base currency with the
+ * exchange rate snapshotted on each order
+ */
+
+import { toBaseAmount } from '../../currency/services/currency';
+
+interface RevenueQuery {
+  startDate?: Date;
+  endDate?: Date;
+  statuses?: string[];
+}
+
+interface CurrencyRevenue {
+  currency: string;
+  orderCount: number;
+  total: number;
+  baseTotal: number;
+}
+
+const REVENUE_STATUSES = ['confirmed', 'processing', 'shipping', 'delivered'];
+
+const toNumber = (value: any): number => {
+  const result = parseFloat(value);
+  return isNaN(result) ? 0 : result;
+};
+
+export default {
+  /**
+   * Get revenue per order currency and in total in the base currency
+   */
+  async getRevenueReport(query: RevenueQuery = {}) {
+    try {
+      const currencyService = strapi.service('api::currency.currency');
+      const baseCurrency = await currencyService.getBaseCurrency();
+
+      const filters: any = {
+        status: { $in: query.statuses?.length ? query.statuses : REVENUE_STATUSES },
+      };
+      if (query.startDate || query.endDate) {
+        filters.createdAt = {};
+        if (query.startDate) {
+          filters.createdAt.$gte = query.startDate;
+        }
+        if (query.endDate) {
+          filters.createdAt.$lte = query.endDate;
+        }
+      }
+
+      const orders = await strapi.documents('api::order.order').findMany({
+        filters,
+        fields: ['total', 'currency', 'baseCurrency', 'exchangeRate'],
+      });
+
+      const currencies = await strapi.documents('api::currency.currency').findMany({
+        fields: ['code', 'minorUnits', 'exchangeRate'],
+      });
+      const currencyByCode = new Map<string, any>(
+        currencies.map((currency: any) => [currency.code.toUpperCase(), currency])
+      );
+
+      const byCurrency = new Map<string, CurrencyRevenue>();
+      let baseTotal = 0;
+
+      for (const order of orders) {
+        const code = (order.currency || baseCurrency.code).toUpperCase();
+        const total = toNumber(order.total);
+        const currency = currencyByCode.get(code);
+
+        // Orders placed before exchange rates were snapshotted fall back to the current rate
+        const orderBaseTotal = code === (order.baseCurrency || baseCurrency.code)
+          ? total
+          : toBaseAmount(total, {
+              exchangeRate: toNumber(order.exchangeRate) || toNumber(currency?.exchangeRate),
+              minorUnits: currency?.minorUnits ?? 2,
+              baseMinorUnits: baseCurrency.minorUnits ?? 2,
+            });
+
+        const entry = byCurrency.get(code) || { currency: code, orderCount: 0, total: 0, baseTotal: 0 };
+        entry.orderCount += 1;
+        entry.total += total;
+        entry.baseTotal += orderBaseTotal;
+        byCurrency.set(code, entry);
+        baseTotal += orderBaseTotal;
+      }
+
+      return {
+        baseCurrency: baseCurrency.code,
+        orderCount: orders.length,
+        total: baseTotal,
+        currencies: Array.from(byCurrency.values()),
+        startDate: query.startDate || null,
+        endDate: query.endDate || null,
+      };
+    } catch (error) {
+      strapi.log.error('Error getting revenue report:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,233 @@
+/**
+ * Order State Machine Service tests
+ *
+ * Tests transition guards, roles and workflows, and the hooks run once an
+ * order moved
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import orderStateMachineService from './order-state-machine';
+
+const mockDocumentMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  create: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockServices: Record<string, any> = {
+  'api::order.order-history': {
+    recordStatusChange: jest.fn() as jest.MockedFunction<any>,
+    recordHistoryEvent: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::inventory.inventory': {
+    completeOrderReservations: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::notification.notification': {
+    notify: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+(global as any).strapi = mockStrapi;
+
+describe('Order State Machine Service', () => {
+  let service: any;
+
+  const processingOrder = {
+    documentId: 'order-1',
+    orderNumber: 'ORD2601ABCD',
+    status: 'processing',
+    paymentStatus: 'paid',
+    user: { id: 7, email: 'customer@example.com' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+    mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({ documentId, ...data }));
+    mockDocumentMethods.create.mockImplementation(async ({ data }: any) => ({ documentId: 'status-1', ...data }));
+    mockDocumentMethods.findMany.mockResolvedValue([]);
+    mockServices['api::notification.notification'].notify.mockResolvedValue({
+      deliveries: [{ channel: 'email', status: 'sent' }],
+      delivered: ['email'],
+    });
+
+    service = { ...orderStateMachineService };
+    Object.keys(service).forEach(key => {
+      if (typeof service[key] === 'function') {
+        service[key] = service[key].bind(service);
+      }
+    });
+  });
+
+  describe('checkTransition', () => {
+    it('should not ship orders that are not paid', () => {
+      const result = service.checkTransition(
+        { ...processingOrder, paymentStatus: 'pending' },
+        'shipping',
+        { role: 'admin', data: { trackingNumber: 'TRK123', fulfillmentStatus: 'fulfilled' } }
+      );
+
+      expect(result).toMatchObject({ isValid: false, errors: ['Order is not paid'] });
+    });
+
+    it('should only let allowed roles make a transition', () => {
+      const result = service.checkTransition({ ...processingOrder, status: 'pending' }, 'confirmed', { role: 'customer' });
+
+      expect(result.errors).toEqual(['Role customer cannot move orders from pending to confirmed']);
+    });
+
+    it('should leave workflow transitions to their workflow', () => {
+      expect(service.checkTransition(processingOrder, 'cancelled', { role: 'admin' }).errors).toEqual([
+        'Orders are moved to cancelled through the cancellation workflow',
+      ]);
+      expect(service.checkTransition(processingOrder, 'cancelled', { role: 'admin', workflow: 'cancellation' })).toMatchObject({
+        isValid: true,
+        warnings: ['Cancelling an order in progress may require inventory adjustments'],
+      });
+    });
+
+    it('should ship orders once every item shipped and not cancel them after', () => {
+      const partiallyShipped = { ...processingOrder, trackingNumber: 'TRK1', fulfillmentStatus: 'partially_fulfilled' };
+
+      expect(service.checkTransition(partiallyShipped, 'shipping', { role: 'admin' }).errors).toEqual([
+        'Order has items left to ship',
+      ]);
+      expect(service.checkTransition(partiallyShipped, 'cancelled', { role: 'admin', workflow: 'cancellation' }).errors).toEqual([
+        'Order has shipped items',
+      ]);
+    });
+
+    it('should not ship orders with a tracking number but no fulfillment', () => {
+      const result = service.checkTransition({ ...processingOrder, fulfillmentStatus: 'unfulfilled' }, 'shipping', {
+        role: 'admin',
+        data: { trackingNumber: 'TRK123' },
+      });
+
+      expect(result.errors).toEqual(['Order has items left to ship']);
+    });
+
+    it('should deliver orders with only digital items without shipping them', () => {
+      const digitalOrder = { ...processingOrder, items: [{ documentId: 'item-1', isDigital: true }] };
+      const mixedOrder = { ...processingOrder, items: [{ documentId: 'item-1', isDigital: true }, { documentId: 'item-2' }] };
+
+      expect(service.checkTransition(digitalOrder, 'delivered', { role: 'admin' }).isValid).toBe(true);
+      expect(service.checkTransition(mixedOrder, 'delivered', { role: 'admin' }).errors).toEqual(['Order has items to ship']);
+    });
+
+    it('should refuse transitions missing from the state machine', () => {
+      expect(service.checkTransition({ ...processingOrder, status: 'shipping' }, 'cancelled', {
+        role: 'admin',
+        workflow: 'cancellation',
+      }).errors).toEqual(['Invalid transition from shipping to cancelled']);
+    });
+  });
+
+  describe('transition', () => {
+    it('should ship the order, consume its reserved stock, notify the customer and record the status', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(processingOrder);
+
+      const order = await service.transition('order-1', 'shipping', {
+        role: 'system',
+        reason: 'Shipped with ups TRK123',
+        source: 'shipping_carrier',
+        automatedTrigger: 'tracking_created',
+        data: { trackingNumber: 'TRK123', fulfillmentStatus: 'fulfilled' },
+      });
+
+      expect(order).toMatchObject({ status: 'shipping', trackingNumber: 'TRK123' });
+      expect(mockServices['api::order.order-history'].recordStatusChange).toHaveBeenCalledWith(
+        'order-1', 'processing', 'shipping', null, 'Shipped with ups TRK123', 'shipping_carrier'
+      );
+      expect(mockServices['api::inventory.inventory'].completeOrderReservations).toHaveBeenCalledWith(
+        'order-1', 'Order ORD2601ABCD shipped', undefined
+      );
+      expect(mockServices['api::notification.notification'].notify).toHaveBeenCalledWith(expect.objectContaining({
+        template: 'order-shipped',
+        user: processingOrder.user,
+        email: 'customer@example.com',
+        reference: 'ORD2601ABCD',
+        data: expect.objectContaining({ orderNumber: 'ORD2601ABCD', trackingNumber: 'TRK123' }),
+      }));
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          order: 'order-1',
+          status: 'shipping',
+          previousStatus: 'processing',
+          statusReason: 'system_auto',
+          expectedDuration: 120,
+          notificationSent: true,
+          notificationMethod: 'email',
+          automatedTrigger: 'tracking_created',
+        }),
+      });
+    });
+
+    it('should turn the reserved stock into a sale once the order is paid', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...processingOrder, status: 'pending' });
+
+      await service.transition('order-1', 'confirmed', { role: 'admin', userId: 3, data: { paymentStatus: 'paid' } });
+
+      expect(mockServices['api::inventory.inventory'].completeOrderReservations).toHaveBeenCalledWith(
+        'order-1', 'Order ORD2601ABCD paid', 3
+      );
+    });
+
+    it('should not move the order when the transition is not allowed', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...processingOrder, paymentStatus: 'pending' });
+
+      await expect(service.transition('order-1', 'shipping', {
+        role: 'admin',
+        data: { trackingNumber: 'TRK123', fulfillmentStatus: 'fulfilled' },
+      })).rejects.toThrow('Order cannot move from processing to shipping: Order is not paid');
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the transition and flag the hooks that failed for follow-up', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...processingOrder, status: 'shipping', trackingNumber: 'TRK123' });
+      mockServices['api::notification.notification'].notify.mockResolvedValueOnce({
+        deliveries: [{ channel: 'email', status: 'failed', error: 'SMTP unavailable' }],
+        delivered: [],
+      });
+
+      const order = await service.transition('order-1', 'delivered', { role: 'admin', userId: 3 });
+
+      expect(order).toMatchObject({ status: 'delivered' });
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'delivered', notificationSent: false, statusReason: 'admin_action' }),
+      });
+      expect(mockServices['api::order.order-history'].recordHistoryEvent).toHaveBeenCalledWith(expect.objectContaining({
+        orderId: 'order-1',
+        eventType: 'system_action',
+        requiresFollowUp: true,
+        automatedAction: 'order_transition',
+        metadata: { from: 'shipping', to: 'delivered', errors: ['notifyCustomer: SMTP unavailable'] },
+      }));
+    });
+  });
+
+  describe('getAvailableTransitions', () => {
+    it('should list the next statuses with the reasons they are blocked', () => {
+      const transitions = service.getAvailableTransitions({ ...processingOrder, trackingNumber: null }, 'admin');
+
+      expect(transitions).toEqual([
+        { to: 'shipping', workflow: undefined, errors: ['Order has no tracking number', 'Order has items left to ship'] },
+        { to: 'delivered', workflow: undefined, errors: ['Order has items to ship'] },
+        { to: 'cancelled', workflow: 'cancellation', errors: [] },
+        { to: 'refunded', workflow: 'refund', errors: [] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Order State Machine Service
+ * Moves orders between statuses following the order state machine. Every
+ * status change goes through `transition`, which checks the role and the
+ * guards, updates the order, records it in the order history and runs the
+ * hooks of the transition.
+ */
+
+import { ORDER_STATE_MACHINE_CONFIG } from '../../../../config/constant';
+import {
+  ORDER_TRANSITIONS,
+  OrderStatus,
+  OrderTransition,
+  TransitionHook,
+  TransitionRole,
+  TransitionWorkflow
+} from '../state-machine/transitions';
+
+export interface TransitionOptions {
+  role: TransitionRole;
+  userId?: string | null;
+  reason?: string;
+  source?: string; // order history change source, the role by default
+  statusReason?: string; // order-status reason, derived from the role by default
+  workflow?: TransitionWorkflow;
+  automatedTrigger?: string;
+  data?: Record<string, any>; // other order fields changed with the status
+}
+
+export interface TransitionCheck {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  transition?: OrderTransition;
+}
+
+const STATUS_REASONS: Record<TransitionRole, string> = {
+  customer: 'customer_request',
+  admin: 'admin_action',
+  system: 'system_auto'
+};
+
+// notification template sent when the order moves to the status
+const NOTIFICATIONS: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'order-confirmed',
+  processing: 'order-processing',
+  shipping: 'order-shipped',
+  delivered: 'order-delivered'
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export default {
+  /**
+   * Get the transition between two statuses
+   */
+  getTransition(from: string, to: string): OrderTransition | undefined {
+    return ORDER_TRANSITIONS.find((transition) => transition.to === to && transition.from.includes(from as OrderStatus));
+  },
+
+  /**
+   * Check whether an order can move to a status, with the changed fields applied first
+   */
+  checkTransition(order: any, to: string, options: Pick<TransitionOptions, 'role' | 'workflow' | 'data'>): TransitionCheck {
+    const transition = this.getTransition(order.status, to);
+    if (!transition) {
+      return { isValid: false, errors: [`Invalid transition from ${order.status} to ${to}`], warnings: [] };
+    }
+
+    const errors: string[] = [];
+    if (!transition.roles.includes(options.role)) {
+      errors.push(`Role ${options.role} cannot move orders from ${order.status} to ${to}`);
+    }
+    if (transition.workflow && transition.workflow !== options.workflow) {
+      errors.push(`Orders are moved to ${to} through the ${transition.workflow} workflow`);
+    }
+
+    const candidate = { ...order, ...(options.data || {}) };
+    for (const guard of transition.guards || []) {
+      const error = guard.check(candidate);
+      if (error) {
+        errors.push(error);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: transition.warning ? [transition.warning] : [],
+      transition
+    };
+  },
+
+  /**
+   * Get the statuses an order can move to for a role, workflow transitions included
+   */
+  getAvailableTransitions(order: any, role: TransitionRole): Array<{ to: OrderStatus; workflow?: TransitionWorkflow; errors: string[] }> {
+    return ORDER_TRANSITIONS
+      .filter((transition) => transition.from.includes(order.status))
+      .map((transition) => {
+        const check = this.checkTransition(order, transition.to, { role, workflow: transition.workflow });
+        return { to: transition.to, workflow: transition.workflow, errors: check.errors };
+      });
+  },
+
+  /**
+   * Move an order to a status and run the hooks of the transition
+   *
+   * Hooks run after the order moved, a failing hook does not undo the
+   * transition: it is logged and recorded on the order history for follow-up.
+   * @throws Error when the order does not exist or cannot make the transition
+   */
+  async transition(orderId: string, to: string, options: TransitionOptions): Promise<any> {
+    const order = await strapi.documents('api::order.order').findOne({
+      documentId: orderId,
+      populate: ['user', 'items']
+    });
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const check = this.checkTransition(order, to, options);
+    if (!check.isValid) {
+      throw new Error(`Order cannot move from ${order.status} to ${to}: ${check.errors.join(', ')}`);
+    }
+
+    const updatedOrder = await strapi.documents('api::order.order').update({
+      documentId: orderId,
+      data: { ...(options.data || {}), status: to as OrderStatus }
+    });
+    await strapi.service('api::order.order-history').recordStatusChange(
+      orderId,
+      order.status,
+      to,
+      options.userId ?? null,
+      options.reason,
+      options.source || options.role
+    );
+
+    const movedOrder = { ...order, ...updatedOrder, user: order.user };
+    const errors: string[] = [];
+    let notified: string | false = false;
+    // the order-status row comes last, it records whether the customer was notified
+    const hooks: TransitionHook[] = check.transition.hooks.filter((hook) => hook !== 'recordStatus');
+    if (check.transition.hooks.includes('recordStatus')) {
+      hooks.push('recordStatus');
+    }
+    for (const hook of hooks) {
+      try {
+        const result = await this.runHook(hook, movedOrder, order.status, { ...options, notified });
+        notified = notified || (hook === 'notifyCustomer' && result);
+      } catch (error) {
+        errors.push(`${hook}: ${errorMessage(error)}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      strapi.log.error(`Order ${orderId} moved to ${to} with errors: ${errors.join('; ')}`);
+      await strapi.service('api::order.order-history').recordHistoryEvent({
+        orderId,
+        eventType: 'system_action',
+        changedBy: options.userId ?? null,
+        changeReason: `Some hooks of the transition to ${to} failed`,
+        changeSource: options.source || options.role,
+        isCustomerVisible: false,
+        priority: 'high',
+        requiresFollowUp: true,
+        automatedAction: 'order_transition',
+        metadata: { from: order.status, to, errors }
+      });
+    }
+
+    return updatedOrder;
+  },
+
+  /**
+   * Run a transition hook on the order that just moved
+   * @returns the channel the customer was notified on, for the notification hook
+   */
+  async runHook(hook: TransitionHook, order: any, from: string, options: TransitionOptions & { notified?: string | false }): Promise<string | false> {
+    switch (hook) {
+      case 'recordStatus':
+        await this.recordStatus(order, from, options, options.notified || false);
+        return false;
+      case 'notifyCustomer':
+        return ORDER_STATE_MACHINE_CONFIG.notifyCustomer ? this.notifyCustomer(order) : false;
+      case 'consumeStock':
+        await this.consumeStock(order, options);
+        return false;
+      default:
+        throw new Error(`Unknown transition hook ${hook}`);
+    }
+  },
+
+  /**
+   * Create the order-status row of the new status
+   */
+  async recordStatus(order: any, from: string, options: TransitionOptions, notified: string | false): Promise<any> {
+    return strapi.documents('api::order.order-status').create({
+      data: {
+        order: order.documentId,
+        status: order.status,
+        previousStatus: from,
+        statusReason: (options.statusReason || STATUS_REASONS[options.role]) as any,
+        notes: options.reason || null,
+        expectedDuration: ORDER_STATE_MACHINE_CONFIG.expectedDurations[order.status] ?? null,
+        notificationSent: !!notified,
+        notificationMethod: (notified || 'none') as any,
+        automatedTrigger: options.automatedTrigger || null,
+        customerVisible: true
+      } as any
+    });
+  },
+
+  /**
+   * Turn the stock reserved for the order into a sale, once it is paid and again when it ships
+   */
+  async consumeStock(order: any, options: TransitionOptions): Promise<void> {
+    const reason = order.status === 'shipping'
+      ? `Order ${order.orderNumber} shipped`
+      : `Order ${order.orderNumber} paid`;
+    await strapi.service('api::inventory.inventory').completeOrderReservations(
+      order.documentId,
+      reason,
+      options.userId ?? undefined
+    );
+  },
+
+  /**
+   * Notify the customer about the new status of the order
+   *
+   * Notifications held back for the customer's digest or skipped by their
+   * preferences do not count as notified.
+   * @returns the first channel the customer was notified on, false when there was none
+   * @throws Error when every channel the notification was attempted on failed
+   */
+  async notifyCustomer(order: any): Promise<string | false> {
+    const template = NOTIFICATIONS[order.status as OrderStatus];
+    if (!template) {
+      return false;
+    }
+
+    const email = await this.getCustomerEmail(order);
+    const result = await strapi.service('api::notification.notification').notify({
+      template,
+      user: order.user,
+      email: email || undefined,
+      reference: order.orderNumber,
+      data: {
+        orderNumber: order.orderNumber,
+        trackingNumber: order.trackingNumber || '',
+        total: order.total,
+        currency: order.currency
+      }
+    });
+
+    const customerDeliveries = result.deliveries.filter((delivery) => delivery.channel !== 'webhook');
+    const failed = customerDeliveries.filter((delivery) => delivery.status === 'failed');
+    if (failed.length > 0 && failed.length === customerDeliveries.length) {
+      throw new Error(failed[0].error);
+    }
+    return result.delivered.find((channel) => channel !== 'webhook') || false;
+  },
+
+  /**
+   * Get the email of the customer of an order, guests leave theirs during checkout
+   */
+  async getCustomerEmail(order: any): Promise<string | null> {
+    if (order.user?.email) {
+      return order.user.email;
+    }
+    if (!order.sessionId) {
+      return null;
+    }
+    const guest = await strapi.documents('api::guest.guest').findFirst({
+      filters: { sessionId: order.sessionId }
+    });
+    return guest?.email || null;
+  },
+};
@@ -3,10 +3,15 @@
  * Handles order status transitions, validation, and automation
  */
 
+import { ORDER_TRANSITIONS, OrderStatus } from '../state-machine/transitions';
+
 export default {
 
   /**
    * Validate status update
+   *
+   * Only checks the order state machine graph, roles, guards and workflows
+   * are checked by the order-state-machine service when the order moves.
    */
   async validateStatusUpdate(previousStatus: string, newStatus: string): Promise<{
     isValid: boolean;
@@ -16,34 +21,15 @@ export default {
     const errors: string[] = []
     const warnings: string[] = []
 
-    // Define valid status transitions
-    const validTransitions: { [key: string]: string[] } = {
-      'pending': ['confirmed', 'cancelled'],
-      'confirmed': ['processing', 'cancelled', 'refunded'],
-      'processing': ['shipping', 'cancelled', 'refunded'],
-      'shipping': ['delivered'],
-      'delivered': ['returned', 'refunded'],
-      'cancelled': [], // No further transitions
-      'refunded': [], // No further transitions
-      'returned': [], // No further transitions
-    }
+    const transition = ORDER_TRANSITIONS.find(
+      (candidate) => candidate.to === newStatus && candidate.from.includes(previousStatus as OrderStatus)
+    )
 
     // Check if transition is valid
-    if (!validTransitions[previousStatus] || !validTransitions[previousStatus].includes(newStatus)) {
+    if (!transition) {
       errors.push(`Invalid transition from ${previousStatus} to ${newStatus}`)
-    }
-
-    // Add warnings for specific transitions
-    if (previousStatus === 'delivered' && newStatus === 'returned') {
-      warnings.push('Returning a delivered order may require additional processing')
-    }
-
-    if (previousStatus === 'completed' && newStatus === 'refunded') {
-      warnings.push('Refunding a completed order requires special handling')
-    }
-
-    if (newStatus === 'cancelled' && ['confirmed', 'processing', 'shipping'].includes(previousStatus)) {
-      warnings.push('Cancelling an order in progress may require inventory adjustments')
+    } else if (transition.warning) {
+      warnings.push(transition.warning)
     }
 
     return {
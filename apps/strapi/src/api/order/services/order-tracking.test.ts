@@ -0,0 +1,222 @@
+/**
+ * Order Tracking Service tests
+ *
+ * Tests carrier polling and webhooks end to end through the mock carrier
+ * adapter and its recorded responses
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import orderTrackingService from './order-tracking';
+import createCarrierService from '../../shipping/services/carrier';
+import { signMockCarrierWebhook } from '../../shipping/carriers/mock';
+import { MOCK_WEBHOOK_PAYLOADS } from '../../shipping/carriers/fixtures/mock-carrier';
+
+const SECRET = 'mock_webhook_secret';
+
+const mockTrackingMethods = {
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockCarrierMethods = {
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockOrderMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockDocuments: Record<string, any> = {
+  'api::order.order-tracking': mockTrackingMethods,
+  'api::shipping.carrier': mockCarrierMethods,
+  'api::order.order': mockOrderMethods,
+};
+
+const mockServices: Record<string, any> = {
+  'api::order.order-fulfillment': {
+    syncTracking: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::notification.notification': {
+    notifyOrderCustomer: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn((uid: string) => mockDocuments[uid]),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+mockServices['api::shipping.carrier'] = createCarrierService({ strapi: mockStrapi });
+
+(global as any).strapi = mockStrapi;
+
+describe('Order Tracking Service', () => {
+  let service: any;
+  let tracking: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    [mockTrackingMethods, mockCarrierMethods, mockOrderMethods].forEach(methods => (
+      Object.values(methods).forEach((mock: any) => mock.mockReset())
+    ));
+
+    // the tracking record keeps the updates saved on it, like the database would
+    tracking = {
+      documentId: 'tracking-1',
+      trackingNumber: 'MOCK-IN-TRANSIT',
+      carrier: 'mock',
+      direction: 'outbound',
+      status: 'pending',
+      retryCount: 0,
+      updateHistory: [],
+      order: { documentId: 'order-1', status: 'shipping' },
+    };
+    mockTrackingMethods.findOne.mockImplementation(async () => tracking);
+    mockTrackingMethods.findFirst.mockImplementation(async () => tracking);
+    mockTrackingMethods.update.mockImplementation(async ({ data }: any) => {
+      tracking = { ...tracking, ...data };
+      return tracking;
+    });
+    mockCarrierMethods.findFirst.mockResolvedValue({
+      code: 'mock',
+      name: 'Mock Carrier',
+      adapter: 'mock',
+      webhookSecret: SECRET,
+      pollIntervalMinutes: 60,
+      isActive: true,
+    });
+    mockOrderMethods.findOne.mockResolvedValue({ documentId: 'order-1', user: null });
+
+    service = { ...orderTrackingService };
+    Object.keys(service).forEach(key => {
+      if (typeof service[key] === 'function') {
+        service[key] = service[key].bind(service);
+      }
+    });
+  });
+
+  describe('getTrackingsDueForPolling', () => {
+    it('should only select parcels of carriers with a tracking adapter', async () => {
+      mockCarrierMethods.findMany.mockResolvedValue([
+        { code: 'mock', adapter: 'mock', isActive: true },
+        { code: 'acme', adapter: 'acme', isActive: true },
+      ]);
+      mockTrackingMethods.findMany.mockResolvedValue([tracking]);
+
+      const trackings = await service.getTrackingsDueForPolling();
+
+      expect(trackings).toEqual([tracking]);
+      expect(mockTrackingMethods.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        filters: expect.objectContaining({
+          $and: expect.arrayContaining([{ $or: [{ carrier: { $eqi: 'mock' } }] }]),
+        }),
+        sort: { nextRetryAt: 'asc' },
+        limit: 100,
+      }));
+    });
+
+    it('should not query trackings when no carrier can be tracked', async () => {
+      mockCarrierMethods.findMany.mockResolvedValue([]);
+
+      await expect(service.getTrackingsDueForPolling()).resolves.toEqual([]);
+      expect(mockTrackingMethods.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetchCarrierUpdates', () => {
+    it('should apply the carrier events and wait for the poll interval', async () => {
+      const updates = await service.fetchCarrierUpdates('tracking-1');
+
+      expect(updates.map((update: any) => update.status)).toEqual(['pending', 'in_transit', 'in_transit']);
+      expect(tracking).toMatchObject({
+        status: 'in_transit',
+        lastUpdate: new Date('2026-01-06T06:10:00Z'),
+        lastUpdateSource: 'carrier_api',
+        retryCount: 0,
+      });
+      expect(tracking.updateHistory).toHaveLength(3);
+      expect(tracking.nextRetryAt.getTime() - tracking.lastRetryAt.getTime()).toBeGreaterThanOrEqual(60 * 60 * 1000 - 1000);
+    });
+
+    it('should skip events the tracking already holds', async () => {
+      await service.fetchCarrierUpdates('tracking-1');
+      tracking.trackingNumber = 'MOCK-DELIVERED';
+
+      const updates = await service.fetchCarrierUpdates('tracking-1');
+
+      expect(updates.map((update: any) => update.status)).toEqual(['out_for_delivery', 'delivered']);
+      expect(tracking).toMatchObject({ status: 'delivered', actualDelivery: new Date('2026-01-07T14:42:00Z') });
+      expect(mockServices['api::order.order-fulfillment'].syncTracking).toHaveBeenLastCalledWith(
+        expect.objectContaining({ documentId: 'tracking-1' }),
+        'delivered',
+        new Date('2026-01-07T14:42:00Z')
+      );
+      expect(mockServices['api::notification.notification'].notifyOrderCustomer).toHaveBeenLastCalledWith(
+        'tracking-update',
+        tracking.order.documentId,
+        expect.objectContaining({ trackingNumber: 'MOCK-DELIVERED', status: 'delivered' }),
+        ['email', 'sms', 'push']
+      );
+    });
+
+    it('should retry with a growing delay when the carrier is unavailable', async () => {
+      tracking.trackingNumber = 'MOCK-UNAVAILABLE';
+      tracking.retryCount = 2;
+
+      await expect(service.fetchCarrierUpdates('tracking-1')).rejects.toThrow('Mock carrier tracking API is unavailable');
+
+      expect(tracking.retryCount).toBe(3);
+      expect(tracking.nextRetryAt.getTime() - tracking.lastRetryAt.getTime()).toBeGreaterThanOrEqual(20 * 60 * 1000 - 1000);
+      expect(tracking.updateHistory).toEqual([]);
+    });
+  });
+
+  describe('processCarrierWebhook', () => {
+    const sign = (payload: any) => {
+      const rawBody = JSON.stringify(payload);
+      return [rawBody, { 'x-mock-carrier-signature': signMockCarrierWebhook(rawBody, SECRET) }];
+    };
+
+    it('should apply the events of a signed webhook once', async () => {
+      const [rawBody, headers] = sign(MOCK_WEBHOOK_PAYLOADS.outForDelivery);
+
+      const result = await service.processCarrierWebhook('mock', rawBody, headers);
+      const redelivered = await service.processCarrierWebhook('mock', rawBody, headers);
+
+      expect(mockTrackingMethods.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        filters: { trackingNumber: 'MOCK-IN-TRANSIT', carrier: { $eqi: 'mock' }, isActive: true },
+      }));
+      expect(result).toMatchObject({ eventId: 'evt_mock_0001', processed: true, updates: [{ status: 'out_for_delivery', source: 'webhook' }] });
+      expect(redelivered.updates).toEqual([]);
+      expect(tracking.updateHistory).toHaveLength(1);
+      expect(tracking.status).toBe('out_for_delivery');
+    });
+
+    it('should reject webhooks that are not signed by the carrier', async () => {
+      const rawBody = JSON.stringify(MOCK_WEBHOOK_PAYLOADS.delivered);
+
+      await expect(service.processCarrierWebhook('mock', rawBody, {
+        'x-mock-carrier-signature': 'forged',
+      })).rejects.toThrow('Invalid webhook signature');
+      expect(mockTrackingMethods.update).not.toHaveBeenCalled();
+    });
+
+    it('should acknowledge webhooks without tracking events', async () => {
+      const [rawBody, headers] = sign(MOCK_WEBHOOK_PAYLOADS.labelVoided);
+
+      const result = await service.processCarrierWebhook('mock', rawBody, headers);
+
+      expect(result).toEqual({ eventId: 'evt_mock_0003', processed: false, updates: [] });
+      expect(mockTrackingMethods.findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
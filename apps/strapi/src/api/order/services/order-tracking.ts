@@ -3,6 +3,8 @@
  * Handles order tracking, carrier integration, and real-time updates
  */
 
+import { CarrierConfig, CarrierTrackingEvent, TrackingStatus } from '../../shipping/carriers/types';
+
 interface TrackingUpdate {
   orderId: string;
   trackingNumber: string;
@@ -14,16 +16,6 @@ interface TrackingUpdate {
   source: 'carrier_api' | 'webhook' | 'manual' | 'email' | 'sms';
 }
 
-interface CarrierConfig {
-  name: string;
-  code: string;
-  apiKey?: string;
-  apiUrl?: string;
-  webhookUrl?: string;
-  trackingUrlTemplate?: string;
-  supportedCountries?: string[];
-}
-
 interface TrackingRequest {
   orderId: string;
   trackingNumber: string;
@@ -34,15 +26,58 @@ interface TrackingRequest {
   packageDimensions?: any;
   signatureRequired?: boolean;
   webhookUrl?: string;
+  direction?: 'outbound' | 'return';
 }
 
+// Shipments to the customer, records created before return shipments existed have no direction
+const OUTBOUND_FILTER = { $or: [{ direction: 'outbound' }, { direction: { $null: true } }] };
+
+// Statuses a parcel does not leave, their trackings are no longer polled
+const FINAL_TRACKING_STATUSES: TrackingStatus[] = ['delivered', 'returned', 'lost', 'damaged'];
+
+const DEFAULT_POLL_INTERVAL_MINUTES = 30;
+const MAX_RETRY_DELAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Delay before fetching a tracking again after failed fetches, doubles from 5 minutes up to a day
+ */
+const getRetryDelay = (retryCount: number): number =>
+  Math.min(5 * 60 * 1000 * 2 ** (retryCount - 1), MAX_RETRY_DELAY);
+
+/**
+ * Identify a tracking event by its status and time, history timestamps are stored as strings
+ */
+const getEventKey = (status: string, timestamp: Date | string): string =>
+  `${status}@${new Date(timestamp).toISOString()}`;
+
 export default {
   /**
    * Create tracking record
+   *
+   * Outbound tracking ships every item left to ship as one fulfillment,
+   * parcels holding part of the order are created through the fulfillment service.
    */
   async createTrackingRecord(request: TrackingRequest) {
+    const { direction = 'outbound', orderId, ...shipment } = request;
+    if (direction === 'return') {
+      return this.recordTracking(request);
+    }
+
     try {
-      const { orderId, trackingNumber, carrier, carrierCode, estimatedDelivery, packageWeight, packageDimensions, signatureRequired, webhookUrl } = request;
+      const fulfillment = await strapi.service('api::order.order-fulfillment').createFulfillment(orderId, shipment);
+      return fulfillment.tracking;
+    } catch (error) {
+      strapi.log.error('Error creating tracking record:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Save a tracking record of the order and record it on the order history
+   */
+  async recordTracking(request: TrackingRequest) {
+    try {
+      const { orderId, trackingNumber, carrier, carrierCode, estimatedDelivery, packageWeight, packageDimensions, signatureRequired, webhookUrl, direction = 'outbound' } = request;
 
       // Validate order exists
       const order = await strapi.documents('api::order.order').findOne({
@@ -53,13 +88,13 @@ export default {
         throw new Error('Order not found');
       }
 
-      // Check if tracking already exists
+      // Every parcel of an order has its own tracking number
       const existingTracking = await strapi.documents('api::order.order-tracking').findFirst({
-        filters: { order: orderId as any }
+        filters: { order: orderId as any, trackingNumber } as any
       });
 
       if (existingTracking) {
-        throw new Error('Tracking record already exists for this order');
+        throw new Error(`Tracking number ${trackingNumber} is already used by this order`);
       }
 
       // Generate tracking URL
@@ -72,6 +107,7 @@ export default {
         carrier,
         carrierCode,
         trackingUrl,
+        direction,
         status: 'pending' as const,
         estimatedDelivery,
         packageWeight,
@@ -89,15 +125,6 @@ export default {
         populate: ['order']
       });
 
-      // Update order with tracking number
-      await strapi.documents('api::order.order').update({
-        documentId: orderId,
-        data: { 
-          trackingNumber,
-          status: 'shipping'
-        }
-      });
-
       // Record history event
       const orderHistoryService = strapi.service('api::order.order-history');
       await orderHistoryService.recordShippingUpdate(orderId, null, trackingData, 'system', 'system');
@@ -152,23 +179,15 @@ export default {
 
       const updatedTracking = await strapi.documents('api::order.order-tracking').update({
         documentId: trackingId,
-        fields: updateData as any,
+        data: updateData as any,
         populate: ['order']
       });
 
-      // Update order status if needed
-      if (update.status === 'delivered') {
-        await strapi.documents('api::order.order').update({
-          documentId: tracking.order.documentId,
-          data: { 
-            status: 'delivered',
-            actualDelivery: update.timestamp
-          }
-        });
-
-        // Record history event
-        const orderHistoryService = strapi.service('api::order.order-history');
-        await orderHistoryService.recordStatusChange(tracking.order.documentId, 'shipping', 'delivered', 'system', 'Package delivered');
+      // Return shipments move their return request along, outbound parcels their fulfillment
+      if (tracking.direction === 'return') {
+        await strapi.service('api::return-request.return-request').syncTracking(trackingId, update.status);
+      } else {
+        await strapi.service('api::order.order-fulfillment').syncTracking(tracking, update.status, update.timestamp);
       }
 
       // Send notifications
@@ -213,7 +232,7 @@ export default {
   async getTrackingByOrderId(orderId: string) {
     try {
       const tracking = await strapi.documents('api::order.order-tracking').findFirst({
-        filters: { order: orderId as any },
+        filters: { order: orderId as any, ...OUTBOUND_FILTER } as any,
         populate: ['order']
       });
 
@@ -226,6 +245,9 @@ export default {
 
   /**
    * Fetch tracking updates from carrier
+   *
+   * Events the tracking already holds are skipped. A failed fetch is retried
+   * with a growing delay, a successful one waits for the carrier poll interval.
    */
   async fetchCarrierUpdates(trackingId: string) {
     try {
@@ -238,36 +260,36 @@ export default {
         throw new Error('Tracking record not found');
       }
 
-      // Get carrier configuration
+      const carrierService = strapi.service('api::shipping.carrier');
       const carrierConfig = await this.getCarrierConfig(tracking.carrier);
       if (!carrierConfig) {
         throw new Error(`Carrier configuration not found for ${tracking.carrier}`);
       }
 
-      // Fetch updates from carrier API
-      const updates = await this.fetchFromCarrierAPI(tracking.trackingNumber, carrierConfig);
-
-      // Process updates
-      for (const update of updates) {
-        await this.updateTrackingStatus(trackingId, {
-          orderId: tracking.order.documentId,
-          trackingNumber: tracking.trackingNumber,
-          carrier: tracking.carrier,
-          status: update.status,
-          location: update.location,
-          description: update.description,
-          timestamp: update.timestamp,
-          source: 'carrier_api'
+      let events: CarrierTrackingEvent[];
+      try {
+        events = await carrierService.fetchTracking(tracking.carrier, tracking.trackingNumber);
+      } catch (error) {
+        const retryCount = (tracking.retryCount || 0) + 1;
+        await strapi.documents('api::order.order-tracking').update({
+          documentId: trackingId,
+          data: {
+            retryCount,
+            lastRetryAt: new Date(),
+            nextRetryAt: new Date(Date.now() + getRetryDelay(retryCount))
+          }
         });
+        throw error;
       }
 
-      // Update retry count and next retry time
+      const updates = await this.applyCarrierEvents(tracking, events, 'carrier_api');
+
       await strapi.documents('api::order.order-tracking').update({
         documentId: trackingId,
         data: {
-          retryCount: tracking.retryCount + 1,
+          retryCount: 0,
           lastRetryAt: new Date(),
-          nextRetryAt: new Date(Date.now() + 30 * 60 * 1000) // 30 minutes from now
+          nextRetryAt: new Date(Date.now() + (carrierConfig.pollIntervalMinutes || DEFAULT_POLL_INTERVAL_MINUTES) * 60 * 1000)
         }
       });
 
@@ -279,36 +301,31 @@ export default {
   },
 
   /**
-   * Process webhook update
+   * Process a tracking webhook pushed by a carrier
+   *
+   * Webhooks for parcels this store does not track are acknowledged and
+   * ignored so the carrier does not redeliver them.
+   * @throws Error when the carrier is unknown, or the signature or the payload is invalid
    */
-  async processWebhookUpdate(webhookData: any, secret: string) {
+  async processCarrierWebhook(carrierCode: string, rawBody: string, headers: Record<string, any>) {
     try {
-      // Validate webhook secret
+      const update = await strapi.service('api::shipping.carrier').parseWebhook(carrierCode, rawBody, headers);
+      if (update.events.length === 0) {
+        return { eventId: update.eventId, processed: false, updates: [] };
+      }
+
       const tracking = await strapi.documents('api::order.order-tracking').findFirst({
-        filters: { webhookSecret: secret },
+        filters: { trackingNumber: update.trackingNumber, carrier: { $eqi: carrierCode }, isActive: true } as any,
         populate: ['order']
       });
 
       if (!tracking) {
-        throw new Error('Invalid webhook secret');
+        strapi.log.warn(`Carrier ${carrierCode} webhook ${update.eventId} for unknown tracking number ${update.trackingNumber}`);
+        return { eventId: update.eventId, processed: false, updates: [] };
       }
 
-      // Parse webhook data
-      const update = this.parseWebhookData(webhookData);
-
-      // Update tracking
-      await this.updateTrackingStatus(tracking.documentId, {
-        orderId: tracking.order.documentId,
-        trackingNumber: tracking.trackingNumber,
-        carrier: tracking.carrier,
-        status: update.status,
-        location: update.location,
-        description: update.description,
-        timestamp: update.timestamp,
-        source: 'webhook'
-      });
-
-      return { success: true };
+      const updates = await this.applyCarrierEvents(tracking, update.events, 'webhook');
+      return { eventId: update.eventId, processed: true, updates };
     } catch (error) {
       strapi.log.error('Error processing webhook update:', error);
       throw error;
@@ -316,173 +333,104 @@ export default {
   },
 
   /**
-   * Generate tracking URL
+   * Apply carrier events to a tracking record, oldest first
+   *
+   * Polling and webhooks report the same events, an event already in the
+   * update history of the tracking is skipped.
    */
-  async generateTrackingUrl(trackingNumber: string, carrier: string): Promise<string> {
-    const carrierConfig = await this.getCarrierConfig(carrier);
-    
-    if (carrierConfig?.trackingUrlTemplate) {
-      return carrierConfig.trackingUrlTemplate.replace('{tracking_number}', trackingNumber);
-    }
+  async applyCarrierEvents(tracking: any, events: CarrierTrackingEvent[], source: 'carrier_api' | 'webhook') {
+    const knownEvents = new Set(
+      ((tracking.updateHistory || []) as any[]).map((entry) => getEventKey(entry.status, entry.timestamp))
+    );
+
+    const updates: TrackingUpdate[] = [];
+    for (const event of events) {
+      const key = getEventKey(event.status, event.timestamp);
+      if (knownEvents.has(key)) {
+        continue;
+      }
+      knownEvents.add(key);
 
-    // Default tracking URLs for common carriers
-    const defaultUrls: { [key: string]: string } = {
-      'fedex': `https://www.fedex.com/fedextrack/?trknbr=${trackingNumber}`,
-      'ups': `https://www.ups.com/track?tracknum=${trackingNumber}`,
-      'usps': `https://tools.usps.com/go/TrackConfirmAction?tLabels=${trackingNumber}`,
-      'dhl': `https://www.dhl.com/en/express/tracking.html?AWB=${trackingNumber}`
-    };
+      const update: TrackingUpdate = {
+        orderId: tracking.order.documentId,
+        trackingNumber: tracking.trackingNumber,
+        carrier: tracking.carrier,
+        status: event.status,
+        location: event.location,
+        description: event.description,
+        timestamp: event.timestamp,
+        source
+      };
+      await this.updateTrackingStatus(tracking.documentId, update);
+      updates.push(update);
+    }
 
-    return defaultUrls[carrier.toLowerCase()] || `https://www.google.com/search?q=${trackingNumber}`;
+    return updates;
   },
 
   /**
-   * Get carrier configuration
+   * Get the active trackings due for a carrier fetch
+   *
+   * Only parcels of carriers with a tracking adapter are returned, the others
+   * only report through their tracking page and would otherwise fill the page.
    */
-  async getCarrierConfig(carrier: string): Promise<CarrierConfig | null> {
-    // TODO: Implement carrier configuration from database
-    // For now, return hardcoded configurations
-    const carrierConfigs: { [key: string]: CarrierConfig } = {
-      'fedex': {
-        name: 'FedEx',
-        code: 'fedex',
-        apiUrl: 'https://apis.fedex.com/track/v1/trackingnumbers',
-        trackingUrlTemplate: 'https://www.fedex.com/fedextrack/?trknbr={tracking_number}'
-      },
-      'ups': {
-        name: 'UPS',
-        code: 'ups',
-        apiUrl: 'https://onlinetools.ups.com/track/v1/details',
-        trackingUrlTemplate: 'https://www.ups.com/track?tracknum={tracking_number}'
-      },
-      'usps': {
-        name: 'USPS',
-        code: 'usps',
-        apiUrl: 'https://secure.shippingapis.com/ShippingAPI.dll',
-        trackingUrlTemplate: 'https://tools.usps.com/go/TrackConfirmAction?tLabels={tracking_number}'
-      },
-      'dhl': {
-        name: 'DHL',
-        code: 'dhl',
-        apiUrl: 'https://api-test.dhl.com/parcel/de/v1/tracking',
-        trackingUrlTemplate: 'https://www.dhl.com/en/express/tracking.html?AWB={tracking_number}'
-      }
-    };
+  async getTrackingsDueForPolling(limit: number = 100) {
+    const carrierCodes = await strapi.service('api::shipping.carrier').getTrackableCarrierCodes();
+    if (carrierCodes.length === 0) {
+      return [];
+    }
 
-    return carrierConfigs[carrier.toLowerCase()] || null;
+    const now = new Date();
+    return strapi.documents('api::order.order-tracking').findMany({
+      filters: {
+        isActive: true,
+        status: { $notIn: FINAL_TRACKING_STATUSES },
+        $and: [
+          { $or: carrierCodes.map((code: string) => ({ carrier: { $eqi: code } })) },
+          { $or: [{ nextRetryAt: { $null: true } }, { nextRetryAt: { $lte: now } }] }
+        ]
+      } as any,
+      sort: { nextRetryAt: 'asc' } as any,
+      limit
+    });
   },
 
   /**
-   * Fetch updates from carrier API
+   * Generate tracking URL
    */
-  async fetchFromCarrierAPI(trackingNumber: string, carrierConfig: CarrierConfig): Promise<any[]> {
-    try {
-      // TODO: Implement actual carrier API integration
-      // For now, return mock data
-      strapi.log.info(`Fetching tracking updates from ${carrierConfig.name} for ${trackingNumber}`);
-
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Return mock updates
-      return [
-        {
-          status: 'in_transit',
-          location: 'Distribution Center',
-          description: 'Package in transit',
-          timestamp: new Date()
-        }
-      ];
-    } catch (error) {
-      strapi.log.error('Error fetching from carrier API:', error);
-      throw error;
-    }
+  async generateTrackingUrl(trackingNumber: string, carrier: string): Promise<string> {
+    return strapi.service('api::shipping.carrier').getTrackingUrl(carrier, trackingNumber);
   },
 
   /**
-   * Parse webhook data
+   * Get carrier configuration
    */
-  parseWebhookData(webhookData: any): any {
-    // TODO: Implement webhook data parsing based on carrier
-    // For now, return basic structure
-    return {
-      status: webhookData.status || 'in_transit',
-      location: webhookData.location,
-      description: webhookData.description,
-      timestamp: new Date(webhookData.timestamp || Date.now())
-    };
+  async getCarrierConfig(carrier: string): Promise<CarrierConfig | null> {
+    return strapi.service('api::shipping.carrier').getCarrierConfig(carrier);
   },
 
   /**
-   * Send tracking notifications
+   * Send tracking notifications, by SMS as well for important updates
    */
   async sendTrackingNotifications(tracking: any, update: TrackingUpdate) {
     try {
-      const order = await strapi.documents('api::order.order').findOne({
-        documentId: tracking.order.documentId,
-        populate: ['user']
-      });
-
-      if (!order || !order.user) {
-        return;
-      }
-
-      // Send email notification
-      await this.sendTrackingEmail(order, tracking, update);
-
-      // Send SMS notification for important updates
-      if (update.status === 'delivered' || update.status === 'out_for_delivery') {
-        await this.sendTrackingSMS(order, tracking, update);
-      }
-    } catch (error) {
-      strapi.log.error('Error sending tracking notifications:', error);
-    }
-  },
-
-  /**
-   * Send tracking email notification
-   */
-  async sendTrackingEmail(order: any, tracking: any, update: TrackingUpdate) {
-    try {
-      const emailData = {
-        to: order.user.email,
-        subject: `Order ${order.orderNumber} - ${update.status.replace('_', ' ').toUpperCase()}`,
-        template: 'tracking-update',
-        data: {
-          orderNumber: order.orderNumber,
+      const important = update.status === 'delivered' || update.status === 'out_for_delivery';
+      await strapi.service('api::notification.notification').notifyOrderCustomer(
+        'tracking-update',
+        tracking.order.documentId,
+        {
           trackingNumber: tracking.trackingNumber,
           carrier: tracking.carrier,
           status: update.status,
-          location: update.location,
-          description: update.description,
+          location: update.location || '',
+          description: update.description || update.status.replace(/_/g, ' '),
           timestamp: update.timestamp,
           trackingUrl: tracking.trackingUrl
-        }
-      };
-
-      // TODO: Integrate with actual email service
-      strapi.log.info('Tracking email notification:', emailData);
-    } catch (error) {
-      strapi.log.error('Error sending tracking email:', error);
-    }
-  },
-
-  /**
-   * Send tracking SMS notification
-   */
-  async sendTrackingSMS(order: any, tracking: any, update: TrackingUpdate) {
-    try {
-      const phoneNumber = order.shippingAddress?.phone;
-      if (!phoneNumber) {
-        return;
-      }
-
-      const message = `Order ${order.orderNumber}: ${update.description || update.status}. Track at ${tracking.trackingUrl}`;
-
-      // TODO: Integrate with actual SMS service
-      strapi.log.info(`SMS notification to ${phoneNumber}: ${message}`);
+        },
+        important ? ['email', 'sms', 'push'] : undefined
+      );
     } catch (error) {
-      strapi.log.error('Error sending tracking SMS:', error);
+      strapi.log.error('Error sending tracking notifications:', error);
     }
   },
 
@@ -547,7 +495,7 @@ export default {
       const oldRecords = await strapi.documents('api::order.order-tracking').findMany({
         filters: {
           createdAt: { $lt: cutoffDate },
-          status: { $in: ['delivered', 'returned', 'lost', 'damaged'] }
+          status: { $in: FINAL_TRACKING_STATUSES }
         }
       });
 
@@ -0,0 +1,156 @@
+/**
+ * Order state machine
+ *
+ * The order lifecycle as a table of transitions. A transition names the
+ * statuses it leaves and the status it enters, the roles allowed to make it,
+ * the guards the order has to pass and the hooks run once the order moved.
+ * Cancellations, refunds and returns have side effects of their own, their
+ * transitions are only made by the workflow that takes care of them.
+ */
+
+export type OrderStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'processing'
+  | 'shipping'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded'
+  | 'returned';
+
+export type TransitionRole = 'customer' | 'admin' | 'system';
+
+export type TransitionWorkflow = 'cancellation' | 'refund' | 'return';
+
+/**
+ * recordStatus: create the order-status row with the expected duration of the new status
+ * notifyCustomer: notify the customer about the new status
+ * consumeStock: turn the stock still reserved for the order into a sale, when it is paid and when it ships
+ */
+export type TransitionHook = 'recordStatus' | 'notifyCustomer' | 'consumeStock';
+
+export interface TransitionGuard {
+  name: string;
+  // error message when the order does not pass the guard
+  check: (order: any) => string | null;
+}
+
+export interface OrderTransition {
+  from: OrderStatus[];
+  to: OrderStatus;
+  roles: TransitionRole[];
+  guards?: TransitionGuard[];
+  hooks: TransitionHook[];
+  workflow?: TransitionWorkflow;
+  warning?: string;
+}
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipping',
+  'delivered',
+  'cancelled',
+  'refunded',
+  'returned',
+];
+
+const isPaid: TransitionGuard = {
+  name: 'isPaid',
+  check: (order) => (order.paymentStatus === 'paid' ? null : 'Order is not paid'),
+};
+
+const hasTrackingNumber: TransitionGuard = {
+  name: 'hasTrackingNumber',
+  check: (order) => (order.trackingNumber ? null : 'Order has no tracking number'),
+};
+
+// Statuses of orders whose every item shipped
+const FULFILLED_STATUSES = ['fulfilled', 'partially_delivered', 'delivered'];
+
+const isFulfilled: TransitionGuard = {
+  name: 'isFulfilled',
+  check: (order) => (FULFILLED_STATUSES.includes(order.fulfillmentStatus) ? null : 'Order has items left to ship'),
+};
+
+// Orders with only digital items have nothing to ship, the order items have to be populated
+const isDigitalOnly: TransitionGuard = {
+  name: 'isDigitalOnly',
+  check: (order) => (
+    order.items?.length > 0 && order.items.every((item: any) => item.isDigital) ? null : 'Order has items to ship'
+  ),
+};
+
+const hasNoShipments: TransitionGuard = {
+  name: 'hasNoShipments',
+  check: (order) => (order.fulfillmentStatus && order.fulfillmentStatus !== 'unfulfilled' ? 'Order has shipped items' : null),
+};
+
+export const ORDER_TRANSITIONS: OrderTransition[] = [
+  {
+    from: ['pending'],
+    to: 'confirmed',
+    roles: ['admin', 'system'],
+    guards: [isPaid],
+    hooks: ['recordStatus', 'consumeStock', 'notifyCustomer'],
+  },
+  {
+    from: ['confirmed'],
+    to: 'processing',
+    roles: ['admin', 'system'],
+    guards: [isPaid],
+    hooks: ['recordStatus', 'notifyCustomer'],
+  },
+  {
+    from: ['processing'],
+    to: 'shipping',
+    roles: ['admin', 'system'],
+    guards: [isPaid, hasTrackingNumber, isFulfilled],
+    hooks: ['recordStatus', 'consumeStock', 'notifyCustomer'],
+  },
+  {
+    from: ['shipping'],
+    to: 'delivered',
+    roles: ['admin', 'system'],
+    hooks: ['recordStatus', 'notifyCustomer'],
+  },
+  {
+    from: ['processing'],
+    to: 'delivered',
+    roles: ['admin', 'system'],
+    guards: [isPaid, isDigitalOnly],
+    hooks: ['recordStatus', 'consumeStock', 'notifyCustomer'],
+  },
+  {
+    from: ['pending'],
+    to: 'cancelled',
+    roles: ['customer', 'admin', 'system'],
+    hooks: ['recordStatus'],
+    workflow: 'cancellation',
+  },
+  {
+    from: ['confirmed', 'processing'],
+    to: 'cancelled',
+    roles: ['customer', 'admin', 'system'],
+    guards: [hasNoShipments],
+    hooks: ['recordStatus'],
+    workflow: 'cancellation',
+    warning: 'Cancelling an order in progress may require inventory adjustments',
+  },
+  {
+    from: ['confirmed', 'processing', 'delivered'],
+    to: 'refunded',
+    roles: ['admin', 'system'],
+    hooks: ['recordStatus'],
+    workflow: 'refund',
+  },
+  {
+    from: ['delivered'],
+    to: 'returned',
+    roles: ['admin', 'system'],
+    hooks: ['recordStatus'],
+    workflow: 'return',
+    warning: 'Returning a delivered order may require additional processing',
+  },
+];
@@ -343,15 +343,24 @@ export default ({ strapi }: { strapi: any }) => ({
    */
   async sendCommentNotification(PaymentComment: any): Promise<void> {
     try {
-      // This would integrate with the notification system
-      // For now, we'll just log the notification
-      strapi.log.info('Payment comment notification:', {
-        commentId: PaymentComment.documentId,
-        paymentId: PaymentComment.payment?.documentId,
-        author: PaymentComment.author?.username,
-        type: PaymentComment.type,
-        isInternal: PaymentComment.isInternal
+      // Customers are not notified of their own comments
+      if (PaymentComment.type === 'customer') {
+        return
+      }
+
+      const payment = await strapi.documents('api::payment.payment').findOne({
+        documentId: PaymentComment.payment?.documentId,
+        populate: ['order']
       })
+      if (!payment?.order) {
+        return
+      }
+
+      await strapi.service('api::notification.notification').notifyOrderCustomer(
+        'payment-comment',
+        payment.order.documentId,
+        { content: PaymentComment.content }
+      )
     } catch (error) {
       strapi.log.error('Error sending comment notification:', error)
     }
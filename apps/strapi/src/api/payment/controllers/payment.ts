@@ -8,6 +8,19 @@ import { Core } from '@strapi/strapi'
 import { Context } from 'koa'
 import { UserType } from '../../../../config/constant';
 
+/**
+ * Respond to a failed gateway operation, gateway refusals are client errors
+ */
+const handleGatewayError = (ctx: Context, error: unknown, fallbackMessage: string) => {
+  if (error instanceof Error && error.message.includes('not found')) {
+    return ctx.notFound(error.message)
+  }
+  if (error instanceof Error && /declined|not awaiting|not authorized|not processed|cannot be|Only /.test(error.message)) {
+    return ctx.badRequest(error.message)
+  }
+  return ctx.internalServerError(fallbackMessage)
+}
+
 export default ({ strapi }: { strapi: Core.Strapi }) => ({
   async confirmPayment(ctx: Context) {
     try {
@@ -70,4 +83,108 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
       return ctx.internalServerError('Failed to create payment')
     }
   },
+  async authorizePayment(ctx: Context) {
+    try {
+      const { user, userType } = ctx.state;
+      const { paymentId } = ctx.params;
+      const sessionId = ctx?.query?.sessionId || ctx?.request?.body?.sessionId;
+      const { data } = ctx.request.body || {};
+
+      if (!paymentId) {
+        return ctx.badRequest('Payment ID is required')
+      }
+
+      const validationService = strapi.service('api::payment.validation');
+      const userId = userType === UserType.AUTHENTICATED ? user.id : sessionId;
+      const { isValid, errors, data: validatedData } = await validationService.validateAuthorizePayment(paymentId, userId, data, userType === UserType.GUEST);
+
+      if (!isValid) {
+        if (errors.includes('Payment not found')) {
+          return ctx.notFound('Payment not found')
+        }
+        return ctx.badRequest('Validation failed', errors)
+      }
+
+      const paymentGatewayService = strapi.service('api::payment.payment-gateway');
+      const payment = await paymentGatewayService.authorizePayment(paymentId, validatedData);
+
+      return { data: payment, meta: { message: 'Payment authorized successfully' } }
+    } catch (error) {
+      strapi.log.error('Error in authorizePayment:', error)
+      return handleGatewayError(ctx, error, 'Failed to authorize payment')
+    }
+  },
+  async capturePayment(ctx: Context) {
+    try {
+      const { paymentId } = ctx.params;
+      const { data } = ctx.request.body || {};
+
+      if (data?.amount !== undefined && (typeof data.amount !== 'number' || data.amount <= 0)) {
+        return ctx.badRequest('Amount must be a number greater than 0')
+      }
+
+      const paymentGatewayService = strapi.service('api::payment.payment-gateway');
+      const payment = await paymentGatewayService.capturePayment(paymentId, data?.amount);
+
+      return { data: payment, meta: { message: 'Payment captured successfully' } }
+    } catch (error) {
+      strapi.log.error('Error in capturePayment:', error)
+      return handleGatewayError(ctx, error, 'Failed to capture payment')
+    }
+  },
+  async voidPayment(ctx: Context) {
+    try {
+      const { paymentId } = ctx.params;
+      const { data } = ctx.request.body || {};
+
+      const paymentGatewayService = strapi.service('api::payment.payment-gateway');
+      const payment = await paymentGatewayService.voidPayment(paymentId, data?.reason);
+
+      return { data: payment, meta: { message: 'Payment voided successfully' } }
+    } catch (error) {
+      strapi.log.error('Error in voidPayment:', error)
+      return handleGatewayError(ctx, error, 'Failed to void payment')
+    }
+  },
+  async handleWebhook(ctx: Context) {
+    try {
+      const { gatewayCode } = ctx.params;
+      const rawBody = ctx.request.body?.[Symbol.for('unparsedBody')];
+
+      if (typeof rawBody !== 'string' || !rawBody) {
+        return ctx.badRequest('Webhook body is required')
+      }
+
+      const paymentWebhookService = strapi.service('api::payment.payment-webhook');
+      const result = await paymentWebhookService.handleWebhook(gatewayCode, rawBody, ctx.request.headers);
+
+      return { data: result, meta: { message: result.duplicate ? 'Webhook event already received' : 'Webhook event received' } }
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found') && error.message.includes('gateway')) {
+        return ctx.notFound(error.message)
+      }
+      if (error instanceof Error && error.message === 'Invalid webhook signature') {
+        return ctx.unauthorized(error.message)
+      }
+      if (error instanceof Error && error.message.startsWith('Invalid webhook payload')) {
+        return ctx.badRequest(error.message)
+      }
+      // any other failure makes the gateway redeliver the event
+      strapi.log.error('Error in handleWebhook:', error)
+      return ctx.internalServerError('Failed to process webhook event')
+    }
+  },
+  async syncGatewayStatus(ctx: Context) {
+    try {
+      const { paymentId } = ctx.params;
+
+      const paymentGatewayService = strapi.service('api::payment.payment-gateway');
+      const payment = await paymentGatewayService.syncStatus(paymentId);
+
+      return { data: payment, meta: { message: 'Payment gateway status retrieved successfully' } }
+    } catch (error) {
+      strapi.log.error('Error in syncGatewayStatus:', error)
+      return handleGatewayError(ctx, error, 'Failed to retrieve payment gateway status')
+    }
+  },
 })
\ No newline at end of file
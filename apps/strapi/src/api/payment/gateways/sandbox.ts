@@ -0,0 +1,173 @@
+/**
+ * Sandbox payment gateway
+ *
+ * Offline stand-in for a card gateway, used in development and tests. Intents
+ * are kept in memory. The payment token picks the outcome of authorization:
+ * any token authorizes except the test tokens below, which decline.
+ * Webhook payloads follow the shape built by `createSandboxWebhookEvent`.
+ */
+
+import { randomUUID } from 'crypto';
+import { GatewayIntent, GatewayStatus, PaymentGateway } from './types';
+
+export const SANDBOX_TOKENS = {
+  success: 'tok_sandbox_success',
+  declined: 'tok_sandbox_declined',
+  insufficientFunds: 'tok_sandbox_insufficient_funds',
+};
+
+const DECLINES: Record<string, { errorCode: string; errorMessage: string }> = {
+  [SANDBOX_TOKENS.declined]: { errorCode: 'card_declined', errorMessage: 'The card was declined' },
+  [SANDBOX_TOKENS.insufficientFunds]: { errorCode: 'insufficient_funds', errorMessage: 'The card has insufficient funds' },
+};
+
+const intents = new Map<string, GatewayIntent>();
+
+/**
+ * Get a stored intent
+ * @throws Error when the intent does not exist
+ */
+const getIntent = (intentId: string): GatewayIntent => {
+  const intent = intents.get(intentId);
+  if (!intent) {
+    throw new Error(`Payment intent ${intentId} not found`);
+  }
+  return intent;
+};
+
+/**
+ * Store the new state of an intent, returns a copy so callers cannot change it
+ */
+const save = (intent: GatewayIntent): GatewayIntent => {
+  intents.set(intent.intentId, intent);
+  return { ...intent };
+};
+
+/**
+ * Build the webhook payload reporting the current state of an intent
+ */
+export const createSandboxWebhookEvent = (intentId: string, eventId: string = `evt_sandbox_${randomUUID()}`) => {
+  const intent = getIntent(intentId);
+  return {
+    id: eventId,
+    type: `payment_intent.${intent.status}`,
+    created: new Date().toISOString(),
+    data: { object: { ...intent } },
+  };
+};
+
+const INTENT_STATUSES: GatewayStatus[] = [
+  'requires_authorization',
+  'authorized',
+  'captured',
+  'voided',
+  'partially_refunded',
+  'refunded',
+  'failed',
+];
+
+const sandboxGateway: PaymentGateway = {
+  code: 'sandbox',
+  webhookSignatureHeader: 'x-sandbox-signature',
+
+  async createIntent({ amount, currency }) {
+    return save({
+      intentId: `pi_sandbox_${randomUUID()}`,
+      status: 'requires_authorization',
+      amount,
+      amountCaptured: 0,
+      amountRefunded: 0,
+      currency,
+    });
+  },
+
+  async authorize(intentId, { paymentToken }) {
+    const intent = getIntent(intentId);
+    if (intent.status !== 'requires_authorization') {
+      throw new Error(`Payment intent ${intentId} cannot be authorized in status ${intent.status}`);
+    }
+
+    const decline = DECLINES[paymentToken || SANDBOX_TOKENS.success];
+    if (decline) {
+      return save({ ...intent, status: 'failed', ...decline });
+    }
+    return save({ ...intent, status: 'authorized' });
+  },
+
+  async capture(intentId, amount) {
+    const intent = getIntent(intentId);
+    if (intent.status !== 'authorized') {
+      throw new Error(`Payment intent ${intentId} cannot be captured in status ${intent.status}`);
+    }
+
+    const amountCaptured = amount ?? intent.amount;
+    if (amountCaptured <= 0 || amountCaptured > intent.amount) {
+      throw new Error(`Capture amount must be between 1 and ${intent.amount}`);
+    }
+    return save({ ...intent, status: 'captured', amountCaptured });
+  },
+
+  async void(intentId) {
+    const intent = getIntent(intentId);
+    if (!['requires_authorization', 'authorized'].includes(intent.status)) {
+      throw new Error(`Payment intent ${intentId} cannot be voided in status ${intent.status}`);
+    }
+    return save({ ...intent, status: 'voided' });
+  },
+
+  async refund(intentId, amount) {
+    const intent = getIntent(intentId);
+    if (!['captured', 'partially_refunded'].includes(intent.status)) {
+      throw new Error(`Payment intent ${intentId} cannot be refunded in status ${intent.status}`);
+    }
+
+    const refundable = intent.amountCaptured - intent.amountRefunded;
+    const refundAmount = amount ?? refundable;
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new Error(`Refund amount must be between 1 and ${refundable}`);
+    }
+
+    const amountRefunded = intent.amountRefunded + refundAmount;
+    return save({
+      ...intent,
+      status: amountRefunded === intent.amountCaptured ? 'refunded' : 'partially_refunded',
+      amountRefunded,
+      refundId: `re_sandbox_${randomUUID()}`,
+    });
+  },
+
+  async fetchStatus(intentId) {
+    return { ...getIntent(intentId) };
+  },
+
+  parseWebhookEvent(payload) {
+    if (!payload?.id || !payload.type) {
+      throw new Error('Sandbox webhook events need an id and a type');
+    }
+
+    const intent = payload.data?.object;
+    if (!String(payload.type).startsWith('payment_intent.') || !intent?.intentId) {
+      return { eventId: payload.id, eventType: payload.type, intent: null };
+    }
+    if (!INTENT_STATUSES.includes(intent.status)) {
+      throw new Error(`Unknown payment intent status ${intent.status}`);
+    }
+
+    return {
+      eventId: payload.id,
+      eventType: payload.type,
+      intent: {
+        intentId: intent.intentId,
+        status: intent.status,
+        amount: Number(intent.amount) || 0,
+        amountCaptured: Number(intent.amountCaptured) || 0,
+        amountRefunded: Number(intent.amountRefunded) || 0,
+        currency: intent.currency,
+        ...(intent.errorCode ? { errorCode: intent.errorCode, errorMessage: intent.errorMessage } : {}),
+      },
+      occurredAt: payload.created ? new Date(payload.created) : undefined,
+    };
+  },
+};
+
+export default sandboxGateway;
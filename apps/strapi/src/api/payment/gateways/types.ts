@@ -0,0 +1,76 @@
+/**
+ * Payment gateway contract
+ *
+ * A gateway moves the money of an automated payment through a payment
+ * intent: created for the payment amount, authorized with the customer's
+ * payment token, then captured or voided, and refunded after capture.
+ * Gateways are registered with the payment gateway service under the
+ * `gatewayCode` of the payment methods that use them. Gateways also push
+ * intent changes to the payment webhook, signed with an HMAC of the raw
+ * request body.
+ */
+
+export type GatewayStatus =
+  | 'requires_authorization'
+  | 'authorized'
+  | 'captured'
+  | 'voided'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'failed';
+
+export interface CreateIntentRequest {
+  paymentId: string;
+  orderId?: string;
+  amount: number; // in cents
+  currency: string;
+  metadata?: Record<string, any>;
+}
+
+export interface AuthorizeRequest {
+  paymentToken?: string; // card or wallet token collected by the storefront
+}
+
+export interface GatewayIntent {
+  intentId: string;
+  status: GatewayStatus;
+  amount: number; // in cents
+  amountCaptured: number; // in cents
+  amountRefunded: number; // in cents
+  currency: string;
+  refundId?: string; // set by refund
+  errorCode?: string; // set when the gateway declined the operation
+  errorMessage?: string;
+}
+
+export interface GatewayWebhookEvent {
+  eventId: string; // unique per gateway, redelivered events repeat it
+  eventType: string;
+  intent: GatewayIntent | null; // intent state the event reports, null for events about anything else
+  occurredAt?: Date;
+}
+
+export interface PaymentGateway {
+  code: string;
+  webhookSignatureHeader: string; // request header carrying the hex HMAC-SHA256 of the raw body
+  createIntent(request: CreateIntentRequest): Promise<GatewayIntent>;
+  /**
+   * Authorize an intent, a declined authorization returns a `failed` intent
+   */
+  authorize(intentId: string, request: AuthorizeRequest): Promise<GatewayIntent>;
+  /**
+   * Capture an authorized intent, the full authorized amount when no amount is given
+   */
+  capture(intentId: string, amount?: number): Promise<GatewayIntent>;
+  void(intentId: string): Promise<GatewayIntent>;
+  /**
+   * Refund a captured intent, the remaining captured amount when no amount is given
+   */
+  refund(intentId: string, amount?: number): Promise<GatewayIntent>;
+  fetchStatus(intentId: string): Promise<GatewayIntent>;
+  /**
+   * Map a webhook payload to an event
+   * @throws Error when the payload is not an event of this gateway
+   */
+  parseWebhookEvent(payload: any): GatewayWebhookEvent;
+}
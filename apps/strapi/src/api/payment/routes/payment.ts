@@ -6,6 +6,16 @@
 
 export default {
   routes: [
+    // Receive gateway webhook events, authenticated by their signature
+    {
+      method: 'POST',
+      path: '/payment/webhooks/:gatewayCode',
+      handler: 'payment.handleWebhook',
+      config: {
+        auth: false,
+        description: 'Receive payment gateway webhook',
+      }
+    },
     // Create payment
     {
       method: 'POST',
@@ -26,5 +36,45 @@ export default {
         description: 'Confirm payment',
       }
     },
+    // Authorize an automated payment at its gateway
+    {
+      method: 'POST',
+      path: '/payment/:paymentId/authorize',
+      handler: 'payment.authorizePayment',
+      config: {
+        policies: ['global::is-public'],
+        description: 'Authorize payment',
+      }
+    },
+    // Capture an authorized payment
+    {
+      method: 'POST',
+      path: '/payment/:paymentId/capture',
+      handler: 'payment.capturePayment',
+      config: {
+        policies: ['global::is-admin'],
+        description: 'Capture payment',
+      }
+    },
+    // Void a payment that is not captured
+    {
+      method: 'POST',
+      path: '/payment/:paymentId/void',
+      handler: 'payment.voidPayment',
+      config: {
+        policies: ['global::is-admin'],
+        description: 'Void payment',
+      }
+    },
+    // Refresh the payment with its gateway status
+    {
+      method: 'GET',
+      path: '/payment/:paymentId/gateway-status',
+      handler: 'payment.syncGatewayStatus',
+      config: {
+        policies: ['global::is-admin'],
+        description: 'Get payment gateway status',
+      }
+    },
   ]
 }
@@ -31,6 +31,11 @@ export interface AutomationRule {
   enabled: boolean
 }
 
+// Actors that are not users, kept in the confirmation history but not linked to the order history
+const NON_USER_ACTORS = ['api_token', 'system']
+
+const historyUser = (actor: string): string | null => NON_USER_ACTORS.includes(actor) ? null : actor
+
 export default ({ strapi }: { strapi: Core.Strapi }) => ({
   /**
    * Create payment confirmation
@@ -153,6 +158,25 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
         }
       }
 
+      // validate order status change, the order is paid once the payment is confirmed.
+      // Orders past pending only take payments for the balance an edit left due
+      const order = confirmation.payment.order
+      const balanceDue = order.status !== 'pending' && (order.metadata as any)?.balanceDue
+      const stateMachine = strapi.service('api::order.order-state-machine')
+      const transitionOptions = {
+        role: historyUser(confirmedBy) ? 'admin' : 'system',
+        data: { paymentStatus: 'paid' }
+      } as const
+      const result = balanceDue
+        ? { isValid: true, errors: [] }
+        : stateMachine.checkTransition(order, 'confirmed', transitionOptions)
+      if (!result.isValid) {
+        return {
+          success: false,
+          error: result.errors.join(', ')
+        }
+      }
+
       // Update confirmation
       const updatedConfirmation = await strapi.documents('api::payment.payment-confirmation').update({
         documentId: confirmationId,
@@ -183,33 +207,40 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
           status: 'confirmed',
         }
       })
-      // validate order status change
-      const orderStatusService = strapi.service('api::order.order-status');
-      const result = await orderStatusService.validateStatusUpdate(confirmation.payment.order.status, 'confirmed');
-      if (!result.isValid) {
-        return {
-          success: false,
-          error: result.errors.join(', ')
-        }
+      if (balanceDue) {
+        const { balanceDue: _paid, ...metadata } = order.metadata as any
+        await strapi.documents('api::order.order').update({
+          documentId: order.documentId,
+          data: { paymentStatus: 'paid', metadata }
+        })
+      } else {
+        // Confirm the paid order through the order state machine
+        await stateMachine.transition(order.documentId, 'confirmed', {
+          ...transitionOptions,
+          userId: historyUser(confirmedBy),
+          reason: confirmationNotes || 'Payment confirmed',
+          source: 'payment_gateway',
+          automatedTrigger: 'payment_confirmation'
+        })
       }
-      // Update order payment status
-      await strapi.documents('api::order.order').update({
-        documentId: confirmation.payment.order.documentId,
-        data: {
-          status: 'confirmed',
-          paymentStatus: 'paid'
-        }
-      })
       // create order history
       const orderHistoryService = strapi.service('api::order.order-history');
       await orderHistoryService.recordPaymentUpdate(
         confirmation.payment.order.documentId,
         null,
         confirmation.payment,
-        confirmedBy === 'api_token' ? null : confirmedBy,
+        historyUser(confirmedBy),
         'payment_gateway'
       );
 
+      // A failed receipt never fails the confirmation
+      await strapi.service('api::notification.notification')
+        .notifyOrderCustomer('payment-received', order.documentId, {
+          amount: confirmation.payment.amount,
+          currency: confirmation.payment.currency || order.currency
+        })
+        .catch((error: unknown) => strapi.log.error('Error sending payment received notification:', error))
+
       return {
         success: true,
         data: updatedConfirmation
@@ -303,7 +334,7 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
         confirmation.payment.order.documentId,
         null,
         confirmation.payment,
-        rejectedBy === 'api_token' ? null : rejectedBy,
+        historyUser(rejectedBy),
         'payment_gateway'
       );
 
@@ -768,20 +799,28 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
         switch (action.type) {
           case 'send_notification':
             // Send notification to admin
-            await strapi.plugins['email'].services.email.send({
-              to: action.email,
-              subject: 'Payment Auto-Confirmed',
-              text: `Payment ${confirmation.payment.documentId} has been auto-confirmed`
+            await strapi.service('api::notification.notification').notify({
+              template: 'payment-auto-confirmed',
+              email: action.email,
+              channels: ['email'],
+              reference: confirmation.payment.order?.orderNumber,
+              data: {
+                paymentId: confirmation.payment.documentId,
+                orderNumber: confirmation.payment.order?.orderNumber
+              }
             })
             break
           
           case 'update_order_status':
-            await strapi.documents('api::order.order').update({
-              documentId: confirmation.payment.order.documentId,
-              data: {
-                status: action.status
+            await strapi.service('api::order.order-state-machine').transition(
+              confirmation.payment.order.documentId,
+              action.status,
+              {
+                role: 'system',
+                reason: 'Payment confirmation automation',
+                automatedTrigger: 'payment_confirmation_automation'
               }
-            })
+            )
             break
           
           case 'add_order_note':
@@ -0,0 +1,205 @@
+/**
+ * Payment Gateway Service tests
+ *
+ * Tests automated payments end-to-end against the sandbox gateway:
+ * intent creation, authorization, capture, void, refund and status sync
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PAYMENT_GATEWAY_CONFIG } from '../../../../config/constant';
+import { SANDBOX_TOKENS } from '../gateways/sandbox';
+import createPaymentGatewayService from './payment-gateway';
+
+// In-memory payment records, updates are merged like the document service does
+const payments = new Map<string, any>();
+
+const mockPaymentDocuments = {
+  findOne: jest.fn(async ({ documentId }: any) => (payments.has(documentId) ? { ...payments.get(documentId) } : null)),
+  update: jest.fn(async ({ documentId, data }: any) => {
+    payments.set(documentId, { ...payments.get(documentId), ...data });
+    return { ...payments.get(documentId) };
+  }),
+};
+
+const mockConfirmationService = {
+  confirmPaymentManually: jest.fn() as jest.MockedFunction<any>,
+  rejectPaymentConfirmation: jest.fn() as jest.MockedFunction<any>,
+  cancelPaymentConfirmation: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockPaymentDocuments),
+  service: jest.fn(() => mockConfirmationService),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const originalConfig = { ...PAYMENT_GATEWAY_CONFIG };
+
+describe('Payment Gateway Service', () => {
+  let service: any;
+
+  const payment = {
+    documentId: 'payment-1',
+    amount: 2500,
+    currency: 'USD',
+    status: 'pending',
+    paymentType: 'automated',
+    order: { documentId: 'order-1' },
+    paymentConfirmation: { documentId: 'confirmation-1' },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    payments.clear();
+    payments.set(payment.documentId, { ...payment });
+    Object.assign(PAYMENT_GATEWAY_CONFIG, { captureMethod: 'automatic' });
+    mockConfirmationService.confirmPaymentManually.mockImplementation(async () => {
+      payments.set(payment.documentId, { ...payments.get(payment.documentId), status: 'confirmed' });
+      return { success: true };
+    });
+    mockConfirmationService.rejectPaymentConfirmation.mockResolvedValue({ success: true });
+    mockConfirmationService.cancelPaymentConfirmation.mockResolvedValue({ success: true });
+
+    service = createPaymentGatewayService({ strapi: mockStrapi });
+    // Bind methods for proper `this` context
+    Object.keys(service).forEach(key => {
+      if (typeof service[key] === 'function') {
+        service[key] = service[key].bind(service);
+      }
+    });
+
+    await service.startPayment(payment, 'sandbox');
+  });
+
+  afterEach(() => {
+    Object.assign(PAYMENT_GATEWAY_CONFIG, originalConfig);
+  });
+
+  describe('gateway registry', () => {
+    it('should register gateways by code', () => {
+      const gateway: any = { code: 'acme' };
+
+      service.registerGateway(gateway);
+
+      expect(service.hasGateway('acme')).toBe(true);
+      expect(service.getGateway('acme')).toBe(gateway);
+    });
+
+    it('should reject unknown gateway codes', () => {
+      expect(service.hasGateway('unknown')).toBe(false);
+      expect(() => service.getGateway('unknown')).toThrow('Payment gateway unknown not found');
+    });
+  });
+
+  describe('startPayment', () => {
+    it('should store the sandbox intent on the payment', () => {
+      expect(payments.get('payment-1')).toMatchObject({
+        gatewayCode: 'sandbox',
+        gatewayId: expect.stringMatching(/^pi_sandbox_/),
+        gatewayStatus: 'requires_authorization',
+        gatewayData: expect.objectContaining({ amount: 2500, currency: 'USD' }),
+      });
+    });
+  });
+
+  describe('authorizePayment', () => {
+    it('should authorize, capture and confirm the payment', async () => {
+      const result = await service.authorizePayment('payment-1', { paymentToken: SANDBOX_TOKENS.success });
+
+      expect(result).toMatchObject({ status: 'confirmed', gatewayStatus: 'captured' });
+      expect(result.gatewayData.amountCaptured).toBe(2500);
+      expect(mockConfirmationService.confirmPaymentManually).toHaveBeenCalledWith(
+        'confirmation-1',
+        'system',
+        'Captured by sandbox gateway',
+        expect.objectContaining({ gateway: 'sandbox', amountCaptured: 2500 })
+      );
+    });
+
+    it('should leave the payment authorized with manual captures', async () => {
+      Object.assign(PAYMENT_GATEWAY_CONFIG, { captureMethod: 'manual' });
+
+      const result = await service.authorizePayment('payment-1', { paymentToken: SANDBOX_TOKENS.success });
+
+      expect(result).toMatchObject({ status: 'pending', gatewayStatus: 'authorized' });
+      expect(mockConfirmationService.confirmPaymentManually).not.toHaveBeenCalled();
+
+      const captured = await service.capturePayment('payment-1');
+      expect(captured).toMatchObject({ status: 'confirmed', gatewayStatus: 'captured' });
+    });
+
+    it('should reject the payment when the gateway declines', async () => {
+      await expect(
+        service.authorizePayment('payment-1', { paymentToken: SANDBOX_TOKENS.insufficientFunds })
+      ).rejects.toThrow('Payment declined: The card has insufficient funds');
+
+      expect(payments.get('payment-1').gatewayStatus).toBe('failed');
+      expect(mockConfirmationService.rejectPaymentConfirmation).toHaveBeenCalledWith(
+        'confirmation-1',
+        'system',
+        'The card has insufficient funds',
+        expect.objectContaining({ gateway: 'sandbox', errorCode: 'insufficient_funds' })
+      );
+    });
+
+    it('should not authorize a payment twice', async () => {
+      await service.authorizePayment('payment-1', { paymentToken: SANDBOX_TOKENS.success });
+
+      await expect(service.authorizePayment('payment-1', {})).rejects.toThrow('Payment is not awaiting authorization');
+    });
+  });
+
+  describe('voidPayment', () => {
+    it('should void an authorized payment and cancel its confirmation', async () => {
+      Object.assign(PAYMENT_GATEWAY_CONFIG, { captureMethod: 'manual' });
+      await service.authorizePayment('payment-1', { paymentToken: SANDBOX_TOKENS.success });
+
+      const result = await service.voidPayment('payment-1', 'Order cancelled');
+
+      expect(result.gatewayStatus).toBe('voided');
+      expect(mockConfirmationService.cancelPaymentConfirmation).toHaveBeenCalledWith('confirmation-1', 'system', 'Order cancelled');
+    });
+
+    it('should not void a captured payment', async () => {
+      await service.authorizePayment('payment-1', { paymentToken: SANDBOX_TOKENS.success });
+
+      await expect(service.voidPayment('payment-1')).rejects.toThrow('Only payments that are not captured can be voided');
+    });
+  });
+
+  describe('refundPayment', () => {
+    it('should refund partially then fully', async () => {
+      await service.authorizePayment('payment-1', { paymentToken: SANDBOX_TOKENS.success });
+
+      const partial = await service.refundPayment('payment-1', 1000);
+      expect(partial).toMatchObject({ status: 'confirmed', gatewayStatus: 'partially_refunded' });
+      expect(partial.gatewayData.amountRefunded).toBe(1000);
+
+      const full = await service.refundPayment('payment-1');
+      expect(full).toMatchObject({ status: 'refunded', gatewayStatus: 'refunded' });
+      expect(full.gatewayData.amountRefunded).toBe(2500);
+    });
+  });
+
+  describe('syncStatus', () => {
+    it('should refresh the payment with the gateway state', async () => {
+      const { gatewayId } = payments.get('payment-1');
+      payments.set('payment-1', { ...payments.get('payment-1'), gatewayStatus: 'authorized' });
+
+      const result = await service.syncStatus('payment-1');
+
+      expect(result).toMatchObject({ gatewayId, gatewayStatus: 'requires_authorization' });
+    });
+
+    it('should reject payments without a gateway intent', async () => {
+      payments.set('payment-2', { documentId: 'payment-2', status: 'pending' });
+
+      await expect(service.syncStatus('payment-2')).rejects.toThrow('Payment is not processed by a gateway');
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Payment Gateway Service
+ *
+ * Runs automated payments through the gateway registered under the payment
+ * method `gatewayCode`. The payment keeps the latest state of its gateway
+ * intent, and the payment confirmation follows the gateway outcome: a
+ * capture confirms it, a declined authorization rejects it and a void
+ * cancels it.
+ */
+
+import { Core } from '@strapi/strapi'
+import { PAYMENT_GATEWAY_CONFIG } from '../../../../config/constant'
+import sandboxGateway from '../gateways/sandbox'
+import { AuthorizeRequest, GatewayIntent, PaymentGateway } from '../gateways/types'
+
+// Recorded as the actor of confirmation changes made on a gateway outcome
+const GATEWAY_ACTOR = 'system'
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  const gateways = new Map<string, PaymentGateway>([
+    [sandboxGateway.code, sandboxGateway],
+  ])
+
+  return {
+    /**
+     * Register a gateway, replaces any gateway registered under the same code
+     */
+    registerGateway(gateway: PaymentGateway) {
+      gateways.set(gateway.code, gateway)
+    },
+
+    /**
+     * Get a registered gateway by code
+     * @throws Error when no gateway is registered under the code
+     */
+    getGateway(code: string): PaymentGateway {
+      const gateway = gateways.get(code)
+      if (!gateway) {
+        throw new Error(`Payment gateway ${code} not found`)
+      }
+      return gateway
+    },
+
+    /**
+     * Check whether a gateway is registered under the code
+     */
+    hasGateway(code: string): boolean {
+      return gateways.has(code)
+    },
+
+    /**
+     * Get a payment processed by a gateway
+     * @throws Error when the payment does not exist or has no gateway intent
+     */
+    async getGatewayPayment(paymentId: string): Promise<any> {
+      const payment = await strapi.documents('api::payment.payment').findOne({
+        documentId: paymentId,
+        populate: {
+          paymentConfirmation: true,
+          order: true
+        }
+      })
+
+      if (!payment) {
+        throw new Error('Payment not found')
+      }
+      if (!payment.gatewayCode || !payment.gatewayId) {
+        throw new Error('Payment is not processed by a gateway')
+      }
+      return payment
+    },
+
+    /**
+     * Store the latest intent state on the payment
+     */
+    async recordIntent(paymentId: string, intent: GatewayIntent, data: any = {}): Promise<any> {
+      return strapi.documents('api::payment.payment').update({
+        documentId: paymentId,
+        data: {
+          ...data,
+          gatewayId: intent.intentId,
+          gatewayStatus: intent.status,
+          gatewayData: intent as any,
+        }
+      })
+    },
+
+    /**
+     * Create the gateway intent of a new automated payment
+     */
+    async startPayment(payment: any, gatewayCode: string): Promise<any> {
+      const intent = await this.getGateway(gatewayCode).createIntent({
+        paymentId: payment.documentId,
+        orderId: payment.order?.documentId,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+      })
+
+      return this.recordIntent(payment.documentId, intent, { gatewayCode })
+    },
+
+    /**
+     * Authorize a payment with the customer's payment token, then capture it
+     * right away unless captures are made on admin request
+     * @throws Error when the gateway declines the authorization, after rejecting the payment
+     */
+    async authorizePayment(paymentId: string, request: AuthorizeRequest = {}): Promise<any> {
+      const payment = await this.getGatewayPayment(paymentId)
+      if (payment.status !== 'pending' || payment.gatewayStatus !== 'requires_authorization') {
+        throw new Error('Payment is not awaiting authorization')
+      }
+
+      const intent = await this.getGateway(payment.gatewayCode).authorize(payment.gatewayId, request)
+      await this.recordIntent(paymentId, intent)
+
+      if (intent.status === 'failed') {
+        const confirmationService = strapi.service('api::payment.payment-confirmation')
+        await confirmationService.rejectPaymentConfirmation(
+          payment.paymentConfirmation.documentId,
+          GATEWAY_ACTOR,
+          intent.errorMessage || 'Authorization declined',
+          { gateway: payment.gatewayCode, intentId: intent.intentId, errorCode: intent.errorCode }
+        )
+        throw new Error(`Payment declined: ${intent.errorMessage || intent.errorCode}`)
+      }
+
+      if (PAYMENT_GATEWAY_CONFIG.captureMethod === 'automatic') {
+        return this.capturePayment(paymentId)
+      }
+      return this.getGatewayPayment(paymentId)
+    },
+
+    /**
+     * Capture an authorized payment and confirm it
+     */
+    async capturePayment(paymentId: string, amount?: number): Promise<any> {
+      const payment = await this.getGatewayPayment(paymentId)
+      if (payment.gatewayStatus !== 'authorized') {
+        throw new Error('Payment is not authorized')
+      }
+
+      const intent = await this.getGateway(payment.gatewayCode).capture(payment.gatewayId, amount)
+      await this.recordIntent(paymentId, intent)
+
+      const confirmationService = strapi.service('api::payment.payment-confirmation')
+      const result = await confirmationService.confirmPaymentManually(
+        payment.paymentConfirmation.documentId,
+        GATEWAY_ACTOR,
+        `Captured by ${payment.gatewayCode} gateway`,
+        { gateway: payment.gatewayCode, intentId: intent.intentId, amountCaptured: intent.amountCaptured }
+      )
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      return this.getGatewayPayment(paymentId)
+    },
+
+    /**
+     * Void a payment that is not captured yet and cancel its confirmation
+     */
+    async voidPayment(paymentId: string, reason?: string): Promise<any> {
+      const payment = await this.getGatewayPayment(paymentId)
+      if (!['requires_authorization', 'authorized'].includes(payment.gatewayStatus)) {
+        throw new Error('Only payments that are not captured can be voided')
+      }
+
+      const intent = await this.getGateway(payment.gatewayCode).void(payment.gatewayId)
+      await this.recordIntent(paymentId, intent)
+
+      const confirmationService = strapi.service('api::payment.payment-confirmation')
+      const result = await confirmationService.cancelPaymentConfirmation(
+        payment.paymentConfirmation.documentId,
+        GATEWAY_ACTOR,
+        reason || 'Authorization voided'
+      )
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      return this.getGatewayPayment(paymentId)
+    },
+
+    /**
+     * Refund a captured payment, the remaining captured amount when no amount is given
+     */
+    async refundPayment(paymentId: string, amount?: number): Promise<any> {
+      const payment = await this.getGatewayPayment(paymentId)
+      if (!['captured', 'partially_refunded'].includes(payment.gatewayStatus)) {
+        throw new Error('Only captured payments can be refunded')
+      }
+
+      const intent = await this.getGateway(payment.gatewayCode).refund(payment.gatewayId, amount)
+      return this.recordIntent(
+        paymentId,
+        intent,
+        intent.status === 'refunded' ? { status: 'refunded' } : {}
+      )
+    },
+
+    /**
+     * Refresh the payment with the intent state at the gateway
+     */
+    async syncStatus(paymentId: string): Promise<any> {
+      const payment = await this.getGatewayPayment(paymentId)
+      const intent = await this.getGateway(payment.gatewayCode).fetchStatus(payment.gatewayId)
+      return this.recordIntent(paymentId, intent)
+    },
+  }
+}
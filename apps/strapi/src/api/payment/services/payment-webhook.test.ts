@@ -0,0 +1,276 @@
+/**
+ * Payment Webhook Service tests
+ *
+ * Tests signature verification, event de-duplication and out of order
+ * delivery of sandbox gateway webhook events
+ */
+
+import { createHmac } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PAYMENT_GATEWAY_CONFIG } from '../../../../config/constant';
+import sandboxGateway, { createSandboxWebhookEvent, SANDBOX_TOKENS } from '../gateways/sandbox';
+import createPaymentGatewayService from './payment-gateway';
+import createPaymentWebhookService from './payment-webhook';
+
+const SECRET = 'whsec_test';
+
+// In-memory records per content type, updates are merged like the document service does
+const records: Record<string, Map<string, any>> = {};
+const store = (uid: string) => (records[uid] = records[uid] || new Map());
+
+const matches = (record: any, filters: any) =>
+  Object.entries(filters).every(([key, value]) => record[key] === value);
+
+const documents = (uid: string) => ({
+  findOne: jest.fn(async ({ documentId }: any) => (store(uid).has(documentId) ? { ...store(uid).get(documentId) } : null)),
+  findFirst: jest.fn(async ({ filters }: any) => {
+    const record = [...store(uid).values()].find((item) => matches(item, filters));
+    return record ? { ...record } : null;
+  }),
+  create: jest.fn(async ({ data }: any) => {
+    const documentId = `${uid}-${store(uid).size + 1}`;
+    store(uid).set(documentId, { documentId, ...data });
+    return { ...store(uid).get(documentId) };
+  }),
+  update: jest.fn(async ({ documentId, data }: any) => {
+    store(uid).set(documentId, { ...store(uid).get(documentId), ...data });
+    return { ...store(uid).get(documentId) };
+  }),
+});
+
+const mockConfirmationService = {
+  confirmPaymentManually: jest.fn() as jest.MockedFunction<any>,
+  rejectPaymentConfirmation: jest.fn() as jest.MockedFunction<any>,
+  cancelPaymentConfirmation: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockOrderHistoryService = {
+  recordPaymentUpdate: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockServices: Record<string, any> = {
+  'api::payment.payment-confirmation': mockConfirmationService,
+  'api::order.order-history': mockOrderHistoryService,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn((uid: string) => documents(uid)),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const bindMethods = (service: any) => {
+  Object.keys(service).forEach(key => {
+    if (typeof service[key] === 'function') {
+      service[key] = service[key].bind(service);
+    }
+  });
+  return service;
+};
+
+const sign = (body: string) => createHmac('sha256', SECRET).update(body).digest('hex');
+
+const originalSecrets = { ...PAYMENT_GATEWAY_CONFIG.webhookSecrets };
+
+describe('Payment Webhook Service', () => {
+  let service: any;
+  let intentId: string;
+
+  const paymentUid = 'api::payment.payment';
+  const confirmationUid = 'api::payment.payment-confirmation';
+
+  /**
+   * Deliver a payload to the webhook signed with the sandbox secret
+   */
+  const deliver = (payload: any) => {
+    const body = JSON.stringify(payload);
+    return service.handleWebhook('sandbox', body, { 'x-sandbox-signature': sign(body) });
+  };
+
+  /**
+   * Keep the confirmation status in step with the mocked confirmation service calls
+   */
+  const settle = (confirmationStatus: string, paymentStatus?: string) => async () => {
+    store(confirmationUid).set('confirmation-1', { ...store(confirmationUid).get('confirmation-1'), confirmationStatus });
+    if (paymentStatus) {
+      store(paymentUid).set('payment-1', { ...store(paymentUid).get('payment-1'), status: paymentStatus });
+    }
+    return { success: true };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    Object.values(records).forEach((map) => map.clear());
+    PAYMENT_GATEWAY_CONFIG.webhookSecrets.sandbox = SECRET;
+
+    mockConfirmationService.confirmPaymentManually.mockImplementation(settle('confirmed', 'confirmed'));
+    mockConfirmationService.rejectPaymentConfirmation.mockImplementation(settle('failed', 'rejected'));
+    mockConfirmationService.cancelPaymentConfirmation.mockImplementation(settle('cancelled'));
+
+    mockServices['api::payment.payment-gateway'] = bindMethods(createPaymentGatewayService({ strapi: mockStrapi }));
+    service = bindMethods(createPaymentWebhookService({ strapi: mockStrapi }));
+
+    // the payment relations are kept as populated objects
+    const intent = await sandboxGateway.createIntent({ paymentId: 'payment-1', amount: 2500, currency: 'USD' });
+    intentId = intent.intentId;
+    store(confirmationUid).set('confirmation-1', { documentId: 'confirmation-1', confirmationStatus: 'pending' });
+    store(paymentUid).set('payment-1', {
+      documentId: 'payment-1',
+      status: 'pending',
+      gatewayCode: 'sandbox',
+      gatewayId: intentId,
+      gatewayStatus: 'requires_authorization',
+      order: { documentId: 'order-1', paymentStatus: 'pending' },
+      get paymentConfirmation() {
+        return store(confirmationUid).get('confirmation-1');
+      },
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(PAYMENT_GATEWAY_CONFIG.webhookSecrets, originalSecrets);
+  });
+
+  describe('verifySignature', () => {
+    it('should accept the HMAC of the raw body only', () => {
+      expect(service.verifySignature('sandbox', '{"id":1}', sign('{"id":1}'))).toBe(true);
+      expect(service.verifySignature('sandbox', '{"id":2}', sign('{"id":1}'))).toBe(false);
+      expect(service.verifySignature('sandbox', '{"id":1}', undefined)).toBe(false);
+    });
+
+    it('should refuse gateways without a configured secret', () => {
+      PAYMENT_GATEWAY_CONFIG.webhookSecrets.sandbox = '';
+
+      expect(() => service.verifySignature('sandbox', '{}', 'abc')).toThrow(
+        'Webhook secret for payment gateway sandbox is not configured'
+      );
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should reject events with an invalid signature without storing them', async () => {
+      await expect(
+        service.handleWebhook('sandbox', '{"id":"evt_1"}', { 'x-sandbox-signature': 'forged' })
+      ).rejects.toThrow('Invalid webhook signature');
+
+      expect(store('api::payment.payment-webhook-event').size).toBe(0);
+    });
+
+    it('should store and process a capture event', async () => {
+      await sandboxGateway.authorize(intentId, { paymentToken: SANDBOX_TOKENS.success });
+      await sandboxGateway.capture(intentId);
+
+      const result = await deliver(createSandboxWebhookEvent(intentId, 'evt_capture'));
+
+      expect(result).toEqual({ eventId: 'evt_capture', status: 'processed', duplicate: false, reason: undefined });
+      expect(store(paymentUid).get('payment-1')).toMatchObject({ status: 'confirmed', gatewayStatus: 'captured' });
+      expect(store(confirmationUid).get('confirmation-1').confirmationMethod).toBe('webhook');
+      expect([...store('api::payment.payment-webhook-event').values()][0]).toMatchObject({
+        eventKey: 'sandbox:evt_capture',
+        eventType: 'payment_intent.captured',
+        status: 'processed',
+        payment: 'payment-1',
+      });
+    });
+
+    it('should not process a redelivered event twice', async () => {
+      await sandboxGateway.authorize(intentId, { paymentToken: SANDBOX_TOKENS.success });
+      await sandboxGateway.capture(intentId);
+      const payload = createSandboxWebhookEvent(intentId, 'evt_capture');
+
+      await deliver(payload);
+      const result = await deliver(payload);
+
+      expect(result).toMatchObject({ eventId: 'evt_capture', status: 'processed', duplicate: true });
+      expect(mockConfirmationService.confirmPaymentManually).toHaveBeenCalledTimes(1);
+      expect(store('api::payment.payment-webhook-event').size).toBe(1);
+    });
+
+    it('should ignore an authorization arriving after the capture', async () => {
+      await sandboxGateway.authorize(intentId, { paymentToken: SANDBOX_TOKENS.success });
+      const authorized = createSandboxWebhookEvent(intentId, 'evt_authorized');
+      await sandboxGateway.capture(intentId);
+      const captured = createSandboxWebhookEvent(intentId, 'evt_captured');
+
+      await deliver(captured);
+      const result = await deliver(authorized);
+
+      expect(result).toMatchObject({ status: 'ignored', reason: 'Payment is already captured' });
+      expect(store(paymentUid).get('payment-1')).toMatchObject({ status: 'confirmed', gatewayStatus: 'captured' });
+    });
+
+    it('should confirm then refund when the refund arrives before the capture', async () => {
+      await sandboxGateway.authorize(intentId, { paymentToken: SANDBOX_TOKENS.success });
+      await sandboxGateway.capture(intentId);
+      const captured = createSandboxWebhookEvent(intentId, 'evt_captured');
+      await sandboxGateway.refund(intentId);
+      const refunded = createSandboxWebhookEvent(intentId, 'evt_refunded');
+
+      await deliver(refunded);
+      const result = await deliver(captured);
+
+      expect(result.status).toBe('ignored');
+      expect(mockConfirmationService.confirmPaymentManually).toHaveBeenCalledTimes(1);
+      expect(store(paymentUid).get('payment-1')).toMatchObject({ status: 'refunded', gatewayStatus: 'refunded' });
+      expect(store('api::order.order').get('order-1')).toMatchObject({ paymentStatus: 'refunded' });
+      expect(mockOrderHistoryService.recordPaymentUpdate).toHaveBeenCalledWith(
+        'order-1',
+        expect.any(Object),
+        { status: 'refunded', paymentStatus: 'refunded' },
+        null,
+        'webhook'
+      );
+    });
+
+    it('should reject the payment on a declined authorization', async () => {
+      await sandboxGateway.authorize(intentId, { paymentToken: SANDBOX_TOKENS.declined });
+
+      await deliver(createSandboxWebhookEvent(intentId));
+
+      expect(mockConfirmationService.rejectPaymentConfirmation).toHaveBeenCalledWith(
+        'confirmation-1',
+        'system',
+        'The card was declined',
+        expect.objectContaining({ gateway: 'sandbox', intentId })
+      );
+      expect(store(paymentUid).get('payment-1').gatewayStatus).toBe('failed');
+    });
+
+    it('should record failed processing and process the redelivery', async () => {
+      await sandboxGateway.authorize(intentId, { paymentToken: SANDBOX_TOKENS.success });
+      await sandboxGateway.capture(intentId);
+      const payload = createSandboxWebhookEvent(intentId, 'evt_capture');
+      mockConfirmationService.confirmPaymentManually.mockResolvedValueOnce({ success: false, error: 'Database unavailable' });
+
+      await expect(deliver(payload)).rejects.toThrow('Database unavailable');
+      expect([...store('api::payment.payment-webhook-event').values()][0]).toMatchObject({
+        status: 'failed',
+        error: 'Database unavailable',
+      });
+
+      const result = await deliver(payload);
+
+      expect(result).toMatchObject({ status: 'processed', duplicate: false });
+      expect(store(paymentUid).get('payment-1')).toMatchObject({ status: 'confirmed', gatewayStatus: 'captured' });
+    });
+
+    it('should ignore events that do not concern payment intents', async () => {
+      const result = await deliver({ id: 'evt_payout', type: 'payout.paid', data: { object: {} } });
+
+      expect(result).toMatchObject({ status: 'ignored', reason: 'Event does not concern a payment intent' });
+    });
+
+    it('should fail events for intents not stored yet so the gateway redelivers them', async () => {
+      const intent = await sandboxGateway.createIntent({ paymentId: 'payment-2', amount: 900, currency: 'USD' });
+
+      await expect(deliver(createSandboxWebhookEvent(intent.intentId))).rejects.toThrow(
+        `Payment for intent ${intent.intentId} not found`
+      );
+    });
+  });
+});
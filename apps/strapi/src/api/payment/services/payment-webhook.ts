@@ -0,0 +1,265 @@
+/**
+ * Payment Webhook Service
+ *
+ * Processes the intent events gateways push to the payment webhook. Every
+ * signed event is stored raw before it is processed, keyed by gateway and
+ * event ID so a redelivered event is only processed again when it failed.
+ * Gateways do not guarantee delivery order, so an event only applies when
+ * it moves the payment forward: a late `authorized` event never undoes a
+ * capture it arrived after.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { Core } from '@strapi/strapi'
+import { PAYMENT_GATEWAY_CONFIG } from '../../../../config/constant'
+import { GatewayIntent, GatewayStatus, GatewayWebhookEvent } from '../gateways/types'
+
+export interface WebhookResult {
+  eventId: string
+  status: 'processed' | 'ignored'
+  duplicate: boolean
+  reason?: string
+}
+
+// How far a payment has moved through its gateway, refunds come after any settlement
+const STATUS_RANK: Record<GatewayStatus, number> = {
+  requires_authorization: 0,
+  authorized: 1,
+  captured: 2,
+  voided: 2,
+  failed: 2,
+  partially_refunded: 3,
+  refunded: 4,
+}
+
+// Recorded as the actor of confirmation changes made on a webhook event
+const WEBHOOK_ACTOR = 'system'
+
+/**
+ * Check whether an intent state moves the payment past its current one
+ */
+const isAdvance = (payment: any, intent: GatewayIntent): boolean => {
+  if (!payment.gatewayStatus) {
+    return true
+  }
+  const currentRank = STATUS_RANK[payment.gatewayStatus as GatewayStatus] ?? 0
+  if (STATUS_RANK[intent.status] !== currentRank) {
+    return STATUS_RANK[intent.status] > currentRank
+  }
+  // a later partial refund reports a higher refunded amount
+  return intent.status === 'partially_refunded' &&
+    intent.amountRefunded > (Number(payment.gatewayData?.amountRefunded) || 0)
+}
+
+export default ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Verify the HMAC-SHA256 signature of a raw webhook body
+   * @throws Error when no secret is configured for the gateway
+   */
+  verifySignature(gatewayCode: string, rawBody: string, signature?: string): boolean {
+    const secret = PAYMENT_GATEWAY_CONFIG.webhookSecrets[gatewayCode]
+    if (!secret) {
+      throw new Error(`Webhook secret for payment gateway ${gatewayCode} is not configured`)
+    }
+    if (!signature) {
+      return false
+    }
+
+    const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('hex'))
+    const received = Buffer.from(signature.trim().toLowerCase())
+    return expected.length === received.length && timingSafeEqual(expected, received)
+  },
+
+  /**
+   * Verify, store and process a webhook event
+   * @throws Error when the signature or the payload is invalid, or processing failed
+   */
+  async handleWebhook(gatewayCode: string, rawBody: string, headers: Record<string, any>): Promise<WebhookResult> {
+    const gateway = strapi.service('api::payment.payment-gateway').getGateway(gatewayCode)
+
+    if (!this.verifySignature(gatewayCode, rawBody, headers[gateway.webhookSignatureHeader])) {
+      throw new Error('Invalid webhook signature')
+    }
+
+    let payload: any
+    let event: GatewayWebhookEvent
+    try {
+      payload = JSON.parse(rawBody)
+      event = gateway.parseWebhookEvent(payload)
+    } catch (error) {
+      throw new Error(`Invalid webhook payload: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const { record, duplicate } = await this.storeEvent(gatewayCode, event, payload)
+    if (duplicate) {
+      return { eventId: event.eventId, status: record.status, duplicate: true }
+    }
+
+    try {
+      const outcome = await this.applyEvent(gatewayCode, event)
+      await strapi.documents('api::payment.payment-webhook-event').update({
+        documentId: record.documentId,
+        data: {
+          status: outcome.status,
+          payment: outcome.paymentId || null,
+          error: outcome.reason || null,
+          processedAt: new Date(),
+        }
+      })
+      return { eventId: event.eventId, status: outcome.status, duplicate: false, reason: outcome.reason }
+    } catch (error) {
+      // failed events are processed again when the gateway redelivers them
+      await strapi.documents('api::payment.payment-webhook-event').update({
+        documentId: record.documentId,
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          processedAt: new Date(),
+        }
+      })
+      throw error
+    }
+  },
+
+  /**
+   * Store a raw event, an event already stored is a duplicate unless it failed
+   *
+   * The unique event key makes a concurrent redelivery fail to create its own
+   * record, it is then reported as a duplicate of the first one.
+   */
+  async storeEvent(gatewayCode: string, event: GatewayWebhookEvent, payload: any): Promise<{ record: any; duplicate: boolean }> {
+    const eventKey = `${gatewayCode}:${event.eventId}`
+    const existing = await strapi.documents('api::payment.payment-webhook-event').findFirst({
+      filters: { eventKey }
+    })
+    if (existing) {
+      return { record: existing, duplicate: existing.status !== 'failed' }
+    }
+
+    try {
+      const record = await strapi.documents('api::payment.payment-webhook-event').create({
+        data: {
+          eventKey,
+          gatewayCode,
+          eventId: event.eventId,
+          eventType: event.eventType,
+          intentId: event.intent?.intentId || null,
+          payload,
+          status: 'received',
+          occurredAt: event.occurredAt || null,
+          receivedAt: new Date(),
+        }
+      })
+      return { record, duplicate: false }
+    } catch (error) {
+      const concurrent = await strapi.documents('api::payment.payment-webhook-event').findFirst({
+        filters: { eventKey }
+      })
+      if (!concurrent) {
+        throw error
+      }
+      return { record: concurrent, duplicate: true }
+    }
+  },
+
+  /**
+   * Move the payment, its confirmation and its order to the state the event reports
+   * @throws Error when no payment has the event intent yet, so the gateway redelivers it
+   */
+  async applyEvent(gatewayCode: string, event: GatewayWebhookEvent): Promise<{ status: 'processed' | 'ignored'; paymentId?: string; reason?: string }> {
+    const { intent } = event
+    if (!intent) {
+      return { status: 'ignored', reason: 'Event does not concern a payment intent' }
+    }
+
+    const payment = await strapi.documents('api::payment.payment').findFirst({
+      filters: { gatewayCode, gatewayId: intent.intentId },
+      populate: {
+        paymentConfirmation: true,
+        order: true
+      }
+    })
+    if (!payment) {
+      throw new Error(`Payment for intent ${intent.intentId} not found`)
+    }
+    if (!isAdvance(payment, intent)) {
+      return { status: 'ignored', paymentId: payment.documentId, reason: `Payment is already ${payment.gatewayStatus}` }
+    }
+
+    const evidence = { gateway: gatewayCode, intentId: intent.intentId, eventId: event.eventId }
+    const confirmationStatus = payment.paymentConfirmation?.confirmationStatus
+
+    if (intent.status === 'failed' && confirmationStatus === 'pending') {
+      await this.settleConfirmation(payment, 'reject', intent.errorMessage || 'Authorization declined', evidence)
+    }
+    if (intent.status === 'voided' && ['pending', 'failed'].includes(confirmationStatus)) {
+      await this.settleConfirmation(payment, 'cancel', 'Authorization voided', evidence)
+    }
+    // a refund event can arrive before the capture event it follows
+    if (['captured', 'partially_refunded', 'refunded'].includes(intent.status) && confirmationStatus === 'pending') {
+      await this.settleConfirmation(payment, 'confirm', `Captured by ${gatewayCode} gateway`, {
+        ...evidence,
+        amountCaptured: intent.amountCaptured,
+      })
+    }
+    if (intent.status === 'refunded') {
+      await this.markRefunded(payment)
+    }
+
+    // stored last, an event failing above still moves the payment forward when redelivered
+    await strapi.service('api::payment.payment-gateway').recordIntent(payment.documentId, intent)
+
+    return { status: 'processed', paymentId: payment.documentId }
+  },
+
+  /**
+   * Confirm, reject or cancel the payment confirmation as reported by the gateway
+   */
+  async settleConfirmation(payment: any, action: 'confirm' | 'reject' | 'cancel', notes: string, evidence: any): Promise<void> {
+    const confirmationService = strapi.service('api::payment.payment-confirmation')
+    const confirmationId = payment.paymentConfirmation.documentId
+
+    const result = action === 'confirm'
+      ? await confirmationService.confirmPaymentManually(confirmationId, WEBHOOK_ACTOR, notes, evidence)
+      : action === 'reject'
+        ? await confirmationService.rejectPaymentConfirmation(confirmationId, WEBHOOK_ACTOR, notes, evidence)
+        : await confirmationService.cancelPaymentConfirmation(confirmationId, WEBHOOK_ACTOR, notes)
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+
+    await strapi.documents('api::payment.payment-confirmation').update({
+      documentId: confirmationId,
+      data: {
+        confirmationMethod: 'webhook'
+      }
+    })
+  },
+
+  /**
+   * Mark a fully refunded payment and its order as refunded
+   */
+  async markRefunded(payment: any): Promise<void> {
+    await strapi.documents('api::payment.payment').update({
+      documentId: payment.documentId,
+      data: {
+        status: 'refunded'
+      }
+    })
+    await strapi.documents('api::order.order').update({
+      documentId: payment.order.documentId,
+      data: {
+        paymentStatus: 'refunded'
+      }
+    })
+
+    const orderHistoryService = strapi.service('api::order.order-history')
+    await orderHistoryService.recordPaymentUpdate(
+      payment.order.documentId,
+      { status: payment.status, paymentStatus: payment.order.paymentStatus },
+      { status: 'refunded', paymentStatus: 'refunded' },
+      null,
+      'webhook'
+    )
+  },
+})
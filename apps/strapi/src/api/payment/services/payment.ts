@@ -29,6 +29,11 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
                 if (!result.success) {
                     throw new Error(result.error)
                 }
+                // automated payments start with an intent at their gateway
+                if (payment.paymentType === 'automated') {
+                    const paymentGatewayService = strapi.service('api::payment.payment-gateway');
+                    await paymentGatewayService.startPayment(payment, data.paymentMethod.gatewayCode);
+                }
                 // create order history
                 const orderHistoryService = strapi.service('api::order.order-history');
                 await orderHistoryService.recordPaymentUpdate(orderId, null, payment, isGuest ? null : userId, 'payment_gateway');
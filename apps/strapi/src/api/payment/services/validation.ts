@@ -18,8 +18,8 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
             errors.push('Order not found')
             return { isValid: false, errors, data: validatedData }
         }
-        // order status must be pending
-        if (order.status !== 'pending') {
+        // order status must be pending, unless an edit left a balance due on the order
+        if (order.status !== 'pending' && !(order.metadata as any)?.balanceDue) {
             errors.push('Order status must be pending')
         }
         // payment status must be pending
@@ -92,6 +92,13 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
             }
             validatedData.paymentType = data.paymentType;
         }
+        // automated payments need a payment method with a registered gateway
+        if (data.paymentType === 'automated' && validatedData.paymentMethod) {
+            const gatewayCode = validatedData.paymentMethod.gatewayCode;
+            if (!gatewayCode || !strapi.service('api::payment.payment-gateway').hasGateway(gatewayCode)) {
+                errors.push('Payment method has no registered payment gateway')
+            }
+        }
         // gateway id must be a string
         if (data.gatewayId) {
             if (typeof data.gatewayId !== 'string') {
@@ -147,6 +154,45 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
             errors.push('Data is required')
         }
         
+        return { isValid: errors.length === 0, errors, data: validatedData }
+    },
+    async validateAuthorizePayment(paymentId: string, userId: string, data: any, isGuest: boolean) {
+        const errors: string[] = [];
+        const validatedData: any = {};
+        // check if payment exists
+        const payment = await strapi.documents('api::payment.payment').findOne({
+            documentId: paymentId,
+            populate: {
+                order: {
+                    populate: {
+                        user: true,
+                        checkout: true
+                    }
+                }
+            }
+        })
+        if (!payment) {
+            errors.push('Payment not found')
+            return { isValid: false, errors, data: validatedData }
+        }
+        // check if payment owner is correct
+        if (isGuest && payment.order?.checkout?.sessionId !== userId) {
+            errors.push('Payment owner is not correct')
+        } else if (!isGuest && payment.order?.user?.id !== userId) {
+            errors.push('Payment owner is not correct')
+        }
+        // only automated payments are authorized at a gateway
+        if (payment.paymentType !== 'automated') {
+            errors.push('Payment is not an automated payment')
+        }
+        // payment token must be a string
+        if (data?.paymentToken) {
+            if (typeof data.paymentToken !== 'string') {
+                errors.push('Payment token must be a string')
+            }
+            validatedData.paymentToken = data.paymentToken;
+        }
+
         return { isValid: errors.length === 0, errors, data: validatedData }
     }
 })
\ No newline at end of file
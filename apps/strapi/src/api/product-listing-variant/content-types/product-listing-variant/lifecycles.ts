@@ -12,6 +12,16 @@ export default {
   
     //   // do something to the result;
     // },
+    // Cached cart calculations containing the variant are stale after a price change
+    async afterUpdate(event) {
+      const { data } = event.params;
+      if (data?.basePrice === undefined && data?.discountPrice === undefined) {
+        return;
+      }
+      await strapi.service('api::cart.calculation-cache').invalidateByProduct({
+        variantId: event.result?.documentId,
+      });
+    },
     beforeDelete(event) {
         // console.log('beforeDelete', event);
     //   const { documentId } = event.params;
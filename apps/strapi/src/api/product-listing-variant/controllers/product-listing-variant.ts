@@ -321,7 +321,7 @@ export default factories.createCoreController(
     async validateSelection(ctx) {
       try {
         const { productListingId } = ctx.params;
-        const { selectedOptions } = ctx.request.body;
+        const { selectedOptions, quantity = 1 } = ctx.request.body;
 
         if (!productListingId) {
           return ctx.badRequest('Product listing ID is required');
@@ -336,7 +336,8 @@ export default factories.createCoreController(
         );
         const validation = await selectionService.validateVariantSelection(
           productListingId,
-          selectedOptions
+          selectedOptions,
+          quantity
         );
 
         return validation;
@@ -5,9 +5,9 @@
 export default ({ strapi }) => ({
 
   /**
-   * Validate variant selection
+   * Validate variant selection, including stock of the matching variant
    */
-  async validateVariantSelection(productListingId, selectedOptions) {
+  async validateVariantSelection(productListingId, selectedOptions, quantity = 1) {
     const errors = [];
     const warnings = [];
 
@@ -32,7 +32,7 @@ export default ({ strapi }) => ({
           productListing: productListingId,
           status: 'published',
         },
-        populate: ['optionValues'],
+        populate: ['optionValues', 'product'],
       });
 
     // Check if all required option groups are selected
@@ -82,11 +82,54 @@ export default ({ strapi }) => ({
       errors.push('No variant found with the selected options');
     }
 
+    const availability = matchingVariant
+      ? await this.checkVariantAvailability(matchingVariant, quantity)
+      : null;
+
+    if (availability && !availability.isAvailable) {
+      errors.push(
+        availability.availableQuantity > 0
+          ? `Only ${availability.availableQuantity} units of the selected variant are available`
+          : 'Selected variant is out of stock'
+      );
+    } else if (availability?.isLowStock) {
+      warnings.push('Selected variant is low on stock');
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
       warnings,
       matchingVariant: matchingVariant || null,
+      availability,
+    };
+  },
+
+  /**
+   * Check stock of a variant, variants without their own inventory record
+   * use the stock of their product
+   */
+  async checkVariantAvailability(variant, quantity = 1) {
+    const inventoryService = strapi.service('api::inventory.inventory');
+    const inventory = await inventoryService.findInventoryRecord(
+      variant.product?.documentId,
+      variant.documentId
+    );
+
+    if (!inventory) {
+      return {
+        isTracked: false,
+        isAvailable: true,
+        availableQuantity: null,
+        isLowStock: false,
+      };
+    }
+
+    return {
+      isTracked: true,
+      isAvailable: inventory.available >= quantity,
+      availableQuantity: inventory.available,
+      isLowStock: inventory.isLowStock,
     };
   },
 
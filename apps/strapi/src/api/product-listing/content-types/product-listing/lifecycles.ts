@@ -12,6 +12,25 @@ export default {
   
     //   // do something to the result;
     // },
+    // Cached cart calculations containing the listing are stale after a price change
+    async afterUpdate(event) {
+      const { data } = event.params;
+      if (data?.basePrice === undefined && data?.discountPrice === undefined) {
+        return;
+      }
+      await strapi.service('api::cart.calculation-cache').invalidateByProduct({
+        productListingId: event.result?.documentId,
+      });
+    },
+    // Publishing creates the published row anew, with the prices of the draft
+    async afterCreate(event) {
+      if (!event.result?.publishedAt) {
+        return;
+      }
+      await strapi.service('api::cart.calculation-cache').invalidateByProduct({
+        productListingId: event.result.documentId,
+      });
+    },
     async beforeDelete(event) {
       const { id } = event.params.where;
 
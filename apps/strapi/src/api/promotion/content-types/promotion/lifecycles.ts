@@ -0,0 +1,18 @@
+import { normalizePromotionCode } from '../../services/promotion';
+
+export default {
+    // Codes are matched case-insensitively, store them in a single canonical form
+    beforeCreate(event) {
+      const { data } = event.params;
+      if (data?.code) {
+        data.code = normalizePromotionCode(data.code);
+      }
+    },
+
+    beforeUpdate(event) {
+      const { data } = event.params;
+      if (data?.code) {
+        data.code = normalizePromotionCode(data.code);
+      }
+    },
+  };
@@ -0,0 +1,7 @@
+/**
+ * promotion controller
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreController('api::promotion.promotion');
@@ -0,0 +1,28 @@
+/**
+ * promotion router
+ *
+ * Promotions are managed by admins only, customers apply codes
+ * through the cart discount routes.
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::promotion.promotion', {
+  config: {
+    find: {
+      policies: ['global::is-admin'],
+    },
+    findOne: {
+      policies: ['global::is-admin'],
+    },
+    create: {
+      policies: ['global::is-admin'],
+    },
+    update: {
+      policies: ['global::is-admin'],
+    },
+    delete: {
+      policies: ['global::is-admin'],
+    },
+  },
+});
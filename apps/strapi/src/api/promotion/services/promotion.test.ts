@@ -0,0 +1,271 @@
+/**
+ * Promotion Service tests
+ *
+ * Tests for promotion code evaluation: validity rules, usage limits,
+ * eligibility restrictions and discount calculation per promotion type
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+// Create mock document service methods with proper typing
+const mockDocumentMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  create: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+  delete: jest.fn() as jest.MockedFunction<any>,
+  count: jest.fn() as jest.MockedFunction<any>,
+};
+
+// Conditional usage count updates, resolves to the number of rows updated
+const mockUsageQuery: any = {
+  where: jest.fn(() => mockUsageQuery),
+  andWhereRaw: jest.fn(() => mockUsageQuery),
+  transacting: jest.fn(() => mockUsageQuery),
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+// Mock Strapi instance with Document Service API
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  db: {
+    transaction: jest.fn(async (callback: any) => callback({ trx: null })),
+    metadata: {
+      get: jest.fn(() => ({ tableName: 'promotions', attributes: { usageCount: { columnName: 'usage_count' }, usageLimit: { columnName: 'usage_limit' } } })),
+    },
+    connection: Object.assign(jest.fn(() => mockUsageQuery), {
+      raw: jest.fn((sql: string, bindings: any[]) => ({ sql, bindings })),
+    }),
+  },
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+// Mock Strapi factories with proper service context
+jest.mock('@strapi/strapi', () => ({
+  factories: {
+    createCoreService: jest.fn((serviceName: any, serviceFunction?: any) => {
+      if (serviceFunction) {
+        const serviceInstance = serviceFunction({ strapi: mockStrapi });
+        // Bind methods to service instance for proper `this` context
+        Object.keys(serviceInstance).forEach(key => {
+          if (typeof serviceInstance[key] === 'function') {
+            serviceInstance[key] = serviceInstance[key].bind(serviceInstance);
+          }
+        });
+        return serviceInstance;
+      }
+      return mockStrapi;
+    }),
+  },
+}));
+
+const createPromotion = (overrides: any = {}) => ({
+  documentId: 'promo-doc-1',
+  code: 'SAVE10',
+  type: 'percentage',
+  value: 10,
+  isActive: true,
+  usageCount: 0,
+  usageLimit: null,
+  usageLimitPerCustomer: null,
+  minimumSubtotal: 0,
+  eligibleCategories: [],
+  eligibleProductListings: [],
+  ...overrides,
+});
+
+const items = [
+  { productListing: { documentId: 'listing-1' }, price: 3000, quantity: 2, total: 6000 },
+  { productListing: { documentId: 'listing-2' }, price: 1000, quantity: 1, total: 1000 },
+];
+
+describe('Promotion Service', () => {
+  let service: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+
+    service = require('./promotion').default;
+  });
+
+  describe('calculatePromotionDiscount', () => {
+    it('should apply percentage discount to the eligible subtotal', async () => {
+      const result = await service.calculatePromotionDiscount(createPromotion(), items);
+
+      expect(result.discount).toBe(700);
+      expect(result.eligibleSubtotal).toBe(7000);
+      expect(result.freeShipping).toBe(false);
+    });
+
+    it('should cap percentage discount with maxDiscountAmount', async () => {
+      const promotion = createPromotion({ value: 50, maxDiscountAmount: 1000 });
+
+      const result = await service.calculatePromotionDiscount(promotion, items);
+
+      expect(result.discount).toBe(1000);
+    });
+
+    it('should not let a fixed amount exceed the eligible subtotal', async () => {
+      const promotion = createPromotion({ type: 'fixed_amount', value: 10000 });
+
+      const result = await service.calculatePromotionDiscount(promotion, items);
+
+      expect(result.discount).toBe(7000);
+    });
+
+    it('should cover the shipping fee for free shipping promotions', async () => {
+      const promotion = createPromotion({ type: 'free_shipping', value: 0 });
+
+      const result = await service.calculatePromotionDiscount(promotion, items, 500);
+
+      expect(result.discount).toBe(500);
+      expect(result.freeShipping).toBe(true);
+    });
+
+    it('should discount the cheapest units for buy X get Y promotions', async () => {
+      const promotion = createPromotion({
+        type: 'buy_x_get_y',
+        buyQuantity: 2,
+        getQuantity: 1,
+        getDiscountPercent: 100,
+      });
+
+      const result = await service.calculatePromotionDiscount(promotion, items);
+
+      // Units sorted: 3000, 3000, 1000 -> the 1000 unit is free
+      expect(result.discount).toBe(1000);
+    });
+
+    it('should only discount listings in eligible categories', async () => {
+      const promotion = createPromotion({
+        eligibleCategories: [{ documentId: 'category-1' }],
+      });
+      mockDocumentMethods.findMany.mockResolvedValue([
+        { documentId: 'listing-1', category: { documentId: 'category-1' } },
+        { documentId: 'listing-2', category: { documentId: 'category-2' } },
+      ]);
+
+      const result = await service.calculatePromotionDiscount(promotion, items);
+
+      expect(result.eligibleSubtotal).toBe(6000);
+      expect(result.discount).toBe(600);
+      expect(mockStrapi.documents).toHaveBeenCalledWith('api::product-listing.product-listing');
+    });
+  });
+
+  describe('validatePromotion', () => {
+    it('should reject inactive and expired promotions', async () => {
+      const promotion = createPromotion({
+        isActive: false,
+        endsAt: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      const errors = await service.validatePromotion(promotion, 7000);
+
+      expect(errors).toContain('Discount code is not active');
+      expect(errors).toContain('Discount code has expired');
+    });
+
+    it('should enforce the minimum subtotal', async () => {
+      const promotion = createPromotion({ minimumSubtotal: 10000 });
+
+      const errors = await service.validatePromotion(promotion, 7000);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('at least 10000');
+    });
+
+    it('should enforce total and per customer usage limits', async () => {
+      const promotion = createPromotion({
+        usageLimit: 5,
+        usageCount: 5,
+        usageLimitPerCustomer: 1,
+      });
+      mockDocumentMethods.count.mockResolvedValue(1);
+
+      const errors = await service.validatePromotion(promotion, 7000, { userId: 12 });
+
+      expect(errors).toContain('Discount code usage limit has been reached');
+      expect(errors).toContain('Discount code has already been used the maximum number of times');
+      expect(mockDocumentMethods.count).toHaveBeenCalledWith({
+        filters: {
+          promotion: { documentId: 'promo-doc-1' },
+          user: { id: 12 },
+        },
+      });
+    });
+  });
+
+  describe('evaluateCode', () => {
+    it('should return an error for unknown codes', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(null);
+
+      const result = await service.evaluateCode({ code: 'nope', items, subtotal: 7000 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.code).toBe('NOPE');
+      expect(result.errors).toContain('Discount code not found');
+    });
+
+    it('should evaluate a valid code case-insensitively', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(createPromotion());
+
+      const result = await service.evaluateCode({ code: ' save10 ', items, subtotal: 7000 });
+
+      expect(result.isValid).toBe(true);
+      expect(result.discount).toBe(700);
+      expect(mockDocumentMethods.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ filters: { code: { $eqi: 'SAVE10' } } })
+      );
+    });
+  });
+
+  describe('recordUsage', () => {
+    it('should create a usage record and increment the usage count', async () => {
+      const promotion = createPromotion({ usageCount: 2 });
+      mockUsageQuery.update.mockResolvedValueOnce(1);
+      mockDocumentMethods.create.mockResolvedValue({ documentId: 'usage-1' });
+
+      await service.recordUsage(promotion, {
+        orderId: 'order-1',
+        discountAmount: 700,
+        customer: { sessionId: 'session-1' },
+      });
+
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          promotion: 'promo-doc-1',
+          order: 'order-1',
+          sessionId: 'session-1',
+          discountAmount: 700,
+        }),
+      });
+      expect(mockUsageQuery.where).toHaveBeenCalledWith('documentId', 'promo-doc-1');
+      expect(mockUsageQuery.andWhereRaw).toHaveBeenCalledWith(
+        '(?? IS NULL OR COALESCE(??, 0) < ??)',
+        ['usage_limit', 'usage_count', 'usage_limit']
+      );
+      expect(mockUsageQuery.update).toHaveBeenCalledWith({
+        usage_count: { sql: 'COALESCE(??, 0) + 1', bindings: ['usage_count'] },
+      });
+    });
+
+    it('should reject the order when concurrent checkouts used up the code', async () => {
+      mockUsageQuery.update.mockResolvedValueOnce(0);
+
+      await expect(service.recordUsage(createPromotion({ usageLimit: 5, usageCount: 4 }), {
+        orderId: 'order-1',
+        discountAmount: 700,
+        customer: { sessionId: 'session-1' },
+      })).rejects.toThrow('Discount code usage limit has been reached');
+      expect(mockDocumentMethods.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Promotion service
+ *
+ * Resolves promotion codes, checks eligibility rules (validity window,
+ * usage limits, minimum subtotal, category/listing restrictions) and
+ * computes the discount a promotion grants for a set of cart items.
+ */
+
+import { Core, factories } from '@strapi/strapi';
+
+export type PromotionType =
+  | 'percentage'
+  | 'fixed_amount'
+  | 'free_shipping'
+  | 'buy_x_get_y';
+
+interface PromotionCustomer {
+  userId?: string | number | null;
+  sessionId?: string | null;
+}
+
+interface PromotionEvaluationParams {
+  code: string;
+  items: any[];
+  subtotal: number; // in cents
+  shipping?: number; // in cents
+  customer?: PromotionCustomer;
+}
+
+export interface PromotionEvaluation {
+  isValid: boolean;
+  errors: string[];
+  code: string;
+  discount: number; // in cents
+  freeShipping: boolean;
+  eligibleSubtotal: number; // in cents
+  promotion?: any;
+}
+
+interface PromotionDiscount {
+  discount: number;
+  freeShipping: boolean;
+  eligibleSubtotal: number;
+}
+
+interface RecordUsageParams {
+  orderId: string;
+  discountAmount: number;
+  customer?: PromotionCustomer;
+}
+
+/**
+ * Normalize a customer supplied code for lookups and storage
+ */
+export const normalizePromotionCode = (code: string): string =>
+  (code || '').trim().toUpperCase();
+
+const toCents = (value: any): number => {
+  const result = parseFloat(value);
+  return isNaN(result) ? 0 : result;
+};
+
+const getItemUnitPrice = (item: any): number => toCents(item.price);
+
+const getItemTotal = (item: any): number =>
+  toCents(item.total) || getItemUnitPrice(item) * (item.quantity || 0);
+
+export default factories.createCoreService(
+  'api::promotion.promotion',
+  ({ strapi }: { strapi: Core.Strapi }) => ({
+    /**
+     * Find a promotion by its code (case-insensitive)
+     */
+    async findByCode(code: string): Promise<any> {
+      const normalizedCode = normalizePromotionCode(code);
+      if (!normalizedCode) {
+        return null;
+      }
+
+      return strapi.documents('api::promotion.promotion').findFirst({
+        filters: { code: { $eqi: normalizedCode } },
+        populate: {
+          eligibleCategories: true,
+          eligibleProductListings: true,
+        },
+      });
+    },
+
+    /**
+     * Count redemptions of a promotion by a single customer
+     */
+    async countCustomerUsage(
+      promotion: any,
+      customer: PromotionCustomer = {}
+    ): Promise<number> {
+      const filters: any = { promotion: { documentId: promotion.documentId } };
+
+      if (customer.userId) {
+        filters.user = { id: customer.userId };
+      } else if (customer.sessionId) {
+        filters.sessionId = customer.sessionId;
+      } else {
+        return 0;
+      }
+
+      return strapi.documents('api::promotion.promotion-usage').count({
+        filters,
+      });
+    },
+
+    /**
+     * Validate promotion rules that do not depend on cart items
+     */
+    async validatePromotion(
+      promotion: any,
+      subtotal: number,
+      customer: PromotionCustomer = {},
+      now: Date = new Date()
+    ): Promise<string[]> {
+      const errors: string[] = [];
+
+      if (!promotion.isActive) {
+        errors.push('Discount code is not active');
+      }
+
+      if (promotion.startsAt && new Date(promotion.startsAt) > now) {
+        errors.push('Discount code is not yet valid');
+      }
+
+      if (promotion.endsAt && new Date(promotion.endsAt) < now) {
+        errors.push('Discount code has expired');
+      }
+
+      const minimumSubtotal = toCents(promotion.minimumSubtotal);
+      if (minimumSubtotal > 0 && subtotal < minimumSubtotal) {
+        errors.push(
+          `Cart subtotal must be at least ${minimumSubtotal} to use this discount code`
+        );
+      }
+
+      if (
+        promotion.usageLimit !== null &&
+        promotion.usageLimit !== undefined &&
+        (promotion.usageCount || 0) >= promotion.usageLimit
+      ) {
+        errors.push('Discount code usage limit has been reached');
+      }
+
+      if (
+        promotion.usageLimitPerCustomer !== null &&
+        promotion.usageLimitPerCustomer !== undefined
+      ) {
+        const customerUsage = await this.countCustomerUsage(promotion, customer);
+        if (customerUsage >= promotion.usageLimitPerCustomer) {
+          errors.push('Discount code has already been used the maximum number of times');
+        }
+      }
+
+      return errors;
+    },
+
+    /**
+     * Filter cart items down to the ones the promotion applies to
+     */
+    async getEligibleItems(promotion: any, items: any[]): Promise<any[]> {
+      const categoryIds = (promotion.eligibleCategories || []).map(
+        (category: any) => category.documentId
+      );
+      const listingIds = (promotion.eligibleProductListings || []).map(
+        (listing: any) => listing.documentId
+      );
+
+      if (categoryIds.length === 0 && listingIds.length === 0) {
+        return items;
+      }
+
+      // Listing categories are not populated on cart items, resolve them once
+      const listingCategories: Record<string, string | undefined> = {};
+      if (categoryIds.length > 0) {
+        const itemListingIds = items
+          .map((item: any) => item.productListing?.documentId)
+          .filter(Boolean);
+
+        if (itemListingIds.length > 0) {
+          const listings = await strapi
+            .documents('api::product-listing.product-listing')
+            .findMany({
+              filters: { documentId: { $in: itemListingIds } },
+              populate: { category: true },
+            });
+
+          for (const listing of listings as any[]) {
+            listingCategories[listing.documentId] = listing.category?.documentId;
+          }
+        }
+      }
+
+      return items.filter((item: any) => {
+        const listingId = item.productListing?.documentId;
+        if (!listingId) {
+          return false;
+        }
+        if (listingIds.includes(listingId)) {
+          return true;
+        }
+        const categoryId = listingCategories[listingId];
+        return !!categoryId && categoryIds.includes(categoryId);
+      });
+    },
+
+    /**
+     * Calculate the buy X get Y discount for a set of eligible items.
+     * The cheapest units of every (X + Y) group are discounted.
+     */
+    calculateBuyXGetYDiscount(promotion: any, items: any[]): number {
+      const buyQuantity = promotion.buyQuantity || 0;
+      const getQuantity = promotion.getQuantity || 0;
+      if (buyQuantity < 1 || getQuantity < 1) {
+        return 0;
+      }
+
+      const percent =
+        promotion.getDiscountPercent === null ||
+        promotion.getDiscountPercent === undefined
+          ? 100
+          : toCents(promotion.getDiscountPercent);
+
+      const unitPrices: number[] = [];
+      for (const item of items) {
+        for (let i = 0; i < (item.quantity || 0); i++) {
+          unitPrices.push(getItemUnitPrice(item));
+        }
+      }
+      unitPrices.sort((a, b) => b - a);
+
+      const groupSize = buyQuantity + getQuantity;
+      const groups = Math.floor(unitPrices.length / groupSize);
+      let discount = 0;
+
+      for (let group = 0; group < groups; group++) {
+        const groupEnd = (group + 1) * groupSize;
+        for (let i = groupEnd - getQuantity; i < groupEnd; i++) {
+          discount += unitPrices[i] * (percent / 100);
+        }
+      }
+
+      return Math.round(discount);
+    },
+
+    /**
+     * Calculate the discount a promotion grants for the given items
+     */
+    async calculatePromotionDiscount(
+      promotion: any,
+      items: any[],
+      shipping: number = 0
+    ): Promise<PromotionDiscount> {
+      const eligibleItems = await this.getEligibleItems(promotion, items);
+      const eligibleSubtotal = eligibleItems.reduce(
+        (sum: number, item: any) => sum + getItemTotal(item),
+        0
+      );
+
+      if (eligibleItems.length === 0) {
+        return { discount: 0, freeShipping: false, eligibleSubtotal: 0 };
+      }
+
+      let discount = 0;
+      let freeShipping = false;
+
+      switch (promotion.type as PromotionType) {
+        case 'percentage':
+          discount = Math.round(
+            eligibleSubtotal * (toCents(promotion.value) / 100)
+          );
+          break;
+        case 'fixed_amount':
+          discount = toCents(promotion.value);
+          break;
+        case 'free_shipping':
+          freeShipping = true;
+          discount = shipping;
+          break;
+        case 'buy_x_get_y':
+          discount = this.calculateBuyXGetYDiscount(promotion, eligibleItems);
+          break;
+        default:
+          strapi.log.warn(`Unknown promotion type: ${promotion.type}`);
+      }
+
+      const maxDiscountAmount = toCents(promotion.maxDiscountAmount);
+      if (maxDiscountAmount > 0) {
+        discount = Math.min(discount, maxDiscountAmount);
+      }
+
+      // Never discount more than the goods (or the shipping fee) being covered
+      const cap = freeShipping ? shipping : eligibleSubtotal;
+      discount = Math.max(0, Math.min(discount, cap));
+
+      return { discount, freeShipping, eligibleSubtotal };
+    },
+
+    /**
+     * Evaluate a discount code against cart items and customer
+     */
+    async evaluateCode(
+      params: PromotionEvaluationParams
+    ): Promise<PromotionEvaluation> {
+      const code = normalizePromotionCode(params.code);
+      const result: PromotionEvaluation = {
+        isValid: false,
+        errors: [],
+        code,
+        discount: 0,
+        freeShipping: false,
+        eligibleSubtotal: 0,
+      };
+
+      if (!code) {
+        result.errors.push('Discount code is required');
+        return result;
+      }
+
+      const promotion = await this.findByCode(code);
+      if (!promotion) {
+        result.errors.push('Discount code not found');
+        return result;
+      }
+      result.promotion = promotion;
+
+      result.errors = await this.validatePromotion(
+        promotion,
+        params.subtotal,
+        params.customer
+      );
+      if (result.errors.length > 0) {
+        return result;
+      }
+
+      const calculation = await this.calculatePromotionDiscount(
+        promotion,
+        params.items || [],
+        params.shipping || 0
+      );
+
+      if (calculation.eligibleSubtotal === 0) {
+        result.errors.push('Discount code does not apply to any item in the cart');
+        return result;
+      }
+
+      return {
+        ...result,
+        ...calculation,
+        isValid: true,
+      };
+    },
+
+    /**
+     * Count one redemption of a promotion
+     *
+     * The count is incremented with a single conditional UPDATE, two
+     * concurrent checkouts cannot both take the last redemption of a code.
+     * @returns false when the usage limit was already reached
+     */
+    async incrementUsageCount(promotion: any): Promise<boolean> {
+      const { tableName, attributes } = strapi.db.metadata.get('api::promotion.promotion');
+      const column = (name: string): string => (attributes as any)?.[name]?.columnName || name;
+
+      return strapi.db.transaction(async ({ trx }) => {
+        const { connection } = strapi.db;
+        let query = connection(tableName)
+          .where(column('documentId'), promotion.documentId)
+          .andWhereRaw('(?? IS NULL OR COALESCE(??, 0) < ??)', [
+            column('usageLimit'),
+            column('usageCount'),
+            column('usageLimit'),
+          ]);
+        if (trx) {
+          query = query.transacting(trx);
+        }
+
+        const updatedRows = await query.update({
+          [column('usageCount')]: connection.raw('COALESCE(??, 0) + 1', [column('usageCount')]),
+        });
+        return updatedRows > 0;
+      });
+    },
+
+    /**
+     * Record a redemption of a promotion for an order
+     * @throws Error when concurrent orders used up the promotion, the order is rolled back
+     */
+    async recordUsage(promotion: any, params: RecordUsageParams): Promise<any> {
+      const customer = params.customer || {};
+
+      if (!(await this.incrementUsageCount(promotion))) {
+        throw new Error('Discount code validation failed: Discount code usage limit has been reached');
+      }
+
+      const usage = await strapi.documents('api::promotion.promotion-usage').create({
+        data: {
+          promotion: promotion.documentId,
+          order: params.orderId,
+          user: customer.userId || null,
+          sessionId: customer.sessionId || null,
+          code: promotion.code,
+          discountAmount: params.discountAmount,
+          usedAt: new Date(),
+        } as any,
+      });
+
+      return usage;
+    },
+  })
+);
@@ -0,0 +1,133 @@
+/**
+ * refund controller
+ */
+
+import { factories } from '@strapi/strapi';
+import { UserType } from '../../../../config/constant';
+
+/**
+ * Respond to a failed refund operation, refusals of the refund rules are client errors
+ */
+const handleRefundError = (ctx: any, error: any, fallbackMessage: string) => {
+  if (error.message.includes('not found')) {
+    return ctx.notFound(error.message);
+  }
+  if (/nothing left|exceeds|must be|required|[Oo]nly |Refund is|cannot be refunded/.test(error.message)) {
+    return ctx.badRequest(error.message);
+  }
+  return ctx.internalServerError(fallbackMessage);
+};
+
+export default factories.createCoreController('api::refund.refund', ({ strapi }) => ({
+  /**
+   * List refunds, optionally of one order or in one status
+   */
+  async list(ctx) {
+    try {
+      const { orderId, status } = ctx.query as { orderId?: string; status?: string };
+      const refunds = await strapi.service('api::refund.refund').listRefunds({ orderId, status });
+
+      return {
+        data: refunds,
+        meta: {
+          message: 'Refunds retrieved successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error listing refunds:', error);
+      return ctx.internalServerError('Failed to list refunds');
+    }
+  },
+
+  /**
+   * Create a refund of an order, approved right away when asked to
+   */
+  async request(ctx) {
+    try {
+      const { data } = ctx.request.body || {};
+      const { user, userType } = ctx.state;
+
+      if (!data?.orderId) {
+        return ctx.badRequest('Order ID is required');
+      }
+
+      const refundService = strapi.service('api::refund.refund');
+      const userId = userType === UserType.AUTHENTICATED ? user.id : null;
+      const refund = await refundService.requestRefund(data.orderId, data, userId);
+      const result = data.approve ? await refundService.approveRefund(refund.documentId, userId) : refund;
+
+      return {
+        data: result,
+        meta: {
+          message: data.approve ? 'Refund processed successfully' : 'Refund requested successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error creating refund:', error);
+      return handleRefundError(ctx, error, 'Failed to create refund');
+    }
+  },
+
+  /**
+   * Approve a requested refund and process it
+   */
+  async approve(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { user, userType } = ctx.state;
+      const refundService = strapi.service('api::refund.refund');
+
+      if (!refundService.canApprove(user, userType)) {
+        return ctx.forbidden('Access denied You are not authorized to approve refunds');
+      }
+
+      const { restock } = ctx.request.body || {};
+      const refund = await refundService.approveRefund(
+        documentId,
+        userType === UserType.AUTHENTICATED ? user.id : null,
+        { restock: typeof restock === 'boolean' ? restock : undefined }
+      );
+
+      return {
+        data: refund,
+        meta: {
+          message: 'Refund processed successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error approving refund:', error);
+      return handleRefundError(ctx, error, 'Failed to approve refund');
+    }
+  },
+
+  /**
+   * Reject a requested refund
+   */
+  async reject(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { user, userType } = ctx.state;
+      const { reason } = ctx.request.body || {};
+      const refundService = strapi.service('api::refund.refund');
+
+      if (!refundService.canApprove(user, userType)) {
+        return ctx.forbidden('Access denied You are not authorized to reject refunds');
+      }
+      if (!reason) {
+        return ctx.badRequest('Rejection reason is required');
+      }
+
+      const refund = await refundService.rejectRefund(documentId, userType === UserType.AUTHENTICATED ? user.id : null, reason);
+
+      return {
+        data: refund,
+        meta: {
+          message: 'Refund rejected successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error rejecting refund:', error);
+      return handleRefundError(ctx, error, 'Failed to reject refund');
+    }
+  },
+}));
@@ -0,0 +1,44 @@
+/**
+ * refund router
+ *
+ * Refunds are created and listed by admins, customers request theirs through
+ * the order refund route. Approval is open to the approver roles, checked by
+ * the controller.
+ */
+
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/refunds',
+      handler: 'api::refund.refund.list',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/refunds',
+      handler: 'api::refund.refund.request',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/refunds/:documentId/approve',
+      handler: 'api::refund.refund.approve',
+      config: {
+        policies: ['global::is-authenticated'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/refunds/:documentId/reject',
+      handler: 'api::refund.refund.reject',
+      config: {
+        policies: ['global::is-authenticated'],
+      },
+    },
+  ],
+};
@@ -0,0 +1,346 @@
+/**
+ * Refund Service tests
+ *
+ * Tests refund calculation, approval, processing and order reconciliation
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+// Create mock document service methods with proper typing
+const mockDocumentMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  create: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockServices: Record<string, any> = {
+  'api::payment.payment-gateway': {
+    refundPayment: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::inventory.inventory': {
+    updateInventory: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::order.order-history': {
+    recordRefund: jest.fn() as jest.MockedFunction<any>,
+    recordStatusChange: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::order.order-state-machine': {
+    checkTransition: jest.fn() as jest.MockedFunction<any>,
+    transition: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::notification.notification': {
+    notifyOrderCustomer: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+// Mock knex query builder of the conditional status claim
+const mockClaimQuery: any = {
+  where: jest.fn(() => mockClaimQuery),
+  andWhere: jest.fn(() => mockClaimQuery),
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  db: {
+    metadata: {
+      get: jest.fn(() => ({ tableName: 'refunds', attributes: {} })),
+    },
+    connection: jest.fn(() => mockClaimQuery),
+  },
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+// Mock Strapi factories with proper service context
+jest.mock('@strapi/strapi', () => ({
+  factories: {
+    createCoreService: jest.fn((serviceName: any, serviceFunction?: any) => {
+      if (serviceFunction) {
+        const serviceInstance = serviceFunction({ strapi: mockStrapi });
+        // Bind methods to service instance for proper `this` context
+        Object.keys(serviceInstance).forEach(key => {
+          if (typeof serviceInstance[key] === 'function') {
+            serviceInstance[key] = serviceInstance[key].bind(serviceInstance);
+          }
+        });
+        return serviceInstance;
+      }
+      return mockStrapi;
+    }),
+  },
+}));
+
+describe('Refund Service', () => {
+  let service: any;
+
+  // 2 shirts at 2000 and 1 hat at 1000, 10% discount, 8% tax on top, 500 shipping
+  const order = {
+    documentId: 'order-1',
+    status: 'delivered',
+    paymentStatus: 'paid',
+    currency: 'USD',
+    subtotal: 5000,
+    discount: 500,
+    tax: 360,
+    shipping: 500,
+    total: 5360,
+    metadata: { tax: { pricesIncludeTax: false } },
+    items: [
+      { documentId: 'item-1', quantity: 2, price: 2000, subtotal: 4000, tax: 288, product: { documentId: 'shirt' }, variant: { documentId: 'shirt-m' } },
+      { documentId: 'item-2', quantity: 1, price: 1000, subtotal: 1000, tax: 72, product: { documentId: 'hat' } },
+    ],
+    payments: [
+      { documentId: 'payment-1', status: 'confirmed', amount: 5360, gatewayCode: 'sandbox', gatewayStatus: 'captured', gatewayData: { amountCaptured: 5360 } },
+    ],
+  };
+
+  const summary = {
+    capturedAmount: 5360,
+    refundedAmount: 0,
+    refundableAmount: 5360,
+    shippingRefunded: 0,
+    refundedQuantities: {},
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+    mockDocumentMethods.create.mockImplementation(async ({ data }: any) => ({ documentId: 'refund-1', ...data }));
+    mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({ documentId, ...data }));
+    mockServices['api::order.order-state-machine'].checkTransition.mockReturnValue({ isValid: true, errors: [] });
+    mockServices['api::notification.notification'].notifyOrderCustomer.mockResolvedValue({ deliveries: [], delivered: [] });
+    mockClaimQuery.update.mockReset();
+    mockClaimQuery.update.mockResolvedValue(1);
+
+    service = require('./refund').default;
+  });
+
+  describe('calculateRefund', () => {
+    it('should refund order items with their discount share and tax', () => {
+      const calculation = service.calculateRefund(order, {
+        type: 'items',
+        items: [{ orderItemId: 'item-1', quantity: 1 }],
+      }, summary);
+
+      expect(calculation).toEqual({
+        amount: 1944,
+        itemsAmount: 1800,
+        shippingAmount: 0,
+        taxAmount: 144,
+        lines: [{ orderItemId: 'item-1', productId: 'shirt', variantId: 'shirt-m', quantity: 1, amount: 1800, tax: 144 }],
+      });
+    });
+
+    it('should add the shipping to item refunds when asked to', () => {
+      const calculation = service.calculateRefund(order, {
+        type: 'items',
+        items: [{ orderItemId: 'item-2', quantity: 1 }],
+        includeShipping: true,
+      }, summary);
+
+      expect(calculation).toMatchObject({ amount: 1472, itemsAmount: 900, shippingAmount: 500, taxAmount: 72 });
+    });
+
+    it('should refund everything left with a full refund', () => {
+      const calculation = service.calculateRefund(order, { type: 'full' }, {
+        ...summary,
+        refundedAmount: 1944,
+        refundableAmount: 3416,
+        refundedQuantities: { 'item-1': 1 },
+      });
+
+      expect(calculation.amount).toBe(3416);
+      expect(calculation.shippingAmount).toBe(500);
+      expect(calculation.lines.map((line: any) => [line.orderItemId, line.quantity])).toEqual([
+        ['item-1', 1],
+        ['item-2', 1],
+      ]);
+    });
+
+    it('should not refund more items than were not refunded yet', () => {
+      expect(() => service.calculateRefund(order, {
+        type: 'items',
+        items: [{ orderItemId: 'item-1', quantity: 2 }],
+      }, { ...summary, refundedQuantities: { 'item-1': 1 } })).toThrow(
+        'Refund quantity for order item item-1 must be between 1 and 1'
+      );
+    });
+
+    it('should count every line of an order item against its remaining quantity', () => {
+      expect(() => service.calculateRefund(order, {
+        type: 'items',
+        items: [{ orderItemId: 'item-2', quantity: 1 }, { orderItemId: 'item-2', quantity: 1 }],
+      }, summary)).toThrow(
+        'Refund quantity for order item item-2 must be between 1 and 0'
+      );
+    });
+
+    it('should not refund more than the refundable amount', () => {
+      expect(() => service.calculateRefund(order, { type: 'partial', amount: 6000 }, summary)).toThrow(
+        'Refund amount exceeds the refundable amount of 5360'
+      );
+    });
+  });
+
+  describe('requestRefund', () => {
+    it('should create a requested refund against the captured payment', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(order);
+      mockDocumentMethods.findMany.mockResolvedValue([]);
+
+      const refund = await service.requestRefund('order-1', {
+        type: 'partial',
+        amount: 1000,
+        reasonCode: 'late_delivery',
+      }, 7);
+
+      expect(refund).toMatchObject({
+        order: 'order-1',
+        payment: 'payment-1',
+        type: 'partial',
+        status: 'requested',
+        amount: 1000,
+        currency: 'USD',
+        reasonCode: 'late_delivery',
+        restock: false,
+        requestedBy: 7,
+      });
+    });
+
+    it('should only refund paid orders', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...order, paymentStatus: 'pending' });
+
+      await expect(service.requestRefund('order-1', { type: 'full' }, 7)).rejects.toThrow('Only paid orders can be refunded');
+    });
+  });
+
+  describe('approveRefund', () => {
+    const approvedRefund = {
+      documentId: 'refund-1',
+      status: 'approved',
+      type: 'full',
+      amount: 5360,
+      restock: true,
+      order: { documentId: 'order-1' },
+      payment: order.payments[0],
+      lines: [
+        { orderItemId: 'item-1', productId: 'shirt', variantId: 'shirt-m', quantity: 2, amount: 3600, tax: 288 },
+      ],
+    };
+
+    it('should refund at the gateway, restock and mark the order refunded', async () => {
+      mockDocumentMethods.findOne
+        .mockResolvedValueOnce({ ...approvedRefund, status: 'requested' })
+        .mockResolvedValueOnce(approvedRefund)
+        .mockResolvedValueOnce(order);
+      mockDocumentMethods.findMany.mockResolvedValue([{ ...approvedRefund, status: 'processed' }]);
+      mockServices['api::payment.payment-gateway'].refundPayment.mockResolvedValue({
+        gatewayData: { refundId: 're_sandbox_1' },
+      });
+
+      const refund = await service.approveRefund('refund-1', 3);
+
+      expect(mockServices['api::payment.payment-gateway'].refundPayment).toHaveBeenCalledWith('payment-1', 5360);
+      expect(mockServices['api::inventory.inventory'].updateInventory).toHaveBeenCalledWith('shirt', 2, expect.objectContaining({
+        source: 'return',
+        orderId: 'order-1',
+        variantId: 'shirt-m',
+      }));
+      expect(refund).toMatchObject({ status: 'processed', gatewayRefundId: 're_sandbox_1' });
+      expect(mockServices['api::order.order-history'].recordRefund).toHaveBeenCalledWith(
+        'order-1', refund, 3, 'payment_gateway'
+      );
+      expect(mockServices['api::order.order-state-machine'].transition).toHaveBeenCalledWith('order-1', 'refunded', {
+        role: 'admin',
+        workflow: 'refund',
+        data: { paymentStatus: 'refunded' },
+        userId: 3,
+        reason: 'Order fully refunded',
+      });
+      expect(mockServices['api::notification.notification'].notifyOrderCustomer).toHaveBeenCalledWith(
+        'refund-issued', 'order-1', expect.objectContaining({ amount: 5360 })
+      );
+    });
+
+    it('should only mark the payment refunded when the order cannot move to refunded', async () => {
+      mockDocumentMethods.findOne
+        .mockResolvedValueOnce({ ...approvedRefund, status: 'requested' })
+        .mockResolvedValueOnce(approvedRefund)
+        .mockResolvedValueOnce({ ...order, status: 'cancelled' });
+      mockDocumentMethods.findMany.mockResolvedValue([{ ...approvedRefund, status: 'processed' }]);
+      mockServices['api::payment.payment-gateway'].refundPayment.mockResolvedValue({ gatewayData: {} });
+      mockServices['api::order.order-state-machine'].checkTransition.mockReturnValue({
+        isValid: false,
+        errors: ['Invalid transition from cancelled to refunded'],
+      });
+
+      await service.approveRefund('refund-1', 3);
+
+      expect(mockServices['api::order.order-state-machine'].transition).not.toHaveBeenCalled();
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'order-1',
+        data: { paymentStatus: 'refunded' },
+      });
+    });
+
+    it('should mark the refund failed when the gateway refund fails', async () => {
+      mockDocumentMethods.findOne
+        .mockResolvedValueOnce({ ...approvedRefund, status: 'requested' })
+        .mockResolvedValueOnce(approvedRefund);
+      mockServices['api::payment.payment-gateway'].refundPayment.mockRejectedValue(new Error('Gateway unavailable'));
+
+      await expect(service.approveRefund('refund-1', 3)).rejects.toThrow('Gateway unavailable');
+
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'refund-1',
+        data: { status: 'failed', error: 'Gateway unavailable' },
+      });
+      expect(mockServices['api::inventory.inventory'].updateInventory).not.toHaveBeenCalled();
+    });
+
+    it('should only approve requested refunds', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...approvedRefund, status: 'rejected' });
+
+      await expect(service.approveRefund('refund-1', 3)).rejects.toThrow(
+        'Refund is rejected, only requested refunds can be approved'
+      );
+    });
+
+    it('should not process a refund another approval claimed first', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...approvedRefund, status: 'requested' });
+      mockClaimQuery.update.mockResolvedValue(0);
+
+      await expect(service.approveRefund('refund-1', 3)).rejects.toThrow('Refund is already being approved or rejected');
+
+      expect(mockClaimQuery.andWhere).toHaveBeenCalledWith('status', 'requested');
+      expect(mockClaimQuery.update).toHaveBeenCalledWith({ status: 'approved' });
+      expect(mockServices['api::payment.payment-gateway'].refundPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcileOrder', () => {
+    it('should leave partly refunded orders paid', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(order);
+      mockDocumentMethods.findMany.mockResolvedValue([{ amount: 1944, lines: [] }]);
+
+      const result = await service.reconcileOrder('order-1', 3);
+
+      expect(result.refundableAmount).toBe(3416);
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('canApprove', () => {
+    it('should allow the approver roles and API tokens only', () => {
+      expect(service.canApprove({ role: { type: 'admin' } }, 'authenticated')).toBe(true);
+      expect(service.canApprove({ role: { type: 'authenticated' } }, 'authenticated')).toBe(false);
+      expect(service.canApprove(null, 'api_token')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,468 @@
+/**
+ * refund service
+ *
+ * Refunds go through request, approval and processing. A refund returns the
+ * whole remaining captured amount, a given amount, or selected order item
+ * quantities with their share of the discount and tax, optionally with the
+ * shipping. Processing refunds the payment at its gateway when it has one,
+ * returns restocked items to inventory and marks the order refunded once
+ * the processed refunds cover the captured amount.
+ */
+
+import { Core, factories } from '@strapi/strapi';
+import { REFUND_CONFIG, UserType } from '../../../../config/constant';
+
+export type RefundType = 'full' | 'partial' | 'items';
+
+export interface RefundLineInput {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface RefundInput {
+  type: RefundType;
+  items?: RefundLineInput[]; // items refunds
+  amount?: number; // partial refunds, in cents
+  includeShipping?: boolean; // items refunds, also refund the shipping not refunded yet
+  reasonCode?: string;
+  reason?: string;
+  restock?: boolean;
+}
+
+export interface RefundLine {
+  orderItemId: string;
+  productId?: string;
+  variantId?: string;
+  quantity: number;
+  amount: number; // in cents, discount share deducted
+  tax: number; // in cents
+}
+
+export interface RefundCalculation {
+  amount: number;
+  itemsAmount: number;
+  shippingAmount: number;
+  taxAmount: number;
+  lines: RefundLine[];
+}
+
+export interface RefundableSummary {
+  capturedAmount: number;
+  refundedAmount: number;
+  refundableAmount: number;
+  shippingRefunded: number;
+  refundedQuantities: Record<string, number>;
+}
+
+// Refunds that hold part of the refundable amount until they are rejected or fail
+const COMMITTED_STATUSES = ['requested', 'approved', 'processed'];
+
+const toAmount = (value: any): number => Number(value) || 0;
+
+export default factories.createCoreService(
+  'api::refund.refund',
+  ({ strapi }: { strapi: Core.Strapi }) => ({
+    /**
+     * Get an order with its items and payments
+     */
+    async getOrder(orderId: string): Promise<any> {
+      return strapi.documents('api::order.order').findOne({
+        documentId: orderId,
+        populate: {
+          items: { populate: { product: true, variant: true } },
+          payments: true,
+        },
+      });
+    },
+
+    /**
+     * Get the refunds of an order that are not rejected or failed
+     */
+    async getCommittedRefunds(orderId: string): Promise<any[]> {
+      return strapi.documents('api::refund.refund').findMany({
+        filters: {
+          order: { documentId: orderId },
+          status: { $in: COMMITTED_STATUSES },
+        } as any,
+      });
+    },
+
+    /**
+     * Sum what was captured and what is already refunded or being refunded
+     */
+    getRefundableSummary(order: any, refunds: any[]): RefundableSummary {
+      const capturedAmount = (order.payments || [])
+        .filter((payment: any) => ['confirmed', 'refunded'].includes(payment.status))
+        .reduce((sum: number, payment: any) =>
+          sum + toAmount(payment.gatewayData?.amountCaptured ?? payment.amount), 0);
+      const refundedAmount = refunds.reduce((sum, refund) => sum + toAmount(refund.amount), 0);
+
+      const refundedQuantities: Record<string, number> = {};
+      for (const refund of refunds) {
+        for (const line of refund.lines || []) {
+          refundedQuantities[line.orderItemId] = (refundedQuantities[line.orderItemId] || 0) + line.quantity;
+        }
+      }
+
+      return {
+        capturedAmount,
+        refundedAmount,
+        refundableAmount: Math.max(0, capturedAmount - refundedAmount),
+        shippingRefunded: refunds.reduce((sum, refund) => sum + toAmount(refund.shippingAmount), 0),
+        refundedQuantities,
+      };
+    },
+
+    /**
+     * Work out the amount and portions of a refund
+     * @throws Error when the refund exceeds what is left to refund
+     */
+    calculateRefund(order: any, input: RefundInput, summary: RefundableSummary): RefundCalculation {
+      if (summary.refundableAmount <= 0) {
+        throw new Error('Order has nothing left to refund');
+      }
+
+      if (input.type === 'partial') {
+        if (typeof input.amount !== 'number' || input.amount <= 0) {
+          throw new Error('Refund amount must be a number greater than 0');
+        }
+        if (input.amount > summary.refundableAmount) {
+          throw new Error(`Refund amount exceeds the refundable amount of ${summary.refundableAmount}`);
+        }
+        return { amount: input.amount, itemsAmount: 0, shippingAmount: 0, taxAmount: 0, lines: [] };
+      }
+
+      const items: any[] = order.items || [];
+      const requested: RefundLineInput[] = input.type === 'full'
+        ? items.map((item) => ({
+          orderItemId: item.documentId,
+          quantity: item.quantity - (summary.refundedQuantities[item.documentId] || 0),
+        })).filter((line) => line.quantity > 0)
+        : input.items || [];
+
+      if (input.type === 'items' && requested.length === 0) {
+        throw new Error('At least one order item is required');
+      }
+
+      // Discounts are spread over the items in proportion to their subtotal
+      const orderSubtotal = toAmount(order.subtotal);
+      const discountRate = orderSubtotal > 0 ? Math.min(toAmount(order.discount), orderSubtotal) / orderSubtotal : 0;
+
+      // Lines for the same order item share its remaining quantity
+      const requestedQuantities: Record<string, number> = {};
+      const lines: RefundLine[] = requested.map((line) => {
+        const item = items.find((orderItem) => orderItem.documentId === line.orderItemId);
+        if (!item) {
+          throw new Error(`Order item ${line.orderItemId} not found in order`);
+        }
+        const remaining = item.quantity
+          - (summary.refundedQuantities[item.documentId] || 0)
+          - (requestedQuantities[item.documentId] || 0);
+        if (!Number.isInteger(line.quantity) || line.quantity <= 0 || line.quantity > remaining) {
+          throw new Error(`Refund quantity for order item ${line.orderItemId} must be between 1 and ${remaining}`);
+        }
+        requestedQuantities[item.documentId] = (requestedQuantities[item.documentId] || 0) + line.quantity;
+
+        const share = line.quantity / item.quantity;
+        const lineSubtotal = toAmount(item.subtotal) * share;
+        return {
+          orderItemId: item.documentId,
+          productId: item.product?.documentId,
+          variantId: item.variant?.documentId,
+          quantity: line.quantity,
+          amount: Math.round(lineSubtotal * (1 - discountRate)),
+          tax: Math.round(toAmount(item.tax) * share),
+        };
+      });
+
+      const itemsAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+      const taxAmount = lines.reduce((sum, line) => sum + line.tax, 0);
+      const shippingAmount = input.type === 'full' || input.includeShipping
+        ? Math.max(0, toAmount(order.shipping) - summary.shippingRefunded)
+        : 0;
+      // Tax included in the prices is already part of the item amounts
+      const pricesIncludeTax = !!(order.metadata as any)?.tax?.pricesIncludeTax;
+      const total = itemsAmount + shippingAmount + (pricesIncludeTax ? 0 : taxAmount);
+
+      return {
+        // a full refund returns everything left, rounding differences included
+        amount: input.type === 'full' ? summary.refundableAmount : Math.min(total, summary.refundableAmount),
+        itemsAmount,
+        shippingAmount,
+        taxAmount,
+        lines,
+      };
+    },
+
+    /**
+     * Request a refund of a paid order, to be approved before it is processed
+     */
+    async requestRefund(orderId: string, input: RefundInput, requestedBy: string | null): Promise<any> {
+      if (!['full', 'partial', 'items'].includes(input.type)) {
+        throw new Error('Refund type must be full, partial or items');
+      }
+
+      const order = await this.getOrder(orderId);
+      if (!order) {
+        throw new Error('Order not found');
+      }
+      if (order.paymentStatus !== 'paid') {
+        throw new Error('Only paid orders can be refunded');
+      }
+
+      const summary = this.getRefundableSummary(order, await this.getCommittedRefunds(orderId));
+      const calculation = this.calculateRefund(order, input, summary);
+      const payment = (order.payments || []).find((orderPayment: any) => orderPayment.status === 'confirmed');
+
+      return strapi.documents('api::refund.refund').create({
+        data: {
+          order: orderId,
+          payment: payment?.documentId || null,
+          type: input.type,
+          status: 'requested',
+          amount: calculation.amount,
+          itemsAmount: calculation.itemsAmount,
+          shippingAmount: calculation.shippingAmount,
+          taxAmount: calculation.taxAmount,
+          currency: order.currency,
+          lines: calculation.lines as any,
+          reasonCode: (input.reasonCode || 'customer_request') as any,
+          reason: input.reason || null,
+          restock: !!input.restock && calculation.lines.length > 0,
+          requestedBy: requestedBy as any,
+        },
+      });
+    },
+
+    /**
+     * Check whether a user may approve refunds
+     */
+    canApprove(user: any, userType: UserType): boolean {
+      return userType === UserType.API_TOKEN || REFUND_CONFIG.approverRoles.includes(user?.role?.type);
+    },
+
+    /**
+     * Approve a requested refund and process it, the approver decides whether its items are restocked
+     */
+    async approveRefund(refundId: string, approvedBy: string | null, options: { restock?: boolean } = {}): Promise<any> {
+      const refund = await strapi.documents('api::refund.refund').findOne({ documentId: refundId });
+      if (!refund) {
+        throw new Error('Refund not found');
+      }
+      if (refund.status !== 'requested') {
+        throw new Error(`Refund is ${refund.status}, only requested refunds can be approved`);
+      }
+      // Only the approval that moves the refund out of requested goes on to pay it out
+      if (!await this.claimRequested(refundId, 'approved')) {
+        throw new Error('Refund is already being approved or rejected');
+      }
+
+      await strapi.documents('api::refund.refund').update({
+        documentId: refundId,
+        data: {
+          approvedBy: approvedBy as any,
+          approvedAt: new Date(),
+          ...(options.restock !== undefined ? { restock: options.restock && (refund.lines as any[] || []).length > 0 } : {}),
+        },
+      });
+
+      return this.processRefund(refundId, approvedBy);
+    },
+
+    /**
+     * Move a requested refund to approved or rejected
+     *
+     * The status is changed with a single conditional update, so of two
+     * concurrent approvals or rejections only one sees the refund as requested.
+     * @returns false when the refund is no longer requested
+     */
+    async claimRequested(refundId: string, status: 'approved' | 'rejected'): Promise<boolean> {
+      const { tableName, attributes } = strapi.db.metadata.get('api::refund.refund');
+      const column = (name: string): string => (attributes as any)?.[name]?.columnName || name;
+
+      const updatedRows = await strapi.db.connection(tableName)
+        .where(column('documentId'), refundId)
+        .andWhere(column('status'), 'requested')
+        .update({ [column('status')]: status });
+
+      return updatedRows > 0;
+    },
+
+    /**
+     * Reject a requested refund, its amount becomes refundable again
+     */
+    async rejectRefund(refundId: string, rejectedBy: string | null, reason: string): Promise<any> {
+      const refund = await strapi.documents('api::refund.refund').findOne({ documentId: refundId });
+      if (!refund) {
+        throw new Error('Refund not found');
+      }
+      if (refund.status !== 'requested') {
+        throw new Error(`Refund is ${refund.status}, only requested refunds can be rejected`);
+      }
+      if (!await this.claimRequested(refundId, 'rejected')) {
+        throw new Error('Refund is already being approved or rejected');
+      }
+
+      return strapi.documents('api::refund.refund').update({
+        documentId: refundId,
+        data: {
+          approvedBy: rejectedBy as any,
+          rejectionReason: reason,
+        },
+      });
+    },
+
+    /**
+     * Pay out an approved refund, restock its items and reconcile the order
+     * @throws Error when the gateway refund fails, after marking the refund failed
+     */
+    async processRefund(refundId: string, processedBy: string | null): Promise<any> {
+      const refund: any = await strapi.documents('api::refund.refund').findOne({
+        documentId: refundId,
+        populate: { order: true, payment: true },
+      });
+      if (!refund) {
+        throw new Error('Refund not found');
+      }
+      if (refund.status !== 'approved') {
+        throw new Error(`Refund is ${refund.status}, only approved refunds can be processed`);
+      }
+
+      // Payments without a gateway are paid back outside of the store, the refund only records it
+      let gatewayRefundId: string | null = null;
+      const payment = refund.payment;
+      if (payment?.gatewayCode && ['captured', 'partially_refunded'].includes(payment.gatewayStatus)) {
+        try {
+          const refundedPayment = await strapi.service('api::payment.payment-gateway')
+            .refundPayment(payment.documentId, toAmount(refund.amount));
+          gatewayRefundId = refundedPayment?.gatewayData?.refundId || null;
+        } catch (error) {
+          await strapi.documents('api::refund.refund').update({
+            documentId: refundId,
+            data: {
+              status: 'failed',
+              error: error instanceof Error ? error.message : String(error),
+            },
+          });
+          throw error;
+        }
+      }
+
+      if (refund.restock) {
+        await this.restockLines(refund, processedBy);
+      }
+
+      const processed = await strapi.documents('api::refund.refund').update({
+        documentId: refundId,
+        data: {
+          status: 'processed',
+          processedAt: new Date(),
+          gatewayRefundId,
+          error: null,
+        },
+      });
+
+      await strapi.service('api::order.order-history').recordRefund(
+        refund.order.documentId,
+        processed,
+        processedBy,
+        gatewayRefundId ? 'payment_gateway' : 'admin'
+      );
+      await this.reconcileOrder(refund.order.documentId, processedBy);
+
+      // A failed notification never fails the processed refund
+      await strapi.service('api::notification.notification')
+        .notifyOrderCustomer('refund-issued', refund.order.documentId, {
+          amount: refund.amount,
+          currency: refund.currency || refund.order.currency,
+          processedAt: processed.processedAt,
+        })
+        .catch((error: unknown) => strapi.log.error(`Error sending refund notification of refund ${refundId}:`, error));
+
+      return processed;
+    },
+
+    /**
+     * Return the refunded quantities to inventory, a failing line does not undo the refund
+     */
+    async restockLines(refund: any, userId: string | null): Promise<void> {
+      const inventoryService = strapi.service('api::inventory.inventory');
+      for (const line of refund.lines || []) {
+        if (!line.productId) {
+          continue;
+        }
+        try {
+          await inventoryService.updateInventory(line.productId, line.quantity, {
+            reason: `Refund ${refund.documentId}`,
+            source: 'return',
+            orderId: refund.order.documentId,
+            userId: userId || undefined,
+            variantId: line.variantId,
+          });
+        } catch (error) {
+          strapi.log.error(`Error restocking order item ${line.orderItemId} of refund ${refund.documentId}:`, error);
+        }
+      }
+    },
+
+    /**
+     * Mark the order and its payments refunded once the processed refunds cover the captured amount
+     */
+    async reconcileOrder(orderId: string, userId: string | null): Promise<RefundableSummary> {
+      const order = await this.getOrder(orderId);
+      const processed = await strapi.documents('api::refund.refund').findMany({
+        filters: { order: { documentId: orderId }, status: 'processed' } as any,
+      });
+      const summary = this.getRefundableSummary(order, processed);
+
+      if (summary.capturedAmount <= 0 || summary.refundedAmount < summary.capturedAmount) {
+        return summary;
+      }
+
+      for (const payment of order.payments || []) {
+        if (payment.status === 'confirmed') {
+          await strapi.documents('api::payment.payment').update({
+            documentId: payment.documentId,
+            data: { status: 'refunded' },
+          });
+        }
+      }
+
+      // Orders that can no longer move to refunded, cancelled ones among them, only record the money going back
+      const stateMachine = strapi.service('api::order.order-state-machine');
+      const transitionOptions = {
+        role: userId ? 'admin' : 'system',
+        workflow: 'refund',
+        data: { paymentStatus: 'refunded' },
+      } as const;
+      if (stateMachine.checkTransition(order, 'refunded', transitionOptions).isValid) {
+        await stateMachine.transition(orderId, 'refunded', {
+          ...transitionOptions,
+          userId,
+          reason: 'Order fully refunded',
+        });
+      } else {
+        await strapi.documents('api::order.order').update({
+          documentId: orderId,
+          data: { paymentStatus: 'refunded' },
+        });
+      }
+
+      return summary;
+    },
+
+    /**
+     * List refunds, newest first
+     */
+    async listRefunds(filters: { orderId?: string; status?: string } = {}): Promise<any[]> {
+      return strapi.documents('api::refund.refund').findMany({
+        filters: {
+          ...(filters.orderId ? { order: { documentId: filters.orderId } } : {}),
+          ...(filters.status ? { status: filters.status } : {}),
+        } as any,
+        populate: { order: true, payment: true },
+        sort: { createdAt: 'desc' },
+      });
+    },
+  })
+);
@@ -0,0 +1,249 @@
+/**
+ * return-request controller
+ */
+
+import { factories } from '@strapi/strapi';
+import { UserType } from '../../../../config/constant';
+
+/**
+ * Respond to a failed return operation, refusals of the return policy are client errors
+ */
+const handleReturnError = (ctx: any, error: any, fallbackMessage: string) => {
+  if (error.message.includes('not found')) {
+    return ctx.notFound(error.message);
+  }
+  if (/must be|required|[Oo]nly |Return is|window closed|exceeds|nothing left/.test(error.message)) {
+    return ctx.badRequest(error.message);
+  }
+  return ctx.internalServerError(fallbackMessage);
+};
+
+/**
+ * Get the user ID of an admin request, API tokens act without a user
+ */
+const actingUserId = (ctx: any) => (ctx.state.userType === UserType.API_TOKEN ? null : ctx.state.user?.id || null);
+
+export default factories.createCoreController('api::return-request.return-request', ({ strapi }) => ({
+  /**
+   * Request the return of delivered order items
+   */
+  async request(ctx) {
+    try {
+      const { data } = ctx.request.body || {};
+      const { user, userType } = ctx.state;
+      const sessionId = ctx?.request?.query?.sessionId || ctx?.request?.body?.sessionId;
+
+      if (!data?.orderId) {
+        return ctx.badRequest('Order ID is required');
+      }
+
+      const order = await strapi.documents('api::order.order').findOne({
+        documentId: data.orderId,
+        populate: ['user']
+      });
+      if (!order) {
+        return ctx.notFound('Order not found');
+      }
+      // check if user own the order
+      if (userType === UserType.AUTHENTICATED && order.user?.id !== user.id) {
+        return ctx.forbidden('Access denied You are not authorized to return this order');
+      }
+      if (userType === UserType.GUEST && order.sessionId !== sessionId) {
+        return ctx.forbidden('Access denied You are not authorized to return this order');
+      }
+
+      const returnRequest = await strapi.service('api::return-request.return-request').requestReturn(
+        data.orderId,
+        { items: data.items, customerNotes: data.customerNotes },
+        {
+          userId: userType === UserType.AUTHENTICATED ? user.id : null,
+          sessionId: userType === UserType.GUEST ? sessionId : null
+        }
+      );
+
+      return {
+        data: returnRequest,
+        meta: {
+          message: 'Return requested successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error requesting return:', error);
+      return handleReturnError(ctx, error, 'Failed to request return');
+    }
+  },
+
+  /**
+   * List the returns of the current customer
+   */
+  async mine(ctx) {
+    try {
+      const { user, userType } = ctx.state;
+      const sessionId = ctx?.request?.query?.sessionId || ctx?.request?.body?.sessionId;
+      if (userType !== UserType.AUTHENTICATED && userType !== UserType.GUEST) {
+        return ctx.forbidden('Access denied Only customers have returns');
+      }
+
+      const returns = await strapi.service('api::return-request.return-request').listReturns(
+        userType === UserType.AUTHENTICATED ? { userId: user.id } : { sessionId }
+      );
+
+      return {
+        data: returns,
+        meta: {
+          message: 'Returns retrieved successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error listing customer returns:', error);
+      return ctx.internalServerError('Failed to list returns');
+    }
+  },
+
+  /**
+   * List returns, optionally of one order or in one status
+   */
+  async list(ctx) {
+    try {
+      const { orderId, status } = ctx.query as { orderId?: string; status?: string };
+      const returns = await strapi.service('api::return-request.return-request').listReturns({ orderId, status });
+
+      return {
+        data: returns,
+        meta: {
+          message: 'Returns retrieved successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error listing returns:', error);
+      return ctx.internalServerError('Failed to list returns');
+    }
+  },
+
+  /**
+   * Approve a requested return, with its return label when given
+   */
+  async approve(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { label } = ctx.request.body || {};
+
+      const returnRequest = await strapi.service('api::return-request.return-request').approveReturn(
+        documentId,
+        actingUserId(ctx),
+        label
+      );
+
+      return {
+        data: returnRequest,
+        meta: {
+          message: 'Return approved successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error approving return:', error);
+      return handleReturnError(ctx, error, 'Failed to approve return');
+    }
+  },
+
+  /**
+   * Reject a requested return
+   */
+  async reject(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { reason } = ctx.request.body || {};
+      if (!reason) {
+        return ctx.badRequest('Rejection reason is required');
+      }
+
+      const returnRequest = await strapi.service('api::return-request.return-request').rejectReturn(
+        documentId,
+        actingUserId(ctx),
+        reason
+      );
+
+      return {
+        data: returnRequest,
+        meta: {
+          message: 'Return rejected successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error rejecting return:', error);
+      return handleReturnError(ctx, error, 'Failed to reject return');
+    }
+  },
+
+  /**
+   * Attach the return label of an approved return
+   */
+  async label(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { carrier, trackingNumber, labelUrl } = ctx.request.body || {};
+
+      const returnRequest = await strapi.service('api::return-request.return-request').attachLabel(documentId, {
+        carrier,
+        trackingNumber,
+        labelUrl
+      });
+
+      return {
+        data: returnRequest,
+        meta: {
+          message: 'Return label attached successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error attaching return label:', error);
+      return handleReturnError(ctx, error, 'Failed to attach return label');
+    }
+  },
+
+  /**
+   * Mark a returned parcel as received
+   */
+  async receive(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const returnRequest = await strapi.service('api::return-request.return-request').receiveReturn(documentId);
+
+      return {
+        data: returnRequest,
+        meta: {
+          message: 'Return received successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error receiving return:', error);
+      return handleReturnError(ctx, error, 'Failed to receive return');
+    }
+  },
+
+  /**
+   * Record the inspection outcome of the returned items and complete the return
+   */
+  async inspect(ctx) {
+    try {
+      const { documentId } = ctx.params;
+      const { items } = ctx.request.body || {};
+
+      const returnRequest = await strapi.service('api::return-request.return-request').inspectReturn(
+        documentId,
+        actingUserId(ctx),
+        items
+      );
+
+      return {
+        data: returnRequest,
+        meta: {
+          message: 'Return inspected successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error inspecting return:', error);
+      return handleReturnError(ctx, error, 'Failed to inspect return');
+    }
+  },
+}));
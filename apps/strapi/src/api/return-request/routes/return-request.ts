@@ -0,0 +1,75 @@
+/**
+ * return-request router
+ *
+ * Customers and guests request returns of their delivered orders, admins
+ * take them through approval, reception and inspection.
+ */
+
+export default {
+  routes: [
+    {
+      method: 'POST',
+      path: '/returns',
+      handler: 'api::return-request.return-request.request',
+      config: {
+        policies: ['global::is-authenticated'],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/returns/mine',
+      handler: 'api::return-request.return-request.mine',
+      config: {
+        policies: ['global::is-authenticated'],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/returns',
+      handler: 'api::return-request.return-request.list',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/returns/:documentId/approve',
+      handler: 'api::return-request.return-request.approve',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/returns/:documentId/reject',
+      handler: 'api::return-request.return-request.reject',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/returns/:documentId/label',
+      handler: 'api::return-request.return-request.label',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/returns/:documentId/receive',
+      handler: 'api::return-request.return-request.receive',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/returns/:documentId/inspect',
+      handler: 'api::return-request.return-request.inspect',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+  ],
+};
@@ -0,0 +1,298 @@
+/**
+ * Return Request Service tests
+ *
+ * Tests the return window, returnable quantities, return labels and the
+ * inspection feeding inventory and the refund
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+// Create mock document service methods with proper typing
+const mockDocumentMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  count: jest.fn() as jest.MockedFunction<any>,
+  create: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockServices: Record<string, any> = {
+  'api::order.order-tracking': {
+    createTrackingRecord: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::refund.refund': {
+    getOrder: jest.fn() as jest.MockedFunction<any>,
+    getCommittedRefunds: jest.fn() as jest.MockedFunction<any>,
+    getRefundableSummary: jest.fn() as jest.MockedFunction<any>,
+    requestRefund: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::inventory.inventory': {
+    updateInventory: jest.fn() as jest.MockedFunction<any>,
+    findInventoryRecord: jest.fn() as jest.MockedFunction<any>,
+    createHistoryRecord: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::order.order-state-machine': {
+    checkTransition: jest.fn() as jest.MockedFunction<any>,
+    transition: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::order.order-history': {
+    recordStatusChange: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+// Mock Strapi factories with proper service context
+jest.mock('@strapi/strapi', () => ({
+  factories: {
+    createCoreService: jest.fn((serviceName: any, serviceFunction?: any) => {
+      if (serviceFunction) {
+        const serviceInstance = serviceFunction({ strapi: mockStrapi });
+        // Bind methods to service instance for proper `this` context
+        Object.keys(serviceInstance).forEach(key => {
+          if (typeof serviceInstance[key] === 'function') {
+            serviceInstance[key] = serviceInstance[key].bind(serviceInstance);
+          }
+        });
+        return serviceInstance;
+      }
+      return mockStrapi;
+    }),
+  },
+}));
+
+describe('Return Request Service', () => {
+  let service: any;
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const order = {
+    documentId: 'order-1',
+    orderNumber: 'ORD2601ABCD',
+    status: 'delivered',
+    paymentStatus: 'paid',
+    actualDelivery: daysAgo(5),
+    items: [
+      { documentId: 'item-1', quantity: 2, product: { documentId: 'shirt' }, variant: { documentId: 'shirt-m' } },
+      { documentId: 'item-2', quantity: 1, product: { documentId: 'hat' } },
+    ],
+  };
+
+  const receivedReturn = {
+    documentId: 'return-1',
+    returnNumber: 'ORD2601ABCD-R1',
+    status: 'received',
+    order: { documentId: 'order-1' },
+    items: [
+      { orderItemId: 'item-1', productId: 'shirt', variantId: 'shirt-m', quantity: 2, reason: 'size_fit' },
+      { orderItemId: 'item-2', productId: 'hat', quantity: 1, reason: 'damaged' },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+    mockDocumentMethods.create.mockImplementation(async ({ data }: any) => ({ documentId: 'return-1', ...data }));
+    mockDocumentMethods.update.mockImplementation(async ({ documentId, data }: any) => ({ documentId, ...data }));
+    mockDocumentMethods.findMany.mockResolvedValue([]);
+    mockDocumentMethods.count.mockResolvedValue(0);
+    mockServices['api::order.order-state-machine'].checkTransition.mockReturnValue({ isValid: true, errors: [] });
+    mockServices['api::refund.refund'].getOrder.mockResolvedValue(order);
+    mockServices['api::refund.refund'].getCommittedRefunds.mockResolvedValue([]);
+    mockServices['api::refund.refund'].getRefundableSummary.mockReturnValue({ refundedQuantities: {} });
+    mockServices['api::refund.refund'].requestRefund.mockResolvedValue({ documentId: 'refund-1' });
+
+    service = require('./return-request').default;
+  });
+
+  describe('requestReturn', () => {
+    it('should create a return of delivered items within the window', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(order);
+      mockDocumentMethods.count.mockResolvedValue(1);
+
+      const returnRequest = await service.requestReturn('order-1', {
+        items: [{ orderItemId: 'item-1', quantity: 1, reason: 'size_fit', notes: 'Too small' }],
+      }, { userId: 7 });
+
+      expect(returnRequest).toMatchObject({
+        returnNumber: 'ORD2601ABCD-R2',
+        order: 'order-1',
+        user: 7,
+        status: 'requested',
+        items: [{ orderItemId: 'item-1', productId: 'shirt', variantId: 'shirt-m', quantity: 1, reason: 'size_fit', notes: 'Too small' }],
+      });
+    });
+
+    it('should refuse returns after the return window', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...order, actualDelivery: daysAgo(31) });
+
+      await expect(service.requestReturn('order-1', {
+        items: [{ orderItemId: 'item-1', quantity: 1, reason: 'size_fit' }],
+      }, { userId: 7 })).rejects.toThrow('Return window closed on');
+    });
+
+    it('should only return orders that were delivered', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue({ ...order, status: 'shipping' });
+
+      await expect(service.requestReturn('order-1', {
+        items: [{ orderItemId: 'item-1', quantity: 1, reason: 'size_fit' }],
+      }, { userId: 7 })).rejects.toThrow('Only delivered orders can be returned');
+    });
+
+    it('should not return items already held by another return', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(order);
+      mockDocumentMethods.findMany.mockResolvedValue([{ items: [{ orderItemId: 'item-1', quantity: 1 }] }]);
+
+      await expect(service.requestReturn('order-1', {
+        items: [{ orderItemId: 'item-1', quantity: 2, reason: 'size_fit' }],
+      }, { userId: 7 })).rejects.toThrow('Return quantity for order item item-1 must be between 1 and 1');
+    });
+
+    it('should count every line of the same order item against its returnable quantity', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(order);
+
+      await expect(service.requestReturn('order-1', {
+        items: [
+          { orderItemId: 'item-1', quantity: 1, reason: 'size_fit' },
+          { orderItemId: 'item-1', quantity: 2, reason: 'damaged' },
+        ],
+      }, { userId: 7 })).rejects.toThrow('Return quantity for order item item-1 must be between 1 and 1');
+      expect(mockDocumentMethods.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approveReturn', () => {
+    it('should track the return label as a return shipment of the order', async () => {
+      mockDocumentMethods.findOne
+        .mockResolvedValueOnce({ ...receivedReturn, status: 'requested' })
+        .mockResolvedValueOnce({ ...receivedReturn, status: 'approved' });
+      mockServices['api::order.order-tracking'].createTrackingRecord.mockResolvedValue({
+        documentId: 'tracking-2',
+        trackingUrl: 'https://carrier.example.com/RT123',
+      });
+
+      const returnRequest = await service.approveReturn('return-1', 3, { carrier: 'ups', trackingNumber: 'RT123' });
+
+      expect(mockServices['api::order.order-tracking'].createTrackingRecord).toHaveBeenCalledWith({
+        orderId: 'order-1',
+        trackingNumber: 'RT123',
+        carrier: 'ups',
+        direction: 'return',
+      });
+      expect(returnRequest).toMatchObject({ returnTracking: 'tracking-2', labelUrl: 'https://carrier.example.com/RT123' });
+    });
+  });
+
+  describe('syncTracking', () => {
+    it('should receive the return once its parcel is delivered', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue({ ...receivedReturn, status: 'in_transit' });
+      mockDocumentMethods.findOne.mockResolvedValue({ ...receivedReturn, status: 'in_transit' });
+
+      const returnRequest = await service.syncTracking('tracking-2', 'delivered');
+
+      expect(returnRequest).toMatchObject({ documentId: 'return-1', status: 'received' });
+    });
+  });
+
+  describe('inspectReturn', () => {
+    it('should restock, record discarded items, request the refund and mark the order returned', async () => {
+      mockDocumentMethods.findOne
+        .mockResolvedValueOnce(receivedReturn)
+        .mockResolvedValueOnce(order);
+      mockDocumentMethods.findMany.mockResolvedValue([{ ...receivedReturn, status: 'completed' }]);
+      mockServices['api::inventory.inventory'].findInventoryRecord.mockResolvedValue({ quantity: 10, reserved: 2 });
+
+      const returnRequest = await service.inspectReturn('return-1', 3, [
+        { line: 0, outcome: 'restock' },
+        { line: 1, outcome: 'discard', notes: 'Torn' },
+      ]);
+
+      expect(mockServices['api::refund.refund'].requestRefund).toHaveBeenCalledWith('order-1', {
+        type: 'items',
+        items: [{ orderItemId: 'item-1', quantity: 2 }, { orderItemId: 'item-2', quantity: 1 }],
+        reasonCode: 'other',
+        reason: 'Return ORD2601ABCD-R1',
+        restock: false,
+      }, 3);
+      expect(mockServices['api::inventory.inventory'].updateInventory).toHaveBeenCalledWith('shirt', 2, expect.objectContaining({
+        source: 'return',
+        orderId: 'order-1',
+        variantId: 'shirt-m',
+        metadata: expect.objectContaining({ returnRequestId: 'return-1', outcome: 'restock' }),
+      }));
+      expect(mockServices['api::inventory.inventory'].createHistoryRecord).toHaveBeenCalledWith(expect.objectContaining({
+        productId: 'hat',
+        action: 'adjust',
+        quantityChanged: 0,
+        source: 'return',
+        metadata: expect.objectContaining({ outcome: 'discard', quantity: 1 }),
+      }));
+      expect(returnRequest).toMatchObject({ status: 'completed', refund: 'refund-1' });
+      expect(returnRequest.items[1]).toMatchObject({ outcome: 'discard', inspectionNotes: 'Torn' });
+      expect(mockServices['api::order.order-state-machine'].transition).toHaveBeenCalledWith('order-1', 'returned', {
+        role: 'admin',
+        workflow: 'return',
+        userId: 3,
+        reason: 'All order items returned',
+      });
+    });
+
+    it('should not refund items that were refunded already', async () => {
+      mockDocumentMethods.findOne.mockResolvedValueOnce(receivedReturn).mockResolvedValueOnce(order);
+      mockServices['api::refund.refund'].getRefundableSummary.mockReturnValue({
+        refundedQuantities: { 'item-1': 2, 'item-2': 1 },
+      });
+
+      const returnRequest = await service.inspectReturn('return-1', 3, [
+        { line: 0, outcome: 'refurbish' },
+        { line: 1, outcome: 'refurbish' },
+      ]);
+
+      expect(mockServices['api::refund.refund'].requestRefund).not.toHaveBeenCalled();
+      expect(returnRequest.refund).toBeNull();
+    });
+
+    it('should require an outcome for every returned item', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(receivedReturn);
+
+      await expect(service.inspectReturn('return-1', 3, [{ line: 0, outcome: 'restock' }])).rejects.toThrow(
+        'Inspection outcome for line 1 (order item item-2) must be one of restock, refurbish, discard'
+      );
+      expect(mockServices['api::inventory.inventory'].updateInventory).not.toHaveBeenCalled();
+    });
+
+    it('should inspect every line of an order item on its own and refund its lines together', async () => {
+      const splitReturn = {
+        ...receivedReturn,
+        items: [
+          { orderItemId: 'item-1', productId: 'shirt', variantId: 'shirt-m', quantity: 1, reason: 'damaged' },
+          { orderItemId: 'item-1', productId: 'shirt', variantId: 'shirt-m', quantity: 1, reason: 'size_fit' },
+        ],
+      };
+      mockDocumentMethods.findOne.mockResolvedValueOnce(splitReturn).mockResolvedValueOnce(order);
+      mockServices['api::refund.refund'].getRefundableSummary.mockReturnValue({ refundedQuantities: { 'item-1': 1 } });
+
+      const returnRequest = await service.inspectReturn('return-1', 3, [
+        { line: 0, outcome: 'discard' },
+        { line: 1, outcome: 'restock' },
+      ]);
+
+      expect(returnRequest.items.map((item: any) => item.outcome)).toEqual(['discard', 'restock']);
+      expect(mockServices['api::refund.refund'].requestRefund).toHaveBeenCalledWith('order-1', expect.objectContaining({
+        items: [{ orderItemId: 'item-1', quantity: 1 }],
+      }), 3);
+      expect(mockServices['api::inventory.inventory'].updateInventory).toHaveBeenCalledTimes(1);
+      expect(mockServices['api::inventory.inventory'].updateInventory).toHaveBeenCalledWith('shirt', 1, expect.anything());
+    });
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * return-request service
+ *
+ * Customers request returns of delivered order items within the return
+ * window, item by item with a quantity and a reason. Approved returns get a
+ * return label tracked by an order-tracking record, whose carrier updates
+ * move the return along. Once received, every item is inspected and
+ * restocked, sent to refurbishment or discarded, each outcome recorded in
+ * the inventory history, and an order items refund is requested.
+ */
+
+import { Core, factories } from '@strapi/strapi';
+import { RETURN_POLICY_CONFIG } from '../../../../config/constant';
+
+export type ReturnReason =
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'size_fit'
+  | 'no_longer_needed'
+  | 'other';
+
+export type InspectionOutcome = 'restock' | 'refurbish' | 'discard';
+
+export interface ReturnItemInput {
+  orderItemId: string;
+  quantity: number;
+  reason: ReturnReason;
+  notes?: string;
+}
+
+export interface ReturnItem extends ReturnItemInput {
+  productId?: string;
+  variantId?: string;
+  outcome?: InspectionOutcome;
+  inspectionNotes?: string;
+}
+
+export interface InspectionInput {
+  line: number; // index of the item in the return, an order item can have several lines
+  outcome: InspectionOutcome;
+  notes?: string;
+}
+
+export interface ReturnLabel {
+  carrier: string;
+  trackingNumber: string;
+  labelUrl?: string;
+}
+
+export interface Requester {
+  userId?: string | null;
+  sessionId?: string | null;
+}
+
+export const RETURN_REASONS: ReturnReason[] = [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'size_fit',
+  'no_longer_needed',
+  'other',
+];
+
+export const INSPECTION_OUTCOMES: InspectionOutcome[] = ['restock', 'refurbish', 'discard'];
+
+// Returns holding their items until they are rejected
+const OPEN_STATUSES = ['requested', 'approved', 'in_transit', 'received', 'completed'];
+
+// Refund reason codes the return reasons map to, the others are customer requests
+const REFUND_REASON_CODES: Partial<Record<ReturnReason, string>> = {
+  damaged: 'damaged',
+  defective: 'defective',
+  wrong_item: 'wrong_item',
+  not_as_described: 'not_as_described',
+};
+
+export default factories.createCoreService(
+  'api::return-request.return-request',
+  ({ strapi }: { strapi: Core.Strapi }) => ({
+    /**
+     * Get an order with its items
+     */
+    async getOrder(orderId: string): Promise<any> {
+      return strapi.documents('api::order.order').findOne({
+        documentId: orderId,
+        populate: {
+          user: true,
+          items: { populate: { product: true, variant: true } },
+        },
+      });
+    },
+
+    /**
+     * Get a return request
+     * @throws Error when it does not exist
+     */
+    async getReturn(returnId: string): Promise<any> {
+      const returnRequest = await strapi.documents('api::return-request.return-request').findOne({
+        documentId: returnId,
+        populate: { order: true, returnTracking: true },
+      });
+      if (!returnRequest) {
+        throw new Error('Return request not found');
+      }
+      return returnRequest;
+    },
+
+    /**
+     * Sum the quantities of each order item held by the returns of an order
+     */
+    async getReturnedQuantities(orderId: string, statuses: string[] = OPEN_STATUSES): Promise<Record<string, number>> {
+      const returns = await strapi.documents('api::return-request.return-request').findMany({
+        filters: {
+          order: { documentId: orderId },
+          status: { $in: statuses },
+        } as any,
+      });
+
+      const quantities: Record<string, number> = {};
+      for (const returnRequest of returns) {
+        for (const item of (returnRequest.items as any[]) || []) {
+          quantities[item.orderItemId] = (quantities[item.orderItemId] || 0) + item.quantity;
+        }
+      }
+      return quantities;
+    },
+
+    /**
+     * Check that an order is delivered and still within the return window
+     * @throws Error when the order cannot be returned
+     */
+    checkReturnWindow(order: any, now: Date = new Date()): void {
+      if (order.status !== 'delivered') {
+        throw new Error('Only delivered orders can be returned');
+      }
+
+      const deliveredAt = new Date(order.actualDelivery || order.updatedAt);
+      const closesAt = new Date(deliveredAt.getTime() + RETURN_POLICY_CONFIG.windowDays * 24 * 60 * 60 * 1000);
+      if (now > closesAt) {
+        throw new Error(`Return window closed on ${closesAt.toISOString().slice(0, 10)}`);
+      }
+    },
+
+    /**
+     * Request the return of delivered order items
+     * @throws Error when the order is outside the return window or an item cannot be returned
+     */
+    async requestReturn(
+      orderId: string,
+      input: { items: ReturnItemInput[]; customerNotes?: string },
+      requester: Requester
+    ): Promise<any> {
+      const order = await this.getOrder(orderId);
+      if (!order) {
+        throw new Error('Order not found');
+      }
+      this.checkReturnWindow(order);
+
+      if (!Array.isArray(input.items) || input.items.length === 0) {
+        throw new Error('At least one order item is required');
+      }
+
+      const returnedQuantities = await this.getReturnedQuantities(orderId);
+      // Lines for the same order item, e.g. with different reasons, share its returnable quantity
+      const requestedQuantities: Record<string, number> = {};
+      const items: ReturnItem[] = input.items.map((line) => {
+        const orderItem = (order.items || []).find((item: any) => item.documentId === line.orderItemId);
+        if (!orderItem) {
+          throw new Error(`Order item ${line.orderItemId} not found`);
+        }
+        const returnable = orderItem.quantity
+          - (returnedQuantities[line.orderItemId] || 0)
+          - (requestedQuantities[line.orderItemId] || 0);
+        if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > returnable) {
+          throw new Error(`Return quantity for order item ${line.orderItemId} must be between 1 and ${returnable}`);
+        }
+        requestedQuantities[line.orderItemId] = (requestedQuantities[line.orderItemId] || 0) + line.quantity;
+        if (!RETURN_REASONS.includes(line.reason)) {
+          throw new Error(`Return reason must be one of ${RETURN_REASONS.join(', ')}`);
+        }
+
+        return {
+          orderItemId: line.orderItemId,
+          productId: orderItem.product?.documentId,
+          variantId: orderItem.variant?.documentId,
+          quantity: line.quantity,
+          reason: line.reason,
+          notes: line.notes,
+        };
+      });
+
+      const returnCount = await strapi.documents('api::return-request.return-request').count({
+        filters: { order: { documentId: orderId } } as any,
+      });
+
+      return strapi.documents('api::return-request.return-request').create({
+        data: {
+          returnNumber: `${order.orderNumber}-R${returnCount + 1}`,
+          order: orderId,
+          user: (requester.userId || null) as any,
+          sessionId: requester.sessionId || null,
+          status: 'requested',
+          items: items as any,
+          customerNotes: input.customerNotes || null,
+        },
+      });
+    },
+
+    /**
+     * Approve a requested return, with its return label when it is already known
+     */
+    async approveReturn(returnId: string, approvedBy: string | null, label?: ReturnLabel): Promise<any> {
+      const returnRequest = await this.getReturn(returnId);
+      if (returnRequest.status !== 'requested') {
+        throw new Error(`Return is ${returnRequest.status}, only requested returns can be approved`);
+      }
+
+      const approved = await strapi.documents('api::return-request.return-request').update({
+        documentId: returnId,
+        data: {
+          status: 'approved',
+          approvedBy: approvedBy as any,
+          approvedAt: new Date(),
+        },
+      });
+
+      return label ? this.attachLabel(returnId, label) : approved;
+    },
+
+    /**
+     * Reject a requested return, its items can be requested again
+     */
+    async rejectReturn(returnId: string, rejectedBy: string | null, reason: string): Promise<any> {
+      const returnRequest = await this.getReturn(returnId);
+      if (returnRequest.status !== 'requested') {
+        throw new Error(`Return is ${returnRequest.status}, only requested returns can be rejected`);
+      }
+
+      return strapi.documents('api::return-request.return-request').update({
+        documentId: returnId,
+        data: {
+          status: 'rejected',
+          approvedBy: rejectedBy as any,
+          rejectionReason: reason,
+        },
+      });
+    },
+
+    /**
+     * Attach the return label of an approved return, tracked as a return shipment of the order
+     */
+    async attachLabel(returnId: string, label: ReturnLabel): Promise<any> {
+      const returnRequest = await this.getReturn(returnId);
+      if (returnRequest.status !== 'approved') {
+        throw new Error(`Return is ${returnRequest.status}, only approved returns get a return label`);
+      }
+      if (!label.carrier || !label.trackingNumber) {
+        throw new Error('Carrier and tracking number are required');
+      }
+
+      const tracking = await strapi.service('api::order.order-tracking').createTrackingRecord({
+        orderId: returnRequest.order.documentId,
+        trackingNumber: label.trackingNumber,
+        carrier: label.carrier,
+        direction: 'return',
+      });
+
+      return strapi.documents('api::return-request.return-request').update({
+        documentId: returnId,
+        data: {
+          returnTracking: tracking.documentId,
+          labelUrl: label.labelUrl || tracking.trackingUrl || null,
+        },
+      });
+    },
+
+    /**
+     * Follow the carrier updates of a return shipment
+     */
+    async syncTracking(trackingId: string, trackingStatus: string): Promise<any> {
+      const returnRequest = await strapi.documents('api::return-request.return-request').findFirst({
+        filters: { returnTracking: { documentId: trackingId } } as any,
+      });
+      if (!returnRequest) {
+        return null;
+      }
+
+      if (trackingStatus === 'delivered' && ['approved', 'in_transit'].includes(returnRequest.status)) {
+        return this.receiveReturn(returnRequest.documentId);
+      }
+      if (['in_transit', 'out_for_delivery'].includes(trackingStatus) && returnRequest.status === 'approved') {
+        return strapi.documents('api::return-request.return-request').update({
+          documentId: returnRequest.documentId,
+          data: { status: 'in_transit' },
+        });
+      }
+      return returnRequest;
+    },
+
+    /**
+     * Mark the returned parcel as received at the store
+     */
+    async receiveReturn(returnId: string): Promise<any> {
+      const returnRequest = await this.getReturn(returnId);
+      if (!['approved', 'in_transit'].includes(returnRequest.status)) {
+        throw new Error(`Return is ${returnRequest.status}, only approved returns can be received`);
+      }
+
+      return strapi.documents('api::return-request.return-request').update({
+        documentId: returnId,
+        data: {
+          status: 'received',
+          receivedAt: new Date(),
+        },
+      });
+    },
+
+    /**
+     * Record the inspection outcome of every returned item and complete the return
+     *
+     * The refund is requested first so a refusal leaves the return untouched,
+     * then restocked items go back to inventory and refurbished or discarded
+     * ones are recorded in the inventory history without becoming sellable.
+     * @throws Error when the return is not received or a line has no outcome
+     */
+    async inspectReturn(returnId: string, inspectedBy: string | null, outcomes: InspectionInput[]): Promise<any> {
+      const returnRequest = await this.getReturn(returnId);
+      if (returnRequest.status !== 'received') {
+        throw new Error(`Return is ${returnRequest.status}, only received returns can be inspected`);
+      }
+
+      const items: ReturnItem[] = ((returnRequest.items as any[]) || []).map((item, line) => {
+        const inspection = (outcomes || []).find((outcome) => outcome.line === line);
+        if (!inspection || !INSPECTION_OUTCOMES.includes(inspection.outcome)) {
+          throw new Error(
+            `Inspection outcome for line ${line} (order item ${item.orderItemId}) must be one of ${INSPECTION_OUTCOMES.join(', ')}`
+          );
+        }
+        return { ...item, outcome: inspection.outcome, inspectionNotes: inspection.notes };
+      });
+
+      const refund = await this.createRefund(returnRequest, items, inspectedBy);
+
+      for (const item of items) {
+        await this.recordOutcome(returnRequest, item, inspectedBy);
+      }
+
+      const completed = await strapi.documents('api::return-request.return-request').update({
+        documentId: returnId,
+        data: {
+          status: 'completed',
+          items: items as any,
+          inspectedBy: inspectedBy as any,
+          inspectedAt: new Date(),
+          refund: refund?.documentId || null,
+        },
+      });
+
+      await this.markOrderReturned(returnRequest.order.documentId, inspectedBy);
+
+      return completed;
+    },
+
+    /**
+     * Request the refund of the returned items not refunded yet
+     * @returns null when the order is not paid or its items are already refunded
+     */
+    async createRefund(returnRequest: any, items: ReturnItem[], requestedBy: string | null): Promise<any> {
+      const refundService = strapi.service('api::refund.refund');
+      const order = await refundService.getOrder(returnRequest.order.documentId);
+      if (order.paymentStatus !== 'paid') {
+        return null;
+      }
+
+      const { refundedQuantities } = refundService.getRefundableSummary(
+        order,
+        await refundService.getCommittedRefunds(order.documentId)
+      );
+      // The lines of an order item are refunded together, up to what is left of it to refund
+      const returnedQuantities: Record<string, number> = {};
+      for (const item of items) {
+        returnedQuantities[item.orderItemId] = (returnedQuantities[item.orderItemId] || 0) + item.quantity;
+      }
+      const lines = Object.entries(returnedQuantities)
+        .map(([orderItemId, quantity]) => {
+          const orderItem = (order.items || []).find((candidate: any) => candidate.documentId === orderItemId);
+          const refundable = (orderItem?.quantity || 0) - (refundedQuantities[orderItemId] || 0);
+          return { orderItemId, quantity: Math.min(quantity, refundable) };
+        })
+        .filter((line) => line.quantity > 0);
+      if (lines.length === 0) {
+        return null;
+      }
+
+      const reasonCodes = new Set(items.map((item) => REFUND_REASON_CODES[item.reason] || 'customer_request'));
+      return refundService.requestRefund(order.documentId, {
+        type: 'items',
+        items: lines,
+        reasonCode: reasonCodes.size === 1 ? [...reasonCodes][0] : 'other',
+        reason: `Return ${returnRequest.returnNumber}`,
+        restock: false,
+      }, requestedBy);
+    },
+
+    /**
+     * Apply the inspection outcome of a returned item to inventory
+     */
+    async recordOutcome(returnRequest: any, item: ReturnItem, userId: string | null): Promise<void> {
+      const inventoryService = strapi.service('api::inventory.inventory');
+      const reason = `Return ${returnRequest.returnNumber}: ${item.outcome}`;
+      const metadata = {
+        returnRequestId: returnRequest.documentId,
+        orderItemId: item.orderItemId,
+        returnReason: item.reason,
+        outcome: item.outcome,
+        quantity: item.quantity,
+      };
+
+      if (item.outcome === 'restock') {
+        await inventoryService.updateInventory(item.productId, item.quantity, {
+          reason,
+          source: 'return',
+          orderId: returnRequest.order.documentId,
+          userId,
+          variantId: item.variantId,
+          metadata,
+        });
+        return;
+      }
+
+      // Refurbished and discarded items are not sellable, the history keeps track of them
+      const inventory = await inventoryService.findInventoryRecord(item.productId, item.variantId);
+      await inventoryService.createHistoryRecord({
+        productId: item.productId,
+        variantId: item.variantId,
+        action: 'adjust',
+        quantityBefore: inventory?.quantity || 0,
+        quantityAfter: inventory?.quantity || 0,
+        quantityChanged: 0,
+        reservedBefore: inventory?.reserved || 0,
+        reservedAfter: inventory?.reserved || 0,
+        reason,
+        source: 'return',
+        orderId: returnRequest.order.documentId,
+        changedBy: userId,
+        metadata,
+      });
+    },
+
+    /**
+     * Mark the order returned once every item it delivered came back
+     */
+    async markOrderReturned(orderId: string, userId: string | null): Promise<void> {
+      const order = await this.getOrder(orderId);
+      const returnedQuantities = await this.getReturnedQuantities(orderId, ['completed']);
+      const fullyReturned = (order.items || []).every(
+        (item: any) => (returnedQuantities[item.documentId] || 0) >= item.quantity
+      );
+      if (!fullyReturned) {
+        return;
+      }
+
+      const stateMachine = strapi.service('api::order.order-state-machine');
+      const transitionOptions = { role: 'admin', workflow: 'return' } as const;
+      if (!stateMachine.checkTransition(order, 'returned', transitionOptions).isValid) {
+        return;
+      }
+      await stateMachine.transition(orderId, 'returned', {
+        ...transitionOptions,
+        userId,
+        reason: 'All order items returned',
+      });
+    },
+
+    /**
+     * List return requests, newest first
+     */
+    async listReturns(filters: { orderId?: string; status?: string; userId?: string; sessionId?: string } = {}): Promise<any[]> {
+      return strapi.documents('api::return-request.return-request').findMany({
+        filters: {
+          ...(filters.orderId ? { order: { documentId: filters.orderId } } : {}),
+          ...(filters.status ? { status: filters.status } : {}),
+          ...(filters.userId ? { user: { id: filters.userId } } : {}),
+          ...(filters.sessionId ? { sessionId: filters.sessionId } : {}),
+        } as any,
+        populate: { order: true, returnTracking: true, refund: true },
+        sort: { createdAt: 'desc' },
+      });
+    },
+  })
+);
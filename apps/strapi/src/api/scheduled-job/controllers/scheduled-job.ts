@@ -0,0 +1,80 @@
+/**
+ * scheduled-job controller
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreController('api::scheduled-job.scheduled-job', ({ strapi }) => ({
+  /**
+   * List the background jobs with their schedule and last run
+   */
+  async list(ctx) {
+    try {
+      const jobs = await strapi.service('api::scheduled-job.scheduled-job').listJobs();
+
+      return {
+        data: jobs,
+        meta: {
+          message: 'Scheduled jobs retrieved successfully'
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error listing scheduled jobs:', error);
+      return ctx.internalServerError('Failed to list scheduled jobs');
+    }
+  },
+
+  /**
+   * Get the latest runs of a job
+   */
+  async runs(ctx) {
+    try {
+      const { name } = ctx.params;
+      const limit = Math.min(parseInt(ctx.query.limit as string) || 20, 100);
+      const runs = await strapi.service('api::scheduled-job.scheduled-job').getRuns(name, limit);
+
+      return {
+        data: runs,
+        meta: {
+          message: 'Scheduled job runs retrieved successfully'
+        }
+      };
+    } catch (error) {
+      if (error.message.includes('not found')) {
+        return ctx.notFound(error.message);
+      }
+      strapi.log.error('Error getting scheduled job runs:', error);
+      return ctx.internalServerError('Failed to get scheduled job runs');
+    }
+  },
+
+  /**
+   * Run a job now, outside of its schedule
+   */
+  async trigger(ctx) {
+    try {
+      const { name } = ctx.params;
+      const run = await strapi.service('api::scheduled-job.scheduled-job').runJob(name, {
+        trigger: 'manual',
+        triggeredBy: ctx.state.user?.id ? String(ctx.state.user.id) : null
+      });
+
+      if (!run) {
+        return ctx.conflict(`Scheduled job ${name} is already running`);
+      }
+
+      return {
+        data: run,
+        meta: {
+          message: run.status === 'success' ? 'Scheduled job completed' : 'Scheduled job failed'
+        }
+      };
+    } catch (error) {
+      if (error.message.includes('not found')) {
+        return ctx.notFound(error.message);
+      }
+      strapi.log.error('Error triggering scheduled job:', error);
+      return ctx.internalServerError('Failed to trigger scheduled job');
+    }
+  },
+}));
@@ -0,0 +1,35 @@
+/**
+ * scheduled-job router
+ *
+ * Background jobs are inspected and triggered by admins only, the run
+ * state itself is written by the scheduler.
+ */
+
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/scheduled-jobs',
+      handler: 'api::scheduled-job.scheduled-job.list',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/scheduled-jobs/:name/runs',
+      handler: 'api::scheduled-job.scheduled-job.runs',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/scheduled-jobs/:name/run',
+      handler: 'api::scheduled-job.scheduled-job.trigger',
+      config: {
+        policies: ['global::is-admin'],
+      },
+    },
+  ],
+};
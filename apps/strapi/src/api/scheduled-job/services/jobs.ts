@@ -0,0 +1,149 @@
+/**
+ * Scheduled job definitions
+ *
+ * The background jobs the scheduler knows about. Schedules and whether a
+ * job runs at all come from SCHEDULED_JOB_CONFIG, a job without a config
+ * entry can only be triggered manually.
+ */
+
+import type { Core } from '@strapi/strapi';
+
+export interface ScheduledJobDefinition {
+  name: string;
+  description: string;
+  handler: (strapi: Core.Strapi) => Promise<any>;
+}
+
+export const SCHEDULED_JOBS: ScheduledJobDefinition[] = [
+  {
+    name: 'expire-stock-reservations',
+    description: 'Release stock held by expired reservations',
+    handler: async (strapi) => {
+      const { processedCount } = await strapi.service('api::inventory.inventory').cleanupExpiredReservations();
+      return { expiredCount: processedCount };
+    },
+  },
+  {
+    name: 'cleanup-expired-carts',
+    description: 'Delete expired carts and their items',
+    handler: async (strapi) => {
+      const deletedCount = await strapi.service('api::cart.cart-persistence').cleanupExpiredCarts();
+      return { deletedCount };
+    },
+  },
+  {
+    name: 'retry-payment-confirmations',
+    description: 'Re-run automated confirmation for pending payment confirmations due for a retry',
+    handler: async (strapi) => {
+      const confirmationService = strapi.service('api::payment.payment-confirmation');
+      const pending = await confirmationService.getConfirmationsRequiringRetry();
+      if (!pending.success) {
+        throw new Error(pending.error);
+      }
+
+      let processedCount = 0;
+      let failedCount = 0;
+      for (const confirmation of pending.data || []) {
+        const result = await confirmationService.processAutomatedConfirmation(
+          confirmation.documentId,
+          confirmation.automationRules || []
+        );
+        if (result.success) {
+          processedCount++;
+        } else {
+          failedCount++;
+        }
+      }
+      return { processedCount, failedCount };
+    },
+  },
+  {
+    name: 'cancel-unpaid-orders',
+    description: 'Cancel pending orders whose payment expired and release their stock',
+    handler: async (strapi) => strapi.service('api::order.order-cancellation').cancelUnpaidOrders(),
+  },
+  {
+    name: 'cleanup-checkout-activity',
+    description: 'Delete checkout activity past its retention period',
+    handler: async (strapi) => {
+      const daysToRetain = parseInt(process.env.CHECKOUT_ACTIVITY_RETENTION_DAYS || '90');
+      const { deletedCount, partitionsDropped, errors } = await strapi
+        .service('api::checkout-activity.checkout-activity-cleanup')
+        .cleanupOldActivities(daysToRetain);
+      // a partial cleanup is recorded as a failed run
+      if (errors.length > 0) {
+        throw new Error(errors.join('; '));
+      }
+      return { deletedCount, partitionsDropped };
+    },
+  },
+  {
+    name: 'detect-abandoned-checkouts',
+    description: 'Mark checkouts without recent checkout activity abandoned',
+    handler: async (strapi) => strapi.service('api::checkout.checkout-recovery').detectAbandonedCheckouts(),
+  },
+  {
+    name: 'send-checkout-recovery-reminders',
+    description: 'Email the due recovery reminders of abandoned checkouts to customers who consented to marketing',
+    handler: async (strapi) => strapi.service('api::checkout.checkout-recovery').sendRecoveryReminders(),
+  },
+  {
+    name: 'cleanup-order-history',
+    description: 'Delete order history entries older than a year',
+    handler: async (strapi) => {
+      const deletedCount = await strapi.service('api::order.order-history').cleanupOldHistory();
+      return { deletedCount };
+    },
+  },
+  {
+    name: 'cleanup-order-tracking',
+    description: 'Delete tracking records of orders delivered long ago',
+    handler: async (strapi) => {
+      const deletedCount = await strapi.service('api::order.order-tracking').cleanupOldTrackingRecords();
+      return { deletedCount };
+    },
+  },
+  {
+    name: 'poll-carrier-tracking',
+    description: 'Fetch tracking updates of parcels in transit from their carrier',
+    handler: async (strapi) => {
+      const trackingService = strapi.service('api::order.order-tracking');
+      const trackings = await trackingService.getTrackingsDueForPolling();
+
+      let processedCount = 0;
+      let failedCount = 0;
+      for (const tracking of trackings) {
+        try {
+          await trackingService.fetchCarrierUpdates(tracking.documentId);
+          processedCount++;
+        } catch {
+          failedCount++;
+        }
+      }
+      return { processedCount, failedCount };
+    },
+  },
+  {
+    name: 'anonymize-user-activity',
+    description: 'Anonymize user activity past the anonymization period',
+    handler: async (strapi) => {
+      const anonymizedCount = await strapi.service('api::user-activity.user-activity').anonymizeOldActivities();
+      return { anonymizedCount };
+    },
+  },
+  {
+    name: 'send-daily-notification-digests',
+    description: 'Send the notifications held back for users with a daily notification frequency',
+    handler: async (strapi) => strapi.service('api::notification.notification').sendDigests('daily'),
+  },
+  {
+    name: 'send-weekly-notification-digests',
+    description: 'Send the notifications held back for users with a weekly notification frequency',
+    handler: async (strapi) => strapi.service('api::notification.notification').sendDigests('weekly'),
+  },
+  {
+    name: 'low-stock-digest',
+    description: 'Send the daily digest of products low on stock',
+    handler: async (strapi) => strapi.service('api::inventory.inventory-alert').sendDailyDigest(),
+  },
+];
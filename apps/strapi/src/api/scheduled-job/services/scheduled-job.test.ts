@@ -0,0 +1,248 @@
+/**
+ * Scheduled Job Service tests
+ *
+ * Tests for job registration, locking and run history
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+// Create mock document service methods with proper typing
+const mockDocumentMethods = {
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+  create: jest.fn() as jest.MockedFunction<any>,
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+// Mock knex query builder used to take job locks
+const mockLockQuery: any = {
+  where: jest.fn(() => mockLockQuery),
+  andWhere: jest.fn(() => mockLockQuery),
+  update: jest.fn() as jest.MockedFunction<any>,
+};
+
+// Services called by the job handlers
+const mockServices: Record<string, any> = {
+  'api::inventory.inventory': {
+    cleanupExpiredReservations: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::checkout-activity.checkout-activity-cleanup': {
+    cleanupOldActivities: jest.fn() as jest.MockedFunction<any>,
+  },
+  'api::payment.payment-confirmation': {
+    getConfirmationsRequiringRetry: jest.fn() as jest.MockedFunction<any>,
+    processAutomatedConfirmation: jest.fn() as jest.MockedFunction<any>,
+  },
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  service: jest.fn((uid: string) => mockServices[uid]),
+  config: {
+    get: jest.fn((key: string, defaultValue: any) => defaultValue),
+  },
+  cron: {
+    add: jest.fn(),
+  },
+  db: {
+    metadata: {
+      get: jest.fn(() => ({ tableName: 'scheduled_jobs', attributes: {} })),
+    },
+    connection: jest.fn(() => mockLockQuery),
+  },
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+// Mock Strapi factories with proper service context
+jest.mock('@strapi/strapi', () => ({
+  factories: {
+    createCoreService: jest.fn((serviceName: any, serviceFunction?: any) => {
+      if (serviceFunction) {
+        const serviceInstance = serviceFunction({ strapi: mockStrapi });
+        // Bind methods to service instance for proper `this` context
+        Object.keys(serviceInstance).forEach(key => {
+          if (typeof serviceInstance[key] === 'function') {
+            serviceInstance[key] = serviceInstance[key].bind(serviceInstance);
+          }
+        });
+        return serviceInstance;
+      }
+      return mockStrapi;
+    }),
+  },
+}));
+
+const { SCHEDULED_JOBS } = require('./jobs');
+
+describe('Scheduled Job Service', () => {
+  let service: any;
+
+  const job = {
+    documentId: 'job-1',
+    name: 'expire-stock-reservations',
+    schedule: '*/5 * * * *',
+    runCount: 4,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+    mockLockQuery.update.mockReset();
+    mockLockQuery.update.mockResolvedValue(1);
+    mockDocumentMethods.create.mockImplementation(async ({ data }: any) => ({ documentId: 'run-1', ...data }));
+
+    service = require('./scheduled-job').default;
+  });
+
+  describe('registerJobs', () => {
+    it('should create job records and schedule the enabled jobs', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(null);
+
+      await service.registerJobs();
+
+      expect(mockDocumentMethods.create).toHaveBeenCalledTimes(SCHEDULED_JOBS.length);
+      expect(mockDocumentMethods.create).toHaveBeenCalledWith({
+        data: { name: 'expire-stock-reservations', schedule: '*/5 * * * *', runCount: 0 },
+      });
+      expect(mockStrapi.cron.add).toHaveBeenCalledWith({
+        'scheduled-job:expire-stock-reservations': {
+          task: expect.any(Function),
+          options: { rule: '*/5 * * * *' },
+        },
+      });
+    });
+
+    it('should not schedule jobs when cron is disabled', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(job);
+      mockStrapi.config.get.mockReturnValueOnce(false);
+
+      await service.registerJobs();
+
+      expect(mockStrapi.cron.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runJob', () => {
+    it('should run the job under its lock and record the run', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(job);
+      mockServices['api::inventory.inventory'].cleanupExpiredReservations.mockResolvedValue({
+        processedCount: 2,
+        expiredReservations: [],
+      });
+
+      const run = await service.runJob('expire-stock-reservations', { trigger: 'manual', triggeredBy: '7' });
+
+      expect(mockLockQuery.where).toHaveBeenCalledWith('documentId', 'job-1');
+      expect(run).toMatchObject({
+        job: 'job-1',
+        status: 'success',
+        trigger: 'manual',
+        triggeredBy: '7',
+        result: { expiredCount: 2 },
+        error: null,
+      });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'job-1',
+        data: expect.objectContaining({
+          lastStatus: 'success',
+          runCount: 5,
+          lockedBy: null,
+          lockedUntil: null,
+        }),
+      });
+    });
+
+    it('should skip the run when another instance holds the lock', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(job);
+      mockLockQuery.update.mockResolvedValue(0);
+
+      const run = await service.runJob('expire-stock-reservations');
+
+      expect(run).toBeNull();
+      expect(mockServices['api::inventory.inventory'].cleanupExpiredReservations).not.toHaveBeenCalled();
+      expect(mockDocumentMethods.update).not.toHaveBeenCalled();
+    });
+
+    it('should record failed runs and release the lock', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(job);
+      mockServices['api::inventory.inventory'].cleanupExpiredReservations.mockRejectedValue(new Error('Database unavailable'));
+
+      const run = await service.runJob('expire-stock-reservations');
+
+      expect(run).toMatchObject({ status: 'failed', error: 'Database unavailable' });
+      expect(mockDocumentMethods.update).toHaveBeenCalledWith({
+        documentId: 'job-1',
+        data: expect.objectContaining({
+          lastStatus: 'failed',
+          lastError: 'Database unavailable',
+          lockedUntil: null,
+        }),
+      });
+    });
+
+    it('should retry the payment confirmations due for a retry', async () => {
+      const confirmationService = mockServices['api::payment.payment-confirmation'];
+      mockDocumentMethods.findFirst.mockResolvedValue({ ...job, name: 'retry-payment-confirmations', schedule: '*/15 * * * *' });
+      confirmationService.getConfirmationsRequiringRetry.mockResolvedValue({
+        success: true,
+        data: [{ documentId: 'confirmation-1', automationRules: [{ name: 'small-amounts' }] }],
+      });
+      confirmationService.processAutomatedConfirmation.mockResolvedValue({ success: true });
+
+      const run = await service.runJob('retry-payment-confirmations');
+
+      expect(confirmationService.processAutomatedConfirmation).toHaveBeenCalledWith('confirmation-1', [{ name: 'small-amounts' }]);
+      expect(run.result).toEqual({ processedCount: 1, failedCount: 0 });
+    });
+
+    it('should record the checkout activity cleanup counts and fail on cleanup errors', async () => {
+      const cleanupService = mockServices['api::checkout-activity.checkout-activity-cleanup'];
+      mockDocumentMethods.findFirst.mockResolvedValue({ ...job, name: 'cleanup-checkout-activity', schedule: '0 2 * * *' });
+      cleanupService.cleanupOldActivities.mockResolvedValueOnce({ deletedCount: 12, partitionsDropped: 1, errors: [] });
+
+      const run = await service.runJob('cleanup-checkout-activity');
+
+      expect(cleanupService.cleanupOldActivities).toHaveBeenCalledWith(90);
+      expect(run.result).toEqual({ deletedCount: 12, partitionsDropped: 1 });
+
+      cleanupService.cleanupOldActivities.mockResolvedValueOnce({
+        deletedCount: 0,
+        partitionsDropped: 0,
+        errors: ['Failed to delete old activities: Database unavailable'],
+      });
+
+      const failed = await service.runJob('cleanup-checkout-activity');
+
+      expect(failed).toMatchObject({ status: 'failed', error: 'Failed to delete old activities: Database unavailable' });
+    });
+
+    it('should reject unknown jobs', async () => {
+      await expect(service.runJob('unknown-job')).rejects.toThrow('Scheduled job unknown-job not found');
+    });
+  });
+
+  describe('listJobs', () => {
+    it('should list every job with its schedule and last run', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([
+        { ...job, lastStatus: 'success', lockedUntil: new Date(Date.now() + 60000) },
+      ]);
+
+      const jobs = await service.listJobs();
+
+      expect(jobs).toHaveLength(SCHEDULED_JOBS.length);
+      expect(jobs[0]).toMatchObject({
+        name: 'expire-stock-reservations',
+        schedule: '*/5 * * * *',
+        enabled: true,
+        lastStatus: 'success',
+        runCount: 4,
+        isRunning: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Scheduled job service
+ *
+ * Registers the background jobs with the Strapi cron service and runs them
+ * under a lock, so only one instance runs a job at a time when several
+ * instances share the database. Every run is recorded with its duration
+ * and outcome, the latest one also on the job itself.
+ */
+
+import * as os from 'os';
+import { Core, factories } from '@strapi/strapi';
+import { SCHEDULED_JOB_CONFIG } from '../../../../config/constant';
+import { SCHEDULED_JOBS, ScheduledJobDefinition } from './jobs';
+
+export type JobTrigger = 'schedule' | 'manual';
+
+export interface RunJobOptions {
+  trigger?: JobTrigger;
+  triggeredBy?: string | null;
+}
+
+// Identifies this instance in job locks and run history
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+export default factories.createCoreService(
+  'api::scheduled-job.scheduled-job',
+  ({ strapi }: { strapi: Core.Strapi }) => ({
+    /**
+     * Get a job definition by name
+     * @throws Error when no job has this name
+     */
+    getDefinition(name: string): ScheduledJobDefinition {
+      const definition = SCHEDULED_JOBS.find((job) => job.name === name);
+      if (!definition) {
+        throw new Error(`Scheduled job ${name} not found`);
+      }
+      return definition;
+    },
+
+    /**
+     * Get the configured schedule of a job, null when it only runs manually
+     */
+    getSchedule(name: string): { schedule: string; enabled: boolean } | null {
+      return SCHEDULED_JOB_CONFIG.jobs[name] || null;
+    },
+
+    /**
+     * Get the run state record of a job, created on first use
+     */
+    async ensureJob(name: string): Promise<any> {
+      const schedule = this.getSchedule(name)?.schedule || null;
+      const job = await strapi.documents('api::scheduled-job.scheduled-job').findFirst({
+        filters: { name },
+      });
+
+      if (!job) {
+        return strapi.documents('api::scheduled-job.scheduled-job').create({
+          data: { name, schedule, runCount: 0 },
+        });
+      }
+
+      if (job.schedule !== schedule) {
+        return strapi.documents('api::scheduled-job.scheduled-job').update({
+          documentId: job.documentId,
+          data: { schedule },
+        });
+      }
+
+      return job;
+    },
+
+    /**
+     * Create the job records and schedule the enabled jobs, called on bootstrap
+     */
+    async registerJobs(): Promise<void> {
+      const cronEnabled = strapi.config.get('server.cron.enabled', true);
+
+      for (const definition of SCHEDULED_JOBS) {
+        await this.ensureJob(definition.name);
+
+        const config = this.getSchedule(definition.name);
+        if (!cronEnabled || !config?.enabled) {
+          continue;
+        }
+
+        strapi.cron.add({
+          [`scheduled-job:${definition.name}`]: {
+            task: async () => {
+              await this.runJob(definition.name, { trigger: 'schedule' });
+            },
+            options: { rule: config.schedule },
+          },
+        });
+        strapi.log.info(`Scheduled job ${definition.name} registered (${config.schedule})`);
+      }
+    },
+
+    /**
+     * Take the lock of a job, fails while another instance holds an unexpired lock
+     *
+     * The lock is taken with a single conditional update, so two instances
+     * can never both see the job as unlocked.
+     */
+    async acquireLock(job: any): Promise<boolean> {
+      const { tableName, attributes } = strapi.db.metadata.get('api::scheduled-job.scheduled-job');
+      const column = (name: string): string => (attributes as any)?.[name]?.columnName || name;
+      const now = new Date();
+
+      const updatedRows = await strapi.db.connection(tableName)
+        .where(column('documentId'), job.documentId)
+        .andWhere((builder: any) =>
+          builder.whereNull(column('lockedUntil')).orWhere(column('lockedUntil'), '<', now)
+        )
+        .update({
+          [column('lockedBy')]: INSTANCE_ID,
+          [column('lockedUntil')]: new Date(now.getTime() + SCHEDULED_JOB_CONFIG.lockTtl),
+        });
+
+      return updatedRows > 0;
+    },
+
+    /**
+     * Run a job under its lock and record the run
+     * @returns The run record, null when another instance is running the job
+     */
+    async runJob(name: string, options: RunJobOptions = {}): Promise<any> {
+      const definition = this.getDefinition(name);
+      const job = await this.ensureJob(name);
+
+      if (!(await this.acquireLock(job))) {
+        strapi.log.info(`Scheduled job ${name} is already running, skipped`);
+        return null;
+      }
+
+      const startedAt = new Date();
+      let status: 'success' | 'failed' = 'success';
+      let result: any = null;
+      let error: string | null = null;
+
+      try {
+        result = await definition.handler(strapi);
+      } catch (jobError) {
+        status = 'failed';
+        error = jobError instanceof Error ? jobError.message : String(jobError);
+        strapi.log.error(`Scheduled job ${name} failed:`, jobError);
+      }
+
+      const finishedAt = new Date();
+      const duration = finishedAt.getTime() - startedAt.getTime();
+
+      try {
+        const run = await strapi.documents('api::scheduled-job.scheduled-job-run').create({
+          data: {
+            job: job.documentId,
+            status,
+            trigger: options.trigger || 'manual',
+            triggeredBy: options.triggeredBy || null,
+            instance: INSTANCE_ID,
+            startedAt,
+            finishedAt,
+            duration,
+            result,
+            error,
+          },
+        });
+
+        return run;
+      } finally {
+        // Record the outcome and release the lock in the same write
+        await strapi.documents('api::scheduled-job.scheduled-job').update({
+          documentId: job.documentId,
+          data: {
+            lastRunAt: startedAt,
+            lastDuration: duration,
+            lastStatus: status,
+            lastError: error,
+            runCount: (job.runCount || 0) + 1,
+            lockedBy: null,
+            lockedUntil: null,
+          },
+        });
+      }
+    },
+
+    /**
+     * List the jobs with their schedule and last run
+     */
+    async listJobs(): Promise<any[]> {
+      const jobs = await strapi.documents('api::scheduled-job.scheduled-job').findMany({
+        filters: { name: { $in: SCHEDULED_JOBS.map((definition) => definition.name) } },
+      });
+
+      return SCHEDULED_JOBS.map((definition) => {
+        const job: any = jobs.find((record: any) => record.name === definition.name);
+        const config = this.getSchedule(definition.name);
+        return {
+          name: definition.name,
+          description: definition.description,
+          schedule: config?.schedule || null,
+          enabled: !!config?.enabled,
+          lastRunAt: job?.lastRunAt || null,
+          lastDuration: job?.lastDuration ?? null,
+          lastStatus: job?.lastStatus || null,
+          lastError: job?.lastError || null,
+          runCount: job?.runCount || 0,
+          isRunning: !!job?.lockedUntil && new Date(job.lockedUntil) > new Date(),
+        };
+      });
+    },
+
+    /**
+     * Get the latest runs of a job
+     */
+    async getRuns(name: string, limit: number = 20): Promise<any[]> {
+      this.getDefinition(name);
+
+      return strapi.documents('api::scheduled-job.scheduled-job-run').findMany({
+        filters: { job: { name } },
+        sort: { startedAt: 'desc' },
+        limit,
+      });
+    },
+  })
+);
@@ -0,0 +1,68 @@
+/**
+ * Recorded responses of the mock carrier
+ *
+ * Tracking API responses keyed by tracking number and webhook payloads as the
+ * carrier pushes them. Status codes: LC label created, PU picked up, IT in
+ * transit, OD out for delivery, DL delivered, EX delivery exception, RS
+ * returned to sender, LS lost, DM damaged.
+ */
+
+export const MOCK_TRACKING_RESPONSES: Record<string, { events: any[] }> = {
+  'MOCK-IN-TRANSIT': {
+    events: [
+      { code: 'LC', description: 'Shipping label created', location: 'Austin, TX', occurredAt: '2026-01-05T09:00:00Z' },
+      { code: 'PU', description: 'Picked up by carrier', location: 'Austin, TX', occurredAt: '2026-01-05T17:30:00Z' },
+      { code: 'IT', description: 'Arrived at sorting facility', location: 'Dallas, TX', occurredAt: '2026-01-06T06:10:00Z' },
+    ],
+  },
+  'MOCK-DELIVERED': {
+    events: [
+      { code: 'LC', description: 'Shipping label created', location: 'Austin, TX', occurredAt: '2026-01-05T09:00:00Z' },
+      { code: 'PU', description: 'Picked up by carrier', location: 'Austin, TX', occurredAt: '2026-01-05T17:30:00Z' },
+      { code: 'IT', description: 'Arrived at sorting facility', location: 'Dallas, TX', occurredAt: '2026-01-06T06:10:00Z' },
+      { code: 'OD', description: 'Out for delivery', location: 'Houston, TX', occurredAt: '2026-01-07T08:05:00Z' },
+      { code: 'DL', description: 'Delivered, left at front door', location: 'Houston, TX', occurredAt: '2026-01-07T14:42:00Z' },
+    ],
+  },
+  'MOCK-EXCEPTION': {
+    events: [
+      { code: 'LC', description: 'Shipping label created', location: 'Austin, TX', occurredAt: '2026-01-05T09:00:00Z' },
+      { code: 'PU', description: 'Picked up by carrier', location: 'Austin, TX', occurredAt: '2026-01-05T17:30:00Z' },
+      { code: 'EX', description: 'Delivery attempted, address not found', location: 'Houston, TX', occurredAt: '2026-01-07T15:00:00Z' },
+    ],
+  },
+  'MOCK-LOST': {
+    events: [
+      { code: 'LC', description: 'Shipping label created', location: 'Austin, TX', occurredAt: '2026-01-05T09:00:00Z' },
+      { code: 'PU', description: 'Picked up by carrier', location: 'Austin, TX', occurredAt: '2026-01-05T17:30:00Z' },
+      { code: 'LS', description: 'Parcel could not be located', location: 'Dallas, TX', occurredAt: '2026-01-12T10:00:00Z' },
+    ],
+  },
+};
+
+// Tracking numbers the mock tracking API fails for, to exercise retries
+export const MOCK_UNAVAILABLE_TRACKING_NUMBER = 'MOCK-UNAVAILABLE';
+
+export const MOCK_WEBHOOK_PAYLOADS = {
+  outForDelivery: {
+    id: 'evt_mock_0001',
+    type: 'tracking.updated',
+    trackingNumber: 'MOCK-IN-TRANSIT',
+    events: [
+      { code: 'OD', description: 'Out for delivery', location: 'Houston, TX', occurredAt: '2026-01-07T08:05:00Z' },
+    ],
+  },
+  delivered: {
+    id: 'evt_mock_0002',
+    type: 'tracking.updated',
+    trackingNumber: 'MOCK-IN-TRANSIT',
+    events: [
+      { code: 'DL', description: 'Delivered, left at front door', location: 'Houston, TX', occurredAt: '2026-01-07T14:42:00Z' },
+    ],
+  },
+  labelVoided: {
+    id: 'evt_mock_0003',
+    type: 'label.voided',
+    trackingNumber: 'MOCK-IN-TRANSIT',
+  },
+};
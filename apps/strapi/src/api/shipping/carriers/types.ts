@@ -0,0 +1,68 @@
+/**
+ * Carrier adapter contract
+ *
+ * An adapter talks to the tracking API of a carrier: it fetches the events
+ * of a parcel, checks and parses the webhook payloads the carrier pushes,
+ * and maps carrier status codes to the order tracking statuses. Adapters
+ * are registered with the carrier service under their name, carriers stored
+ * in the database pick their adapter by that name and hold its credentials.
+ */
+
+export type TrackingStatus =
+  | 'pending'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'failed'
+  | 'returned'
+  | 'lost'
+  | 'damaged';
+
+export interface CarrierConfig {
+  code: string;
+  name: string;
+  adapter?: string | null;
+  apiUrl?: string | null;
+  apiKey?: string | null;
+  webhookSecret?: string | null;
+  trackingUrlTemplate?: string | null; // {tracking_number} is replaced with the tracking number
+  supportedCountries?: string[] | null;
+  settings?: Record<string, any> | null; // adapter specific options
+  pollIntervalMinutes?: number | null; // delay between two tracking fetches of a parcel
+}
+
+export interface CarrierTrackingEvent {
+  status: TrackingStatus;
+  carrierStatus: string; // status code as reported by the carrier
+  location?: string;
+  description?: string;
+  timestamp: Date;
+}
+
+export interface CarrierWebhookUpdate {
+  eventId: string;
+  trackingNumber: string;
+  events: CarrierTrackingEvent[];
+}
+
+export interface CarrierAdapter {
+  name: string;
+  webhookSignatureHeader: string; // request header carrying the webhook signature
+  /**
+   * Fetch the tracking events of a parcel, oldest first
+   */
+  fetchTracking(trackingNumber: string, config: CarrierConfig): Promise<CarrierTrackingEvent[]>;
+  /**
+   * Check the signature of a raw webhook body
+   */
+  verifyWebhookSignature(rawBody: string, signature: string | undefined, config: CarrierConfig): boolean;
+  /**
+   * Map a webhook payload to the tracking update it reports
+   * @throws Error when the payload is not a tracking update of this carrier
+   */
+  parseWebhook(payload: any, config: CarrierConfig): CarrierWebhookUpdate;
+  /**
+   * Map a carrier status code to a tracking status
+   */
+  mapStatus(carrierStatus: string): TrackingStatus;
+}
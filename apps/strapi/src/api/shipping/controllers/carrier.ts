@@ -0,0 +1,44 @@
+/**
+ * carrier controller
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreController('api::shipping.carrier', ({ strapi }) => ({
+  /**
+   * Receive a tracking webhook pushed by a carrier, authenticated by its signature
+   */
+  async handleWebhook(ctx) {
+    try {
+      const { code } = ctx.params;
+      const rawBody = ctx.request.body?.[Symbol.for('unparsedBody')];
+
+      if (typeof rawBody !== 'string' || !rawBody) {
+        return ctx.badRequest('Webhook body is required');
+      }
+
+      const trackingService = strapi.service('api::order.order-tracking');
+      const result = await trackingService.processCarrierWebhook(code, rawBody, ctx.request.headers);
+
+      return {
+        data: result,
+        meta: {
+          message: result.processed ? 'Tracking webhook processed' : 'Tracking webhook ignored'
+        }
+      };
+    } catch (error) {
+      if (error instanceof Error && /^Carrier .* not found$/.test(error.message)) {
+        return ctx.notFound(error.message);
+      }
+      if (error instanceof Error && error.message === 'Invalid webhook signature') {
+        return ctx.unauthorized(error.message);
+      }
+      if (error instanceof Error && /^Invalid webhook payload|has no tracking adapter|is not configured/.test(error.message)) {
+        return ctx.badRequest(error.message);
+      }
+      // any other failure makes the carrier redeliver the webhook
+      strapi.log.error('Error in handleWebhook:', error);
+      return ctx.internalServerError('Failed to process tracking webhook');
+    }
+  },
+}));
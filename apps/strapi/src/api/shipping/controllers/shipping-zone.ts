@@ -0,0 +1,7 @@
+/**
+ * shipping-zone controller
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreController('api::shipping.shipping-zone');
@@ -0,0 +1,32 @@
+/**
+ * Fake carrier shipping provider
+ *
+ * Deterministic stand-in for a carrier rate API, used in development and
+ * tests. Configured through the method `providerConfig`:
+ * { basePrice, pricePerKg, estimatedDays, unavailableCountries }
+ */
+
+import { ShippingRateProvider, toNumber } from './types';
+
+const fakeProvider: ShippingRateProvider = {
+  name: 'fake',
+
+  async quote({ method, destination, parcel }) {
+    const config = method.providerConfig || {};
+    const unavailableCountries: string[] = config.unavailableCountries || [];
+
+    if (destination.country && unavailableCountries.includes(destination.country)) {
+      return null;
+    }
+
+    const basePrice = config.basePrice !== undefined ? toNumber(config.basePrice) : 500;
+    const pricePerKg = config.pricePerKg !== undefined ? toNumber(config.pricePerKg) : 100;
+
+    return {
+      price: Math.round(basePrice + pricePerKg * Math.ceil(parcel.billableWeight)),
+      estimatedDays: config.estimatedDays ?? method.estimatedDays ?? 3,
+    };
+  },
+};
+
+export default fakeProvider;
@@ -0,0 +1,52 @@
+/**
+ * Rate table shipping provider
+ *
+ * Prices a method from its base rate plus the first rate table tier whose
+ * [min, max] range (inclusive) contains the parcel weight, subtotal or item count.
+ */
+
+import { ShippingRateProvider, toNumber } from './types';
+
+const tableProvider: ShippingRateProvider = {
+  name: 'table',
+
+  async quote({ method, parcel }) {
+    const baseRate = toNumber(method.baseRate);
+
+    if (!method.rateBasis || method.rateBasis === 'flat') {
+      return { price: baseRate, estimatedDays: method.estimatedDays };
+    }
+
+    let value: number;
+    switch (method.rateBasis) {
+      case 'weight':
+        value = parcel.billableWeight;
+        break;
+      case 'price':
+        value = parcel.subtotal;
+        break;
+      case 'item_count':
+        value = parcel.itemCount;
+        break;
+      default:
+        return null;
+    }
+
+    const tiers: any[] = Array.isArray(method.rateTable) ? method.rateTable : [];
+    const tier = tiers.find(entry =>
+      value >= toNumber(entry.min) &&
+      (entry.max === null || entry.max === undefined || value <= toNumber(entry.max))
+    );
+
+    if (!tier) {
+      return null;
+    }
+
+    return {
+      price: Math.round(baseRate + toNumber(tier.price)),
+      estimatedDays: method.estimatedDays,
+    };
+  },
+};
+
+export default tableProvider;
@@ -0,0 +1,47 @@
+/**
+ * Shipping rate provider contract
+ *
+ * A provider quotes a shipping method for a parcel going to a destination.
+ * The built-in `table` provider reads the method rate table, carrier
+ * adapters can be registered with the shipping service under their own name.
+ */
+
+export interface ShippingDestination {
+  country?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+  city?: string | null;
+}
+
+export interface ShippingParcel {
+  weight: number; // actual weight in kg
+  volume: number; // in cm3
+  billableWeight: number; // in kg, dimensional weight applied when enabled on the method
+  subtotal: number; // in cents
+  itemCount: number;
+}
+
+export interface ShippingRateRequest {
+  method: any;
+  destination: ShippingDestination;
+  parcel: ShippingParcel;
+  items: any[];
+}
+
+export interface ShippingRateQuote {
+  price: number; // in cents
+  estimatedDays?: number | null;
+}
+
+export interface ShippingRateProvider {
+  name: string;
+  /**
+   * Quote a method, returns null when the method cannot ship the parcel
+   */
+  quote(request: ShippingRateRequest): Promise<ShippingRateQuote | null>;
+}
+
+export const toNumber = (value: any): number => {
+  const result = parseFloat(value);
+  return isNaN(result) ? 0 : result;
+};
@@ -0,0 +1,18 @@
+/**
+ * Carrier webhook routes
+ */
+
+export default {
+  routes: [
+    // Receive carrier tracking webhooks, authenticated by their signature
+    {
+      method: 'POST',
+      path: '/carriers/:code/webhooks',
+      handler: 'carrier.handleWebhook',
+      config: {
+        auth: false,
+        description: 'Receive carrier tracking webhook',
+      },
+    },
+  ],
+};
@@ -0,0 +1,27 @@
+/**
+ * carrier router
+ *
+ * Carriers and their credentials are managed by admins only.
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::shipping.carrier', {
+  config: {
+    find: {
+      policies: ['global::is-admin'],
+    },
+    findOne: {
+      policies: ['global::is-admin'],
+    },
+    create: {
+      policies: ['global::is-admin'],
+    },
+    update: {
+      policies: ['global::is-admin'],
+    },
+    delete: {
+      policies: ['global::is-admin'],
+    },
+  },
+});
@@ -0,0 +1,28 @@
+/**
+ * shipping-method router
+ *
+ * Shipping configuration is managed by admins only, customers list
+ * methods through the checkout shipping methods route.
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::shipping.shipping-method', {
+  config: {
+    find: {
+      policies: ['global::is-admin'],
+    },
+    findOne: {
+      policies: ['global::is-admin'],
+    },
+    create: {
+      policies: ['global::is-admin'],
+    },
+    update: {
+      policies: ['global::is-admin'],
+    },
+    delete: {
+      policies: ['global::is-admin'],
+    },
+  },
+});
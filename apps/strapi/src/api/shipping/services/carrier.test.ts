@@ -0,0 +1,157 @@
+/**
+ * Carrier Service tests
+ *
+ * Tests carrier configurations stored in the database, the adapter registry
+ * and webhook signature checks against the recorded mock carrier payloads
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createCarrierService from './carrier';
+import { signMockCarrierWebhook } from '../carriers/mock';
+import { MOCK_WEBHOOK_PAYLOADS } from '../carriers/fixtures/mock-carrier';
+
+const mockDocumentMethods = {
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  create: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const SECRET = 'mock_webhook_secret';
+
+const mockCarrier = {
+  documentId: 'carrier-mock',
+  code: 'mock',
+  name: 'Mock Carrier',
+  adapter: 'mock',
+  webhookSecret: SECRET,
+  trackingUrlTemplate: 'https://track.example.com/{tracking_number}',
+  isActive: true,
+};
+
+describe('Carrier Service', () => {
+  let service: ReturnType<typeof createCarrierService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDocumentMethods.findFirst.mockReset();
+    mockDocumentMethods.findFirst.mockResolvedValue(mockCarrier);
+    service = createCarrierService({ strapi: mockStrapi });
+  });
+
+  describe('getCarrierConfig', () => {
+    it('should look up active carriers by code ignoring case', async () => {
+      const config = await service.getCarrierConfig('MOCK');
+
+      expect(mockStrapi.documents).toHaveBeenCalledWith('api::shipping.carrier');
+      expect(mockDocumentMethods.findFirst).toHaveBeenCalledWith({
+        filters: { code: { $eqi: 'MOCK' }, isActive: true },
+      });
+      expect(config).toEqual(mockCarrier);
+    });
+
+    it('should fall back to a search URL for carriers without a tracking page', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue(null);
+
+      await expect(service.getTrackingUrl('acme', 'AB 1')).resolves.toBe('https://www.google.com/search?q=AB%201');
+    });
+  });
+
+  describe('fetchTracking', () => {
+    it('should fetch the recorded events through the carrier adapter', async () => {
+      const events = await service.fetchTracking('mock', 'MOCK-DELIVERED');
+
+      expect(events.map(event => event.status)).toEqual([
+        'pending', 'in_transit', 'in_transit', 'out_for_delivery', 'delivered',
+      ]);
+      expect(events[4]).toMatchObject({
+        carrierStatus: 'DL',
+        location: 'Houston, TX',
+        timestamp: new Date('2026-01-07T14:42:00Z'),
+      });
+    });
+
+    it('should refuse carriers without a tracking adapter', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue({ ...mockCarrier, code: 'ups', adapter: null });
+
+      await expect(service.fetchTracking('ups', '1Z999')).rejects.toThrow('Carrier ups has no tracking adapter');
+    });
+
+    it('should use adapters registered at runtime', async () => {
+      const fetchTracking = jest.fn(async () => []) as jest.MockedFunction<any>;
+      service.registerAdapter({
+        name: 'acme',
+        webhookSignatureHeader: 'x-acme-signature',
+        fetchTracking,
+        verifyWebhookSignature: () => true,
+        parseWebhook: () => ({ eventId: 'evt', trackingNumber: 'AC1', events: [] }),
+        mapStatus: () => 'in_transit',
+      });
+      mockDocumentMethods.findFirst.mockResolvedValue({ ...mockCarrier, code: 'acme', adapter: 'acme' });
+
+      await service.fetchTracking('acme', 'AC1');
+
+      expect(fetchTracking).toHaveBeenCalledWith('AC1', expect.objectContaining({ code: 'acme' }));
+    });
+  });
+
+  describe('parseWebhook', () => {
+    const rawBody = JSON.stringify(MOCK_WEBHOOK_PAYLOADS.delivered);
+
+    it('should parse webhooks signed with the carrier secret', async () => {
+      const update = await service.parseWebhook('mock', rawBody, {
+        'x-mock-carrier-signature': signMockCarrierWebhook(rawBody, SECRET),
+      });
+
+      expect(update).toEqual({
+        eventId: 'evt_mock_0002',
+        trackingNumber: 'MOCK-IN-TRANSIT',
+        events: [expect.objectContaining({ status: 'delivered', carrierStatus: 'DL' })],
+      });
+    });
+
+    it('should reject webhooks with an invalid signature', async () => {
+      await expect(service.parseWebhook('mock', rawBody, {
+        'x-mock-carrier-signature': signMockCarrierWebhook(rawBody, 'other_secret'),
+      })).rejects.toThrow('Invalid webhook signature');
+    });
+
+    it('should reject webhooks when the carrier has no webhook secret', async () => {
+      mockDocumentMethods.findFirst.mockResolvedValue({ ...mockCarrier, webhookSecret: null });
+
+      await expect(service.parseWebhook('mock', rawBody, {})).rejects.toThrow(
+        'Webhook secret for carrier mock is not configured'
+      );
+    });
+
+    it('should reject signed payloads the carrier does not send', async () => {
+      const body = JSON.stringify({ trackingNumber: 'MOCK-IN-TRANSIT' });
+
+      await expect(service.parseWebhook('mock', body, {
+        'x-mock-carrier-signature': signMockCarrierWebhook(body, SECRET),
+      })).rejects.toThrow('Invalid webhook payload: Mock carrier webhooks need an id, a type and a tracking number');
+    });
+  });
+
+  describe('seedDefaultCarriers', () => {
+    it('should only create the carriers that do not exist yet', async () => {
+      mockDocumentMethods.findFirst.mockImplementation(async ({ filters }: any) => (
+        filters.code === 'ups' ? { code: 'ups' } : null
+      ));
+
+      const createdCount = await service.seedDefaultCarriers();
+
+      const codes = mockDocumentMethods.create.mock.calls.map(([{ data }]: any) => data.code);
+      expect(codes).toEqual(['fedex', 'usps', 'dhl', 'mock']);
+      expect(createdCount).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Carrier service
+ *
+ * Resolves the carriers stored in the database to their tracking adapter.
+ * Tracking fetches and webhook payloads go through the adapter registered
+ * under the carrier `adapter` name, with the credentials of the carrier.
+ */
+
+import { Core } from '@strapi/strapi';
+import mockCarrierAdapter from '../carriers/mock';
+import {
+  CarrierAdapter,
+  CarrierConfig,
+  CarrierTrackingEvent,
+  CarrierWebhookUpdate,
+} from '../carriers/types';
+
+// Carriers created on first start, tracking pages of the common carriers keep working without setup
+const DEFAULT_CARRIERS: CarrierConfig[] = [
+  {
+    code: 'fedex',
+    name: 'FedEx',
+    apiUrl: 'https://apis.fedex.com/track/v1/trackingnumbers',
+    trackingUrlTemplate: 'https://www.fedex.com/fedextrack/?trknbr={tracking_number}',
+  },
+  {
+    code: 'ups',
+    name: 'UPS',
+    apiUrl: 'https://onlinetools.ups.com/track/v1/details',
+    trackingUrlTemplate: 'https://www.ups.com/track?tracknum={tracking_number}',
+  },
+  {
+    code: 'usps',
+    name: 'USPS',
+    apiUrl: 'https://secure.shippingapis.com/ShippingAPI.dll',
+    trackingUrlTemplate: 'https://tools.usps.com/go/TrackConfirmAction?tLabels={tracking_number}',
+  },
+  {
+    code: 'dhl',
+    name: 'DHL',
+    apiUrl: 'https://api-test.dhl.com/parcel/de/v1/tracking',
+    trackingUrlTemplate: 'https://www.dhl.com/en/express/tracking.html?AWB={tracking_number}',
+  },
+];
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  const adapters = new Map<string, CarrierAdapter>([
+    [mockCarrierAdapter.name, mockCarrierAdapter],
+  ]);
+
+  return {
+    /**
+     * Register a carrier adapter, replaces any adapter registered under the same name
+     */
+    registerAdapter(adapter: CarrierAdapter) {
+      adapters.set(adapter.name, adapter);
+    },
+
+    /**
+     * Get a registered adapter by name
+     * @throws Error when no adapter is registered under the name
+     */
+    getAdapter(name: string): CarrierAdapter {
+      const adapter = adapters.get(name);
+      if (!adapter) {
+        throw new Error(`Carrier adapter ${name} not found`);
+      }
+      return adapter;
+    },
+
+    /**
+     * Get the configuration of an active carrier, codes are matched case-insensitively
+     */
+    async getCarrierConfig(code: string): Promise<CarrierConfig | null> {
+      if (!code) {
+        return null;
+      }
+      const carrier = await strapi.documents('api::shipping.carrier').findFirst({
+        filters: { code: { $eqi: code }, isActive: true },
+      });
+      return (carrier as CarrierConfig) || null;
+    },
+
+    /**
+     * Get an active carrier with its tracking adapter
+     * @throws Error when the carrier does not exist or has no tracking adapter
+     */
+    async getCarrier(code: string): Promise<{ config: CarrierConfig; adapter: CarrierAdapter }> {
+      const config = await this.getCarrierConfig(code);
+      if (!config) {
+        throw new Error(`Carrier ${code} not found`);
+      }
+      if (!config.adapter) {
+        throw new Error(`Carrier ${code} has no tracking adapter`);
+      }
+      return { config, adapter: this.getAdapter(config.adapter) };
+    },
+
+    /**
+     * Check whether tracking updates of a carrier can be fetched
+     */
+    async canTrack(code: string): Promise<boolean> {
+      const config = await this.getCarrierConfig(code);
+      return !!config?.adapter && adapters.has(config.adapter);
+    },
+
+    /**
+     * Get the codes of the active carriers whose tracking updates can be fetched
+     */
+    async getTrackableCarrierCodes(): Promise<string[]> {
+      const carriers = await strapi.documents('api::shipping.carrier').findMany({
+        filters: { isActive: true, adapter: { $notNull: true } },
+      });
+      return (carriers as CarrierConfig[])
+        .filter((carrier) => !!carrier.adapter && adapters.has(carrier.adapter))
+        .map((carrier) => carrier.code);
+    },
+
+    /**
+     * Build the tracking page URL of a parcel
+     */
+    async getTrackingUrl(code: string, trackingNumber: string): Promise<string> {
+      const config = await this.getCarrierConfig(code);
+      if (config?.trackingUrlTemplate) {
+        return config.trackingUrlTemplate.replace('{tracking_number}', encodeURIComponent(trackingNumber));
+      }
+      return `https://www.google.com/search?q=${encodeURIComponent(trackingNumber)}`;
+    },
+
+    /**
+     * Fetch the tracking events of a parcel from its carrier, oldest first
+     */
+    async fetchTracking(code: string, trackingNumber: string): Promise<CarrierTrackingEvent[]> {
+      const { config, adapter } = await this.getCarrier(code);
+      const events = await adapter.fetchTracking(trackingNumber, config);
+      return [...events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    },
+
+    /**
+     * Verify and parse a webhook pushed by a carrier
+     * @throws Error when the carrier has no webhook secret, or the signature or the payload is invalid
+     */
+    async parseWebhook(code: string, rawBody: string, headers: Record<string, any>): Promise<CarrierWebhookUpdate> {
+      const { config, adapter } = await this.getCarrier(code);
+      if (!config.webhookSecret) {
+        throw new Error(`Webhook secret for carrier ${code} is not configured`);
+      }
+      if (!adapter.verifyWebhookSignature(rawBody, headers[adapter.webhookSignatureHeader], config)) {
+        throw new Error('Invalid webhook signature');
+      }
+
+      try {
+        const update = adapter.parseWebhook(JSON.parse(rawBody), config);
+        return {
+          ...update,
+          events: [...update.events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+        };
+      } catch (error) {
+        throw new Error(`Invalid webhook payload: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+
+    /**
+     * Create the default carriers that do not exist yet, and the mock carrier outside production
+     */
+    async seedDefaultCarriers(): Promise<number> {
+      const carriers = process.env.NODE_ENV === 'production'
+        ? DEFAULT_CARRIERS
+        : [...DEFAULT_CARRIERS, { code: 'mock', name: 'Mock Carrier', adapter: mockCarrierAdapter.name }];
+
+      let createdCount = 0;
+      for (const carrier of carriers) {
+        const existing = await strapi.documents('api::shipping.carrier').findFirst({
+          filters: { code: carrier.code },
+        });
+        if (!existing) {
+          await strapi.documents('api::shipping.carrier').create({
+            data: { ...carrier, isActive: true } as any,
+          });
+          createdCount++;
+        }
+      }
+      return createdCount;
+    },
+  };
+};
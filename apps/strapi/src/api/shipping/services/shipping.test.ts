@@ -0,0 +1,249 @@
+/**
+ * Shipping Service tests
+ *
+ * Tests for zone matching, rate tables, dimensional weight,
+ * free shipping thresholds and pluggable rate providers
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createShippingService from './shipping';
+
+// Create mock document service methods with proper typing
+const mockDocumentMethods = {
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+};
+
+const mockStrapi: any = {
+  documents: jest.fn(() => mockDocumentMethods),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const createMethod = (overrides: any = {}) => ({
+  documentId: 'method-standard',
+  code: 'standard',
+  name: 'Standard',
+  description: 'Standard delivery',
+  provider: 'table',
+  rateBasis: 'flat',
+  baseRate: 500,
+  rateTable: null,
+  freeShippingThreshold: null,
+  useDimensionalWeight: false,
+  dimensionalWeightDivisor: 5000,
+  estimatedDays: 5,
+  sortOrder: 0,
+  isActive: true,
+  ...overrides,
+});
+
+const createZone = (overrides: any = {}) => ({
+  documentId: 'zone-us',
+  name: 'United States',
+  countries: ['US'],
+  regions: [],
+  isFallback: false,
+  isActive: true,
+  methods: [createMethod()],
+  ...overrides,
+});
+
+// 2 x 1kg boxes of 40x30x20cm (dimensional weight 4.8kg each with divisor 5000)
+const items = [
+  {
+    product: { documentId: 'product-1', weight: 1, length: 40, width: 30, height: 20 },
+    price: 1500,
+    quantity: 2,
+    total: 3000,
+  },
+];
+
+const address = { country: 'US', state: 'CA', postalCode: '94105' };
+
+describe('Shipping Service', () => {
+  let service: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocumentMethods).forEach(mock => mock.mockReset());
+
+    service = createShippingService({ strapi: mockStrapi });
+    // Bind methods for proper `this` context
+    Object.keys(service).forEach(key => {
+      service[key] = service[key].bind(service);
+    });
+  });
+
+  describe('findZone', () => {
+    it('should prefer region zones over country zones', async () => {
+      const countryZone = createZone();
+      const regionZone = createZone({
+        documentId: 'zone-ca',
+        countries: [],
+        regions: [{ country: 'US', state: 'CA' }],
+      });
+      mockDocumentMethods.findMany.mockResolvedValue([countryZone, regionZone]);
+
+      const zone = await service.findZone({ country: 'US', state: 'ca' });
+
+      expect(zone.documentId).toBe('zone-ca');
+    });
+
+    it('should fall back to the rest of world zone', async () => {
+      const fallbackZone = createZone({ documentId: 'zone-world', countries: [], isFallback: true });
+      mockDocumentMethods.findMany.mockResolvedValue([createZone(), fallbackZone]);
+
+      const zone = await service.findZone({ country: 'FR' });
+
+      expect(zone.documentId).toBe('zone-world');
+    });
+  });
+
+  describe('getAvailableMethods', () => {
+    it('should price weight based rate tables with dimensional weight', async () => {
+      const method = createMethod({
+        rateBasis: 'weight',
+        baseRate: 100,
+        useDimensionalWeight: true,
+        rateTable: [
+          { min: 0, max: 5, price: 500 },
+          { min: 5, max: 20, price: 1200 },
+        ],
+      });
+      mockDocumentMethods.findMany.mockResolvedValue([createZone({ methods: [method] })]);
+
+      const [option] = await service.getAvailableMethods({ items, shippingAddress: address });
+
+      // Billable weight is 9.6kg (dimensional) instead of 2kg (actual)
+      expect(option).toEqual({
+        id: 'method-standard',
+        code: 'standard',
+        name: 'Standard',
+        description: 'Standard delivery',
+        price: 1300,
+        estimatedDays: 5,
+        isAvailable: true,
+      });
+    });
+
+    it('should mark methods without a matching tier as unavailable', async () => {
+      const method = createMethod({
+        rateBasis: 'item_count',
+        rateTable: [{ min: 5, price: 0 }],
+      });
+      mockDocumentMethods.findMany.mockResolvedValue([createZone({ methods: [method] })]);
+
+      const [option] = await service.getAvailableMethods({ items, shippingAddress: address });
+
+      expect(option.isAvailable).toBe(false);
+    });
+
+    it('should apply the free shipping threshold', async () => {
+      const method = createMethod({ freeShippingThreshold: 2500 });
+      mockDocumentMethods.findMany.mockResolvedValue([createZone({ methods: [method] })]);
+
+      const [option] = await service.getAvailableMethods({ items, shippingAddress: address });
+
+      expect(option.price).toBe(0);
+      expect(option.isAvailable).toBe(true);
+    });
+
+    it('should resolve address document IDs', async () => {
+      mockDocumentMethods.findOne.mockResolvedValue(address);
+      mockDocumentMethods.findMany.mockResolvedValue([createZone()]);
+
+      const options = await service.getAvailableMethods({ items, shippingAddress: 'address-1' });
+
+      expect(options).toHaveLength(1);
+      expect(mockDocumentMethods.findOne).toHaveBeenCalledWith({ documentId: 'address-1' });
+    });
+
+    it('should return no methods when no zone matches', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([createZone()]);
+
+      const options = await service.getAvailableMethods({ items, shippingAddress: { country: 'FR' } });
+
+      expect(options).toEqual([]);
+    });
+  });
+
+  describe('rate providers', () => {
+    it('should quote methods through the fake carrier provider', async () => {
+      const method = createMethod({
+        provider: 'fake',
+        providerConfig: { basePrice: 300, pricePerKg: 50, estimatedDays: 2 },
+      });
+      mockDocumentMethods.findMany.mockResolvedValue([createZone({ methods: [method] })]);
+
+      const [option] = await service.getAvailableMethods({ items, shippingAddress: address });
+
+      expect(option.price).toBe(400);
+      expect(option.estimatedDays).toBe(2);
+    });
+
+    it('should use registered carrier providers', async () => {
+      const quote = jest.fn(async (_request: any) => ({ price: 999, estimatedDays: 1 }));
+      service.registerProvider({ name: 'carrier', quote });
+      const method = createMethod({ provider: 'carrier' });
+      mockDocumentMethods.findMany.mockResolvedValue([createZone({ methods: [method] })]);
+
+      const [option] = await service.getAvailableMethods({ items, shippingAddress: address });
+
+      expect(option.price).toBe(999);
+      expect(quote).toHaveBeenCalledWith(expect.objectContaining({
+        destination: expect.objectContaining({ country: 'US', state: 'CA' }),
+        parcel: expect.objectContaining({ weight: 2, subtotal: 3000, itemCount: 2 }),
+      }));
+    });
+
+    it('should treat methods of unknown providers as unavailable', async () => {
+      const method = createMethod({ provider: 'missing' });
+      mockDocumentMethods.findMany.mockResolvedValue([createZone({ methods: [method] })]);
+
+      const [option] = await service.getAvailableMethods({ items, shippingAddress: address });
+
+      expect(option.isAvailable).toBe(false);
+      expect(mockStrapi.log.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('quoteShipping', () => {
+    const zone = createZone({
+      methods: [
+        createMethod(),
+        createMethod({ documentId: 'method-express', code: 'express', baseRate: 1500, sortOrder: 1 }),
+      ],
+    });
+
+    it('should quote the selected method by document ID or code', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([zone]);
+
+      const byId = await service.quoteShipping({ items, shippingAddress: address, shippingMethod: 'method-express' });
+      const byCode = await service.quoteShipping({ items, shippingAddress: address, shippingMethod: 'express' });
+
+      expect(byId.price).toBe(1500);
+      expect(byCode.id).toBe('method-express');
+    });
+
+    it('should pick the cheapest method when none is selected', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([zone]);
+
+      const quote = await service.quoteShipping({ items, shippingAddress: address });
+
+      expect(quote.code).toBe('standard');
+    });
+
+    it('should return null for methods not offered in the zone', async () => {
+      mockDocumentMethods.findMany.mockResolvedValue([zone]);
+
+      const quote = await service.quoteShipping({ items, shippingAddress: address, shippingMethod: 'overnight' });
+
+      expect(quote).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Shipping service
+ *
+ * Matches a destination to a shipping zone, builds the parcel for a set of
+ * cart items (including dimensional weight) and quotes the zone methods
+ * through their rate providers.
+ */
+
+import { Core } from '@strapi/strapi';
+import { normalizeCountry } from '../../tax/services/tax';
+import fakeProvider from '../providers/fake';
+import tableProvider from '../providers/table';
+import {
+  ShippingDestination,
+  ShippingParcel,
+  ShippingRateProvider,
+  toNumber,
+} from '../providers/types';
+
+export interface ShippingMethodOption {
+  id: string;
+  code: string;
+  name: string;
+  description: string;
+  price: number; // in cents
+  estimatedDays: number | null;
+  isAvailable: boolean;
+}
+
+interface ShippingQuoteParams {
+  items: any[];
+  shippingAddress?: any;
+  shippingMethod?: string | null;
+}
+
+interface ParcelTotals {
+  weight: number;
+  volume: number;
+  subtotal: number;
+  itemCount: number;
+}
+
+const DEFAULT_DIMENSIONAL_WEIGHT_DIVISOR = 5000;
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  const providers = new Map<string, ShippingRateProvider>([
+    [tableProvider.name, tableProvider],
+    [fakeProvider.name, fakeProvider],
+  ]);
+
+  return {
+    /**
+     * Register a carrier rate provider, replaces a provider with the same name
+     */
+    registerProvider(provider: ShippingRateProvider) {
+      providers.set(provider.name, provider);
+    },
+
+    /**
+     * Get a registered rate provider by name
+     */
+    getProvider(name: string): ShippingRateProvider | undefined {
+      return providers.get(name);
+    },
+
+    /**
+     * Resolve the destination from an address object or address document ID
+     */
+    async resolveDestination(shippingAddress: any): Promise<ShippingDestination> {
+      let address = shippingAddress;
+
+      if (typeof address === 'string') {
+        address = await strapi.documents('api::address.address').findOne({
+          documentId: address,
+        });
+      }
+
+      if (!address) {
+        return {};
+      }
+
+      return {
+        country: normalizeCountry(address.country) || null,
+        state: address.state || null,
+        postalCode: address.postalCode || null,
+        city: address.city || null,
+      };
+    },
+
+    /**
+     * Find the zone for a destination: region matches win over country
+     * matches, the fallback zone is used when nothing matches
+     */
+    async findZone(destination: ShippingDestination): Promise<any> {
+      const zones = await strapi.documents('api::shipping.shipping-zone').findMany({
+        filters: { isActive: true },
+        populate: { methods: true },
+      });
+
+      const country = destination.country || '';
+      const state = (destination.state || '').trim().toUpperCase();
+
+      let countryZone = null;
+      let fallbackZone = null;
+
+      for (const zone of zones as any[]) {
+        const regions: any[] = Array.isArray(zone.regions) ? zone.regions : [];
+        const countries: string[] = Array.isArray(zone.countries) ? zone.countries : [];
+
+        if (country && regions.some(region =>
+          normalizeCountry(region.country) === country &&
+          (region.state || '').trim().toUpperCase() === state
+        )) {
+          return zone;
+        }
+
+        if (!countryZone && country && countries.some(code => normalizeCountry(code) === country)) {
+          countryZone = zone;
+        }
+
+        if (!fallbackZone && zone.isFallback) {
+          fallbackZone = zone;
+        }
+      }
+
+      return countryZone || fallbackZone;
+    },
+
+    /**
+     * Sum weight, volume, value and item count of the items being shipped
+     */
+    getParcelTotals(items: any[]): ParcelTotals {
+      return items.reduce((totals: ParcelTotals, item: any) => {
+        const quantity = item.quantity || 0;
+        const product = item.product || {};
+
+        totals.weight += toNumber(product.weight) * quantity;
+        totals.volume += toNumber(product.length) * toNumber(product.width) *
+          toNumber(product.height) * quantity;
+        totals.subtotal += toNumber(item.total) || toNumber(item.price) * quantity;
+        totals.itemCount += quantity;
+
+        return totals;
+      }, { weight: 0, volume: 0, subtotal: 0, itemCount: 0 });
+    },
+
+    /**
+     * Build the parcel for a method, applying its dimensional weight rules
+     */
+    buildParcel(totals: ParcelTotals, method: any): ShippingParcel {
+      let billableWeight = totals.weight;
+
+      if (method.useDimensionalWeight) {
+        const divisor = method.dimensionalWeightDivisor || DEFAULT_DIMENSIONAL_WEIGHT_DIVISOR;
+        billableWeight = Math.max(billableWeight, totals.volume / divisor);
+      }
+
+      return { ...totals, billableWeight };
+    },
+
+    /**
+     * Quote a single method, unavailable methods are returned with isAvailable false
+     */
+    async quoteMethod(
+      method: any,
+      destination: ShippingDestination,
+      items: any[],
+      totals: ParcelTotals
+    ): Promise<ShippingMethodOption> {
+      const option: ShippingMethodOption = {
+        id: method.documentId,
+        code: method.code,
+        name: method.name,
+        description: method.description || '',
+        price: 0,
+        estimatedDays: method.estimatedDays ?? null,
+        isAvailable: false,
+      };
+
+      const provider = providers.get(method.provider || 'table');
+      if (!provider) {
+        strapi.log.warn(`Shipping provider ${method.provider} is not registered`);
+        return option;
+      }
+
+      try {
+        const quote = await provider.quote({
+          method,
+          destination,
+          parcel: this.buildParcel(totals, method),
+          items,
+        });
+
+        if (!quote) {
+          return option;
+        }
+
+        const freeShippingThreshold = toNumber(method.freeShippingThreshold);
+        const isFree = freeShippingThreshold > 0 && totals.subtotal >= freeShippingThreshold;
+
+        return {
+          ...option,
+          price: isFree ? 0 : Math.max(0, Math.round(quote.price)),
+          estimatedDays: quote.estimatedDays ?? option.estimatedDays,
+          isAvailable: true,
+        };
+      } catch (error) {
+        strapi.log.error(`Error quoting shipping method ${method.documentId}:`, error);
+        return option;
+      }
+    },
+
+    /**
+     * List the shipping methods of the destination zone with their prices
+     */
+    async getAvailableMethods(params: ShippingQuoteParams): Promise<ShippingMethodOption[]> {
+      const items = params.items || [];
+      const destination = await this.resolveDestination(params.shippingAddress);
+      const zone = await this.findZone(destination);
+
+      if (!zone) {
+        return [];
+      }
+
+      const methods = (zone.methods || [])
+        .filter((method: any) => method.isActive)
+        .sort((a: any, b: any) => (a.sortOrder || 0) - (b.sortOrder || 0));
+      const totals = this.getParcelTotals(items);
+
+      const options: ShippingMethodOption[] = [];
+      for (const method of methods) {
+        options.push(await this.quoteMethod(method, destination, items, totals));
+      }
+      return options;
+    },
+
+    /**
+     * Quote the selected method (document ID or code), or the cheapest
+     * available method when none is selected
+     * @returns The quoted method, null when it is not available
+     */
+    async quoteShipping(params: ShippingQuoteParams): Promise<ShippingMethodOption | null> {
+      const options = (await this.getAvailableMethods(params))
+        .filter(option => option.isAvailable);
+
+      if (params.shippingMethod) {
+        return options.find(option =>
+          option.id === params.shippingMethod || option.code === params.shippingMethod
+        ) || null;
+      }
+
+      return options.reduce<ShippingMethodOption | null>(
+        (cheapest, option) => (!cheapest || option.price < cheapest.price ? option : cheapest),
+        null
+      );
+    },
+  };
+};
@@ -0,0 +1,7 @@
+/**
+ * stock-location controller
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreController('api::stock-location.stock-location');
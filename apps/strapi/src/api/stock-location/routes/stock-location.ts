@@ -0,0 +1,27 @@
+/**
+ * stock-location router
+ *
+ * Stock locations are managed by admins only.
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::stock-location.stock-location', {
+  config: {
+    find: {
+      policies: ['global::is-admin'],
+    },
+    findOne: {
+      policies: ['global::is-admin'],
+    },
+    create: {
+      policies: ['global::is-admin'],
+    },
+    update: {
+      policies: ['global::is-admin'],
+    },
+    delete: {
+      policies: ['global::is-admin'],
+    },
+  },
+});
@@ -0,0 +1,7 @@
+/**
+ * stock-location service
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreService('api::stock-location.stock-location');
@@ -0,0 +1,7 @@
+/**
+ * tax-class controller
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreController('api::tax.tax-class');
@@ -0,0 +1,7 @@
+/**
+ * tax-setting controller
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreController('api::tax.tax-setting');
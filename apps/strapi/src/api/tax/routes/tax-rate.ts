@@ -0,0 +1,27 @@
+/**
+ * tax-rate router
+ *
+ * Tax configuration is managed by admins only.
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::tax.tax-rate', {
+  config: {
+    find: {
+      policies: ['global::is-admin'],
+    },
+    findOne: {
+      policies: ['global::is-admin'],
+    },
+    create: {
+      policies: ['global::is-admin'],
+    },
+    update: {
+      policies: ['global::is-admin'],
+    },
+    delete: {
+      policies: ['global::is-admin'],
+    },
+  },
+});
@@ -0,0 +1,21 @@
+/**
+ * tax-setting router
+ *
+ * Tax configuration is managed by admins only.
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::tax.tax-setting', {
+  config: {
+    find: {
+      policies: ['global::is-admin'],
+    },
+    update: {
+      policies: ['global::is-admin'],
+    },
+    delete: {
+      policies: ['global::is-admin'],
+    },
+  },
+});
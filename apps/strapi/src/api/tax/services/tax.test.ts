@@ -0,0 +1,203 @@
+/**
+ * Tax Service tests
+ *
+ * Tests for jurisdiction matching, tax class selection and
+ * stacked/compound, tax-inclusive/exclusive calculations
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import createTaxService, { matchesPostalCode, normalizeCountry } from './tax';
+
+// Mock document service methods per content type
+const createDocumentMethods = () => ({
+  findOne: jest.fn() as jest.MockedFunction<any>,
+  findFirst: jest.fn() as jest.MockedFunction<any>,
+  findMany: jest.fn() as jest.MockedFunction<any>,
+});
+
+const mockDocuments: Record<string, ReturnType<typeof createDocumentMethods>> = {
+  'api::tax.tax-setting': createDocumentMethods(),
+  'api::tax.tax-rate': createDocumentMethods(),
+  'api::product.product': createDocumentMethods(),
+  'api::address.address': createDocumentMethods(),
+};
+
+const mockStrapi: any = {
+  documents: jest.fn((uid: string) => mockDocuments[uid]),
+  log: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+};
+
+const createRate = (overrides: any = {}) => ({
+  documentId: 'rate-1',
+  name: 'Sales Tax',
+  country: 'US',
+  state: null,
+  postalCodeFrom: null,
+  postalCodeTo: null,
+  rate: 5,
+  taxClass: null,
+  isCompound: false,
+  priority: 1,
+  isActive: true,
+  ...overrides,
+});
+
+const reducedClass = { documentId: 'class-reduced', code: 'reduced-rate', isExempt: false };
+const exemptClass = { documentId: 'class-exempt', code: 'exempt', isExempt: true };
+
+describe('Tax Service', () => {
+  let service: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockDocuments).forEach(methods =>
+      Object.values(methods).forEach(mock => mock.mockReset())
+    );
+
+    service = createTaxService({ strapi: mockStrapi });
+    // Bind methods for proper `this` context
+    Object.keys(service).forEach(key => {
+      service[key] = service[key].bind(service);
+    });
+  });
+
+  describe('normalizeCountry', () => {
+    it('should map the UK alias to its ISO code', () => {
+      expect(normalizeCountry(' uk ')).toBe('GB');
+      expect(normalizeCountry('ca')).toBe('CA');
+    });
+  });
+
+  describe('matchesPostalCode', () => {
+    it('should match numeric ranges inclusively', () => {
+      const rate = createRate({ postalCodeFrom: '90001', postalCodeTo: '96162' });
+
+      expect(matchesPostalCode(rate, '90001')).toBe(true);
+      expect(matchesPostalCode(rate, '94105')).toBe(true);
+      expect(matchesPostalCode(rate, '10001')).toBe(false);
+    });
+
+    it('should match prefixes and ignore spaces', () => {
+      const rate = createRate({ postalCodeFrom: 'SW1*' });
+
+      expect(matchesPostalCode(rate, 'sw1a 1aa')).toBe(true);
+      expect(matchesPostalCode(rate, 'EC1A 1BB')).toBe(false);
+    });
+
+    it('should match every code when no range is configured', () => {
+      expect(matchesPostalCode(createRate(), '12345')).toBe(true);
+      expect(matchesPostalCode(createRate(), null)).toBe(true);
+    });
+  });
+
+  describe('selectRatesForClass', () => {
+    it('should keep the most specific rate per priority', () => {
+      const rates = [
+        createRate({ documentId: 'country', rate: 5 }),
+        createRate({ documentId: 'state', state: 'CA', rate: 7.25 }),
+        createRate({ documentId: 'local', priority: 2, rate: 1 }),
+      ];
+
+      const selected = service.selectRatesForClass(rates, null);
+
+      expect(selected.map((rate: any) => rate.documentId)).toEqual(['state', 'local']);
+    });
+
+    it('should only use rates of the product tax class', () => {
+      const rates = [
+        createRate({ documentId: 'standard', rate: 20 }),
+        createRate({ documentId: 'reduced', rate: 5, taxClass: reducedClass }),
+      ];
+
+      expect(service.selectRatesForClass(rates, reducedClass)[0].documentId).toBe('reduced');
+      expect(service.selectRatesForClass(rates, null)[0].documentId).toBe('standard');
+      expect(service.selectRatesForClass(rates, exemptClass)).toEqual([]);
+    });
+  });
+
+  describe('calculateLineTax', () => {
+    const gst = { documentId: 'gst', name: 'GST', rate: 5, isCompound: false, priority: 1 };
+    const pst = { documentId: 'pst', name: 'PST', rate: 10, isCompound: false, priority: 2 };
+    const qst = { documentId: 'qst', name: 'QST', rate: 10, isCompound: true, priority: 2 };
+
+    it('should stack non-compound rates on the net price', () => {
+      expect(service.calculateLineTax(10000, [gst, pst], false)).toBe(1500);
+    });
+
+    it('should apply compound rates on top of previous taxes', () => {
+      // 10000 * 1.05 * 1.10 = 11550
+      expect(service.calculateLineTax(10000, [gst, qst], false)).toBe(1550);
+    });
+
+    it('should extract tax from tax-inclusive prices', () => {
+      // 12000 / 1.2 = 10000 net
+      const vat = { ...gst, rate: 20 };
+
+      expect(service.calculateLineTax(12000, [vat], true)).toBe(2000);
+    });
+  });
+
+  describe('calculateTax', () => {
+    const items = [
+      { product: { documentId: 'product-1' }, price: 1000, quantity: 2, total: 2000 },
+      { product: { documentId: 'product-2' }, price: 5000, quantity: 1, total: 5000 },
+    ];
+
+    it('should calculate per line taxes for the shipping address', async () => {
+      mockDocuments['api::tax.tax-setting'].findFirst.mockResolvedValue({ pricesIncludeTax: false });
+      mockDocuments['api::tax.tax-rate'].findMany.mockResolvedValue([
+        createRate({ documentId: 'standard', country: 'GB', rate: 20 }),
+        createRate({ documentId: 'reduced', country: 'GB', rate: 5, taxClass: reducedClass }),
+      ]);
+      mockDocuments['api::product.product'].findMany.mockResolvedValue([
+        { documentId: 'product-1', taxClass: reducedClass },
+        { documentId: 'product-2', taxClass: null },
+      ]);
+
+      const result = await service.calculateTax({
+        items,
+        shippingAddress: { country: 'UK', state: 'London', postalCode: 'SW1A 1AA' },
+      });
+
+      expect(result.lines.map((line: any) => line.tax)).toEqual([100, 1000]);
+      expect(result.tax).toBe(1100);
+      expect(result.location.country).toBe('GB');
+      expect(mockDocuments['api::tax.tax-rate'].findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ filters: { country: { $eqi: 'GB' }, isActive: true } })
+      );
+    });
+
+    it('should fall back to the default country and resolve address IDs', async () => {
+      mockDocuments['api::tax.tax-setting'].findFirst.mockResolvedValue({
+        pricesIncludeTax: true,
+        defaultCountry: 'DE',
+      });
+      mockDocuments['api::address.address'].findOne.mockResolvedValue(null);
+      mockDocuments['api::tax.tax-rate'].findMany.mockResolvedValue([
+        createRate({ country: 'DE', rate: 19 }),
+      ]);
+      mockDocuments['api::product.product'].findMany.mockResolvedValue([]);
+
+      const result = await service.calculateTax({ items, shippingAddress: 'address-1' });
+
+      expect(result.pricesIncludeTax).toBe(true);
+      expect(result.location.country).toBe('DE');
+      // 2000 - 2000 / 1.19 and 5000 - 5000 / 1.19
+      expect(result.lines.map((line: any) => line.tax)).toEqual([319, 798]);
+    });
+
+    it('should not tax when no rate matches', async () => {
+      mockDocuments['api::tax.tax-setting'].findFirst.mockResolvedValue(null);
+
+      const result = await service.calculateTax({ items });
+
+      expect(result.tax).toBe(0);
+      expect(mockDocuments['api::tax.tax-rate'].findMany).not.toHaveBeenCalled();
+    });
+  });
+});
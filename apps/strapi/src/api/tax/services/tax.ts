@@ -0,0 +1,305 @@
+/**
+ * Tax service
+ *
+ * Resolves the tax rates that apply to a shipping destination and tax class
+ * and calculates per-line taxes. Rates are matched by country, state/province
+ * and postal code range; the most specific match wins within a priority.
+ * Non-compound rates are stacked on the net price, compound rates are applied
+ * on the net price plus the taxes applied before them.
+ */
+
+import { Core } from '@strapi/strapi';
+
+export interface TaxLocation {
+  country?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+}
+
+export interface AppliedTaxRate {
+  documentId: string;
+  name: string;
+  rate: number; // in percent
+  isCompound: boolean;
+  priority: number;
+}
+
+export interface LineTax {
+  taxableAmount: number; // in cents
+  tax: number; // in cents
+  rates: AppliedTaxRate[];
+}
+
+export interface TaxCalculationResult {
+  tax: number; // in cents
+  pricesIncludeTax: boolean;
+  lines: LineTax[];
+  location: TaxLocation;
+}
+
+interface TaxSettings {
+  pricesIncludeTax: boolean;
+  defaultCountry?: string | null;
+  defaultState?: string | null;
+}
+
+interface TaxCalculationParams {
+  items: any[];
+  shippingAddress?: any;
+}
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  UK: 'GB',
+};
+
+/**
+ * Normalize a country to its ISO 3166-1 alpha-2 code
+ */
+export const normalizeCountry = (country?: string | null): string => {
+  const code = (country || '').trim().toUpperCase();
+  return COUNTRY_ALIASES[code] || code;
+};
+
+const normalizePostalCode = (postalCode?: string | null): string =>
+  (postalCode || '').replace(/\s+/g, '').toUpperCase();
+
+const comparePostalCodes = (a: string, b: string): number => {
+  // Numeric codes of the same length compare numerically (e.g. 90001-96162)
+  if (/^\d+$/.test(a) && /^\d+$/.test(b) && a.length === b.length) {
+    return parseInt(a, 10) - parseInt(b, 10);
+  }
+  return a.localeCompare(b);
+};
+
+/**
+ * Check whether a postal code falls in the range configured on a rate
+ */
+export const matchesPostalCode = (rate: any, postalCode?: string | null): boolean => {
+  const from = normalizePostalCode(rate.postalCodeFrom);
+  const to = normalizePostalCode(rate.postalCodeTo);
+
+  if (!from && !to) {
+    return true;
+  }
+
+  const code = normalizePostalCode(postalCode);
+  if (!code) {
+    return false;
+  }
+
+  if (from.endsWith('*')) {
+    return code.startsWith(from.slice(0, -1));
+  }
+
+  if (from && !to) {
+    return code === from;
+  }
+
+  return (!from || comparePostalCodes(code, from) >= 0) &&
+    (!to || comparePostalCodes(code, to) <= 0);
+};
+
+const getSpecificity = (rate: any): number => {
+  let specificity = 0;
+  if (rate.state) {
+    specificity += 1;
+  }
+  if (rate.postalCodeFrom || rate.postalCodeTo) {
+    specificity += 2;
+  }
+  return specificity;
+};
+
+const toNumber = (value: any): number => {
+  const result = parseFloat(value);
+  return isNaN(result) ? 0 : result;
+};
+
+const getLineAmount = (item: any): number =>
+  toNumber(item.total) || toNumber(item.price) * (item.quantity || 0);
+
+export default ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Get store wide tax settings
+   */
+  async getSettings(): Promise<TaxSettings> {
+    const settings: any = await strapi.documents('api::tax.tax-setting').findFirst({});
+
+    return {
+      pricesIncludeTax: !!settings?.pricesIncludeTax,
+      defaultCountry: settings?.defaultCountry || null,
+      defaultState: settings?.defaultState || null,
+    };
+  },
+
+  /**
+   * Resolve the tax location from an address object or address document ID
+   */
+  async resolveLocation(shippingAddress: any, settings: TaxSettings): Promise<TaxLocation> {
+    let address = shippingAddress;
+
+    if (typeof address === 'string') {
+      address = await strapi.documents('api::address.address').findOne({
+        documentId: address,
+      });
+    }
+
+    if (!address?.country) {
+      return {
+        country: normalizeCountry(settings.defaultCountry),
+        state: settings.defaultState,
+        postalCode: null,
+      };
+    }
+
+    return {
+      country: normalizeCountry(address.country),
+      state: address.state || null,
+      postalCode: address.postalCode || null,
+    };
+  },
+
+  /**
+   * Find all active rates matching a location, for every tax class
+   */
+  async findMatchingRates(location: TaxLocation): Promise<any[]> {
+    if (!location.country) {
+      return [];
+    }
+
+    const rates = await strapi.documents('api::tax.tax-rate').findMany({
+      filters: {
+        country: { $eqi: location.country },
+        isActive: true,
+      },
+      populate: { taxClass: true },
+    });
+
+    const state = (location.state || '').trim().toUpperCase();
+
+    return (rates as any[]).filter(rate => {
+      if (rate.state && rate.state.trim().toUpperCase() !== state) {
+        return false;
+      }
+      return matchesPostalCode(rate, location.postalCode);
+    });
+  },
+
+  /**
+   * Pick the rates for a tax class, keeping the most specific rate per priority
+   */
+  selectRatesForClass(rates: any[], taxClass: any): AppliedTaxRate[] {
+    if (taxClass?.isExempt) {
+      return [];
+    }
+
+    const classId = taxClass?.documentId || null;
+    const byPriority = new Map<number, any>();
+
+    for (const rate of rates) {
+      if ((rate.taxClass?.documentId || null) !== classId) {
+        continue;
+      }
+      const priority = rate.priority || 1;
+      const current = byPriority.get(priority);
+      if (!current || getSpecificity(rate) > getSpecificity(current)) {
+        byPriority.set(priority, rate);
+      }
+    }
+
+    return Array.from(byPriority.values())
+      .sort((a, b) => (a.priority || 1) - (b.priority || 1))
+      .map(rate => ({
+        documentId: rate.documentId,
+        name: rate.name,
+        rate: toNumber(rate.rate),
+        isCompound: !!rate.isCompound,
+        priority: rate.priority || 1,
+      }));
+  },
+
+  /**
+   * Calculate the tax for a single amount
+   * @param amount - Line amount in cents (gross when prices include tax)
+   */
+  calculateLineTax(amount: number, rates: AppliedTaxRate[], pricesIncludeTax: boolean): number {
+    if (amount <= 0 || rates.length === 0) {
+      return 0;
+    }
+
+    // Effective multiplier of stacked rates followed by compound rates
+    const stackedRate = rates
+      .filter(rate => !rate.isCompound)
+      .reduce((sum, rate) => sum + rate.rate, 0);
+    const multiplier = rates
+      .filter(rate => rate.isCompound)
+      .reduce((result, rate) => result * (1 + rate.rate / 100), 1 + stackedRate / 100);
+
+    if (pricesIncludeTax) {
+      return Math.round(amount - amount / multiplier);
+    }
+
+    return Math.round(amount * (multiplier - 1));
+  },
+
+  /**
+   * Load the tax classes of the products in the given items
+   */
+  async getProductTaxClasses(items: any[]): Promise<Record<string, any>> {
+    const productIds = Array.from(new Set(
+      items.map(item => item.product?.documentId).filter(Boolean)
+    ));
+
+    if (productIds.length === 0) {
+      return {};
+    }
+
+    const products = await strapi.documents('api::product.product').findMany({
+      filters: { documentId: { $in: productIds } },
+      populate: { taxClass: true },
+    });
+
+    const taxClasses: Record<string, any> = {};
+    for (const product of products as any[]) {
+      taxClasses[product.documentId] = product.taxClass || null;
+    }
+    return taxClasses;
+  },
+
+  /**
+   * Calculate taxes for a set of cart or order items
+   */
+  async calculateTax(params: TaxCalculationParams): Promise<TaxCalculationResult> {
+    const items = params.items || [];
+    const settings = await this.getSettings();
+    const location = await this.resolveLocation(params.shippingAddress, settings);
+
+    const result: TaxCalculationResult = {
+      tax: 0,
+      pricesIncludeTax: settings.pricesIncludeTax,
+      lines: [],
+      location,
+    };
+
+    if (items.length === 0) {
+      return result;
+    }
+
+    const rates = await this.findMatchingRates(location);
+    const taxClasses = rates.length > 0 ? await this.getProductTaxClasses(items) : {};
+
+    for (const item of items) {
+      const taxableAmount = getLineAmount(item);
+      const lineRates = this.selectRatesForClass(
+        rates,
+        taxClasses[item.product?.documentId] || null
+      );
+      const tax = this.calculateLineTax(taxableAmount, lineRates, settings.pricesIncludeTax);
+
+      result.lines.push({ taxableAmount, tax, rates: lineRates });
+      result.tax += tax;
+    }
+
+    return result;
+  },
+});
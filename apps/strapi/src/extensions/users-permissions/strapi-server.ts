@@ -151,7 +151,43 @@ export default (plugin) => {
     }
   };
 
+  // Notify users of password changes, a change they did not make is the first sign of a takeover
+  const notifyPasswordChanged = async (ctx) => {
+    const userId = ctx.body?.user?.id ?? ctx.state.user?.id;
+    if (!userId || ctx.status >= 400) {
+      return;
+    }
+
+    try {
+      const user = await strapi
+        .query('plugin::users-permissions.user')
+        .findOne({ where: { id: userId } });
+      if (!user) {
+        return;
+      }
 
+      await strapi.service('api::notification.notification').notify({
+        template: 'password-changed',
+        user,
+        reference: `user:${user.documentId}`,
+        data: { username: user.username, changedAt: new Date() },
+      });
+    } catch (error) {
+      strapi.log.error('Error sending password changed notification:', error);
+    }
+  };
+
+  const originalChangePassword = plugin.controllers.auth.changePassword;
+  plugin.controllers.auth.changePassword = async (ctx) => {
+    await originalChangePassword(ctx);
+    await notifyPasswordChanged(ctx);
+  };
+
+  const originalResetPassword = plugin.controllers.auth.resetPassword;
+  plugin.controllers.auth.resetPassword = async (ctx) => {
+    await originalResetPassword(ctx);
+    await notifyPasswordChanged(ctx);
+  };
 
   // Add custom role assignment service
   plugin.services.roleAssignment = {
@@ -511,5 +511,14 @@ export default {
       
       // Create test frontend users
       await createTestFrontendUsersIfNotExist(strapi);
+
+      // Create the default shipping carriers
+      await strapi.service('api::shipping.carrier').seedDefaultCarriers();
+
+      // Schedule background jobs (expirations, cleanups, retries)
+      await strapi.service('api::scheduled-job.scheduled-job').registerJobs();
+
+      // Cached cart calculations go stale when promotions, tax or shipping rates change
+      strapi.service('api::cart.calculation-cache').subscribeToPricingChanges();
   },
 };
@@ -0,0 +1,169 @@
+/**
+ * Atomic stock counter updates
+ *
+ * Stock counters (quantity / reserved / available) must never be read,
+ * checked and written back in separate queries: two concurrent checkouts
+ * would both see the last unit as available. Counters are instead changed
+ * with a single conditional UPDATE, which the database applies atomically,
+ * and the caller is told whether the row still satisfied the condition.
+ */
+
+export interface StockCounterChange {
+  quantity?: number;
+  reserved?: number;
+}
+
+export interface StockCounterCondition {
+  minAvailable?: number; // available must be at least this before the change
+  minReserved?: number; // reserved must be at least this before the change
+}
+
+/**
+ * Apply a relative change to the stock counters of a row
+ * @returns true when the row matched the condition and was updated
+ */
+export const adjustStockCounters = async (
+  strapi: any,
+  uid: string,
+  documentId: string,
+  change: StockCounterChange,
+  condition: StockCounterCondition = {},
+  data: Record<string, any> = {}
+): Promise<boolean> => {
+  const { tableName, attributes } = strapi.db.metadata.get(uid);
+  const column = (name: string): string => attributes?.[name]?.columnName || name;
+  const quantityChange = change.quantity || 0;
+  const reservedChange = change.reserved || 0;
+  const availableChange = quantityChange - reservedChange;
+
+  return strapi.db.transaction(async ({ trx }: { trx: any }) => {
+    const { connection } = strapi.db;
+    let query = connection(tableName).where(column('documentId'), documentId);
+    if (trx) {
+      query = query.transacting(trx);
+    }
+    if (condition.minAvailable !== undefined) {
+      query = query.andWhere(column('available'), '>=', condition.minAvailable);
+    }
+    if (condition.minReserved !== undefined) {
+      query = query.andWhere(column('reserved'), '>=', condition.minReserved);
+    }
+
+    const update: Record<string, any> = {};
+    for (const [name, value] of Object.entries(data)) {
+      update[column(name)] = value;
+    }
+    if (quantityChange !== 0) {
+      update[column('quantity')] = connection.raw('?? + ?', [column('quantity'), quantityChange]);
+    }
+    if (reservedChange !== 0) {
+      update[column('reserved')] = connection.raw('?? + ?', [column('reserved'), reservedChange]);
+    }
+    if (availableChange !== 0) {
+      update[column('available')] = connection.raw('?? + ?', [column('available'), availableChange]);
+    }
+
+    const updatedRows = await query.update(update);
+    return updatedRows > 0;
+  });
+};
+
+/**
+ * Apply a relative change to the stock counters of a row, clamping each counter at zero
+ *
+ * Used when the counters are out of sync with the reservations and a
+ * conditional change did not match. The clamp is computed in the UPDATE from
+ * the values the row holds at that moment, never from an earlier read. CASE
+ * is used rather than GREATEST, which SQLite does not have.
+ * @returns true when the row exists and was updated
+ */
+export const clampStockCounters = async (
+  strapi: any,
+  uid: string,
+  documentId: string,
+  change: StockCounterChange,
+  data: Record<string, any> = {}
+): Promise<boolean> => {
+  const { tableName, attributes } = strapi.db.metadata.get(uid);
+  const column = (name: string): string => attributes?.[name]?.columnName || name;
+  const quantityChange = change.quantity || 0;
+  const reservedChange = change.reserved || 0;
+
+  return strapi.db.transaction(async ({ trx }: { trx: any }) => {
+    const { connection } = strapi.db;
+    let query = connection(tableName).where(column('documentId'), documentId);
+    if (trx) {
+      query = query.transacting(trx);
+    }
+
+    const clamped = (name: string, value: number) => ({
+      sql: 'CASE WHEN ?? + ? < 0 THEN 0 ELSE ?? + ? END',
+      bindings: [column(name), value, column(name), value],
+    });
+    const quantity = clamped('quantity', quantityChange);
+    const reserved = clamped('reserved', reservedChange);
+    const difference = {
+      sql: `(${quantity.sql}) - (${reserved.sql})`,
+      bindings: [...quantity.bindings, ...reserved.bindings],
+    };
+
+    // available comes first: MySQL evaluates SET assignments in order against the updated values
+    const update: Record<string, any> = {
+      [column('available')]: connection.raw(
+        `CASE WHEN ${difference.sql} < 0 THEN 0 ELSE ${difference.sql} END`,
+        [...difference.bindings, ...difference.bindings]
+      ),
+      [column('quantity')]: connection.raw(quantity.sql, quantity.bindings),
+      [column('reserved')]: connection.raw(reserved.sql, reserved.bindings),
+    };
+    for (const [name, value] of Object.entries(data)) {
+      update[column(name)] = value;
+    }
+
+    const updatedRows = await query.update(update);
+    return updatedRows > 0;
+  });
+};
+
+/**
+ * Move quantity from available to reserved when enough stock is available
+ */
+export const reserveStockCounters = (
+  strapi: any,
+  uid: string,
+  documentId: string,
+  quantity: number,
+  data: Record<string, any> = {}
+): Promise<boolean> =>
+  adjustStockCounters(strapi, uid, documentId, { reserved: quantity }, { minAvailable: quantity }, data);
+
+/**
+ * Move quantity from reserved back to available
+ */
+export const releaseStockCounters = (
+  strapi: any,
+  uid: string,
+  documentId: string,
+  quantity: number,
+  data: Record<string, any> = {}
+): Promise<boolean> =>
+  adjustStockCounters(strapi, uid, documentId, { reserved: -quantity }, { minReserved: quantity }, data);
+
+/**
+ * Remove reserved quantity from the stock once it is sold, available is unchanged
+ */
+export const consumeStockCounters = (
+  strapi: any,
+  uid: string,
+  documentId: string,
+  quantity: number,
+  data: Record<string, any> = {}
+): Promise<boolean> =>
+  adjustStockCounters(
+    strapi,
+    uid,
+    documentId,
+    { quantity: -quantity, reserved: -quantity },
+    { minReserved: quantity },
+    data
+  );
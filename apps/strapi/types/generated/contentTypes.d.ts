@@ -795,10 +795,17 @@ export interface ApiCheckoutCheckout extends Struct.CollectionTypeSchema {
       'api::address.address'
     >;
     completedAt: Schema.Attribute.DateTime;
+    completedSteps: Schema.Attribute.JSON;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
+    currentStep: Schema.Attribute.Enumeration<
+      ['cart', 'shipping', 'billing', 'payment', 'review', 'confirmation']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'cart'>;
     expiresAt: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    lastRecoveryEmailAt: Schema.Attribute.DateTime;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
@@ -806,8 +813,25 @@ export interface ApiCheckoutCheckout extends Struct.CollectionTypeSchema {
     > &
       Schema.Attribute.Private;
     metadata: Schema.Attribute.JSON;
+    nextRecoveryAt: Schema.Attribute.DateTime;
     order: Schema.Attribute.Relation<'oneToOne', 'api::order.order'>;
+    paymentMethod: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
     publishedAt: Schema.Attribute.DateTime;
+    recoveryEmailsSent: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    recoveryStatus: Schema.Attribute.Enumeration<
+      ['pending', 'skipped', 'exhausted', 'restored', 'recovered']
+    >;
+    restoredAt: Schema.Attribute.DateTime;
     sessionId: Schema.Attribute.String;
     shippingAddress: Schema.Attribute.Relation<
       'manyToOne',
@@ -822,6 +846,7 @@ export interface ApiCheckoutCheckout extends Struct.CollectionTypeSchema {
     > &
       Schema.Attribute.Required &
       Schema.Attribute.DefaultTo<'active'>;
+    stepData: Schema.Attribute.JSON;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -832,6 +857,88 @@ export interface ApiCheckoutCheckout extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiCurrencyCurrency extends Struct.CollectionTypeSchema {
+  collectionName: 'currencies';
+  info: {
+    description: 'Currencies shoppers can pay in with their exchange rate to the base currency';
+    displayName: 'Currency';
+    pluralName: 'currencies';
+    singularName: 'currency';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    code: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 3;
+        minLength: 3;
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    exchangeRate: Schema.Attribute.Decimal &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<1>;
+    isActive: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<true>;
+    isBase: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<false>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::currency.currency'
+    > &
+      Schema.Attribute.Private;
+    minorUnits: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 4;
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<2>;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    rateUpdatedAt: Schema.Attribute.DateTime;
+    roundingIncrement: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<1>;
+    roundingMode: Schema.Attribute.Enumeration<['nearest', 'up', 'down']> &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'nearest'>;
+    symbol: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 10;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiEngagementMetricsEngagementMetric
   extends Struct.CollectionTypeSchema {
   collectionName: 'engagement_metrics';
@@ -959,7 +1066,15 @@ export interface ApiInventoryHistoryInventoryHistory
   };
   attributes: {
     action: Schema.Attribute.Enumeration<
-      ['increase', 'decrease', 'reserve', 'release', 'adjust', 'initialize']
+      [
+        'increase',
+        'decrease',
+        'reserve',
+        'release',
+        'adjust',
+        'initialize',
+        'transfer',
+      ]
     > &
       Schema.Attribute.Required;
     changedBy: Schema.Attribute.Relation<
@@ -976,10 +1091,13 @@ export interface ApiInventoryHistoryInventoryHistory
       'api::inventory-history.inventory-history'
     > &
       Schema.Attribute.Private;
+    location: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::stock-location.stock-location'
+    >;
     metadata: Schema.Attribute.JSON;
     orderId: Schema.Attribute.String;
-    product: Schema.Attribute.Relation<'manyToOne', 'api::product.product'> &
-      Schema.Attribute.Required;
+    product: Schema.Attribute.Relation<'manyToOne', 'api::product.product'>;
     publishedAt: Schema.Attribute.DateTime;
     quantityAfter: Schema.Attribute.Integer &
       Schema.Attribute.Required &
@@ -1030,13 +1148,17 @@ export interface ApiInventoryHistoryInventoryHistory
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
+    variant: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::product-listing-variant.product-listing-variant'
+    >;
   };
 }
 
 export interface ApiInventoryInventory extends Struct.CollectionTypeSchema {
   collectionName: 'inventories';
   info: {
-    description: 'Inventory tracking and management for products';
+    description: 'Inventory tracking and management for products and product variants';
     displayName: 'Inventory';
     pluralName: 'inventories';
     singularName: 'inventory';
@@ -1060,12 +1182,17 @@ export interface ApiInventoryInventory extends Struct.CollectionTypeSchema {
       Schema.Attribute.Private;
     isLowStock: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
     lastUpdated: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    levels: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::inventory.inventory-level'
+    >;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
       'api::inventory.inventory'
     > &
       Schema.Attribute.Private;
+    lowStockAlertedAt: Schema.Attribute.DateTime;
     lowStockThreshold: Schema.Attribute.Integer &
       Schema.Attribute.Required &
       Schema.Attribute.SetMinMax<
@@ -1076,7 +1203,76 @@ export interface ApiInventoryInventory extends Struct.CollectionTypeSchema {
       > &
       Schema.Attribute.DefaultTo<10>;
     notes: Schema.Attribute.Text;
-    product: Schema.Attribute.Relation<'oneToOne', 'api::product.product'> &
+    product: Schema.Attribute.Relation<'oneToOne', 'api::product.product'>;
+    publishedAt: Schema.Attribute.DateTime;
+    quantity: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    reserved: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    variant: Schema.Attribute.Relation<
+      'oneToOne',
+      'api::product-listing-variant.product-listing-variant'
+    >;
+  };
+}
+
+export interface ApiInventoryInventoryLevel
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'inventory_levels';
+  info: {
+    description: 'Stock of an inventory record held at a stock location';
+    displayName: 'Inventory Level';
+    pluralName: 'inventory-levels';
+    singularName: 'inventory-level';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    available: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    inventory: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::inventory.inventory'
+    > &
+      Schema.Attribute.Required;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::inventory.inventory-level'
+    > &
+      Schema.Attribute.Private;
+    location: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::stock-location.stock-location'
+    > &
       Schema.Attribute.Required;
     publishedAt: Schema.Attribute.DateTime;
     quantity: Schema.Attribute.Integer &
@@ -1103,6 +1299,80 @@ export interface ApiInventoryInventory extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiNotificationNotificationDelivery
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'notification_deliveries';
+  info: {
+    description: 'Log of every notification sent, held back for a digest, skipped or failed';
+    displayName: 'Notification Delivery';
+    pluralName: 'notification-deliveries';
+    singularName: 'notification-delivery';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    adapter: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    body: Schema.Attribute.Text;
+    channel: Schema.Attribute.Enumeration<['email', 'sms', 'push', 'webhook']> &
+      Schema.Attribute.Required;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    digest: Schema.Attribute.Enumeration<['daily', 'weekly']>;
+    error: Schema.Attribute.Text;
+    language: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 10;
+      }>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::notification.notification-delivery'
+    > &
+      Schema.Attribute.Private;
+    messageId: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    metadata: Schema.Attribute.JSON;
+    publishedAt: Schema.Attribute.DateTime;
+    recipient: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    reference: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    sentAt: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<
+      ['queued', 'sent', 'digested', 'failed', 'skipped']
+    > &
+      Schema.Attribute.Required;
+    subject: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    template: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+  };
+}
+
 export interface ApiOptionGroupOptionGroup extends Struct.CollectionTypeSchema {
   collectionName: 'option_groups';
   info: {
@@ -1222,6 +1492,10 @@ export interface ApiOrderOrder extends Struct.CollectionTypeSchema {
       Schema.Attribute.SetMinMaxLength<{
         maxLength: 2000;
       }>;
+    baseCurrency: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 3;
+      }>;
     billingAddress: Schema.Attribute.Relation<
       'manyToOne',
       'api::address.address'
@@ -1250,7 +1524,18 @@ export interface ApiOrderOrder extends Struct.CollectionTypeSchema {
         number
       > &
       Schema.Attribute.DefaultTo<0>;
+    discountCode: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
     estimatedDelivery: Schema.Attribute.DateTime;
+    exchangeRate: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
     fraudScore: Schema.Attribute.Integer &
       Schema.Attribute.SetMinMax<
         {
@@ -1259,6 +1544,28 @@ export interface ApiOrderOrder extends Struct.CollectionTypeSchema {
         },
         number
       >;
+    fulfillmentCount: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    fulfillments: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::order.order-fulfillment'
+    >;
+    fulfillmentStatus: Schema.Attribute.Enumeration<
+      [
+        'unfulfilled',
+        'partially_fulfilled',
+        'fulfilled',
+        'partially_delivered',
+        'delivered',
+      ]
+    > &
+      Schema.Attribute.DefaultTo<'unfulfilled'>;
     giftMessage: Schema.Attribute.Text &
       Schema.Attribute.SetMinMaxLength<{
         maxLength: 500;
@@ -1367,35 +1674,86 @@ export interface ApiOrderOrder extends Struct.CollectionTypeSchema {
   };
 }
 
-export interface ApiOrderOrderHistory extends Struct.CollectionTypeSchema {
-  collectionName: 'order_histories';
+export interface ApiOrderOrderFulfillment extends Struct.CollectionTypeSchema {
+  collectionName: 'order_fulfillments';
   info: {
-    description: 'Order history tracking and audit trail';
-    displayName: 'Order History';
-    pluralName: 'order-histories';
-    singularName: 'order-history';
+    description: 'Shipments of order items, an order may ship in several parcels';
+    displayName: 'Order Fulfillment';
+    pluralName: 'order-fulfillments';
+    singularName: 'order-fulfillment';
   };
   options: {
     draftAndPublish: false;
   };
   attributes: {
-    affectedFields: Schema.Attribute.JSON;
-    automatedAction: Schema.Attribute.String &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 100;
-      }>;
-    changedBy: Schema.Attribute.Relation<
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    deliveredAt: Schema.Attribute.DateTime;
+    fulfilledBy: Schema.Attribute.Relation<
       'manyToOne',
       'plugin::users-permissions.user'
     >;
-    changeReason: Schema.Attribute.Text &
+    fulfillmentNumber: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
       Schema.Attribute.SetMinMaxLength<{
-        maxLength: 500;
+        maxLength: 50;
       }>;
-    changeSource: Schema.Attribute.Enumeration<
-      [
-        'customer',
-        'admin',
+    items: Schema.Attribute.JSON & Schema.Attribute.Required;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::order.order-fulfillment'
+    > &
+      Schema.Attribute.Private;
+    metadata: Schema.Attribute.JSON;
+    order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'> &
+      Schema.Attribute.Required;
+    publishedAt: Schema.Attribute.DateTime;
+    shippedAt: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<['shipped', 'delivered']> &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'shipped'>;
+    tracking: Schema.Attribute.Relation<
+      'oneToOne',
+      'api::order.order-tracking'
+    >;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiOrderOrderHistory extends Struct.CollectionTypeSchema {
+  collectionName: 'order_histories';
+  info: {
+    description: 'Order history tracking and audit trail';
+    displayName: 'Order History';
+    pluralName: 'order-histories';
+    singularName: 'order-history';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    affectedFields: Schema.Attribute.JSON;
+    automatedAction: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    changedBy: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    changeReason: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    changeSource: Schema.Attribute.Enumeration<
+      [
+        'customer',
+        'admin',
         'system',
         'payment_gateway',
         'shipping_carrier',
@@ -1660,6 +2018,8 @@ export interface ApiOrderOrderTracking extends Struct.CollectionTypeSchema {
       Schema.Attribute.SetMinMaxLength<{
         maxLength: 1000;
       }>;
+    direction: Schema.Attribute.Enumeration<['outbound', 'return']> &
+      Schema.Attribute.DefaultTo<'outbound'>;
     estimatedDelivery: Schema.Attribute.DateTime;
     isActive: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<true>;
     lastRetryAt: Schema.Attribute.DateTime;
@@ -1886,7 +2246,20 @@ export interface ApiPaymentPayment extends Struct.CollectionTypeSchema {
         maxLength: 3;
       }> &
       Schema.Attribute.DefaultTo<'USD'>;
+    gatewayCode: Schema.Attribute.String;
+    gatewayData: Schema.Attribute.JSON;
     gatewayId: Schema.Attribute.String;
+    gatewayStatus: Schema.Attribute.Enumeration<
+      [
+        'requires_authorization',
+        'authorized',
+        'captured',
+        'voided',
+        'partially_refunded',
+        'refunded',
+        'failed',
+      ]
+    >;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
@@ -1984,6 +2357,70 @@ export interface ApiPaymentPaymentConfirmation
   };
 }
 
+export interface ApiPaymentPaymentWebhookEvent
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'payment_webhook_events';
+  info: {
+    description: 'Raw payment gateway webhook events and their processing outcome';
+    displayName: 'Payment Webhook Event';
+    pluralName: 'payment-webhook-events';
+    singularName: 'payment-webhook-event';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    error: Schema.Attribute.Text;
+    eventId: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    eventKey: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    eventType: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    gatewayCode: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    intentId: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::payment.payment-webhook-event'
+    > &
+      Schema.Attribute.Private;
+    occurredAt: Schema.Attribute.DateTime;
+    payload: Schema.Attribute.JSON & Schema.Attribute.Required;
+    payment: Schema.Attribute.Relation<'manyToOne', 'api::payment.payment'>;
+    processedAt: Schema.Attribute.DateTime;
+    publishedAt: Schema.Attribute.DateTime;
+    receivedAt: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    status: Schema.Attribute.Enumeration<
+      ['received', 'processed', 'ignored', 'failed']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'received'>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiPrivacySettingPrivacySetting
   extends Struct.CollectionTypeSchema {
   collectionName: 'privacy_settings';
@@ -2100,6 +2537,10 @@ export interface ApiProductListingVariantProductListingVariant
         number
       >;
     images: Schema.Attribute.Media<'images'>;
+    inventoryRecord: Schema.Attribute.Relation<
+      'oneToOne',
+      'api::inventory.inventory'
+    >;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
@@ -2275,6 +2716,7 @@ export interface ApiProductProduct extends Struct.CollectionTypeSchema {
     status: Schema.Attribute.Enumeration<['draft', 'active', 'inactive']> &
       Schema.Attribute.Required &
       Schema.Attribute.DefaultTo<'draft'>;
+    taxClass: Schema.Attribute.Relation<'manyToOne', 'api::tax.tax-class'>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -2295,120 +2737,910 @@ export interface ApiProductProduct extends Struct.CollectionTypeSchema {
   };
 }
 
-export interface ApiSecurityEventSecurityEvent
-  extends Struct.CollectionTypeSchema {
-  collectionName: 'security_events';
+export interface ApiPromotionPromotion extends Struct.CollectionTypeSchema {
+  collectionName: 'promotions';
   info: {
-    description: 'Track security events and incidents for monitoring and alerting';
-    displayName: 'Security Event';
-    pluralName: 'security-events';
-    singularName: 'security-event';
+    description: 'Promotion and coupon codes applied to carts and orders';
+    displayName: 'Promotion';
+    pluralName: 'promotions';
+    singularName: 'promotion';
   };
   options: {
     draftAndPublish: false;
   };
-  pluginOptions: {
-    i18n: {
-      localized: false;
-    };
-  };
   attributes: {
-    attemptCount: Schema.Attribute.Integer &
+    buyQuantity: Schema.Attribute.Integer &
       Schema.Attribute.SetMinMax<
         {
-          min: 0;
+          min: 1;
         },
         number
       >;
+    code: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+        minLength: 3;
+      }>;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    eventData: Schema.Attribute.JSON;
-    eventType: Schema.Attribute.Enumeration<
-      [
-        'failed_login',
-        'suspicious_activity',
-        'password_change',
-        'account_lockout',
-        'admin_action',
-        'data_access',
-        'permission_change',
-        'api_abuse',
-        'brute_force_attempt',
-        'unusual_location',
-        'multiple_sessions',
-        'account_deletion',
-      ]
-    > &
-      Schema.Attribute.Required;
-    ipAddress: Schema.Attribute.String &
-      Schema.Attribute.Required &
+    description: Schema.Attribute.Text &
       Schema.Attribute.SetMinMaxLength<{
-        maxLength: 45;
+        maxLength: 1000;
       }>;
+    eligibleCategories: Schema.Attribute.Relation<
+      'manyToMany',
+      'api::category.category'
+    >;
+    eligibleProductListings: Schema.Attribute.Relation<
+      'manyToMany',
+      'api::product-listing.product-listing'
+    >;
+    endsAt: Schema.Attribute.DateTime;
+    getDiscountPercent: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 100;
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<100>;
+    getQuantity: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      >;
+    isActive: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<true>;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
-      'api::security-event.security-event'
+      'api::promotion.promotion'
     > &
       Schema.Attribute.Private;
-    location: Schema.Attribute.String &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 100;
-      }>;
+    maxDiscountAmount: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
     metadata: Schema.Attribute.JSON;
-    publishedAt: Schema.Attribute.DateTime;
-    reason: Schema.Attribute.Text &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 500;
-      }>;
-    resolutionNotes: Schema.Attribute.Text &
+    minimumSubtotal: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
       Schema.Attribute.SetMinMaxLength<{
-        maxLength: 1000;
+        maxLength: 255;
       }>;
-    resolved: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
-    resolvedAt: Schema.Attribute.DateTime;
-    resolvedBy: Schema.Attribute.Relation<'manyToOne', 'admin::user'>;
-    severity: Schema.Attribute.Enumeration<
-      ['low', 'medium', 'high', 'critical']
+    publishedAt: Schema.Attribute.DateTime;
+    startsAt: Schema.Attribute.DateTime;
+    type: Schema.Attribute.Enumeration<
+      ['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y']
     > &
       Schema.Attribute.Required &
-      Schema.Attribute.DefaultTo<'low'>;
-    timestamp: Schema.Attribute.DateTime & Schema.Attribute.Required;
+      Schema.Attribute.DefaultTo<'percentage'>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    user: Schema.Attribute.Relation<
-      'manyToOne',
-      'plugin::users-permissions.user'
+    usageCount: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    usageLimit: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    usageLimitPerCustomer: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    usages: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::promotion.promotion-usage'
     >;
-    userAgent: Schema.Attribute.Text &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 1000;
-      }>;
+    value: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
   };
 }
 
-export interface ApiStockReservationStockReservation
+export interface ApiPromotionPromotionUsage
   extends Struct.CollectionTypeSchema {
-  collectionName: 'stock_reservations';
+  collectionName: 'promotion_usages';
   info: {
-    description: 'Stock reservations for pending orders';
-    displayName: 'Stock Reservation';
-    pluralName: 'stock-reservations';
-    singularName: 'stock-reservation';
+    description: 'Redemptions of promotion codes by orders';
+    displayName: 'Promotion Usage';
+    pluralName: 'promotion-usages';
+    singularName: 'promotion-usage';
   };
   options: {
-    comment: 'Stock reservation system for pending orders';
     draftAndPublish: false;
   };
   attributes: {
-    completedAt: Schema.Attribute.DateTime;
+    code: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    customer: Schema.Attribute.Relation<
-      'manyToOne',
+    discountAmount: Schema.Attribute.Decimal &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::promotion.promotion-usage'
+    > &
+      Schema.Attribute.Private;
+    order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'> &
+      Schema.Attribute.Required;
+    promotion: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::promotion.promotion'
+    > &
+      Schema.Attribute.Required;
+    publishedAt: Schema.Attribute.DateTime;
+    sessionId: Schema.Attribute.String;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    usedAt: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+  };
+}
+
+export interface ApiRefundRefund extends Struct.CollectionTypeSchema {
+  collectionName: 'refunds';
+  info: {
+    description: 'Full, partial and order item refunds with their approval and processing';
+    displayName: 'Refund';
+    pluralName: 'refunds';
+    singularName: 'refund';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    amount: Schema.Attribute.Decimal &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    approvedAt: Schema.Attribute.DateTime;
+    approvedBy: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    currency: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 3;
+      }> &
+      Schema.Attribute.DefaultTo<'USD'>;
+    error: Schema.Attribute.Text;
+    gatewayRefundId: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    itemsAmount: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    lines: Schema.Attribute.JSON;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::refund.refund'
+    > &
+      Schema.Attribute.Private;
+    order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'> &
+      Schema.Attribute.Required;
+    payment: Schema.Attribute.Relation<'manyToOne', 'api::payment.payment'>;
+    processedAt: Schema.Attribute.DateTime;
+    publishedAt: Schema.Attribute.DateTime;
+    reason: Schema.Attribute.Text;
+    reasonCode: Schema.Attribute.Enumeration<
+      [
+        'customer_request',
+        'damaged',
+        'defective',
+        'wrong_item',
+        'not_as_described',
+        'late_delivery',
+        'duplicate_charge',
+        'fraud',
+        'other',
+      ]
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'customer_request'>;
+    rejectionReason: Schema.Attribute.Text;
+    requestedBy: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    restock: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    shippingAmount: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    status: Schema.Attribute.Enumeration<
+      ['requested', 'approved', 'rejected', 'processed', 'failed']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'requested'>;
+    taxAmount: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    type: Schema.Attribute.Enumeration<['full', 'partial', 'items']> &
+      Schema.Attribute.Required;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiReturnRequestReturnRequest
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'return_requests';
+  info: {
+    description: 'Returns of delivered order items from request to inspection and refund';
+    displayName: 'Return Request';
+    pluralName: 'return-requests';
+    singularName: 'return-request';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    approvedAt: Schema.Attribute.DateTime;
+    approvedBy: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    customerNotes: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 1000;
+      }>;
+    inspectedAt: Schema.Attribute.DateTime;
+    inspectedBy: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    items: Schema.Attribute.JSON & Schema.Attribute.Required;
+    labelUrl: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::return-request.return-request'
+    > &
+      Schema.Attribute.Private;
+    order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'> &
+      Schema.Attribute.Required;
+    publishedAt: Schema.Attribute.DateTime;
+    receivedAt: Schema.Attribute.DateTime;
+    refund: Schema.Attribute.Relation<'oneToOne', 'api::refund.refund'>;
+    rejectionReason: Schema.Attribute.Text;
+    returnNumber: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    returnTracking: Schema.Attribute.Relation<
+      'oneToOne',
+      'api::order.order-tracking'
+    >;
+    sessionId: Schema.Attribute.String;
+    status: Schema.Attribute.Enumeration<
+      [
+        'requested',
+        'approved',
+        'rejected',
+        'in_transit',
+        'received',
+        'completed',
+      ]
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'requested'>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+  };
+}
+
+export interface ApiScheduledJobScheduledJob
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'scheduled_jobs';
+  info: {
+    description: 'Run state and lock of the background jobs';
+    displayName: 'Scheduled Job';
+    pluralName: 'scheduled-jobs';
+    singularName: 'scheduled-job';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    lastDuration: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    lastError: Schema.Attribute.Text;
+    lastRunAt: Schema.Attribute.DateTime;
+    lastStatus: Schema.Attribute.Enumeration<['success', 'failed']>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::scheduled-job.scheduled-job'
+    > &
+      Schema.Attribute.Private;
+    lockedBy: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    lockedUntil: Schema.Attribute.DateTime;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    runCount: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    runs: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::scheduled-job.scheduled-job-run'
+    >;
+    schedule: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiScheduledJobScheduledJobRun
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'scheduled_job_runs';
+  info: {
+    description: 'Run history of the background jobs';
+    displayName: 'Scheduled Job Run';
+    pluralName: 'scheduled-job-runs';
+    singularName: 'scheduled-job-run';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    duration: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    error: Schema.Attribute.Text;
+    finishedAt: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    instance: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    job: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::scheduled-job.scheduled-job'
+    > &
+      Schema.Attribute.Required;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::scheduled-job.scheduled-job-run'
+    > &
+      Schema.Attribute.Private;
+    publishedAt: Schema.Attribute.DateTime;
+    result: Schema.Attribute.JSON;
+    startedAt: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    status: Schema.Attribute.Enumeration<['success', 'failed']> &
+      Schema.Attribute.Required;
+    trigger: Schema.Attribute.Enumeration<['schedule', 'manual']> &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'schedule'>;
+    triggeredBy: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiSecurityEventSecurityEvent
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'security_events';
+  info: {
+    description: 'Track security events and incidents for monitoring and alerting';
+    displayName: 'Security Event';
+    pluralName: 'security-events';
+    singularName: 'security-event';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  pluginOptions: {
+    i18n: {
+      localized: false;
+    };
+  };
+  attributes: {
+    attemptCount: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    eventData: Schema.Attribute.JSON;
+    eventType: Schema.Attribute.Enumeration<
+      [
+        'failed_login',
+        'suspicious_activity',
+        'password_change',
+        'account_lockout',
+        'admin_action',
+        'data_access',
+        'permission_change',
+        'api_abuse',
+        'brute_force_attempt',
+        'unusual_location',
+        'multiple_sessions',
+        'account_deletion',
+      ]
+    > &
+      Schema.Attribute.Required;
+    ipAddress: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 45;
+      }>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::security-event.security-event'
+    > &
+      Schema.Attribute.Private;
+    location: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    metadata: Schema.Attribute.JSON;
+    publishedAt: Schema.Attribute.DateTime;
+    reason: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    resolutionNotes: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 1000;
+      }>;
+    resolved: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    resolvedAt: Schema.Attribute.DateTime;
+    resolvedBy: Schema.Attribute.Relation<'manyToOne', 'admin::user'>;
+    severity: Schema.Attribute.Enumeration<
+      ['low', 'medium', 'high', 'critical']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'low'>;
+    timestamp: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    userAgent: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 1000;
+      }>;
+  };
+}
+
+export interface ApiShippingCarrier extends Struct.CollectionTypeSchema {
+  collectionName: 'carriers';
+  info: {
+    description: 'Shipping carrier with its tracking adapter and credentials';
+    displayName: 'Carrier';
+    pluralName: 'carriers';
+    singularName: 'carrier';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    adapter: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    apiKey: Schema.Attribute.String &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    apiUrl: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    code: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    isActive: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<true>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::shipping.carrier'
+    > &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    pollIntervalMinutes: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 5;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<30>;
+    publishedAt: Schema.Attribute.DateTime;
+    settings: Schema.Attribute.JSON;
+    supportedCountries: Schema.Attribute.JSON;
+    trackingUrlTemplate: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    webhookSecret: Schema.Attribute.String &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 200;
+      }>;
+  };
+}
+
+export interface ApiShippingShippingMethod extends Struct.CollectionTypeSchema {
+  collectionName: 'shipping_methods';
+  info: {
+    description: 'Shipping method offered in a zone with its rate table';
+    displayName: 'Shipping Method';
+    pluralName: 'shipping-methods';
+    singularName: 'shipping-method';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    baseRate: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    code: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    description: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    dimensionalWeightDivisor: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<5000>;
+    estimatedDays: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    freeShippingThreshold: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    isActive: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<true>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::shipping.shipping-method'
+    > &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    provider: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }> &
+      Schema.Attribute.DefaultTo<'table'>;
+    providerConfig: Schema.Attribute.JSON;
+    publishedAt: Schema.Attribute.DateTime;
+    rateBasis: Schema.Attribute.Enumeration<
+      ['flat', 'weight', 'price', 'item_count']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'flat'>;
+    rateTable: Schema.Attribute.JSON;
+    sortOrder: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    useDimensionalWeight: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<false>;
+    zone: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::shipping.shipping-zone'
+    > &
+      Schema.Attribute.Required;
+  };
+}
+
+export interface ApiShippingShippingZone extends Struct.CollectionTypeSchema {
+  collectionName: 'shipping_zones';
+  info: {
+    description: 'Set of countries/regions sharing the same shipping methods';
+    displayName: 'Shipping Zone';
+    pluralName: 'shipping-zones';
+    singularName: 'shipping-zone';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    countries: Schema.Attribute.JSON;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    isActive: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<true>;
+    isFallback: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<false>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::shipping.shipping-zone'
+    > &
+      Schema.Attribute.Private;
+    methods: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::shipping.shipping-method'
+    >;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    regions: Schema.Attribute.JSON;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiStockLocationStockLocation
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'stock_locations';
+  info: {
+    description: 'Warehouses and stores holding inventory';
+    displayName: 'Stock Location';
+    pluralName: 'stock-locations';
+    singularName: 'stock-location';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    address1: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    city: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    code: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    country: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 2;
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    fulfillsOnlineOrders: Schema.Attribute.Boolean &
+      Schema.Attribute.DefaultTo<true>;
+    isActive: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<true>;
+    levels: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::inventory.inventory-level'
+    >;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::stock-location.stock-location'
+    > &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    postalCode: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 20;
+      }>;
+    priority: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    publishedAt: Schema.Attribute.DateTime;
+    state: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiStockReservationStockReservation
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'stock_reservations';
+  info: {
+    description: 'Stock reservations for pending orders';
+    displayName: 'Stock Reservation';
+    pluralName: 'stock-reservations';
+    singularName: 'stock-reservation';
+  };
+  options: {
+    comment: 'Stock reservation system for pending orders';
+    draftAndPublish: false;
+  };
+  attributes: {
+    completedAt: Schema.Attribute.DateTime;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    customer: Schema.Attribute.Relation<
+      'manyToOne',
       'plugin::users-permissions.user'
     >;
     expiresAt: Schema.Attribute.DateTime & Schema.Attribute.Required;
@@ -2418,11 +3650,14 @@ export interface ApiStockReservationStockReservation
       'api::stock-reservation.stock-reservation'
     > &
       Schema.Attribute.Private;
+    location: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::stock-location.stock-location'
+    >;
     metadata: Schema.Attribute.JSON;
     order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'> &
       Schema.Attribute.Required;
-    product: Schema.Attribute.Relation<'manyToOne', 'api::product.product'> &
-      Schema.Attribute.Required;
+    product: Schema.Attribute.Relation<'manyToOne', 'api::product.product'>;
     publishedAt: Schema.Attribute.DateTime;
     quantity: Schema.Attribute.Integer &
       Schema.Attribute.Required &
@@ -2442,6 +3677,171 @@ export interface ApiStockReservationStockReservation
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
+    variant: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::product-listing-variant.product-listing-variant'
+    >;
+  };
+}
+
+export interface ApiTaxTaxClass extends Struct.CollectionTypeSchema {
+  collectionName: 'tax_classes';
+  info: {
+    description: 'Groups of products taxed at the same rates (e.g. reduced-rate, exempt)';
+    displayName: 'Tax Class';
+    pluralName: 'tax-classes';
+    singularName: 'tax-class';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    code: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    description: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    isExempt: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<false>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::tax.tax-class'
+    > &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    products: Schema.Attribute.Relation<'oneToMany', 'api::product.product'>;
+    publishedAt: Schema.Attribute.DateTime;
+    rates: Schema.Attribute.Relation<'oneToMany', 'api::tax.tax-rate'>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiTaxTaxRate extends Struct.CollectionTypeSchema {
+  collectionName: 'tax_rates';
+  info: {
+    description: 'Tax rates by jurisdiction (country, state/province and postal code range)';
+    displayName: 'Tax Rate';
+    pluralName: 'tax-rates';
+    singularName: 'tax-rate';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    country: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 2;
+        minLength: 2;
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    isActive: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<true>;
+    isCompound: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<false>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<'oneToMany', 'api::tax.tax-rate'> &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    postalCodeFrom: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 20;
+      }>;
+    postalCodeTo: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 20;
+      }>;
+    priority: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<1>;
+    publishedAt: Schema.Attribute.DateTime;
+    rate: Schema.Attribute.Decimal &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 100;
+          min: 0;
+        },
+        number
+      >;
+    state: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    taxClass: Schema.Attribute.Relation<'manyToOne', 'api::tax.tax-class'>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiTaxTaxSetting extends Struct.SingleTypeSchema {
+  collectionName: 'tax_settings';
+  info: {
+    description: 'Store wide tax configuration';
+    displayName: 'Tax Setting';
+    pluralName: 'tax-settings';
+    singularName: 'tax-setting';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    defaultCountry: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 2;
+        minLength: 2;
+      }>;
+    defaultState: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::tax.tax-setting'
+    > &
+      Schema.Attribute.Private;
+    pricesIncludeTax: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<false>;
+    publishedAt: Schema.Attribute.DateTime;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
   };
 }
 
@@ -3314,13 +4714,17 @@ declare module '@strapi/strapi' {
       'api::category.category': ApiCategoryCategory;
       'api::checkout-activity.checkout-activity': ApiCheckoutActivityCheckoutActivity;
       'api::checkout.checkout': ApiCheckoutCheckout;
+      'api::currency.currency': ApiCurrencyCurrency;
       'api::engagement-metrics.engagement-metric': ApiEngagementMetricsEngagementMetric;
       'api::guest.guest': ApiGuestGuest;
       'api::inventory-history.inventory-history': ApiInventoryHistoryInventoryHistory;
       'api::inventory.inventory': ApiInventoryInventory;
+      'api::inventory.inventory-level': ApiInventoryInventoryLevel;
+      'api::notification.notification-delivery': ApiNotificationNotificationDelivery;
       'api::option-group.option-group': ApiOptionGroupOptionGroup;
       'api::option-value.option-value': ApiOptionValueOptionValue;
       'api::order.order': ApiOrderOrder;
+      'api::order.order-fulfillment': ApiOrderOrderFulfillment;
       'api::order.order-history': ApiOrderOrderHistory;
       'api::order.order-item': ApiOrderOrderItem;
       'api::order.order-status': ApiOrderOrderStatus;
@@ -3329,12 +4733,26 @@ declare module '@strapi/strapi' {
       'api::payment-method.payment-method': ApiPaymentMethodPaymentMethod;
       'api::payment.payment': ApiPaymentPayment;
       'api::payment.payment-confirmation': ApiPaymentPaymentConfirmation;
+      'api::payment.payment-webhook-event': ApiPaymentPaymentWebhookEvent;
       'api::privacy-setting.privacy-setting': ApiPrivacySettingPrivacySetting;
       'api::product-listing-variant.product-listing-variant': ApiProductListingVariantProductListingVariant;
       'api::product-listing.product-listing': ApiProductListingProductListing;
       'api::product.product': ApiProductProduct;
+      'api::promotion.promotion': ApiPromotionPromotion;
+      'api::promotion.promotion-usage': ApiPromotionPromotionUsage;
+      'api::refund.refund': ApiRefundRefund;
+      'api::return-request.return-request': ApiReturnRequestReturnRequest;
+      'api::scheduled-job.scheduled-job': ApiScheduledJobScheduledJob;
+      'api::scheduled-job.scheduled-job-run': ApiScheduledJobScheduledJobRun;
       'api::security-event.security-event': ApiSecurityEventSecurityEvent;
+      'api::shipping.carrier': ApiShippingCarrier;
+      'api::shipping.shipping-method': ApiShippingShippingMethod;
+      'api::shipping.shipping-zone': ApiShippingShippingZone;
+      'api::stock-location.stock-location': ApiStockLocationStockLocation;
       'api::stock-reservation.stock-reservation': ApiStockReservationStockReservation;
+      'api::tax.tax-class': ApiTaxTaxClass;
+      'api::tax.tax-rate': ApiTaxTaxRate;
+      'api::tax.tax-setting': ApiTaxTaxSetting;
       'api::user-activity.user-activity': ApiUserActivityUserActivity;
       'api::user-behavior.user-behavior': ApiUserBehaviorUserBehavior;
       'api::user-preference.user-preference': ApiUserPreferenceUserPreference;
@@ -92,13 +92,14 @@ export const CheckoutFlow: React.FC<CheckoutFlowProps> = ({
         throw new Error('Failed to complete step')
       }
 
-      const updatedSession = await response.json()
+      // The session handlers respond with the session under data
+      const { data: updatedSession } = await response.json()
       setStepProgress(updatedSession.stepProgress)
       setCurrentStep(updatedSession.currentStep)
 
-      // Check if checkout is complete
-      if (newStepProgress.currentStep === 'confirmation') {
-        onComplete?.(session.order?.id || '')
+      // Check if checkout is complete, the order placed by the review step comes with the response
+      if (updatedSession.currentStep === 'confirmation') {
+        onComplete?.(updatedSession.order?.documentId || '')
       }
 
       setIsLoading(false)
@@ -127,7 +128,7 @@ export const CheckoutFlow: React.FC<CheckoutFlowProps> = ({
         throw new Error('Failed to move to previous step')
       }
 
-      const updatedSession = await response.json()
+      const { data: updatedSession } = await response.json()
       setStepProgress(updatedSession.stepProgress)
       setCurrentStep(updatedSession.currentStep)
 
@@ -167,7 +168,7 @@ export const CheckoutFlow: React.FC<CheckoutFlowProps> = ({
         throw new Error('Failed to jump to step')
       }
 
-      const updatedSession = await response.json()
+      const { data: updatedSession } = await response.json()
       setStepProgress(updatedSession.stepProgress)
       setCurrentStep(updatedSession.currentStep)
 